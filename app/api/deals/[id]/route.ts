@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeal, saveDeal, deleteDeal } from '@/lib/db/sqlite';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        const deal = getDeal(id);
+        if (!deal) {
+            return NextResponse.json({ success: false, error: 'Deal not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: deal,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error fetching deal';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Update a deal's notes. Stage moves go through POST /api/deals so they are
+ * recorded in the history.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const deal = getDeal(id);
+        if (!deal) {
+            return NextResponse.json({ success: false, error: 'Deal not found' }, { status: 404 });
+        }
+
+        if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+            return NextResponse.json(
+                { success: false, error: 'Notes must be text' },
+                { status: 400 }
+            );
+        }
+
+        const updated = {
+            ...deal,
+            notes: body.notes === undefined ? deal.notes : body.notes || null,
+            updatedAt: new Date().toISOString(),
+        };
+        saveDeal(updated);
+
+        return NextResponse.json({
+            success: true,
+            data: updated,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error updating deal';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Delete a deal and its history
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!deleteDeal(id)) {
+            return NextResponse.json({ success: false, error: 'Deal not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error deleting deal';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
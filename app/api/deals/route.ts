@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getProperty, getLatestAnalysisByPropertyId, getDealByAddressKey, listDeals, saveDeal,
+} from '@/lib/db/sqlite';
+import { getDealKey, moveDeal } from '@/lib/deals/stages';
+import { DealStageSchema, DealStageChangeSchema } from '@/lib/types';
+import type { Deal } from '@/lib/types';
+
+// Fields of a stage move supplied by the caller. An omitted offer keeps the
+// deal's last one; null clears it.
+const StageMoveSchema = DealStageChangeSchema
+    .omit({ previousStage: true, changedAt: true })
+    .extend({ offerAmount: DealStageChangeSchema.shape.offerAmount.removeDefault().optional() })
+    .partial({ date: true });
+
+/**
+ * Deals with the listing and underwriting figures shown on the board.
+ * ?stage= limits the list to one stage; ?propertyId= returns the deal for
+ * that property's address (null when it has none).
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const propertyId = searchParams.get('propertyId');
+        const stage = searchParams.get('stage');
+
+        if (propertyId) {
+            const property = getProperty(propertyId);
+            if (!property) {
+                return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+            }
+
+            return NextResponse.json({
+                success: true,
+                data: getDealByAddressKey(getDealKey(property)),
+            });
+        }
+
+        const parsedStage = stage ? DealStageSchema.safeParse(stage) : null;
+        if (parsedStage && !parsedStage.success) {
+            return NextResponse.json(
+                { success: false, error: `Invalid stage. Must be one of: ${DealStageSchema.options.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const deals = listDeals(parsedStage?.data).map(withListing);
+
+        return NextResponse.json({
+            success: true,
+            data: deals,
+        });
+
+    } catch (error) {
+        console.error('Deals API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch deals';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Move a property to a deal stage: { propertyId, stage, offerAmount?, date?, note? }.
+ * Leave offerAmount out to keep the deal's last offer, or send null to clear it.
+ * Starts a deal for the property's address if it has none.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.propertyId !== 'string' || !body.propertyId) {
+            return NextResponse.json(
+                { success: false, error: 'Property ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const property = getProperty(body.propertyId);
+        if (!property) {
+            return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+        }
+
+        const parsed = StageMoveSchema.safeParse({
+            stage: body.stage,
+            offerAmount: body.offerAmount,
+            date: body.date || undefined,
+            note: body.note || null,
+        });
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                { status: 400 }
+            );
+        }
+
+        const deal = moveDeal(getDealByAddressKey(getDealKey(property)), property, parsed.data);
+        saveDeal(deal);
+
+        return NextResponse.json({
+            success: true,
+            data: deal,
+        });
+
+    } catch (error) {
+        console.error('Deals API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to move deal';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+// Card figures from the deal's latest listing and its analysis
+function withListing(deal: Deal) {
+    const property = getProperty(deal.propertyId);
+    const analysis = getLatestAnalysisByPropertyId(deal.propertyId);
+
+    return {
+        ...deal,
+        listing: property
+            ? {
+                askingPrice: property.askingPrice,
+                rent: property.rent,
+                bedrooms: property.bedrooms,
+                bathrooms: property.bathrooms,
+            }
+            : null,
+        analysis: analysis
+            ? {
+                monthlyCashflow: analysis.netCashflow,
+                dscr: analysis.dscr,
+                maxOffer: analysis.maxOffer,
+                maxOfferUnconstrained: analysis.maxOfferUnconstrained,
+            }
+            : null,
+    };
+}
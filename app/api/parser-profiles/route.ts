@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { PARSER_PROFILES, DEFAULT_PARSER_PROFILE_ID } from '@/lib/parser/profiles';
+
+export async function GET() {
+    try {
+        return NextResponse.json({
+            success: true,
+            data: {
+                defaultId: DEFAULT_PARSER_PROFILE_ID,
+                profiles: PARSER_PROFILES.map(({ id, name, description }) => ({ id, name, description })),
+            },
+        });
+
+    } catch (error) {
+        console.error('Parser profiles API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch parser profiles';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
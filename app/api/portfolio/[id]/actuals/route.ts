@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAcquisition, saveMonthlyActuals, deleteMonthlyActual } from '@/lib/db/sqlite';
+import { getForecastYear, normalizeMonth, parseMonthlyActualsCsv } from '@/lib/portfolio/tracker';
+import { MonthlyActualSchema } from '@/lib/types';
+import type { MonthlyActual } from '@/lib/types';
+
+/**
+ * Save monthly actuals for an acquisition: one month as
+ * { month, rentReceived, expenses, vacantDays, notes }, or a CSV of months as
+ * { csv }. A month that already has actuals is replaced.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const acquisition = getAcquisition(id);
+        if (!acquisition) {
+            return NextResponse.json({ success: false, error: 'Acquisition not found' }, { status: 404 });
+        }
+
+        let actuals: MonthlyActual[];
+        let errors: string[] = [];
+
+        if (typeof body.csv === 'string') {
+            ({ actuals, errors } = parseMonthlyActualsCsv(body.csv, id));
+        } else {
+            const parsed = MonthlyActualSchema.safeParse({
+                acquisitionId: id,
+                month: normalizeMonth(String(body.month ?? '')),
+                rentReceived: body.rentReceived,
+                expenses: body.expenses,
+                vacantDays: body.vacantDays ?? 0,
+                notes: body.notes || null,
+            });
+
+            if (!parsed.success) {
+                return NextResponse.json(
+                    { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                    { status: 400 }
+                );
+            }
+            actuals = [parsed.data];
+        }
+
+        // Nothing is projected for the months before the closing
+        const beforeClosing = actuals.filter(actual => getForecastYear(acquisition.closingDate, actual.month) < 1);
+        for (const actual of beforeClosing) {
+            errors.push(`${actual.month} is before the ${acquisition.closingDate} closing`);
+        }
+        actuals = actuals.filter(actual => !beforeClosing.includes(actual));
+
+        if (actuals.length === 0) {
+            return NextResponse.json(
+                { success: false, error: errors.join(', ') || 'No months found in CSV' },
+                { status: 400 }
+            );
+        }
+
+        saveMonthlyActuals(actuals);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                saved: actuals.length,
+                errors,
+            },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error saving actuals';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Delete one month of actuals (?month=YYYY-MM)
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { searchParams } = new URL(request.url);
+        const month = normalizeMonth(searchParams.get('month') ?? '');
+
+        if (!month) {
+            return NextResponse.json(
+                { success: false, error: 'Month is required (YYYY-MM)' },
+                { status: 400 }
+            );
+        }
+
+        if (!deleteMonthlyActual(id, month)) {
+            return NextResponse.json({ success: false, error: 'No actuals for that month' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id, month },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error deleting actuals';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getAllSettings, getAcquisition, listMonthlyActuals, saveAcquisition, deleteAcquisition,
+} from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
+import { compareAcquisition } from '@/lib/portfolio/tracker';
+import { AcquisitionSchema } from '@/lib/types';
+
+// Terms that can be corrected after the acquisition is recorded
+const EDITABLE_FIELDS = [
+    'purchasePrice', 'closingCosts', 'rehabCost', 'loanAmount',
+    'interestRate', 'loanTermYears', 'closingDate', 'notes',
+] as const;
+
+/**
+ * One acquisition with its monthly actuals compared to the analysis and projection
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        const acquisition = getAcquisition(id);
+        if (!acquisition) {
+            return NextResponse.json({ success: false, error: 'Acquisition not found' }, { status: 404 });
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+
+        return NextResponse.json({
+            success: true,
+            data: compareAcquisition(acquisition, listMonthlyActuals(id), settings),
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error fetching acquisition';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const acquisition = getAcquisition(id);
+        if (!acquisition) {
+            return NextResponse.json({ success: false, error: 'Acquisition not found' }, { status: 404 });
+        }
+
+        const updates: Record<string, unknown> = {};
+        for (const field of EDITABLE_FIELDS) {
+            if (body[field] !== undefined) updates[field] = body[field];
+        }
+
+        const parsed = AcquisitionSchema.safeParse({
+            ...acquisition,
+            ...updates,
+            updatedAt: new Date().toISOString(),
+        });
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                { status: 400 }
+            );
+        }
+
+        saveAcquisition(parsed.data);
+
+        return NextResponse.json({
+            success: true,
+            data: parsed.data,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error updating acquisition';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Remove a property from the portfolio, with its monthly actuals
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!deleteAcquisition(id)) {
+            return NextResponse.json({ success: false, error: 'Acquisition not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error deleting acquisition';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    getAllSettings, getProperty, getLatestAnalysisByPropertyId,
+    getAcquisitionByPropertyId, listAcquisitions, listMonthlyActuals, saveAcquisition,
+} from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
+import { compareAcquisition, summarizePortfolio } from '@/lib/portfolio/tracker';
+import { AcquisitionSchema } from '@/lib/types';
+
+/**
+ * Every acquisition with its actuals compared to the analysis and projection,
+ * plus portfolio totals
+ */
+export async function GET() {
+    try {
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+        const actuals = listMonthlyActuals();
+
+        const properties = listAcquisitions().map(acquisition =>
+            compareAcquisition(
+                acquisition,
+                actuals.filter(actual => actual.acquisitionId === acquisition.id),
+                settings
+            )
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: summarizePortfolio(properties),
+        });
+
+    } catch (error) {
+        console.error('Portfolio API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch portfolio';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Mark an analyzed property acquired. Terms left out of the body default to
+ * the property's latest analysis; the closing date is required.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.propertyId !== 'string' || !body.propertyId) {
+            return NextResponse.json(
+                { success: false, error: 'Property ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const property = getProperty(body.propertyId);
+        if (!property) {
+            return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+        }
+
+        if (getAcquisitionByPropertyId(property.id)) {
+            return NextResponse.json(
+                { success: false, error: 'Property is already in the portfolio' },
+                { status: 409 }
+            );
+        }
+
+        const analysis = getLatestAnalysisByPropertyId(property.id);
+        if (!analysis) {
+            return NextResponse.json(
+                { success: false, error: 'Property has not been analyzed' },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date().toISOString();
+        const parsed = AcquisitionSchema.safeParse({
+            id: uuidv4(),
+            propertyId: property.id,
+            analysis,
+            address: property.address,
+            purchasePrice: body.purchasePrice ?? analysis.purchasePrice,
+            closingCosts: body.closingCosts ?? analysis.closingCosts,
+            rehabCost: body.rehabCost ?? analysis.rehabCost,
+            loanAmount: body.loanAmount ?? analysis.loanAmount,
+            interestRate: body.interestRate ?? analysis.interestRate,
+            loanTermYears: body.loanTermYears ?? analysis.loanTermYears,
+            closingDate: body.closingDate,
+            notes: body.notes || null,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                { status: 400 }
+            );
+        }
+
+        saveAcquisition(parsed.data);
+
+        return NextResponse.json({
+            success: true,
+            data: parsed.data,
+        });
+
+    } catch (error) {
+        console.error('Portfolio API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to add property to portfolio';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllSettings, getProperty, getHistoricalProperties } from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
+import { findComps, checkAgainstComps } from '@/lib/comps/finder';
+
+/**
+ * Rent and price comps for a property from earlier runs, with any outlier
+ * issues under the saved comps settings.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Property ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const property = getProperty(id);
+
+        if (!property) {
+            return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+        const history = getHistoricalProperties({
+            excludeRunId: property.runId,
+            zip: property.zip,
+            city: property.city,
+        });
+
+        const comps = findComps(property, history, settings.compsMinSampleSize);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                propertyId: id,
+                comps,
+                issues: comps
+                    ? checkAgainstComps(property, comps, settings.compsOutlierPercent, settings.compsMinSampleSize)
+                    : [],
+            },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error finding comps';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
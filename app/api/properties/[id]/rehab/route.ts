@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllSettings, getProperty } from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
+import { getRehabEstimate } from '@/lib/underwriting/rehab';
+
+/**
+ * Our rehab estimate for a property's repair list, priced with the saved
+ * cost catalog, next to the wholesaler's figure.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Property ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const property = getProperty(id);
+
+        if (!property) {
+            return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                propertyId: id,
+                wholesalerRehab: property.rehabNeeded,
+                estimate: getRehabEstimate(property, settings),
+            },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error estimating rehab';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllSettings, getLatestAnalysisByPropertyId } from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings, getLoanPrograms, getStressShocks } from '@/lib/filter/engine';
+import { runStressTest, getStressInput } from '@/lib/underwriting/stress';
+import type { StressShocks } from '@/lib/types';
+
+const SHOCK_KEYS: (keyof StressShocks)[] = [
+    'ratePoints', 'rentPercent', 'vacancyPoints', 'taxPercent', 'insurancePercent', 'pricePercent',
+];
+
+/**
+ * Stress test the latest analysis of a property.
+ * Shock sizes come from saved settings; any of them can be overridden
+ * with a query parameter of the same name (e.g. ?ratePoints=3&rentPercent=15).
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Property ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const analysis = getLatestAnalysisByPropertyId(id);
+
+        if (!analysis) {
+            return NextResponse.json(
+                { success: false, error: 'No analysis found for this property' },
+                { status: 404 }
+            );
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+        const shocks = getStressShocks(settings);
+
+        for (const key of SHOCK_KEYS) {
+            const override = request.nextUrl.searchParams.get(key);
+            if (override === null) continue;
+
+            const value = parseFloat(override);
+            if (!Number.isFinite(value) || value < 0) {
+                return NextResponse.json(
+                    { success: false, error: `${key} must be a non-negative number` },
+                    { status: 400 }
+                );
+            }
+            shocks[key] = value;
+        }
+
+        const program = getLoanPrograms(settings).find(p => p.id === analysis.loanProgramId);
+        const result = runStressTest(getStressInput(analysis, program), shocks, settings.stressMinDscr);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                propertyId: id,
+                analysisId: analysis.id,
+                shocks,
+                ...result,
+            },
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error running stress test';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
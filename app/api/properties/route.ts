@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPropertiesByRunId, updateProperty } from '@/lib/db/sqlite';
+import { getPropertiesByRunId, getProperty, updateProperty } from '@/lib/db/sqlite';
+import { withManualProvenance } from '@/lib/parser/provenance';
 
 export async function GET(request: NextRequest) {
     try {
@@ -37,7 +38,14 @@ export async function PATCH(request: NextRequest) {
             );
         }
 
-        const property = updateProperty(id, updates);
+        const existing = getProperty(id);
+
+        if (!existing) {
+            return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
+        }
+
+        // Edited fields now come from the reviewer
+        const property = updateProperty(id, { ...updates, provenance: withManualProvenance(existing, updates) });
 
         if (!property) {
             return NextResponse.json({ success: false, error: 'Property not found' }, { status: 404 });
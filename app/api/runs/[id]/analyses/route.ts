@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestAnalysesByRunId } from '@/lib/db/sqlite';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Run ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const analyses = getLatestAnalysesByRunId(id);
+
+        return NextResponse.json({
+            success: true,
+            data: analyses,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error fetching analyses';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
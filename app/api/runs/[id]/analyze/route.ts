@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { resumePipeline } from '@/lib/pipeline/orchestrator';
+import { getAllSettings } from '@/lib/db/sqlite';
+import { parseStoredSettings } from '@/lib/filter/engine';
 
 export async function POST(
     request: NextRequest,
@@ -17,9 +19,9 @@ export async function POST(
             );
         }
 
-        // Resume the pipeline
+        // Resume the pipeline with saved settings, overridden by any sent with the request
         const result = await resumePipeline(id, {
-            settings,
+            settings: { ...parseStoredSettings(getAllSettings()), ...settings },
             onProgress: (step, progress, message) => {
                 console.log(`[RESUME:${id}] [${step}] ${progress}% - ${message}`);
             },
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listArtifacts } from '@/lib/db/sqlite';
+import type { LayoutComparison } from '@/lib/types';
+
+/**
+ * GET /api/runs/[id]/layout-comparison
+ * Pages of a layout-mode run parsed both ways: listings found by the text path and
+ * by the layout path, and which one the run kept
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Run ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const comparisons = listArtifacts(id, 'layout-comparison')
+            .map(artifact => artifact.metadata as unknown as LayoutComparison)
+            .sort((a, b) => a.page - b.page);
+
+        return NextResponse.json({
+            success: true,
+            data: comparisons,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error fetching layout comparison';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllSettings, getLatestAnalysesByRunId, getPropertiesByRunId } from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
+import { rankProperties } from '@/lib/ranking/scorer';
+import { optimizePortfolio, type PortfolioObjective } from '@/lib/ranking/portfolio';
+
+const VALID_OBJECTIVES: PortfolioObjective[] = ['cashflow', 'totalReturn', 'score'];
+
+/**
+ * Choose the best basket of a run's analyzed properties for a capital budget.
+ * Body: { capital, maxProperties?, maxPerZip?, objective? }; anything left out
+ * comes from saved settings.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: 'Run ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+        const {
+            capital = settings.portfolioCapital,
+            maxProperties = settings.portfolioMaxProperties,
+            maxPerZip = settings.portfolioMaxPerZip > 0 ? settings.portfolioMaxPerZip : null,
+            objective = settings.portfolioObjective,
+        } = body;
+
+        if (typeof capital !== 'number' || capital <= 0) {
+            return NextResponse.json(
+                { success: false, error: 'Capital must be a positive number' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof maxProperties !== 'number' || maxProperties < 1) {
+            return NextResponse.json(
+                { success: false, error: 'Max properties must be at least 1' },
+                { status: 400 }
+            );
+        }
+
+        if (maxPerZip !== null && (typeof maxPerZip !== 'number' || maxPerZip < 1)) {
+            return NextResponse.json(
+                { success: false, error: 'Max per ZIP must be at least 1, or null for no limit' },
+                { status: 400 }
+            );
+        }
+
+        if (!VALID_OBJECTIVES.includes(objective)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid objective. Must be one of: ${VALID_OBJECTIVES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const analyses = getLatestAnalysesByRunId(id);
+
+        if (analyses.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No analyses found for this run' },
+                { status: 404 }
+            );
+        }
+
+        const { ranked } = rankProperties(getPropertiesByRunId(id), analyses, {
+            scenario: settings.rankOnConservative ? 'conservative' : undefined,
+            afterTax: settings.afterTaxEnabled,
+        });
+
+        const portfolio = optimizePortfolio(ranked, { capital, maxProperties, maxPerZip, objective });
+
+        return NextResponse.json({
+            success: true,
+            data: portfolio,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error optimizing portfolio';
+        return NextResponse.json({ success: false, error: message }, { status: 500 });
+    }
+}
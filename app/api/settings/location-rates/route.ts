@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setSetting, getAllSettings } from '@/lib/db/sqlite';
+import { mergeSettings, parseStoredSettings, serializeSettingValue } from '@/lib/filter/engine';
+import { parseLocationRatesCsv, mergeLocationRates } from '@/lib/underwriting/location';
+
+/**
+ * Import the property tax / insurance location table from CSV.
+ * Rows replace existing rows for the same ZIP, city or county, or the whole
+ * table when `replace` is set.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.csv !== 'string' || !body.csv.trim()) {
+            return NextResponse.json(
+                { success: false, error: 'CSV text is required' },
+                { status: 400 }
+            );
+        }
+
+        const { rates, errors } = parseLocationRatesCsv(body.csv);
+        if (rates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: errors.join(', ') || 'No rows found in CSV' },
+                { status: 400 }
+            );
+        }
+
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+        const locationRates = body.replace ? rates : mergeLocationRates(settings.locationRates, rates);
+
+        setSetting('locationRates', serializeSettingValue(locationRates));
+
+        return NextResponse.json({
+            success: true,
+            data: { locationRates, imported: rates.length, errors },
+        });
+
+    } catch (error) {
+        console.error('Location rates import error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to import location rates';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
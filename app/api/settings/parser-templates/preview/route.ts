@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PARSER_PROFILES } from '@/lib/parser/profiles';
+import { parsePropertiesFromText } from '@/lib/parser/section8';
+import { compileTemplate, extractTemplateValues } from '@/lib/parser/templates';
+import { ParserTemplateSchema } from '@/lib/types';
+
+const TemplateBodySchema = ParserTemplateSchema.pick({ profileId: true, fields: true });
+
+/**
+ * Run a template (saved or not) against sample text: the listings the parser
+ * would produce with it, and what each field matched in the whole sample
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.text !== 'string' || !body.text.trim()) {
+            return NextResponse.json(
+                { success: false, error: 'Sample text is required' },
+                { status: 400 }
+            );
+        }
+
+        const parsed = TemplateBodySchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                { status: 400 }
+            );
+        }
+
+        const { profileId, fields } = parsed.data;
+        const text: string = body.text;
+        const profile = PARSER_PROFILES.find(p => p.id === profileId);
+        if (!profile) {
+            return NextResponse.json(
+                { success: false, error: `Unknown parser profile: ${profileId}` },
+                { status: 400 }
+            );
+        }
+
+        const result = parsePropertiesFromText(text, 'preview', { profile, template: fields });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                matches: extractTemplateValues(text, compileTemplate(fields)),
+                properties: result.properties.map(property => ({
+                    address: property.address ?? null,
+                    city: property.city ?? null,
+                    state: property.state ?? null,
+                    zip: property.zip ?? null,
+                    askingPrice: property.askingPrice ?? null,
+                    suggestedOffer: property.suggestedOffer ?? null,
+                    rentMin: property.rentMin ?? null,
+                    rentMax: property.rentMax ?? null,
+                    arv: property.arv ?? null,
+                    rehabNeeded: property.rehabNeeded ?? null,
+                    bedrooms: property.bedrooms ?? null,
+                    bathrooms: property.bathrooms ?? null,
+                    sqft: property.sqft ?? null,
+                    zillowStatus: property.zillowStatus ?? null,
+                    reviewNotes: property.reviewNotes ?? null,
+                })),
+                errors: result.errors,
+            },
+        });
+
+    } catch (error) {
+        console.error('Parser template preview error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to preview parser template';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
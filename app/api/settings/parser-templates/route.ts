@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getParserTemplate, saveParserTemplate, deleteParserTemplate } from '@/lib/db/sqlite';
+import { PARSER_PROFILES } from '@/lib/parser/profiles';
+import { ParserTemplateSchema } from '@/lib/types';
+
+const TemplateBodySchema = ParserTemplateSchema.pick({ profileId: true, fields: true });
+
+/**
+ * Field template for every parser profile: the stored one when it has been
+ * edited, the profile's built-in one otherwise
+ */
+export async function GET() {
+    try {
+        const templates = PARSER_PROFILES.map(profile => {
+            const stored = getParserTemplate(profile.id);
+            return {
+                profileId: profile.id,
+                name: profile.name,
+                description: profile.description,
+                fields: stored?.fields ?? profile.template,
+                builtInFields: profile.template,
+                updatedAt: stored?.updatedAt ?? null,
+            };
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: templates,
+        });
+
+    } catch (error) {
+        console.error('Parser templates API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch parser templates';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Save an edited template; later runs with the profile read fields with it
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = TemplateBodySchema.safeParse(await request.json());
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ') },
+                { status: 400 }
+            );
+        }
+
+        if (!PARSER_PROFILES.some(profile => profile.id === parsed.data.profileId)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown parser profile: ${parsed.data.profileId}` },
+                { status: 400 }
+            );
+        }
+
+        const template = saveParserTemplate(parsed.data.profileId, parsed.data.fields);
+
+        return NextResponse.json({
+            success: true,
+            data: template,
+        });
+
+    } catch (error) {
+        console.error('Parser template save error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to save parser template';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Drop the edited template so the profile's built-in one applies again
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const profileId = searchParams.get('profileId');
+
+        if (!profileId) {
+            return NextResponse.json(
+                { success: false, error: 'profileId is required' },
+                { status: 400 }
+            );
+        }
+
+        const deleted = deleteParserTemplate(profileId);
+
+        return NextResponse.json({
+            success: true,
+            data: { deleted },
+        });
+
+    } catch (error) {
+        console.error('Parser templates API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to reset parser template';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
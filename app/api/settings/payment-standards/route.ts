@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listPaymentStandards, savePaymentStandards, deletePaymentStandards } from '@/lib/db/sqlite';
+import { parsePaymentStandardsCsv } from '@/lib/validation/payment-standards';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const zip = searchParams.get('zip') || undefined;
+        const standards = listPaymentStandards(zip);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                standards,
+                zipCount: new Set(standards.map(standard => standard.zip)).size,
+            },
+        });
+
+    } catch (error) {
+        console.error('Payment standards API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch payment standards';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Import a HUD Small Area FMR or housing authority payment standard CSV.
+ * Rows replace existing amounts for the same ZIP and bedroom count, or the
+ * whole table when `replace` is set.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.csv !== 'string' || !body.csv.trim()) {
+            return NextResponse.json(
+                { success: false, error: 'CSV text is required' },
+                { status: 400 }
+            );
+        }
+
+        const source = typeof body.source === 'string' && body.source.trim() ? body.source.trim() : 'Imported CSV';
+        const percent = typeof body.percent === 'number' && body.percent > 0 ? body.percent : 100;
+
+        const { standards, errors } = parsePaymentStandardsCsv(body.csv, source, percent);
+        if (standards.length === 0) {
+            return NextResponse.json(
+                { success: false, error: errors.join(', ') || 'No rows found in CSV' },
+                { status: 400 }
+            );
+        }
+
+        savePaymentStandards(standards, body.replace === true);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                imported: standards.length,
+                zipCount: new Set(listPaymentStandards().map(standard => standard.zip)).size,
+                errors,
+            },
+        });
+
+    } catch (error) {
+        console.error('Payment standards import error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to import payment standards';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE() {
+    try {
+        const result = deletePaymentStandards();
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+        });
+
+    } catch (error) {
+        console.error('Payment standards API error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to clear payment standards';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: 500 }
+        );
+    }
+}
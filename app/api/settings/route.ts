@@ -1,30 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSetting, setSetting, getAllSettings } from '@/lib/db/sqlite';
-import { getDefaultSettings, validateSettings, mergeSettings } from '@/lib/filter/engine';
-import type { Settings } from '@/lib/types';
+import {
+    getDefaultSettings,
+    validateSettings,
+    mergeSettings,
+    parseStoredSettings,
+    serializeSettingValue,
+} from '@/lib/filter/engine';
 
 export async function GET() {
     try {
         // Get settings from DB, merge with defaults
-        const stored = getAllSettings();
-        const defaults = getDefaultSettings();
-
-        // Parse stored settings
-        const parsed: Partial<Settings> = {};
-        for (const [key, value] of Object.entries(stored)) {
-            if (key in defaults) {
-                const defaultValue = (defaults as Record<string, unknown>)[key];
-                if (typeof defaultValue === 'number') {
-                    parsed[key as keyof Settings] = parseFloat(value) as never;
-                } else if (typeof defaultValue === 'boolean') {
-                    parsed[key as keyof Settings] = (value === 'true') as never;
-                } else {
-                    parsed[key as keyof Settings] = value as never;
-                }
-            }
-        }
-
-        const settings = mergeSettings(parsed);
+        const settings = mergeSettings(parseStoredSettings(getAllSettings()));
 
         return NextResponse.json({
             success: true,
@@ -57,7 +44,7 @@ export async function POST(request: NextRequest) {
         // Save each setting
         for (const [key, value] of Object.entries(body)) {
             if (value !== undefined) {
-                setSetting(key, String(value));
+                setSetting(key, serializeSettingValue(value));
             }
         }
 
@@ -86,7 +73,7 @@ export async function PUT(request: NextRequest) {
         const defaults = getDefaultSettings();
 
         for (const [key, value] of Object.entries(defaults)) {
-            setSetting(key, String(value));
+            setSetting(key, serializeSettingValue(value));
         }
 
         return NextResponse.json({
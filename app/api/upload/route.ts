@@ -1,43 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runPipeline } from '@/lib/pipeline/orchestrator';
-import { mergeSettings, getDefaultSettings } from '@/lib/filter/engine';
+import { mergeSettings, parseStoredSettings } from '@/lib/filter/engine';
 import { v4 as uuidv4 } from 'uuid';
 import { createRun, getAllSettings } from '@/lib/db/sqlite';
 import { computeBufferHash } from '@/lib/pdf/splitter';
-import type { Settings } from '@/lib/types';
+import { PARSER_PROFILES } from '@/lib/parser/profiles';
+import { ExtractionModeSchema } from '@/lib/types';
 
 // Use require for pdf-parse to avoid ESM issues
 const pdfParse = require('pdf-parse');
 
-/**
- * Load saved settings from database (same pattern as GET /api/settings)
- */
-function loadSavedSettings(): Partial<Settings> {
-    const stored = getAllSettings();
-    const defaults = getDefaultSettings();
-    const parsed: Partial<Settings> = {};
-
-    for (const [key, value] of Object.entries(stored)) {
-        if (key in defaults) {
-            const defaultValue = (defaults as Record<string, unknown>)[key];
-            if (typeof defaultValue === 'number') {
-                parsed[key as keyof Settings] = parseFloat(value) as never;
-            } else if (typeof defaultValue === 'boolean') {
-                parsed[key as keyof Settings] = (value === 'true') as never;
-            } else {
-                parsed[key as keyof Settings] = value as never;
-            }
-        }
-    }
-    return parsed;
-}
-
 export async function POST(request: NextRequest) {
     try {
         const formData = await request.formData();
         const file = formData.get('file') as File | null;
         const dryRun = formData.get('dryRun') === 'true';
         const settingsJson = formData.get('settings') as string | null;
+        // Blank means detect the list format from the PDF text
+        const parserProfile = (formData.get('parserProfile') as string | null) || undefined;
+        const extractionMode = ExtractionModeSchema.safeParse((formData.get('extractionMode') as string | null) || 'text');
 
         if (!file) {
             return NextResponse.json(
@@ -54,10 +35,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (parserProfile && !PARSER_PROFILES.some(profile => profile.id === parserProfile)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown parser profile: ${parserProfile}` },
+                { status: 400 }
+            );
+        }
+
+        if (!extractionMode.success) {
+            return NextResponse.json(
+                { success: false, error: `Unknown extraction mode: ${formData.get('extractionMode')}` },
+                { status: 400 }
+            );
+        }
+
         // Parse settings: use provided JSON, OR load from DB, OR use defaults
         const settings = settingsJson
             ? mergeSettings(JSON.parse(settingsJson))
-            : mergeSettings(loadSavedSettings());
+            : mergeSettings(parseStoredSettings(getAllSettings()));
 
         // Read file buffer
         const arrayBuffer = await file.arrayBuffer();
@@ -75,6 +70,8 @@ export async function POST(request: NextRequest) {
             fileName,
             fileSize: buffer.length,
             dryRun,
+            parserProfile,
+            extractionMode: extractionMode.data,
         });
 
         // 3. Kick off pipeline in background (fire and forget)
@@ -83,6 +80,8 @@ export async function POST(request: NextRequest) {
         runPipeline(buffer, fileName, {
             runId, // Pass the ID we just created
             dryRun,
+            parserProfile,
+            extractionMode: extractionMode.data,
             targetStage: 'extract-only', // Always stop after extraction/dedup
             settings,
             onProgress: (step, progress, message) => {
@@ -120,6 +119,8 @@ export async function GET() {
                 file: 'PDF file (required)',
                 dryRun: 'boolean - stop after extraction+filter (optional)',
                 settings: 'JSON string of settings (optional)',
+                parserProfile: 'parser profile ID from GET /api/parser-profiles; detected from the PDF when omitted (optional)',
+                extractionMode: "'text' (default) or 'layout' to also parse pages by column and block and keep the better result (optional)",
             },
         },
     });
@@ -0,0 +1,337 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { Deal, DealStage } from '@/lib/types';
+
+interface DealCard extends Deal {
+    listing: {
+        askingPrice: number | null;
+        rent: number | null;
+        bedrooms: number | null;
+        bathrooms: number | null;
+    } | null;
+    analysis: {
+        monthlyCashflow: number;
+        dscr: number;
+        maxOffer: number | null;
+        maxOfferUnconstrained: boolean;
+    } | null;
+}
+
+const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+    'watching': '👀 Watching',
+    'contacted': '📞 Contacted',
+    'offer-sent': '📨 Offer Sent',
+    'countered': '🔁 Countered',
+    'under-contract': '📝 Under Contract',
+    'closed': '🏠 Closed',
+    'passed': '🚫 Passed',
+};
+
+// Stages where a move asks for the offer amount
+const OFFER_STAGES: DealStage[] = ['offer-sent', 'countered', 'under-contract'];
+
+const formatMoney = (value: number | null | undefined): string =>
+    value != null ? `$${Math.round(value).toLocaleString()}` : '-';
+
+export default function DealsPage() {
+    const [deals, setDeals] = useState<DealCard[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchDeals();
+    }, []);
+
+    const fetchDeals = async () => {
+        try {
+            const response = await fetch('/api/deals');
+            const result = await response.json();
+            if (result.success) {
+                setDeals(result.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch deals:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const moveDeal = async (deal: DealCard, update: { stage: DealStage; offerAmount?: number | null; date?: string; note?: string }) => {
+        setError(null);
+        try {
+            const response = await fetch('/api/deals', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ propertyId: deal.propertyId, ...update }),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                fetchDeals();
+            } else {
+                setError(result.error);
+            }
+        } catch {
+            setError('Failed to move deal');
+        }
+    };
+
+    const handleDrop = (stage: DealStage) => {
+        const deal = deals.find(d => d.id === draggingId);
+        setDraggingId(null);
+        if (!deal || deal.stage === stage) return;
+
+        // Left out (undefined) keeps the deal's last offer
+        let offerAmount: number | undefined;
+        if (OFFER_STAGES.includes(stage)) {
+            const answer = prompt('Offer amount ($), blank to keep the last one', deal.offerAmount ? String(deal.offerAmount) : '');
+            if (answer === null) return;
+            const amount = Number(answer.replace(/[$,\s]/g, ''));
+            offerAmount = answer.trim() && amount > 0 ? amount : undefined;
+        }
+
+        moveDeal(deal, { stage, offerAmount });
+    };
+
+    const handleSaveNotes = async (deal: DealCard, notes: string) => {
+        if ((deal.notes ?? '') === notes) return;
+
+        try {
+            const response = await fetch(`/api/deals/${deal.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ notes }),
+            });
+            const result = await response.json();
+            if (result.success) {
+                setDeals(prev => prev.map(d => d.id === deal.id ? { ...d, notes: result.data.notes } : d));
+            }
+        } catch (error) {
+            console.error('Failed to save notes:', error);
+        }
+    };
+
+    const handleDelete = async (deal: DealCard) => {
+        if (!confirm(`Delete the deal for ${deal.address || 'this property'} and its history? This cannot be undone.`)) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/deals/${deal.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (result.success) {
+                setSelectedId(null);
+                fetchDeals();
+            }
+        } catch (error) {
+            console.error('Failed to delete deal:', error);
+        }
+    };
+
+    const selectedDeal = deals.find(d => d.id === selectedId);
+
+    if (loading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="text-center">
+                    <div className="text-4xl animate-pulse mb-4">📋</div>
+                    <p className="text-[var(--muted)]">Loading deals...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen p-8">
+            <div className="max-w-[1600px] mx-auto space-y-8">
+                {/* Header */}
+                <header className="flex items-center justify-between">
+                    <div>
+                        <Link href="/" className="text-[var(--muted)] hover:text-[var(--primary)] mb-2 inline-block">
+                            ← Back to Dashboard
+                        </Link>
+                        <h1 className="text-3xl font-bold">📋 Deals</h1>
+                        <p className="text-[var(--muted)] mt-1">
+                            Drag a card to move it. Start a deal from a property&apos;s review page.
+                        </p>
+                    </div>
+                    <button onClick={fetchDeals} className="btn btn-secondary">
+                        🔄 Refresh
+                    </button>
+                </header>
+
+                {error && (
+                    <div className="p-4 rounded-lg bg-red-500/10 text-red-400">{error}</div>
+                )}
+
+                {/* Board */}
+                <div className="grid grid-cols-7 gap-3">
+                    {(Object.keys(DEAL_STAGE_LABELS) as DealStage[]).map(stage => {
+                        const stageDeals = deals.filter(d => d.stage === stage);
+                        return (
+                            <div
+                                key={stage}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={() => handleDrop(stage)}
+                                className="bg-[var(--card-bg)] border border-[var(--card-border)] rounded-lg p-3 min-h-[300px]"
+                            >
+                                <h2 className="text-sm font-bold mb-3 flex justify-between">
+                                    <span>{DEAL_STAGE_LABELS[stage]}</span>
+                                    <span className="text-[var(--muted)]">{stageDeals.length}</span>
+                                </h2>
+                                <div className="space-y-2">
+                                    {stageDeals.map(deal => (
+                                        <div
+                                            key={deal.id}
+                                            draggable
+                                            onDragStart={() => setDraggingId(deal.id)}
+                                            onClick={() => setSelectedId(deal.id === selectedId ? null : deal.id)}
+                                            className={`p-3 rounded-lg border cursor-pointer text-sm transition-colors ${
+                                                deal.id === selectedId
+                                                    ? 'border-[var(--primary)] bg-[rgba(102,126,234,0.1)]'
+                                                    : 'border-[var(--card-border)] hover:bg-[rgba(102,126,234,0.05)]'
+                                            }`}
+                                        >
+                                            <p className="font-medium truncate">{deal.address || 'Unknown Address'}</p>
+                                            <p className="text-xs text-[var(--muted)]">{[deal.city, deal.zip].filter(Boolean).join(' ')}</p>
+                                            <div className="flex justify-between text-xs mt-2">
+                                                <span>Ask {formatMoney(deal.listing?.askingPrice)}</span>
+                                                {deal.offerAmount && <span className="text-[var(--primary)]">Offer {formatMoney(deal.offerAmount)}</span>}
+                                            </div>
+                                            <p className="text-xs text-[var(--muted)] mt-1">
+                                                Since {deal.history.length > 0 ? deal.history[deal.history.length - 1].date : deal.createdAt.substring(0, 10)}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Selected Deal */}
+                {selectedDeal && (
+                    <div className="card grid grid-cols-2 gap-8">
+                        <div className="space-y-4">
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <h2 className="text-xl font-bold">{selectedDeal.address || 'Unknown Address'}</h2>
+                                    <p className="text-sm text-[var(--muted)]">
+                                        {[selectedDeal.city, selectedDeal.state, selectedDeal.zip].filter(Boolean).join(', ')}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Link href={`/run/${selectedDeal.runId}/review`} className="btn btn-secondary text-sm">
+                                        Review
+                                    </Link>
+                                    <button onClick={() => handleDelete(selectedDeal)} className="btn btn-danger text-sm">
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-4 text-center">
+                                <div>
+                                    <p className="text-xs text-[var(--muted)]">Asking</p>
+                                    <p className="font-bold">{formatMoney(selectedDeal.listing?.askingPrice)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-xs text-[var(--muted)]">Our Max Offer</p>
+                                    <p className="font-bold">
+                                        {selectedDeal.analysis?.maxOfferUnconstrained ? 'No limit' : formatMoney(selectedDeal.analysis?.maxOffer)}
+                                    </p>
+                                </div>
+                                <div>
+                                    <p className="text-xs text-[var(--muted)]">Cashflow / DSCR</p>
+                                    <p className="font-bold">
+                                        {selectedDeal.analysis
+                                            ? `${formatMoney(selectedDeal.analysis.monthlyCashflow)}/mo · ${selectedDeal.analysis.dscr.toFixed(2)}`
+                                            : '-'}
+                                    </p>
+                                </div>
+                            </div>
+
+                            {/* Move with details */}
+                            <form
+                                key={`${selectedDeal.id}-${selectedDeal.history.length}`}
+                                className="grid grid-cols-2 gap-3"
+                                onSubmit={(e) => {
+                                    e.preventDefault();
+                                    const form = new FormData(e.currentTarget);
+                                    const amount = Number(String(form.get('offerAmount') ?? '').replace(/[$,\s]/g, ''));
+                                    moveDeal(selectedDeal, {
+                                        stage: form.get('stage') as DealStage,
+                                        offerAmount: amount > 0 ? amount : undefined,
+                                        date: String(form.get('date') ?? '') || undefined,
+                                        note: String(form.get('note') ?? ''),
+                                    });
+                                    e.currentTarget.reset();
+                                }}
+                            >
+                                <div>
+                                    <label className="label">Stage</label>
+                                    <select name="stage" className="input w-full" defaultValue={selectedDeal.stage}>
+                                        {(Object.keys(DEAL_STAGE_LABELS) as DealStage[]).map(stage => (
+                                            <option key={stage} value={stage}>{DEAL_STAGE_LABELS[stage]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="label">Date</label>
+                                    <input name="date" type="date" className="input" />
+                                </div>
+                                <div>
+                                    <label className="label">Offer / Counter ($)</label>
+                                    <input name="offerAmount" type="number" className="input" />
+                                </div>
+                                <div>
+                                    <label className="label">Note</label>
+                                    <input name="note" type="text" className="input" placeholder="e.g. Seller wants 30-day close" />
+                                </div>
+                                <div className="col-span-2 flex justify-end">
+                                    <button type="submit" className="btn btn-primary">Record</button>
+                                </div>
+                            </form>
+
+                            <div>
+                                <label className="label">Deal Notes</label>
+                                <textarea
+                                    key={selectedDeal.id}
+                                    className="input w-full"
+                                    rows={3}
+                                    defaultValue={selectedDeal.notes ?? ''}
+                                    onBlur={(e) => handleSaveNotes(selectedDeal, e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        {/* History */}
+                        <div>
+                            <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-4">History</h3>
+                            <div className="space-y-3">
+                                {[...selectedDeal.history].reverse().map((change, i) => (
+                                    <div key={i} className="border-l-2 border-[var(--card-border)] pl-3 text-sm">
+                                        <p className="font-medium">
+                                            {DEAL_STAGE_LABELS[change.stage]}
+                                            {change.offerAmount && <span className="text-[var(--primary)] ml-2">{formatMoney(change.offerAmount)}</span>}
+                                        </p>
+                                        <p className="text-xs text-[var(--muted)]">
+                                            {change.date}
+                                            {change.previousStage && change.previousStage !== change.stage && ` · from ${DEAL_STAGE_LABELS[change.previousStage]}`}
+                                            {` · recorded ${new Date(change.changedAt).toLocaleString()}`}
+                                        </p>
+                                        {change.note && <p className="text-[var(--muted)] mt-1">{change.note}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -230,6 +230,12 @@ export default function Dashboard() {
             </p>
           </div>
           <div className="flex gap-4">
+            <Link href="/deals" className="btn btn-secondary">
+              📋 Deals
+            </Link>
+            <Link href="/portfolio" className="btn btn-secondary">
+              🏠 Portfolio
+            </Link>
             <Link href="/settings" className="btn btn-secondary">
               ⚙️ Settings
             </Link>
@@ -0,0 +1,435 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type {
+    PortfolioSummary, AcquisitionPerformance, MetricComparison, MetricComparisons, PortfolioMetric,
+} from '@/lib/portfolio/tracker';
+
+const METRIC_LABELS: Record<PortfolioMetric, string> = {
+    rent: 'Rent Collected',
+    expenses: 'Operating Expenses',
+    noi: 'NOI',
+    cashflow: 'Cashflow',
+    vacantDays: 'Vacant Days',
+};
+
+// Metrics where coming in under the projection is good
+const LOWER_IS_BETTER: PortfolioMetric[] = ['expenses', 'vacantDays'];
+
+const formatMoney = (value: number): string =>
+    `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
+
+const formatMetric = (metric: PortfolioMetric, value: number): string =>
+    metric === 'vacantDays' ? (Math.round(value * 10) / 10).toLocaleString() : formatMoney(value);
+
+const formatVariance = (metric: PortfolioMetric, comparison: MetricComparison): string => {
+    const sign = comparison.variance > 0 ? '+' : '';
+    const amount = metric === 'vacantDays'
+        ? `${sign}${Math.round(comparison.variance * 10) / 10}`
+        : `${sign}${formatMoney(comparison.variance)}`;
+    return comparison.variancePercent !== null ? `${amount} (${sign}${Math.round(comparison.variancePercent)}%)` : amount;
+};
+
+const varianceClass = (metric: PortfolioMetric, comparison: MetricComparison): string => {
+    if (Math.abs(comparison.variance) < 0.5) return 'text-[var(--muted)]';
+    const good = LOWER_IS_BETTER.includes(metric) ? comparison.variance < 0 : comparison.variance > 0;
+    return good ? 'text-green-400' : 'text-red-400';
+};
+
+const currentMonth = (): string => new Date().toISOString().substring(0, 7);
+
+export default function PortfolioPage() {
+    const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [csvText, setCsvText] = useState('');
+
+    useEffect(() => {
+        fetchPortfolio();
+    }, []);
+
+    const fetchPortfolio = async () => {
+        try {
+            const response = await fetch('/api/portfolio');
+            const result = await response.json();
+            if (result.success) {
+                setPortfolio(result.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch portfolio:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const saveActuals = async (acquisitionId: string, body: Record<string, unknown>) => {
+        try {
+            const response = await fetch(`/api/portfolio/${acquisitionId}/actuals`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                const skipped = result.data.errors.length > 0 ? ` (${result.data.errors.length} skipped: ${result.data.errors.join('; ')})` : '';
+                setMessage({ type: 'success', text: `Saved ${result.data.saved} month${result.data.saved === 1 ? '' : 's'}${skipped}` });
+                fetchPortfolio();
+                return true;
+            }
+            setMessage({ type: 'error', text: result.error });
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to save actuals' });
+        }
+        return false;
+    };
+
+    const handleAddMonth = async (acquisitionId: string, form: HTMLFormElement) => {
+        const data = new FormData(form);
+        const number = (name: string) => Number(String(data.get(name) ?? '').replace(/[$,]/g, '') || 0);
+
+        const saved = await saveActuals(acquisitionId, {
+            month: data.get('month'),
+            rentReceived: number('rentReceived'),
+            expenses: number('expenses'),
+            vacantDays: number('vacantDays'),
+            notes: data.get('notes'),
+        });
+        if (saved) form.reset();
+    };
+
+    const handleImportCsv = async (acquisitionId: string) => {
+        if (!csvText.trim()) return;
+        if (await saveActuals(acquisitionId, { csv: csvText })) {
+            setCsvText('');
+        }
+    };
+
+    const handleDeleteMonth = async (acquisitionId: string, month: string) => {
+        try {
+            const response = await fetch(`/api/portfolio/${acquisitionId}/actuals?month=${month}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (result.success) {
+                fetchPortfolio();
+            }
+        } catch (error) {
+            console.error('Failed to delete month:', error);
+        }
+    };
+
+    const handleRemove = async (property: AcquisitionPerformance) => {
+        const label = property.acquisition.address || 'this property';
+        if (!confirm(`Remove ${label} and its actuals from the portfolio? This cannot be undone.`)) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/portfolio/${property.acquisition.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (result.success) {
+                setExpandedId(null);
+                fetchPortfolio();
+            }
+        } catch (error) {
+            console.error('Failed to remove acquisition:', error);
+        }
+    };
+
+    const renderComparisonTable = (totals: MetricComparisons) => (
+        <table className="table">
+            <thead>
+                <tr>
+                    <th></th>
+                    <th>Actual</th>
+                    <th>Projected</th>
+                    <th>Variance</th>
+                    <th>Underwritten</th>
+                </tr>
+            </thead>
+            <tbody>
+                {(Object.keys(METRIC_LABELS) as PortfolioMetric[]).map(metric => (
+                    <tr key={metric}>
+                        <td className="font-medium">{METRIC_LABELS[metric]}</td>
+                        <td>{formatMetric(metric, totals[metric].actual)}</td>
+                        <td>{formatMetric(metric, totals[metric].projected)}</td>
+                        <td className={varianceClass(metric, totals[metric])}>{formatVariance(metric, totals[metric])}</td>
+                        <td className="text-[var(--muted)]">{formatMetric(metric, totals[metric].underwritten)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    if (loading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="text-center">
+                    <div className="text-4xl animate-pulse mb-4">🏠</div>
+                    <p className="text-[var(--muted)]">Loading portfolio...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen p-8">
+            <div className="max-w-7xl mx-auto space-y-8">
+                {/* Header */}
+                <header className="flex items-center justify-between">
+                    <div>
+                        <Link href="/" className="text-[var(--muted)] hover:text-[var(--primary)] mb-2 inline-block">
+                            ← Back to Dashboard
+                        </Link>
+                        <h1 className="text-3xl font-bold">🏠 Portfolio</h1>
+                        <p className="text-[var(--muted)] mt-1">
+                            Actuals vs. the forecast on the terms each property closed on. Underwritten is the original analysis.
+                        </p>
+                    </div>
+                    <button onClick={fetchPortfolio} className="btn btn-secondary">
+                        🔄 Refresh
+                    </button>
+                </header>
+
+                {message && (
+                    <div className={`p-4 rounded-lg ${message.type === 'success' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {!portfolio || portfolio.propertyCount === 0 ? (
+                    <div className="card text-center py-12">
+                        <div className="text-4xl mb-4">📭</div>
+                        <p className="text-lg font-medium mb-2">No acquisitions yet</p>
+                        <p className="text-[var(--muted)]">
+                            Mark a property acquired from its run&apos;s review page to start tracking it here
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Stats */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div className="stat-card">
+                                <div className="stat-value">{portfolio.propertyCount}</div>
+                                <div className="stat-label">Properties</div>
+                            </div>
+                            <div className="stat-card">
+                                <div className="stat-value">{formatMoney(portfolio.totalPurchasePrice)}</div>
+                                <div className="stat-label">Purchase Price</div>
+                            </div>
+                            <div className="stat-card">
+                                <div className="stat-value">{formatMoney(portfolio.totalCashInvested)}</div>
+                                <div className="stat-label">Cash Invested</div>
+                            </div>
+                            <div className="stat-card">
+                                <div className="stat-value">{portfolio.monthsReported}</div>
+                                <div className="stat-label">Months Reported</div>
+                            </div>
+                        </div>
+
+                        {/* Aggregate */}
+                        <div className="card">
+                            <h2 className="text-xl font-bold mb-4">📈 Portfolio Actual vs. Projected</h2>
+                            {portfolio.monthsReported === 0 ? (
+                                <p className="text-[var(--muted)]">Enter monthly actuals for a property to compare it with its projection</p>
+                            ) : renderComparisonTable(portfolio.totals)}
+                        </div>
+
+                        {/* Properties */}
+                        <div className="card">
+                            <h2 className="text-xl font-bold mb-4">🏘️ Properties</h2>
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Property</th>
+                                        <th>Closed</th>
+                                        <th>Price</th>
+                                        <th>Rate</th>
+                                        <th>Months</th>
+                                        <th>Rent Variance</th>
+                                        <th>Expense Variance</th>
+                                        <th>Cashflow Variance</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {portfolio.properties.map(property => {
+                                        const { acquisition, totals } = property;
+                                        const hasActuals = property.monthsReported > 0;
+                                        return (
+                                            <tr key={acquisition.id}>
+                                                <td className="font-medium">{acquisition.address || 'Unknown Address'}</td>
+                                                <td>{acquisition.closingDate}</td>
+                                                <td>
+                                                    {formatMoney(acquisition.purchasePrice)}
+                                                    {property.purchasePriceVariance !== 0 && (
+                                                        <span className="text-xs text-[var(--muted)] ml-1">
+                                                            ({property.purchasePriceVariance > 0 ? '+' : ''}{formatMoney(property.purchasePriceVariance)} vs analyzed)
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {acquisition.interestRate}%
+                                                    {property.interestRateVariance !== 0 && (
+                                                        <span className="text-xs text-[var(--muted)] ml-1">
+                                                            ({property.interestRateVariance > 0 ? '+' : ''}{property.interestRateVariance} pts)
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td>{property.monthsReported}</td>
+                                                <td className={hasActuals ? varianceClass('rent', totals.rent) : ''}>
+                                                    {hasActuals ? formatVariance('rent', totals.rent) : '-'}
+                                                </td>
+                                                <td className={hasActuals ? varianceClass('expenses', totals.expenses) : ''}>
+                                                    {hasActuals ? formatVariance('expenses', totals.expenses) : '-'}
+                                                </td>
+                                                <td className={hasActuals ? varianceClass('cashflow', totals.cashflow) : ''}>
+                                                    {hasActuals ? formatVariance('cashflow', totals.cashflow) : '-'}
+                                                </td>
+                                                <td>
+                                                    <button
+                                                        onClick={() => setExpandedId(expandedId === acquisition.id ? null : acquisition.id)}
+                                                        className="btn btn-secondary text-sm"
+                                                    >
+                                                        {expandedId === acquisition.id ? 'Close' : 'Actuals'}
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Selected Property */}
+                        {portfolio.properties.filter(property => property.acquisition.id === expandedId).map(property => (
+                            <div key={property.acquisition.id} className="card space-y-6">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h2 className="text-xl font-bold">{property.acquisition.address || 'Unknown Address'}</h2>
+                                        <p className="text-sm text-[var(--muted)]">
+                                            Closed {property.acquisition.closingDate} · {formatMoney(property.acquisition.loanAmount)} at {property.acquisition.interestRate}% for {property.acquisition.loanTermYears} years · {formatMoney(property.cashInvested)} invested
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Link href={`/run/${property.acquisition.analysis.runId}`} className="btn btn-secondary text-sm">
+                                            View Run
+                                        </Link>
+                                        <button onClick={() => handleRemove(property)} className="btn btn-danger text-sm">
+                                            Remove
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {property.monthsReported > 0 && renderComparisonTable(property.totals)}
+
+                                {/* Monthly Actuals */}
+                                {property.months.length > 0 && (
+                                    <table className="table">
+                                        <thead>
+                                            <tr>
+                                                <th>Month</th>
+                                                <th>Year</th>
+                                                <th>Rent (proj.)</th>
+                                                <th>Expenses (proj.)</th>
+                                                <th>Cashflow (proj.)</th>
+                                                <th>Vacant Days</th>
+                                                <th>Notes</th>
+                                                <th></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {property.months.map(month => (
+                                                <tr key={month.month}>
+                                                    <td className="font-medium">{month.month}</td>
+                                                    <td>{month.forecastYear}</td>
+                                                    {(['rent', 'expenses', 'cashflow'] as PortfolioMetric[]).map(metric => (
+                                                        <td key={metric}>
+                                                            <span className={varianceClass(metric, month.metrics[metric])}>
+                                                                {formatMoney(month.metrics[metric].actual)}
+                                                            </span>
+                                                            <span className="text-xs text-[var(--muted)] ml-1">
+                                                                ({formatMoney(month.metrics[metric].projected)})
+                                                            </span>
+                                                        </td>
+                                                    ))}
+                                                    <td>{month.metrics.vacantDays.actual}</td>
+                                                    <td className="text-sm text-[var(--muted)]">{month.notes}</td>
+                                                    <td>
+                                                        <button
+                                                            onClick={() => handleDeleteMonth(property.acquisition.id, month.month)}
+                                                            className="text-[var(--muted)] hover:text-[var(--danger)]"
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+
+                                {/* Add Month */}
+                                <form
+                                    className="grid grid-cols-6 gap-4 items-end"
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        handleAddMonth(property.acquisition.id, e.currentTarget);
+                                    }}
+                                >
+                                    <div>
+                                        <label className="label">Month</label>
+                                        <input name="month" type="month" className="input" defaultValue={currentMonth()} required />
+                                    </div>
+                                    <div>
+                                        <label className="label">Rent Received ($)</label>
+                                        <input name="rentReceived" type="number" className="input" required />
+                                    </div>
+                                    <div>
+                                        <label className="label">Expenses ($)</label>
+                                        <input name="expenses" type="number" className="input" required />
+                                    </div>
+                                    <div>
+                                        <label className="label">Vacant Days</label>
+                                        <input name="vacantDays" type="number" className="input" defaultValue={0} />
+                                    </div>
+                                    <div>
+                                        <label className="label">Notes</label>
+                                        <input name="notes" type="text" className="input" />
+                                    </div>
+                                    <button type="submit" className="btn btn-primary">
+                                        Save Month
+                                    </button>
+                                </form>
+                                <p className="text-xs text-[var(--muted)]">
+                                    Expenses are operating costs paid that month (taxes, insurance, management, repairs, utilities), not the mortgage payment.
+                                    Vacant days are summed over units. Saving a month that already has actuals replaces it.
+                                </p>
+
+                                {/* CSV Import */}
+                                <div className="space-y-2">
+                                    <label className="label">Import CSV</label>
+                                    <textarea
+                                        className="input w-full font-mono text-sm"
+                                        rows={4}
+                                        placeholder={'month,rentReceived,expenses,vacantDays,notes\n2026-04,1450,380,0,\n2026-05,0,520,31,Turnover'}
+                                        value={csvText}
+                                        onChange={(e) => setCsvText(e.target.value)}
+                                    />
+                                    <button
+                                        onClick={() => handleImportCsv(property.acquisition.id)}
+                                        className="btn btn-secondary"
+                                        disabled={!csvText.trim()}
+                                    >
+                                        Import Months
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
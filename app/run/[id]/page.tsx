@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
+import type { LayoutComparison } from '@/lib/types';
 
 interface Run {
     id: string;
@@ -10,6 +11,11 @@ interface Run {
     fileSize: number;
     status: string;
     dryRun: boolean;
+    parserProfile: string | null;
+    parserProfileSource: 'detected' | 'manual' | null;
+    extractionMode: 'text' | 'layout';
+    llmProvider: string | null;
+    llmModel: string | null;
     totalPages: number | null;
     chunksCreated: number | null;
     propertiesExtracted: number | null;
@@ -33,6 +39,8 @@ export default function RunPage() {
     const [run, setRun] = useState<Run | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [parserProfileNames, setParserProfileNames] = useState<Record<string, string>>({});
+    const [layoutComparisons, setLayoutComparisons] = useState<LayoutComparison[]>([]);
 
     // Step 5: Availability check states
     const [properties, setProperties] = useState<any[]>([]);
@@ -47,6 +55,32 @@ export default function RunPage() {
         }
     }, [runId]);
 
+    useEffect(() => {
+        fetch('/api/parser-profiles')
+            .then(res => res.json())
+            .then(result => {
+                if (result.success) {
+                    setParserProfileNames(Object.fromEntries(
+                        result.data.profiles.map((p: { id: string; name: string }) => [p.id, p.name])
+                    ));
+                }
+            })
+            .catch(err => console.error('Failed to fetch parser profiles:', err));
+    }, []);
+
+    // Layout-mode runs: how each page parsed by text and by layout
+    useEffect(() => {
+        if (run?.extractionMode !== 'layout' || !runId) return;
+        fetch(`/api/runs/${runId}/layout-comparison`)
+            .then(res => res.json())
+            .then(result => {
+                if (result.success) {
+                    setLayoutComparisons(result.data);
+                }
+            })
+            .catch(err => console.error('Failed to fetch layout comparison:', err));
+    }, [run?.extractionMode, run?.status, runId]);
+
     // Fetch properties when run is in waiting-for-review status
     useEffect(() => {
         if (run?.status === 'waiting-for-review' && runId) {
@@ -291,6 +325,20 @@ Begin checking each property now and report the results.`;
                                 <span className="text-[var(--muted)] text-sm">
                                     {formatFileSize(run.fileSize)}
                                 </span>
+                                {run.parserProfile && (
+                                    <span className="text-[var(--muted)] text-sm">
+                                        Format: {parserProfileNames[run.parserProfile] ?? run.parserProfile}
+                                        {run.parserProfileSource === 'detected' ? ' (detected)' : ' (chosen on upload)'}
+                                    </span>
+                                )}
+                                {run.extractionMode === 'layout' && (
+                                    <span className="badge badge-info">Layout Extraction</span>
+                                )}
+                                {run.llmProvider && (
+                                    <span className="text-[var(--muted)] text-sm">
+                                        LLM: {run.llmProvider} / {run.llmModel}
+                                    </span>
+                                )}
                             </div>
                         </div>
                         <div className="flex gap-2">
@@ -369,6 +417,41 @@ Begin checking each property now and report the results.`;
                     </div>
                 )}
 
+                {/* Layout vs Text - layout-mode runs */}
+                {layoutComparisons.length > 0 && (
+                    <div className="card mb-6">
+                        <h3 className="font-bold mb-3">🧱 Layout vs Text Extraction</h3>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-[var(--muted)]">
+                                    <th className="py-1">Page</th>
+                                    <th>Source</th>
+                                    <th>Columns / Blocks</th>
+                                    <th>Text Path</th>
+                                    <th>Layout Path</th>
+                                    <th>Used</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {layoutComparisons.map(comparison => (
+                                    <tr key={comparison.page} className="border-t border-[var(--card-border)]">
+                                        <td className="py-1">{comparison.page}</td>
+                                        <td>{comparison.source === 'ocr' ? 'OCR' : 'PDF text'}</td>
+                                        <td>{comparison.columns} / {comparison.blocks}</td>
+                                        <td>{comparison.text.properties} listings · {comparison.text.confidence}% filled</td>
+                                        <td>{comparison.layout.properties} listings · {comparison.layout.confidence}% filled</td>
+                                        <td>
+                                            <span className={`badge ${comparison.used === 'layout' ? 'badge-success' : 'badge-muted'}`}>
+                                                {comparison.used}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
                 {/* Market Status Check Progress */}
                 {run.status === 'checking-availability' && (
                     <div className="card border-blue-500/30 mb-6 bg-blue-500/5">
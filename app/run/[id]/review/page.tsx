@@ -3,7 +3,8 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import type { Property } from '@/lib/types';
+import type { Property, Analysis, OfferConstraint, RehabEstimate, Deal, DealStage, ExtractionMethod } from '@/lib/types';
+import type { CompsSummary } from '@/lib/comps/finder';
 
 // Helper to format range values
 const formatRange = (min: number | null | undefined, max: number | null | undefined): string => {
@@ -27,11 +28,76 @@ const formatRangeCompact = (min: number | null | undefined, max: number | null |
     return `$${(max || min || 0).toLocaleString()}`;
 };
 
+const OFFER_CONSTRAINT_LABELS: Record<OfferConstraint, string> = {
+    dscr: 'Min DSCR',
+    cashflow: 'Min cashflow',
+    cocReturn: 'Min CoC return',
+    seventyPercentRule: '70% of ARV - rehab',
+};
+
+const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+    'watching': '👀 Watching',
+    'contacted': '📞 Contacted',
+    'offer-sent': '📨 Offer Sent',
+    'countered': '🔁 Countered',
+    'under-contract': '📝 Under Contract',
+    'closed': '🏠 Closed',
+    'passed': '🚫 Passed',
+};
+
+const EXTRACTION_METHOD_LABELS: Record<ExtractionMethod, string> = {
+    text: '📄 PDF text',
+    ocr: '🔍 OCR',
+    llm: '🤖 LLM',
+    manual: '✏️ Manual',
+};
+
+const PROVENANCE_FIELD_LABELS: Record<string, string> = {
+    address: 'Address',
+    city: 'City',
+    state: 'State',
+    zip: 'Zip',
+    zillowUrl: 'Zillow URL',
+    zillowStatus: 'Listing Status',
+    askingPrice: 'Asking Price',
+    suggestedOffer: 'Suggested Offer',
+    rent: 'Rent',
+    arv: 'ARV',
+    rehabNeeded: 'Rehab',
+    bedrooms: 'Beds',
+    bathrooms: 'Baths',
+    sqft: 'Sq Ft',
+    occupied: 'Occupied',
+    section8Tenant: 'Section 8 Tenant',
+};
+
+// Lowest confidence across a property's fields; null for properties extracted before provenance was kept
+const getLowestConfidence = (property: Property): number | null => {
+    const confidences = Object.values(property.provenance ?? {}).map(entry => entry.confidence);
+    return confidences.length > 0 ? Math.min(...confidences) : null;
+};
+
+const confidenceClass = (confidence: number): string =>
+    confidence < 60 ? 'bg-red-500/20 text-red-400'
+        : confidence < 85 ? 'bg-yellow-500/20 text-yellow-400'
+        : 'bg-green-500/20 text-green-400';
+
+const formatProvenanceValue = (property: Property, field: string): string => {
+    const value = (property as Record<string, unknown>)[field];
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'number' && ['askingPrice', 'suggestedOffer', 'rent', 'arv', 'rehabNeeded'].includes(field)) {
+        return `$${value.toLocaleString()}`;
+    }
+    return String(value);
+};
+
 export default function ManualReviewPage() {
     const params = useParams();
     const runId = params.id as string;
 
     const [properties, setProperties] = useState<Property[]>([]);
+    const [analyses, setAnalyses] = useState<Record<string, Analysis>>({});
     const [loading, setLoading] = useState(true);
     const [selectedId, setSelectedId] = useState<string | null>(null);
     const [filterMode, setFilterMode] = useState<'all' | 'review' | 'unique' | 'duplicates'>('unique');
@@ -39,14 +105,28 @@ export default function ManualReviewPage() {
     const [imageStatus, setImageStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
     const [copiedId, setCopiedId] = useState<string | null>(null);
     const [statusUpdating, setStatusUpdating] = useState<string | null>(null);
+    const [comps, setComps] = useState<{ summary: CompsSummary | null; issues: string[] } | null>(null);
+    const [rehabEstimate, setRehabEstimate] = useState<RehabEstimate | null>(null);
+    const [deal, setDeal] = useState<Deal | null>(null);
+    const [acquisitionStatus, setAcquisitionStatus] = useState<{ success: boolean; message: string } | null>(null);
 
     useEffect(() => {
         fetchProperties();
+        fetchAnalyses();
     }, [runId]);
 
-    // Reset image loading status when selected property changes
+    // Reset image loading status and load comps and rehab estimate when selected property changes
     useEffect(() => {
         setImageStatus('loading');
+        setComps(null);
+        setRehabEstimate(null);
+        setAcquisitionStatus(null);
+        setDeal(null);
+        if (selectedId) {
+            fetchDeal(selectedId);
+            fetchComps(selectedId);
+            fetchRehabEstimate(selectedId);
+        }
     }, [selectedId]);
 
     const fetchProperties = async () => {
@@ -63,6 +143,58 @@ export default function ManualReviewPage() {
         }
     };
 
+    const fetchAnalyses = async () => {
+        try {
+            const response = await fetch(`/api/runs/${runId}/analyses`);
+            const result = await response.json();
+            if (result.success) {
+                const byProperty: Record<string, Analysis> = {};
+                for (const analysis of result.data as Analysis[]) {
+                    byProperty[analysis.propertyId] = analysis;
+                }
+                setAnalyses(byProperty);
+            }
+        } catch (error) {
+            console.error('Failed to fetch analyses:', error);
+        }
+    };
+
+    const fetchComps = async (id: string) => {
+        try {
+            const response = await fetch(`/api/properties/${id}/comps`);
+            const result = await response.json();
+            if (result.success) {
+                setComps({ summary: result.data.comps, issues: result.data.issues });
+            }
+        } catch (error) {
+            console.error('Failed to fetch comps:', error);
+        }
+    };
+
+    const fetchDeal = async (id: string) => {
+        try {
+            const response = await fetch(`/api/deals?propertyId=${id}`);
+            const result = await response.json();
+            if (result.success) {
+                setDeal(result.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch deal:', error);
+        }
+    };
+
+    const fetchRehabEstimate = async (id: string) => {
+        try {
+            const response = await fetch(`/api/properties/${id}/rehab`);
+            const result = await response.json();
+            if (result.success) {
+                setRehabEstimate(result.data.estimate);
+            }
+        } catch (error) {
+            console.error('Failed to fetch rehab estimate:', error);
+        }
+    };
+
     const handleUpdate = async (id: string, updates: Partial<Property>) => {
         setSaving(true);
         try {
@@ -74,7 +206,8 @@ export default function ManualReviewPage() {
             const result = await response.json();
 
             if (result.success) {
-                setProperties(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+                // Provenance is updated on the server for the edited fields
+                setProperties(prev => prev.map(p => p.id === id ? { ...p, ...updates, provenance: result.data.provenance } : p));
             }
         } catch (error) {
             console.error('Failed to update property:', error);
@@ -137,22 +270,86 @@ export default function ManualReviewPage() {
         }
     };
 
+    const handleMoveDeal = async (propertyId: string, form: FormData) => {
+        const amount = Number(String(form.get('offerAmount') ?? '').replace(/[$,\s]/g, ''));
+
+        try {
+            const response = await fetch('/api/deals', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    propertyId,
+                    stage: form.get('stage'),
+                    offerAmount: amount > 0 ? amount : undefined,  // Blank keeps the deal's last offer
+                    note: form.get('note'),
+                }),
+            });
+            const result = await response.json();
+            if (result.success) {
+                setDeal(result.data);
+            }
+        } catch (error) {
+            console.error('Failed to move deal:', error);
+        }
+    };
+
+    const handleMarkAcquired = async (propertyId: string, form: FormData) => {
+        const number = (name: string) => {
+            const value = String(form.get(name) ?? '').replace(/[$,]/g, '');
+            return value === '' ? undefined : Number(value);
+        };
+
+        try {
+            const response = await fetch('/api/portfolio', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    propertyId,
+                    purchasePrice: number('purchasePrice'),
+                    closingCosts: number('closingCosts'),
+                    loanAmount: number('loanAmount'),
+                    interestRate: number('interestRate'),
+                    loanTermYears: number('loanTermYears'),
+                    closingDate: form.get('closingDate'),
+                }),
+            });
+            const result = await response.json();
+
+            setAcquisitionStatus(result.success
+                ? { success: true, message: 'Added to portfolio' }
+                : { success: false, message: result.error });
+        } catch (error) {
+            console.error('Failed to mark acquired:', error);
+            setAcquisitionStatus({ success: false, message: 'Failed to mark acquired' });
+        }
+    };
+
     const getFilteredProperties = () => {
+        let filtered: Property[];
         switch (filterMode) {
             case 'review':
-                return properties.filter(p => p.needsManualReview);
+                filtered = properties.filter(p => p.needsManualReview);
+                break;
             case 'unique':
                 // Only show properties that passed deduplication (status='deduped')
-                return properties.filter(p => p.status === 'deduped');
+                filtered = properties.filter(p => p.status === 'deduped');
+                break;
             case 'duplicates':
-                return properties.filter(p => p.status === 'discarded');
+                filtered = properties.filter(p => p.status === 'discarded');
+                break;
             default:
-                return properties;
+                filtered = properties;
         }
+
+        // Least certain extractions first; properties without provenance go last
+        return [...filtered].sort((a, b) =>
+            (getLowestConfidence(a) ?? Infinity) - (getLowestConfidence(b) ?? Infinity)
+        );
     };
 
     const filteredProperties = getFilteredProperties();
     const selectedProperty = properties.find(p => p.id === selectedId);
+    const selectedAnalysis = selectedId ? analyses[selectedId] : undefined;
 
     // Auto-select first if none selected
     useEffect(() => {
@@ -221,6 +418,7 @@ export default function ManualReviewPage() {
                         filteredProperties.map(p => {
                             const isUnavailable = (p.zillowStatus === 'sold' || p.zillowStatus === 'pending' || (p.zillowStatus === 'off-market' && !p.isOffMarketDeal));
                             const isDuplicate = p.status === 'discarded';
+                            const lowestConfidence = getLowestConfidence(p);
                             return (
                             <div
                                 key={p.id}
@@ -246,6 +444,11 @@ export default function ManualReviewPage() {
                                         {p.zillowStatus === 'off-market' && !p.isOffMarketDeal && <span className="text-xs px-1.5 py-0.5 bg-red-500/20 text-red-400 rounded">OFF MKT</span>}
                                         {p.zillowStatus === 'active' && <span className="text-xs px-1.5 py-0.5 bg-green-500/20 text-green-400 rounded">ACTIVE</span>}
                                         {p.isOffMarketDeal && <span className="text-xs px-1.5 py-0.5 bg-orange-500/20 text-orange-400 rounded">DEAL</span>}
+                                        {lowestConfidence !== null && (
+                                            <span className={`text-xs px-1.5 py-0.5 rounded ${confidenceClass(lowestConfidence)}`} title="Lowest field confidence">
+                                                {lowestConfidence}%
+                                            </span>
+                                        )}
                                         {p.needsManualReview && <span className="text-xs text-[var(--danger)]">●</span>}
                                     </div>
                                 </div>
@@ -447,6 +650,247 @@ export default function ManualReviewPage() {
                                 )}
                             </div>
 
+                            {/* Offer Comparison */}
+                            <div className="card">
+                                <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-4">Offer Comparison</h3>
+                                <div className="grid grid-cols-3 gap-4 text-center">
+                                    <div>
+                                        <p className="text-xs text-[var(--muted)]">Asking</p>
+                                        <p className="text-lg font-bold">
+                                            {selectedProperty.askingPrice ? `$${selectedProperty.askingPrice.toLocaleString()}` : '-'}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-[var(--muted)]">Suggested Offer</p>
+                                        <p className="text-lg font-bold">
+                                            {selectedProperty.suggestedOffer ? `$${selectedProperty.suggestedOffer.toLocaleString()}` : '-'}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-[var(--muted)]">Our Max Offer</p>
+                                        {selectedAnalysis?.maxOfferUnconstrained ? (
+                                            <>
+                                                <p className="text-lg font-bold text-green-400">No limit</p>
+                                                <p className="text-xs text-[var(--muted)]">Targets met at any price</p>
+                                            </>
+                                        ) : selectedAnalysis?.maxOffer != null ? (
+                                            <>
+                                                <p className={`text-lg font-bold ${
+                                                    selectedProperty.askingPrice && selectedAnalysis.maxOffer >= selectedProperty.askingPrice
+                                                        ? 'text-green-400'
+                                                        : 'text-yellow-400'
+                                                }`}>
+                                                    ${selectedAnalysis.maxOffer.toLocaleString()}
+                                                </p>
+                                                {selectedAnalysis.maxOfferConstraint && (
+                                                    <p className="text-xs text-[var(--muted)]">
+                                                        Limited by {OFFER_CONSTRAINT_LABELS[selectedAnalysis.maxOfferConstraint]}
+                                                    </p>
+                                                )}
+                                            </>
+                                        ) : (
+                                            <p className="text-sm text-[var(--muted)]">Run analysis to compute</p>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Deal Stage */}
+                            <form
+                                key={`${selectedProperty.id}-${deal?.history.length ?? 0}`}
+                                className="card space-y-4"
+                                onSubmit={(e) => {
+                                    e.preventDefault();
+                                    handleMoveDeal(selectedProperty.id, new FormData(e.currentTarget));
+                                }}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <h3 className="text-sm font-bold text-[var(--muted)] uppercase">Deal Stage</h3>
+                                    <Link href="/deals" className="text-xs text-[var(--muted)] hover:text-[var(--primary)]">
+                                        Deal board →
+                                    </Link>
+                                </div>
+                                {deal && (
+                                    <p className="text-sm">
+                                        {DEAL_STAGE_LABELS[deal.stage]}
+                                        {deal.offerAmount && <span className="text-[var(--primary)] ml-2">${deal.offerAmount.toLocaleString()}</span>}
+                                        <span className="text-xs text-[var(--muted)] ml-2">
+                                            since {deal.history[deal.history.length - 1]?.date}
+                                            {deal.propertyId !== selectedProperty.id && ' (from an earlier run)'}
+                                        </span>
+                                    </p>
+                                )}
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="label">Stage</label>
+                                        <select name="stage" className="input w-full" defaultValue={deal?.stage ?? 'watching'}>
+                                            {(Object.keys(DEAL_STAGE_LABELS) as DealStage[]).map(stage => (
+                                                <option key={stage} value={stage}>{DEAL_STAGE_LABELS[stage]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="label">Offer / Counter ($)</label>
+                                        <input name="offerAmount" type="number" className="input" />
+                                    </div>
+                                    <div>
+                                        <label className="label">Note</label>
+                                        <input name="note" type="text" className="input" />
+                                    </div>
+                                </div>
+                                <div className="flex justify-end">
+                                    <button type="submit" className="btn btn-secondary">
+                                        {deal ? 'Record' : 'Start Deal'}
+                                    </button>
+                                </div>
+                            </form>
+
+                            {/* Rehab: Wholesaler vs Our Estimate */}
+                            <div className="card">
+                                <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-4">Rehab Estimate</h3>
+                                <div className="grid grid-cols-2 gap-4 text-center">
+                                    <div>
+                                        <p className="text-xs text-[var(--muted)]">Wholesaler</p>
+                                        <p className="text-lg font-bold">
+                                            {selectedProperty.rehabNeeded != null ? `$${selectedProperty.rehabNeeded.toLocaleString()}` : '-'}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-[var(--muted)]">Our Estimate</p>
+                                        {rehabEstimate ? (
+                                            <p className={`text-lg font-bold ${
+                                                rehabEstimate.total > (selectedProperty.rehabNeeded ?? 0) ? 'text-yellow-400' : 'text-green-400'
+                                            }`}>
+                                                ${rehabEstimate.total.toLocaleString()}
+                                            </p>
+                                        ) : (
+                                            <p className="text-sm text-[var(--muted)]">No repair list</p>
+                                        )}
+                                    </div>
+                                </div>
+                                {rehabEstimate && (
+                                    <div className="space-y-1 text-sm mt-4">
+                                        {rehabEstimate.lineItems.map((line, i) => (
+                                            <div key={i} className="flex justify-between text-[var(--muted)]">
+                                                <span>{line.item}{line.catalogId ? ` → ${line.name}` : ' (not in catalog)'}</span>
+                                                <span>{line.cost > 0 ? `$${line.cost.toLocaleString()}` : 'counted above'}</span>
+                                            </div>
+                                        ))}
+                                        <div className="flex justify-between text-[var(--muted)]">
+                                            <span>Contingency</span>
+                                            <span>${rehabEstimate.contingency.toLocaleString()}</span>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Comps From Earlier Runs */}
+                            <div className="card">
+                                <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-4">Comps From Earlier Runs</h3>
+                                {!comps ? (
+                                    <p className="text-sm text-[var(--muted)]">Loading comps...</p>
+                                ) : !comps.summary ? (
+                                    <p className="text-sm text-[var(--muted)]">No similar properties in earlier runs</p>
+                                ) : (
+                                    <div className="space-y-4">
+                                        <p className="text-xs text-[var(--muted)]">
+                                            {comps.summary.sampleSize} similar {comps.summary.sampleSize === 1 ? 'property' : 'properties'} in {comps.summary.scope === 'zip' ? `ZIP ${comps.summary.location}` : comps.summary.location}
+                                        </p>
+                                        <div className="grid grid-cols-4 gap-4 text-center">
+                                            <div>
+                                                <p className="text-xs text-[var(--muted)]">Median Rent</p>
+                                                <p className="text-lg font-bold">
+                                                    {comps.summary.medianRent ? `$${comps.summary.medianRent.toLocaleString()}` : '-'}
+                                                </p>
+                                            </div>
+                                            <div>
+                                                <p className="text-xs text-[var(--muted)]">Median Asking</p>
+                                                <p className="text-lg font-bold">
+                                                    {comps.summary.medianAskingPrice ? `$${comps.summary.medianAskingPrice.toLocaleString()}` : '-'}
+                                                </p>
+                                            </div>
+                                            <div>
+                                                <p className="text-xs text-[var(--muted)]">Price / Sqft</p>
+                                                <p className="text-lg font-bold">
+                                                    {comps.summary.medianPricePerSqft ? `$${comps.summary.medianPricePerSqft.toFixed(0)}` : '-'}
+                                                </p>
+                                            </div>
+                                            <div>
+                                                <p className="text-xs text-[var(--muted)]">Rent / Price</p>
+                                                <p className="text-lg font-bold">
+                                                    {comps.summary.medianRentToPricePercent ? `${comps.summary.medianRentToPricePercent.toFixed(2)}%` : '-'}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        {comps.issues.length > 0 && (
+                                            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-1">
+                                                {comps.issues.map(issue => (
+                                                    <p key={issue} className="text-xs text-yellow-400">⚠ {issue}</p>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="space-y-1 text-sm">
+                                            {comps.summary.comps.map(comp => (
+                                                <div key={comp.id} className="flex justify-between text-[var(--muted)]">
+                                                    <span className="truncate pr-2">
+                                                        {comp.address || 'Unknown address'} · {comp.bedrooms ?? '?'}bd / {comp.bathrooms ?? '?'}ba{comp.sqft ? ` · ${comp.sqft.toLocaleString()} sqft` : ''}
+                                                    </span>
+                                                    <span className="shrink-0">
+                                                        {comp.rent ? `$${comp.rent.toLocaleString()}/mo` : '-'} · {comp.askingPrice ? `$${comp.askingPrice.toLocaleString()}` : '-'}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Field Sources */}
+                            {Object.keys(selectedProperty.provenance ?? {}).length > 0 && (
+                                <div className="card">
+                                    <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-2">Field Sources</h3>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-xs text-[var(--muted)]">
+                                                <th className="py-1">Field</th>
+                                                <th>Value</th>
+                                                <th>Source</th>
+                                                <th>Location</th>
+                                                <th>Matched Text</th>
+                                                <th className="text-right">Confidence</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {Object.entries(selectedProperty.provenance)
+                                                .sort(([, a], [, b]) => a.confidence - b.confidence)
+                                                .map(([field, entry]) => (
+                                                    <tr key={field} className="border-t border-[var(--card-border)]">
+                                                        <td className="py-1">{PROVENANCE_FIELD_LABELS[field] ?? field}</td>
+                                                        <td className="truncate max-w-[160px]">{formatProvenanceValue(selectedProperty, field)}</td>
+                                                        <td>{EXTRACTION_METHOD_LABELS[entry.method]}</td>
+                                                        <td className="text-xs text-[var(--muted)]">
+                                                            {[
+                                                                entry.page !== null ? `Page ${entry.page}` : null,
+                                                                entry.boxes.length > 0
+                                                                    ? `${entry.boxes.length} word${entry.boxes.length === 1 ? '' : 's'} at (${entry.boxes[0].x0}, ${entry.boxes[0].y0})`
+                                                                    : entry.start !== null ? `chars ${entry.start}-${entry.end}` : null,
+                                                            ].filter(Boolean).join(' · ') || '-'}
+                                                        </td>
+                                                        <td className="font-mono text-xs truncate max-w-[200px]" title={entry.text ?? undefined}>
+                                                            {entry.text ?? '-'}
+                                                        </td>
+                                                        <td className="text-right">
+                                                            <span className={`text-xs px-1.5 py-0.5 rounded ${confidenceClass(entry.confidence)}`}>
+                                                                {entry.confidence}%
+                                                            </span>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
                             {/* Raw Text / Context */}
                             <div className="card">
                                 <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-2">Original Text Context</h3>
@@ -519,6 +963,22 @@ export default function ManualReviewPage() {
                                         onChange={(e) => handleUpdate(selectedProperty.id, { rehabNeeded: parseFloat(e.target.value) })}
                                     />
                                 </div>
+                                <div>
+                                    <label className="label">Repair Items</label>
+                                    {/* Saved on blur so commas can be typed */}
+                                    <input
+                                        key={selectedProperty.id}
+                                        className="input"
+                                        placeholder="HVAC, roof, paint"
+                                        defaultValue={(selectedProperty.repairItems ?? []).join(', ')}
+                                        onBlur={async (e) => {
+                                            await handleUpdate(selectedProperty.id, {
+                                                repairItems: e.target.value.split(',').map(item => item.trim()).filter(Boolean),
+                                            });
+                                            fetchRehabEstimate(selectedProperty.id);
+                                        }}
+                                    />
+                                </div>
 
                                 <div className="col-span-2 border-t border-[var(--card-border)] my-2"></div>
 
@@ -599,6 +1059,26 @@ export default function ManualReviewPage() {
                                         onChange={(e) => handleUpdate(selectedProperty.id, { bathrooms: parseFloat(e.target.value) })}
                                     />
                                 </div>
+                                <div>
+                                    <label className="label">Units</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        className="input"
+                                        value={selectedProperty.unitCount || 1}
+                                        onChange={(e) => handleUpdate(selectedProperty.id, { unitCount: Math.max(1, parseInt(e.target.value) || 1) })}
+                                    />
+                                </div>
+                                {(selectedProperty.units ?? []).length > 0 && (
+                                    <div className="col-span-2 space-y-1 text-sm">
+                                        {selectedProperty.units.map((unit, i) => (
+                                            <div key={i} className="flex justify-between text-[var(--muted)]">
+                                                <span>Unit {unit.label ?? i + 1}: {unit.bedrooms ?? '?'}bd / {unit.bathrooms ?? '?'}ba{unit.occupied === false ? ' (vacant)' : ''}</span>
+                                                <span>{unit.rent ? `$${unit.rent.toLocaleString()}/mo` : 'Rent unknown'}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
 
                             {/* Status Toggles */}
@@ -623,6 +1103,64 @@ export default function ManualReviewPage() {
                                     />
                                 </div>
                             </div>
+
+                            {/* Mark Acquired */}
+                            {selectedAnalysis && (
+                                <form
+                                    key={selectedAnalysis.id}
+                                    className="card space-y-4"
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        handleMarkAcquired(selectedProperty.id, new FormData(e.currentTarget));
+                                    }}
+                                >
+                                    <div>
+                                        <h3 className="text-sm font-bold text-[var(--muted)] uppercase">Mark Acquired</h3>
+                                        <p className="text-xs text-[var(--muted)] mt-1">
+                                            Bought it? Record the terms it closed on to track actuals against this analysis in the portfolio.
+                                        </p>
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="label">Purchase Price ($)</label>
+                                            <input name="purchasePrice" type="number" className="input" defaultValue={selectedAnalysis.purchasePrice} />
+                                        </div>
+                                        <div>
+                                            <label className="label">Closing Costs ($)</label>
+                                            <input name="closingCosts" type="number" className="input" defaultValue={selectedAnalysis.closingCosts} />
+                                        </div>
+                                        <div>
+                                            <label className="label">Closing Date</label>
+                                            <input name="closingDate" type="date" className="input" required />
+                                        </div>
+                                        <div>
+                                            <label className="label">Loan Amount ($)</label>
+                                            <input name="loanAmount" type="number" className="input" defaultValue={selectedAnalysis.loanAmount} />
+                                        </div>
+                                        <div>
+                                            <label className="label">Interest Rate (%)</label>
+                                            <input name="interestRate" type="number" step="0.125" className="input" defaultValue={selectedAnalysis.interestRate} />
+                                        </div>
+                                        <div>
+                                            <label className="label">Loan Term (years)</label>
+                                            <input name="loanTermYears" type="number" className="input" defaultValue={selectedAnalysis.loanTermYears} />
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        {acquisitionStatus ? (
+                                            <p className={`text-sm ${acquisitionStatus.success ? 'text-green-400' : 'text-[var(--danger)]'}`}>
+                                                {acquisitionStatus.message}
+                                                {acquisitionStatus.success && (
+                                                    <> · <Link href="/portfolio" className="underline">View portfolio</Link></>
+                                                )}
+                                            </p>
+                                        ) : <span />}
+                                        <button type="submit" className="btn btn-primary">
+                                            🏠 Mark Acquired
+                                        </button>
+                                    </div>
+                                </form>
+                            )}
                         </div>
                     ) : (
                         <div className="h-full flex items-center justify-center text-[var(--muted)]">
@@ -2,17 +2,36 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import type {
+    LoanProgram, DscrTier, RateSheetTier, ExpenseItem, ExpenseItemType, LocationRate, RehabCostItem, ParserTemplateField,
+    LlmProvider,
+} from '@/lib/types';
 
 interface Settings {
     minRent: number;
     minBedrooms: number;
     minBathrooms: number;
+    bedroomFilterMode: 'building' | 'unit';
     occupiedSec8Only: boolean;
     offerGapThreshold: number;
+    paymentStandardCheckEnabled: boolean;
+    paymentStandardTolerancePercent: number;
+    paymentStandardCapRent: boolean;
+    compsEnabled: boolean;
+    compsMinSampleSize: number;
+    compsOutlierPercent: number;
     vacancyEnabled: boolean;
     vacancyPercent: number;
     maintenanceEnabled: boolean;
     maintenancePercent: number;
+    unitExpenseMonthly: number;
+    expenseItems: ExpenseItem[];
+    averageTenancyYears: number;
+    rehabCatalog: RehabCostItem[];
+    rehabContingencyPercent: number;
+    rehabUnmatchedItemCost: number;
+    rehabDefaultSqft: number;
+    rehabUseHigherEstimate: boolean;
     downPaymentPercent: number;
     closingCostPercent: number;
     dscrRate: number;
@@ -20,25 +39,180 @@ interface Settings {
     pmFeePercent: number;
     propertyTaxRate: number;
     insuranceAnnual: number;
+    locationRates: LocationRate[];
+    insuranceScalingEnabled: boolean;
+    insuranceBaseSqft: number;
+    insuranceOldHomeYear: number;
+    insuranceOldHomeSurchargePercent: number;
+    loanPrograms: LoanProgram[];
+    lenderRulesEnabled: boolean;
+    lenderMinLoanAmount: number;
+    lenderMaxLtvPercent: number;
+    lenderDscrTiers: DscrTier[];
+    lenderLowDscrRateAddOn: number;
+    lenderSmallLoanAmount: number;
+    lenderSmallLoanRateAddOn: number;
+    lenderPrepayPenaltySchedule: number[];
+    lenderFallbackToCash: boolean;
+    lenderRateSheetEnabled: boolean;
+    lenderRateSheet: RateSheetTier[];
+    refinanceEnabled: boolean;
+    refinanceLtvPercent: number;
+    refinanceRate: number;
+    refinanceTermYears: number;
+    refinanceSeasoningMonths: number;
+    refinanceClosingCostPercent: number;
+    stressTestEnabled: boolean;
+    stressRatePoints: number;
+    stressRentPercent: number;
+    stressVacancyPoints: number;
+    stressTaxPercent: number;
+    stressInsurancePercent: number;
+    stressPricePercent: number;
+    stressMinDscr: number;
+    offerMinDscr: number;
+    offerMinCashflow: number;
+    offerMinCocReturn: number;
+    offerSeventyPercentRule: boolean;
     rentGrowthPercent: number;
     appreciationPercent: number;
     expenseInflationPercent: number;
+    monteCarloEnabled: boolean;
+    monteCarloTrials: number;
+    monteCarloSeed: number;
+    monteCarloAppreciationStdDev: number;
+    monteCarloRentGrowthStdDev: number;
+    monteCarloInflationStdDev: number;
+    monteCarloVacancyMonthsStdDev: number;
+    monteCarloCapexProbabilityPercent: number;
+    monteCarloCapexCost: number;
+    afterTaxEnabled: boolean;
+    marginalTaxRatePercent: number;
+    landValuePercent: number;
+    rehabBonusDepreciationPercent: number;
+    sellingCostPercent: number;
+    exitTaxesEnabled: boolean;
+    capitalGainsRatePercent: number;
+    depreciationRecaptureRatePercent: number;
     topN: number;
+    rankOnConservative: boolean;
+    portfolioCapital: number;
+    portfolioMaxProperties: number;
+    portfolioMaxPerZip: number;
+    portfolioObjective: 'cashflow' | 'totalReturn' | 'score';
     sheetsEnabled: boolean;
     spreadsheetId?: string;
+    llmProvider: LlmProvider;
+    llmModel: string;
+    llmBaseUrl: string;
+    llmFixtureDir: string;
     marketStatusEnabled: boolean;
 }
 
+// Vision model providers, with the model used when the model field is blank
+const LLM_PROVIDER_OPTIONS: { value: LlmProvider; label: string; defaultModel: string }[] = [
+    { value: 'openai', label: 'OpenAI', defaultModel: 'gpt-4o' },
+    { value: 'anthropic', label: 'Anthropic', defaultModel: 'claude-sonnet-4-5' },
+    { value: 'google', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+    { value: 'local', label: 'Local (OpenAI-compatible)', defaultModel: 'llava' },
+    { value: 'fixture', label: 'Fixture Replay (tests)', defaultModel: 'fixture' },
+];
+
+interface ParserTemplateEntry {
+    profileId: string;
+    name: string;
+    description: string;
+    fields: ParserTemplateField[];
+    builtInFields: ParserTemplateField[];
+    updatedAt: string | null;
+}
+
+interface TemplatePreview {
+    matches: Record<string, { value: number | boolean; text: string }>;
+    properties: {
+        address: string | null;
+        city: string | null;
+        askingPrice: number | null;
+        suggestedOffer: number | null;
+        rentMin: number | null;
+        rentMax: number | null;
+        arv: number | null;
+        rehabNeeded: number | null;
+        bedrooms: number | null;
+        bathrooms: number | null;
+        zillowStatus: string | null;
+        reviewNotes: string | null;
+    }[];
+    errors: string[];
+}
+
+const formatPreviewMoney = (value: number | null): string =>
+    value != null ? `$${value.toLocaleString()}` : '-';
+
 export default function SettingsPage() {
     const [settings, setSettings] = useState<Settings | null>(null);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [locationCsv, setLocationCsv] = useState('');
+    const [importingLocations, setImportingLocations] = useState(false);
+    const [paymentStandardZips, setPaymentStandardZips] = useState(0);
+    const [paymentStandardCsv, setPaymentStandardCsv] = useState('');
+    const [paymentStandardSource, setPaymentStandardSource] = useState('');
+    const [paymentStandardPercent, setPaymentStandardPercent] = useState(100);
+    const [importingPaymentStandards, setImportingPaymentStandards] = useState(false);
+    const [parserTemplates, setParserTemplates] = useState<ParserTemplateEntry[]>([]);
+    const [templateProfileId, setTemplateProfileId] = useState('');
+    const [templateJson, setTemplateJson] = useState('');
+    const [templateSample, setTemplateSample] = useState('');
+    const [templatePreview, setTemplatePreview] = useState<TemplatePreview | null>(null);
+    const [templateError, setTemplateError] = useState<string | null>(null);
+    const [savingTemplate, setSavingTemplate] = useState(false);
 
     useEffect(() => {
         fetchSettings();
+        fetchPaymentStandards();
+        fetchParserTemplates();
     }, []);
 
+    // Live preview of the template being edited, once typing pauses
+    useEffect(() => {
+        if (!templateProfileId || !templateSample.trim()) {
+            setTemplatePreview(null);
+            return;
+        }
+
+        let fields: unknown;
+        try {
+            fields = JSON.parse(templateJson);
+        } catch (error) {
+            setTemplateError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const timeout = setTimeout(async () => {
+            try {
+                const response = await fetch('/api/settings/parser-templates/preview', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ profileId: templateProfileId, fields, text: templateSample }),
+                });
+                const result = await response.json();
+
+                if (result.success) {
+                    setTemplatePreview(result.data);
+                    setTemplateError(null);
+                } else {
+                    setTemplateError(result.error);
+                }
+            } catch {
+                setTemplateError('Failed to preview template');
+            }
+        }, 400);
+
+        return () => clearTimeout(timeout);
+    }, [templateProfileId, templateJson, templateSample]);
+
     const fetchSettings = async () => {
         try {
             const response = await fetch('/api/settings');
@@ -53,6 +227,99 @@ export default function SettingsPage() {
         }
     };
 
+    const fetchPaymentStandards = async () => {
+        try {
+            const response = await fetch('/api/settings/payment-standards');
+            const result = await response.json();
+            if (result.success) {
+                setPaymentStandardZips(result.data.zipCount);
+            }
+        } catch (error) {
+            console.error('Failed to fetch payment standards:', error);
+        }
+    };
+
+    const fetchParserTemplates = async () => {
+        try {
+            const response = await fetch('/api/settings/parser-templates');
+            const result = await response.json();
+            if (result.success) {
+                setParserTemplates(result.data);
+                if (result.data.length > 0) {
+                    setTemplateProfileId(result.data[0].profileId);
+                    setTemplateJson(JSON.stringify(result.data[0].fields, null, 2));
+                }
+            }
+        } catch (error) {
+            console.error('Failed to fetch parser templates:', error);
+        }
+    };
+
+    const handleSelectTemplate = (profileId: string) => {
+        const entry = parserTemplates.find(t => t.profileId === profileId);
+        if (!entry) return;
+
+        setTemplateProfileId(profileId);
+        setTemplateJson(JSON.stringify(entry.fields, null, 2));
+        setTemplateError(null);
+    };
+
+    const handleSaveTemplate = async () => {
+        let fields: ParserTemplateField[];
+        try {
+            fields = JSON.parse(templateJson);
+        } catch {
+            setMessage({ type: 'error', text: 'Template is not valid JSON' });
+            return;
+        }
+
+        setSavingTemplate(true);
+        try {
+            const response = await fetch('/api/settings/parser-templates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ profileId: templateProfileId, fields }),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                setParserTemplates(prev => prev.map(t =>
+                    t.profileId === templateProfileId ? { ...t, fields: result.data.fields, updatedAt: result.data.updatedAt } : t
+                ));
+                setTemplateJson(JSON.stringify(result.data.fields, null, 2));
+                setMessage({ type: 'success', text: 'Parser template saved. It applies to the next upload.' });
+            } else {
+                setMessage({ type: 'error', text: result.error || 'Failed to save parser template' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to save parser template' });
+        } finally {
+            setSavingTemplate(false);
+        }
+    };
+
+    const handleResetTemplate = async () => {
+        const entry = parserTemplates.find(t => t.profileId === templateProfileId);
+        if (!entry || !confirm(`Discard your edits to the ${entry.name} template?`)) return;
+
+        try {
+            const response = await fetch(`/api/settings/parser-templates?profileId=${encodeURIComponent(templateProfileId)}`, {
+                method: 'DELETE',
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                setParserTemplates(prev => prev.map(t =>
+                    t.profileId === templateProfileId ? { ...t, fields: t.builtInFields, updatedAt: null } : t
+                ));
+                setTemplateJson(JSON.stringify(entry.builtInFields, null, 2));
+                setMessage({ type: 'success', text: 'Parser template reset to built-in' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to reset parser template' });
+        }
+    };
+
     const handleSave = async () => {
         if (!settings) return;
 
@@ -104,6 +371,167 @@ export default function SettingsPage() {
         }
     };
 
+    const updateLoanProgram = (index: number, updates: Partial<LoanProgram>) => {
+        if (settings) {
+            const loanPrograms = settings.loanPrograms.map((program, i) =>
+                i === index ? { ...program, ...updates } : program
+            );
+            setSettings({ ...settings, loanPrograms });
+        }
+    };
+
+    const updateExpenseItem = (index: number, updates: Partial<ExpenseItem>) => {
+        if (settings) {
+            const expenseItems = settings.expenseItems.map((item, i) =>
+                i === index ? { ...item, ...updates } : item
+            );
+            setSettings({ ...settings, expenseItems });
+        }
+    };
+
+    const updateRehabCostItem = (index: number, updates: Partial<RehabCostItem>) => {
+        if (settings) {
+            const rehabCatalog = settings.rehabCatalog.map((item, i) =>
+                i === index ? { ...item, ...updates } : item
+            );
+            setSettings({ ...settings, rehabCatalog });
+        }
+    };
+
+    const addRehabCostItem = () => {
+        if (settings) {
+            const item: RehabCostItem = { id: `custom-${Date.now()}`, name: '', keywords: [], basis: 'fixed', cost: 0 };
+            setSettings({ ...settings, rehabCatalog: [...settings.rehabCatalog, item] });
+        }
+    };
+
+    const removeRehabCostItem = (index: number) => {
+        if (settings) {
+            setSettings({ ...settings, rehabCatalog: settings.rehabCatalog.filter((_, i) => i !== index) });
+        }
+    };
+
+    const updateLocationRate = (index: number, updates: Partial<LocationRate>) => {
+        if (settings) {
+            const locationRates = settings.locationRates.map((rate, i) =>
+                i === index ? { ...rate, ...updates } : rate
+            );
+            setSettings({ ...settings, locationRates });
+        }
+    };
+
+    const addLocationRate = () => {
+        if (settings) {
+            const locationRates = [...settings.locationRates, { match: 'zip' as const, value: '', propertyTaxRate: null, insuranceAnnual: null }];
+            setSettings({ ...settings, locationRates });
+        }
+    };
+
+    const removeLocationRate = (index: number) => {
+        if (settings) {
+            setSettings({ ...settings, locationRates: settings.locationRates.filter((_, i) => i !== index) });
+        }
+    };
+
+    const handleImportLocations = async () => {
+        if (!settings || !locationCsv.trim()) return;
+
+        setImportingLocations(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/settings/location-rates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ csv: locationCsv }),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                setSettings({ ...settings, locationRates: result.data.locationRates });
+                setLocationCsv('');
+                const skipped = result.data.errors.length > 0 ? ` Skipped: ${result.data.errors.join('; ')}` : '';
+                setMessage({ type: 'success', text: `Imported ${result.data.imported} location rows.${skipped}` });
+            } else {
+                setMessage({ type: 'error', text: result.error || 'Failed to import location rows' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to import location rows' });
+        } finally {
+            setImportingLocations(false);
+        }
+    };
+
+    const handleImportPaymentStandards = async () => {
+        if (!paymentStandardCsv.trim()) return;
+
+        setImportingPaymentStandards(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/settings/payment-standards', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    csv: paymentStandardCsv,
+                    source: paymentStandardSource,
+                    percent: paymentStandardPercent,
+                }),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                setPaymentStandardZips(result.data.zipCount);
+                setPaymentStandardCsv('');
+                const skipped = result.data.errors.length > 0 ? ` Skipped: ${result.data.errors.join('; ')}` : '';
+                setMessage({ type: 'success', text: `Imported ${result.data.imported} payment standards.${skipped}` });
+            } else {
+                setMessage({ type: 'error', text: result.error || 'Failed to import payment standards' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to import payment standards' });
+        } finally {
+            setImportingPaymentStandards(false);
+        }
+    };
+
+    const handleClearPaymentStandards = async () => {
+        if (!confirm('Delete all imported payment standards?')) return;
+
+        try {
+            const response = await fetch('/api/settings/payment-standards', { method: 'DELETE' });
+            const result = await response.json();
+            if (result.success) {
+                setPaymentStandardZips(0);
+                setMessage({ type: 'success', text: 'Payment standards cleared' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Failed to clear payment standards' });
+        }
+    };
+
+    const updateDscrTier = (index: number, updates: Partial<DscrTier>) => {
+        if (settings) {
+            const lenderDscrTiers = settings.lenderDscrTiers.map((tier, i) =>
+                i === index ? { ...tier, ...updates } : tier
+            );
+            setSettings({ ...settings, lenderDscrTiers });
+        }
+    };
+
+    const updateRateSheetTier = (index: number, updates: Partial<RateSheetTier>) => {
+        if (settings) {
+            const lenderRateSheet = settings.lenderRateSheet.map((tier, i) =>
+                i === index ? { ...tier, ...updates } : tier
+            );
+            setSettings({ ...settings, lenderRateSheet });
+        }
+    };
+
+    // Blank inputs clear optional loan terms
+    const parseOptionalInt = (value: string): number | null => value === '' ? null : parseInt(value) || null;
+    const parseOptionalFloat = (value: string): number | null => value === '' ? null : parseFloat(value) || 0;
+
     if (loading) {
         return (
             <div className="min-h-screen flex items-center justify-center">
@@ -192,6 +620,20 @@ export default function SettingsPage() {
                                 onChange={(e) => updateSetting('minBathrooms', parseFloat(e.target.value) || 0)}
                             />
                         </div>
+                        <div>
+                            <label className="label">Apply Bed/Bath Minimums To</label>
+                            <select
+                                className="input w-full"
+                                value={settings.bedroomFilterMode}
+                                onChange={(e) => updateSetting('bedroomFilterMode', e.target.value as Settings['bedroomFilterMode'])}
+                            >
+                                <option value="building">Whole building</option>
+                                <option value="unit">Every unit</option>
+                            </select>
+                            <p className="text-xs text-[var(--muted)] mt-1">
+                                Only matters for duplexes and larger
+                            </p>
+                        </div>
                         <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
                             <div>
                                 <p className="font-medium">Occupied Section 8 Only</p>
@@ -207,6 +649,146 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
+                {/* Voucher Payment Standards */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">🏛️ Voucher Payment Standards</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        {paymentStandardZips > 0
+                            ? `Payment standards on file for ${paymentStandardZips} ZIP codes`
+                            : 'No payment standards imported yet'}
+                    </p>
+                    <div className="space-y-4">
+                        {/* Rent Check Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div className="flex-1">
+                                <p className="font-medium">Flag Rent Above Payment Standard</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Send properties to review when listed rent exceeds the standard by more than this %
+                                </p>
+                            </div>
+                            {settings.paymentStandardCheckEnabled && (
+                                <input
+                                    type="number"
+                                    className="input w-24 mr-4"
+                                    value={settings.paymentStandardTolerancePercent}
+                                    onChange={(e) => updateSetting('paymentStandardTolerancePercent', parseFloat(e.target.value) || 0)}
+                                />
+                            )}
+                            <button
+                                onClick={() => updateSetting('paymentStandardCheckEnabled', !settings.paymentStandardCheckEnabled)}
+                                className={`toggle ${settings.paymentStandardCheckEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+
+                        {/* Rent Cap Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Cap Rent at Payment Standard</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Underwrite at the payment standard when the listed rent is higher
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('paymentStandardCapRent', !settings.paymentStandardCapRent)}
+                                className={`toggle ${settings.paymentStandardCapRent ? 'active' : ''}`}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="label">Import CSV</label>
+                            <textarea
+                                value={paymentStandardCsv}
+                                onChange={(e) => setPaymentStandardCsv(e.target.value)}
+                                placeholder={'ZIP Code,SAFMR 0BR,SAFMR 1BR,SAFMR 2BR,SAFMR 3BR,SAFMR 4BR\n35208,820,900,1080,1390,1560\n\nor\n\nzip,bedrooms,amount\n35208,3,1390'}
+                                className="input w-full h-32 font-mono text-sm"
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">
+                                HUD Small Area FMR file or your housing authority&apos;s schedule. Rows replace existing amounts for the same ZIP and bedroom count.
+                            </p>
+                        </div>
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="label">Source</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    placeholder="HUD SAFMR FY2026"
+                                    value={paymentStandardSource}
+                                    onChange={(e) => setPaymentStandardSource(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label className="label">Payment Standard (% of listed amount)</label>
+                                <input
+                                    type="number"
+                                    className="input"
+                                    value={paymentStandardPercent}
+                                    onChange={(e) => setPaymentStandardPercent(parseFloat(e.target.value) || 100)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">e.g. 110 if the PHA pays 110% of SAFMR</p>
+                            </div>
+                        </div>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={handleImportPaymentStandards}
+                                disabled={importingPaymentStandards || !paymentStandardCsv.trim()}
+                                className="btn btn-primary"
+                            >
+                                {importingPaymentStandards ? 'Importing...' : 'Import Payment Standards'}
+                            </button>
+                            {paymentStandardZips > 0 && (
+                                <button onClick={handleClearPaymentStandards} className="btn btn-danger">
+                                    Clear All
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </section>
+
+                {/* Comps */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">📊 Comps From Earlier Runs</h2>
+                    <div className="space-y-4">
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Flag Rent and Price Outliers</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Send properties to review when rent or asking price is far from similar properties in the same ZIP or city
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('compsEnabled', !settings.compsEnabled)}
+                                className={`toggle ${settings.compsEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.compsEnabled && (
+                            <div className="grid md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="label">Minimum Comps</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        className="input"
+                                        value={settings.compsMinSampleSize}
+                                        onChange={(e) => updateSetting('compsMinSampleSize', Math.max(1, parseInt(e.target.value) || 1))}
+                                    />
+                                    <p className="text-xs text-[var(--muted)] mt-1">Fewer comps than this never flag a property</p>
+                                </div>
+                                <div>
+                                    <label className="label">Outlier Threshold (%)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.compsOutlierPercent}
+                                        onChange={(e) => updateSetting('compsOutlierPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                    <p className="text-xs text-[var(--muted)] mt-1">Distance from the comp median that gets flagged</p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
                 {/* Market Status Section */}
                 <section className="card mb-6">
                     <h2 className="text-xl font-bold mb-6">🏠 Market Status</h2>
@@ -227,43 +809,245 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
-                {/* Underwriting Assumptions */}
+                {/* LLM Extraction */}
                 <section className="card mb-6">
-                    <h2 className="text-xl font-bold mb-6">💰 Underwriting Assumptions</h2>
-                    <div className="grid md:grid-cols-2 gap-6">
-                        <div>
-                            <label className="label">Down Payment (%)</label>
-                            <input
-                                type="number"
-                                className="input"
-                                value={settings.downPaymentPercent}
-                                onChange={(e) => updateSetting('downPaymentPercent', parseFloat(e.target.value) || 0)}
-                            />
-                        </div>
-                        <div>
-                            <label className="label">Closing Costs (%)</label>
-                            <input
-                                type="number"
-                                className="input"
-                                value={settings.closingCostPercent}
-                                onChange={(e) => updateSetting('closingCostPercent', parseFloat(e.target.value) || 0)}
-                            />
-                        </div>
-                        <div>
-                            <label className="label">DSCR Loan Rate (%)</label>
-                            <input
-                                type="number"
-                                step="0.1"
-                                min="7"
-                                max="8.5"
-                                className="input"
-                                value={settings.dscrRate}
-                                onChange={(e) => updateSetting('dscrRate', parseFloat(e.target.value) || 8)}
-                            />
-                            <p className="text-xs text-[var(--muted)] mt-1">Range: 7.0% - 8.5%</p>
+                    <h2 className="text-xl font-bold mb-2">🤖 LLM Extraction</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Vision model that reads scanned pages with no selectable text. Hosted providers use the
+                        OPENAI_API_KEY, ANTHROPIC_API_KEY or GOOGLE_API_KEY environment variable; without a key
+                        those pages go through OCR instead.
+                    </p>
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                                <label className="label">Provider</label>
+                                <select
+                                    className="input"
+                                    value={settings.llmProvider}
+                                    onChange={(e) => updateSetting('llmProvider', e.target.value as LlmProvider)}
+                                >
+                                    {LLM_PROVIDER_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="label">Model</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    placeholder={LLM_PROVIDER_OPTIONS.find(o => o.value === settings.llmProvider)?.defaultModel}
+                                    value={settings.llmModel}
+                                    onChange={(e) => updateSetting('llmModel', e.target.value)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">
+                                    Leave blank for the provider&apos;s default. Recorded on each run.
+                                </p>
+                            </div>
                         </div>
-                        <div>
-                            <label className="label">Loan Term (years)</label>
+                        {settings.llmProvider === 'local' && (
+                            <div>
+                                <label className="label">Base URL</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    placeholder="http://localhost:11434/v1"
+                                    value={settings.llmBaseUrl}
+                                    onChange={(e) => updateSetting('llmBaseUrl', e.target.value)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">
+                                    Any server with an OpenAI-compatible chat completions API (Ollama, LM Studio, vLLM)
+                                </p>
+                            </div>
+                        )}
+                        {settings.llmProvider === 'fixture' && (
+                            <div>
+                                <label className="label">Fixture Directory</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    placeholder="data/llm-fixtures"
+                                    value={settings.llmFixtureDir}
+                                    onChange={(e) => updateSetting('llmFixtureDir', e.target.value)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">
+                                    Recorded replies: page_N.json for extraction, verify_page_N.json for verification
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
+                {/* Parser Templates */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">🧩 Parser Templates</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Labels each list format is read with. Add a label variant (e.g. &quot;Est. Sec 8 Rent&quot;) to a field&apos;s
+                        aliases instead of waiting for a code change.
+                    </p>
+                    <div className="space-y-4">
+                        <div className="flex items-end gap-4">
+                            <div className="flex-1">
+                                <label className="label">List Format</label>
+                                <select
+                                    className="input w-full"
+                                    value={templateProfileId}
+                                    onChange={(e) => handleSelectTemplate(e.target.value)}
+                                >
+                                    {parserTemplates.map(t => (
+                                        <option key={t.profileId} value={t.profileId}>
+                                            {t.name}{t.updatedAt ? ' (edited)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button onClick={handleResetTemplate} className="btn btn-secondary">
+                                Reset to Built-in
+                            </button>
+                            <button onClick={handleSaveTemplate} className="btn btn-primary" disabled={savingTemplate}>
+                                {savingTemplate ? 'Saving...' : 'Save Template'}
+                            </button>
+                        </div>
+
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="label">Template (JSON)</label>
+                                <textarea
+                                    value={templateJson}
+                                    onChange={(e) => setTemplateJson(e.target.value)}
+                                    className="input w-full h-96 font-mono text-xs"
+                                    spellCheck={false}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">
+                                    valueType: money, k-money ($110k), range ($1,200-$1,300), int, number or bool.
+                                    multiplier: {'{ "suffix": "k", "factor": 1000, "below": 1000 }'}. The first entry that matches a field wins.
+                                </p>
+                            </div>
+                            <div>
+                                <label className="label">Sample Text</label>
+                                <textarea
+                                    value={templateSample}
+                                    onChange={(e) => setTemplateSample(e.target.value)}
+                                    placeholder={'Paste a listing from a PDF, e.g.\n\n1234 Main St\nAsking Price: $85k\nEst. Sec 8 Rent: $1,200-$1,300\nARV: $140k'}
+                                    className="input w-full h-96 font-mono text-xs"
+                                />
+                            </div>
+                        </div>
+
+                        {templateError && (
+                            <p className="text-sm text-[var(--danger)]">{templateError}</p>
+                        )}
+
+                        {templatePreview && (
+                            <div className="space-y-4">
+                                <div>
+                                    <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-2">Fields Matched</h3>
+                                    {Object.keys(templatePreview.matches).length === 0 ? (
+                                        <p className="text-sm text-[var(--muted)]">No field labels found in the sample</p>
+                                    ) : (
+                                        <table className="table text-sm">
+                                            <thead>
+                                                <tr>
+                                                    <th>Field</th>
+                                                    <th>Matched Text</th>
+                                                    <th>Value</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {Object.entries(templatePreview.matches).map(([field, match]) => (
+                                                    <tr key={field}>
+                                                        <td>{field}</td>
+                                                        <td className="font-mono text-xs">{match.text}</td>
+                                                        <td>{String(match.value)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                                <div>
+                                    <h3 className="text-sm font-bold text-[var(--muted)] uppercase mb-2">
+                                        Listings Parsed ({templatePreview.properties.length})
+                                    </h3>
+                                    {templatePreview.properties.length > 0 && (
+                                        <table className="table text-sm">
+                                            <thead>
+                                                <tr>
+                                                    <th>Address</th>
+                                                    <th>Asking</th>
+                                                    <th>Offer</th>
+                                                    <th>Rent</th>
+                                                    <th>ARV</th>
+                                                    <th>Rehab</th>
+                                                    <th>Bd/Ba</th>
+                                                    <th>Notes</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {templatePreview.properties.map((property, index) => (
+                                                    <tr key={index}>
+                                                        <td>{[property.address, property.city].filter(Boolean).join(', ') || '-'}</td>
+                                                        <td>{formatPreviewMoney(property.askingPrice)}</td>
+                                                        <td>{formatPreviewMoney(property.suggestedOffer)}</td>
+                                                        <td>
+                                                            {property.rentMin != null && property.rentMin !== property.rentMax
+                                                                ? `${formatPreviewMoney(property.rentMin)}-${formatPreviewMoney(property.rentMax)}`
+                                                                : formatPreviewMoney(property.rentMax)}
+                                                        </td>
+                                                        <td>{formatPreviewMoney(property.arv)}</td>
+                                                        <td>{formatPreviewMoney(property.rehabNeeded)}</td>
+                                                        <td>{property.bedrooms ?? '-'}/{property.bathrooms ?? '-'}</td>
+                                                        <td className="text-xs text-[var(--muted)]">
+                                                            {[property.zillowStatus, property.reviewNotes].filter(Boolean).join('; ')}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
+                {/* Underwriting Assumptions */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">💰 Underwriting Assumptions</h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="label">Down Payment (%)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.downPaymentPercent}
+                                onChange={(e) => updateSetting('downPaymentPercent', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Closing Costs (%)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.closingCostPercent}
+                                onChange={(e) => updateSetting('closingCostPercent', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">DSCR Loan Rate (%)</label>
+                            <input
+                                type="number"
+                                step="0.1"
+                                min="7"
+                                max="8.5"
+                                className="input"
+                                value={settings.dscrRate}
+                                onChange={(e) => updateSetting('dscrRate', parseFloat(e.target.value) || 8)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">Range: 7.0% - 8.5%</p>
+                        </div>
+                        <div>
+                            <label className="label">Loan Term (years)</label>
                             <input
                                 type="number"
                                 className="input"
@@ -300,6 +1084,16 @@ export default function SettingsPage() {
                                 onChange={(e) => updateSetting('insuranceAnnual', parseInt(e.target.value) || 0)}
                             />
                         </div>
+                        <div>
+                            <label className="label">Per-Unit Expense ($/unit/mo)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.unitExpenseMonthly}
+                                onChange={(e) => updateSetting('unitExpenseMonthly', parseFloat(e.target.value) || 0)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">Owner-paid utilities on multi-unit buildings</p>
+                        </div>
                         <div>
                             <label className="label">Top N Deals</label>
                             <input
@@ -310,6 +1104,20 @@ export default function SettingsPage() {
                             />
                         </div>
 
+                        {/* Conservative Ranking Toggle */}
+                        <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Rank on Conservative Case</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Score deals at the low end of their rent/ARV range instead of the listed rent
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('rankOnConservative', !settings.rankOnConservative)}
+                                className={`toggle ${settings.rankOnConservative ? 'active' : ''}`}
+                            />
+                        </div>
+
                         {/* Vacancy Toggle */}
                         <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
                             <div className="flex-1">
@@ -356,6 +1164,849 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
+                {/* Tax & Insurance by Location */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">📍 Tax &amp; Insurance by Location</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Overrides the property tax rate and insurance for matching properties. ZIP beats city, city beats county; blank cells use the global values.
+                    </p>
+                    <div className="space-y-4">
+                        {settings.locationRates.map((rate, index) => (
+                            <div key={index} className="grid md:grid-cols-5 gap-4 p-4 bg-[var(--background)] rounded-lg items-end">
+                                <div>
+                                    <label className="label">Match</label>
+                                    <select
+                                        className="input w-full"
+                                        value={rate.match}
+                                        onChange={(e) => updateLocationRate(index, { match: e.target.value as LocationRate['match'] })}
+                                    >
+                                        <option value="zip">ZIP</option>
+                                        <option value="city">City</option>
+                                        <option value="county">County</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="label">Value</label>
+                                    <input
+                                        type="text"
+                                        className="input"
+                                        value={rate.value}
+                                        onChange={(e) => updateLocationRate(index, { value: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Tax Rate (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        className="input"
+                                        value={rate.propertyTaxRate ?? ''}
+                                        onChange={(e) => updateLocationRate(index, { propertyTaxRate: parseOptionalFloat(e.target.value) })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Insurance ($/yr)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={rate.insuranceAnnual ?? ''}
+                                        onChange={(e) => updateLocationRate(index, { insuranceAnnual: parseOptionalFloat(e.target.value) })}
+                                    />
+                                </div>
+                                <button onClick={() => removeLocationRate(index)} className="btn btn-danger">
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                        <button onClick={addLocationRate} className="btn btn-secondary">
+                            + Add Location
+                        </button>
+
+                        <div>
+                            <label className="label">Import CSV</label>
+                            <textarea
+                                value={locationCsv}
+                                onChange={(e) => setLocationCsv(e.target.value)}
+                                placeholder={'match,value,propertyTaxRate,insuranceAnnual\nzip,35208,0.65,1400\ncounty,Jefferson,0.7,'}
+                                className="input w-full h-28 font-mono text-sm"
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">
+                                Rows replace existing rows for the same ZIP, city or county
+                            </p>
+                            <button
+                                onClick={handleImportLocations}
+                                disabled={importingLocations || !locationCsv.trim()}
+                                className="btn btn-primary mt-2"
+                            >
+                                {importingLocations ? 'Importing...' : 'Import Rows'}
+                            </button>
+                        </div>
+
+                        {/* Insurance Scaling Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Scale Insurance by Size and Age</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Multiply insurance by sqft over the base size, plus a surcharge for homes built before the cutoff year
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('insuranceScalingEnabled', !settings.insuranceScalingEnabled)}
+                                className={`toggle ${settings.insuranceScalingEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.insuranceScalingEnabled && (
+                            <div className="grid md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="label">Base Size (sqft)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.insuranceBaseSqft}
+                                        onChange={(e) => updateSetting('insuranceBaseSqft', parseInt(e.target.value) || 1200)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Old Home Built Before</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.insuranceOldHomeYear}
+                                        onChange={(e) => updateSetting('insuranceOldHomeYear', parseInt(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Old Home Surcharge (%)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.insuranceOldHomeSurchargePercent}
+                                        onChange={(e) => updateSetting('insuranceOldHomeSurchargePercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
+                {/* Expense Line Items */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">🧾 Expense Line Items</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Owner-paid costs on top of PM, vacancy, maintenance, taxes and insurance
+                    </p>
+                    <div className="space-y-4">
+                        {settings.expenseItems.map((item, index) => (
+                            <div key={item.id} className="p-4 bg-[var(--background)] rounded-lg">
+                                <div className="flex items-center justify-between">
+                                    <p className="font-medium">{item.name}</p>
+                                    <button
+                                        onClick={() => updateExpenseItem(index, { enabled: !item.enabled })}
+                                        className={`toggle ${item.enabled ? 'active' : ''}`}
+                                    />
+                                </div>
+                                {item.enabled && (
+                                    <div className="grid md:grid-cols-2 gap-4 mt-4">
+                                        <div>
+                                            <label className="label">Charged As</label>
+                                            <select
+                                                className="input w-full"
+                                                value={item.type}
+                                                onChange={(e) => updateExpenseItem(index, { type: e.target.value as ExpenseItemType })}
+                                            >
+                                                <option value="fixed">$ per month</option>
+                                                <option value="percentOfRent">% of rent</option>
+                                                <option value="percentOfValue">% of price per year</option>
+                                                <option value="perTurnover">$ per tenant turnover</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="label">Amount</label>
+                                            <input
+                                                type="number"
+                                                step="0.1"
+                                                className="input"
+                                                value={item.amount}
+                                                onChange={(e) => updateExpenseItem(index, { amount: parseFloat(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                        <div>
+                            <label className="label">Average Tenancy (years)</label>
+                            <input
+                                type="number"
+                                step="0.5"
+                                className="input"
+                                value={settings.averageTenancyYears}
+                                onChange={(e) => updateSetting('averageTenancyYears', parseFloat(e.target.value) || 1)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">
+                                Per-turnover costs are spread over this many years per unit. Raise the capex reserve for an older roof or HVAC.
+                            </p>
+                        </div>
+                    </div>
+                </section>
+
+                {/* Rehab Cost Catalog */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">🔨 Rehab Cost Catalog</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Prices the listing&apos;s &quot;Needs:&quot; repair list. An item is priced by the first entry with one of its keywords.
+                    </p>
+                    <div className="space-y-4">
+                        {settings.rehabCatalog.map((item, index) => (
+                            <div key={item.id} className="grid md:grid-cols-5 gap-4 p-4 bg-[var(--background)] rounded-lg items-end">
+                                <div>
+                                    <label className="label">Name</label>
+                                    <input
+                                        type="text"
+                                        className="input"
+                                        value={item.name}
+                                        onChange={(e) => updateRehabCostItem(index, { name: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Keywords</label>
+                                    {/* Saved on blur so commas can be typed */}
+                                    <input
+                                        type="text"
+                                        className="input"
+                                        defaultValue={item.keywords.join(', ')}
+                                        onBlur={(e) => updateRehabCostItem(index, {
+                                            keywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean),
+                                        })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Priced</label>
+                                    <select
+                                        className="input w-full"
+                                        value={item.basis}
+                                        onChange={(e) => updateRehabCostItem(index, { basis: e.target.value as RehabCostItem['basis'] })}
+                                    >
+                                        <option value="fixed">$ flat</option>
+                                        <option value="perSqft">$ per sqft</option>
+                                        <option value="perUnit">$ per unit</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="label">Cost ($)</label>
+                                    <input
+                                        type="number"
+                                        step="0.5"
+                                        className="input"
+                                        value={item.cost}
+                                        onChange={(e) => updateRehabCostItem(index, { cost: parseFloat(e.target.value) || 0 })}
+                                    />
+                                </div>
+                                <button onClick={() => removeRehabCostItem(index)} className="btn btn-danger">
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                        <button onClick={addRehabCostItem} className="btn btn-secondary">
+                            + Add Catalog Item
+                        </button>
+
+                        <div className="grid md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="label">Contingency (%)</label>
+                                <input
+                                    type="number"
+                                    className="input"
+                                    value={settings.rehabContingencyPercent}
+                                    onChange={(e) => updateSetting('rehabContingencyPercent', parseFloat(e.target.value) || 0)}
+                                />
+                            </div>
+                            <div>
+                                <label className="label">Unlisted Item ($)</label>
+                                <input
+                                    type="number"
+                                    className="input"
+                                    value={settings.rehabUnmatchedItemCost}
+                                    onChange={(e) => updateSetting('rehabUnmatchedItemCost', parseFloat(e.target.value) || 0)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">For repair items no keyword matches</p>
+                            </div>
+                            <div>
+                                <label className="label">Default Size (sqft)</label>
+                                <input
+                                    type="number"
+                                    className="input"
+                                    value={settings.rehabDefaultSqft}
+                                    onChange={(e) => updateSetting('rehabDefaultSqft', parseInt(e.target.value) || 1200)}
+                                />
+                                <p className="text-xs text-[var(--muted)] mt-1">For per-sqft items when the listing has no sqft</p>
+                            </div>
+                        </div>
+
+                        {/* Use Higher Estimate Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Underwrite the Higher Rehab</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Use our estimate instead of the wholesaler&apos;s when ours is higher
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('rehabUseHigherEstimate', !settings.rehabUseHigherEstimate)}
+                                className={`toggle ${settings.rehabUseHigherEstimate ? 'active' : ''}`}
+                            />
+                        </div>
+                    </div>
+                </section>
+
+                {/* Portfolio Optimizer */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">💼 Portfolio Optimizer</h2>
+                    <p className="text-sm text-[var(--muted)] mb-4">
+                        Picks the best basket of deals that fits your cash. Set capital to 0 to turn it off.
+                    </p>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="label">Available Capital ($)</label>
+                            <input
+                                type="number"
+                                step="5000"
+                                className="input"
+                                value={settings.portfolioCapital}
+                                onChange={(e) => updateSetting('portfolioCapital', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Optimize For</label>
+                            <select
+                                className="input w-full"
+                                value={settings.portfolioObjective}
+                                onChange={(e) => updateSetting('portfolioObjective', e.target.value as Settings['portfolioObjective'])}
+                            >
+                                <option value="cashflow">Total cashflow</option>
+                                <option value="totalReturn">10-year total return</option>
+                                <option value="score">Total score</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="label">Max Properties</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.portfolioMaxProperties}
+                                onChange={(e) => updateSetting('portfolioMaxProperties', parseInt(e.target.value) || 1)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Max Per ZIP</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.portfolioMaxPerZip}
+                                onChange={(e) => updateSetting('portfolioMaxPerZip', parseInt(e.target.value) || 0)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">0 = no ZIP concentration limit</p>
+                        </div>
+                    </div>
+                </section>
+
+                {/* Loan Programs */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-2">🏦 Loan Programs</h2>
+                    <p className="text-sm text-[var(--muted)] mb-6">
+                        Every deal is underwritten under the DSCR loan above plus each enabled program,
+                        and analyzed with whichever gives the best cash-on-cash return after any rate reset
+                    </p>
+                    <div className="space-y-4">
+                        {settings.loanPrograms.map((program, index) => (
+                            <div key={program.id} className="p-4 bg-[var(--background)] rounded-lg">
+                                <div className="flex items-center justify-between mb-4">
+                                    <div>
+                                        <p className="font-medium">{program.name}</p>
+                                        <p className="text-sm text-[var(--muted)]">{program.type}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => updateLoanProgram(index, { enabled: !program.enabled })}
+                                        className={`toggle ${program.enabled ? 'active' : ''}`}
+                                    />
+                                </div>
+                                {program.enabled && (
+                                    <div className="grid md:grid-cols-4 gap-4">
+                                        <div>
+                                            <label className="label">Down Payment (%)</label>
+                                            <input
+                                                type="number"
+                                                className="input"
+                                                value={program.downPaymentPercent}
+                                                onChange={(e) => updateLoanProgram(index, { downPaymentPercent: parseFloat(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        {program.type !== 'cash' && (
+                                            <>
+                                                <div>
+                                                    <label className="label">Rate (%)</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.125"
+                                                        className="input"
+                                                        value={program.interestRate}
+                                                        onChange={(e) => updateLoanProgram(index, { interestRate: parseFloat(e.target.value) || 0 })}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="label">Amortization (years)</label>
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        value={program.loanTermYears}
+                                                        onChange={(e) => updateLoanProgram(index, { loanTermYears: parseInt(e.target.value) || 30 })}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="label">Interest-Only (months)</label>
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        value={program.interestOnlyMonths}
+                                                        onChange={(e) => updateLoanProgram(index, { interestOnlyMonths: parseInt(e.target.value) || 0 })}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="label">Balloon Due (month)</label>
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        placeholder="None"
+                                                        value={program.balloonMonths ?? ''}
+                                                        onChange={(e) => updateLoanProgram(index, { balloonMonths: parseOptionalInt(e.target.value) })}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="label">Rate Resets After (months)</label>
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        placeholder="Fixed"
+                                                        value={program.rateResetMonths ?? ''}
+                                                        onChange={(e) => updateLoanProgram(index, { rateResetMonths: parseOptionalInt(e.target.value) })}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="label">Reset Rate (%)</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.125"
+                                                        className="input"
+                                                        placeholder="Fixed"
+                                                        value={program.resetRate ?? ''}
+                                                        onChange={(e) => updateLoanProgram(index, { resetRate: parseOptionalFloat(e.target.value) })}
+                                                    />
+                                                </div>
+                                            </>
+                                        )}
+                                        <div>
+                                            <label className="label">Closing Costs (%)</label>
+                                            <input
+                                                type="number"
+                                                step="0.5"
+                                                className="input"
+                                                placeholder={`${settings.closingCostPercent} (default)`}
+                                                value={program.closingCostPercent ?? ''}
+                                                onChange={(e) => updateLoanProgram(index, { closingCostPercent: parseOptionalFloat(e.target.value) })}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                {/* DSCR Lender Rules */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🏛️ DSCR Lender Rules</h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Check DSCR Loan Qualification</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Flag deals a DSCR lender would not finance (loan too small, LTV too high, DSCR too low)
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('lenderRulesEnabled', !settings.lenderRulesEnabled)}
+                                className={`toggle ${settings.lenderRulesEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.lenderRulesEnabled && (
+                            <>
+                                <div>
+                                    <label className="label">Minimum Loan Amount ($)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.lenderMinLoanAmount}
+                                        onChange={(e) => updateSetting('lenderMinLoanAmount', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Maximum LTV (%)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.lenderMaxLtvPercent}
+                                        onChange={(e) => updateSetting('lenderMaxLtvPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div className="md:col-span-2">
+                                    <label className="label">Minimum DSCR by LTV</label>
+                                    <div className="space-y-2">
+                                        {settings.lenderDscrTiers.map((tier, index) => (
+                                            <div key={index} className="grid grid-cols-2 gap-4">
+                                                <input
+                                                    type="number"
+                                                    className="input"
+                                                    value={tier.maxLtvPercent}
+                                                    onChange={(e) => updateDscrTier(index, { maxLtvPercent: parseFloat(e.target.value) || 0 })}
+                                                />
+                                                <input
+                                                    type="number"
+                                                    step="0.05"
+                                                    className="input"
+                                                    value={tier.minDscr}
+                                                    onChange={(e) => updateDscrTier(index, { minDscr: parseFloat(e.target.value) || 0 })}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-[var(--muted)] mt-1">Up to LTV (%) → minimum DSCR</p>
+                                </div>
+                                <div>
+                                    <label className="label">Rate Add-On if DSCR &lt; 1.0 (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.125"
+                                        className="input"
+                                        value={settings.lenderLowDscrRateAddOn}
+                                        onChange={(e) => updateSetting('lenderLowDscrRateAddOn', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Small Loan Threshold ($)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.lenderSmallLoanAmount}
+                                        onChange={(e) => updateSetting('lenderSmallLoanAmount', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Small Loan Rate Add-On (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.125"
+                                        className="input"
+                                        value={settings.lenderSmallLoanRateAddOn}
+                                        onChange={(e) => updateSetting('lenderSmallLoanRateAddOn', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Prepayment Penalty by Year (%)</label>
+                                    <input
+                                        type="text"
+                                        className="input"
+                                        defaultValue={settings.lenderPrepayPenaltySchedule.join(', ')}
+                                        onBlur={(e) => updateSetting(
+                                            'lenderPrepayPenaltySchedule',
+                                            e.target.value.split(',').map(v => parseFloat(v)).filter(v => !isNaN(v))
+                                        )}
+                                    />
+                                    <p className="text-xs text-[var(--muted)] mt-1">Charged on the payoff when the BRRRR refi happens early</p>
+                                </div>
+                                <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                                    <div>
+                                        <p className="font-medium">Price From Rate Sheet</p>
+                                        <p className="text-sm text-[var(--muted)]">
+                                            Price the DSCR rate by DSCR, LTV and loan size (replaces the two add-ons above)
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => updateSetting('lenderRateSheetEnabled', !settings.lenderRateSheetEnabled)}
+                                        className={`toggle ${settings.lenderRateSheetEnabled ? 'active' : ''}`}
+                                    />
+                                </div>
+                                {settings.lenderRateSheetEnabled && (
+                                    <div className="md:col-span-2">
+                                        <label className="label">Rate Sheet</label>
+                                        <div className="space-y-2">
+                                            {settings.lenderRateSheet.map((tier, index) => (
+                                                <div key={index} className="grid grid-cols-4 gap-4">
+                                                    <input
+                                                        type="number"
+                                                        step="0.05"
+                                                        className="input"
+                                                        value={tier.minDscr}
+                                                        onChange={(e) => updateRateSheetTier(index, { minDscr: parseFloat(e.target.value) || 0 })}
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        value={tier.maxLtvPercent}
+                                                        onChange={(e) => updateRateSheetTier(index, { maxLtvPercent: parseFloat(e.target.value) || 0 })}
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        className="input"
+                                                        value={tier.minLoanAmount}
+                                                        onChange={(e) => updateRateSheetTier(index, { minLoanAmount: parseFloat(e.target.value) || 0 })}
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        step="0.125"
+                                                        className="input"
+                                                        value={tier.rateAdjustment}
+                                                        onChange={(e) => updateRateSheetTier(index, { rateAdjustment: parseFloat(e.target.value) || 0 })}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-[var(--muted)] mt-1">
+                                            DSCR at least → LTV up to (%) → loan at least ($) → rate adjustment (%). The tightest matching row prices the loan.
+                                        </p>
+                                    </div>
+                                )}
+                                <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                                    <div>
+                                        <p className="font-medium">Underwrite Unfinanceable Deals Without the DSCR Loan</p>
+                                        <p className="text-sm text-[var(--muted)]">
+                                            Use the other loan programs (or all cash) instead of just flagging the deal
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => updateSetting('lenderFallbackToCash', !settings.lenderFallbackToCash)}
+                                        className={`toggle ${settings.lenderFallbackToCash ? 'active' : ''}`}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </section>
+
+                {/* BRRRR Refinance */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🔄 BRRRR Refinance</h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div className="md:col-span-2 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Model Cash-Out Refinance</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Refinance at a percentage of ARV after seasoning (properties with an ARV only)
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('refinanceEnabled', !settings.refinanceEnabled)}
+                                className={`toggle ${settings.refinanceEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.refinanceEnabled && (
+                            <>
+                                <div>
+                                    <label className="label">Refinance LTV (% of ARV)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.refinanceLtvPercent}
+                                        onChange={(e) => updateSetting('refinanceLtvPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Refinance Rate (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        className="input"
+                                        value={settings.refinanceRate}
+                                        onChange={(e) => updateSetting('refinanceRate', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Refinance Term (years)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.refinanceTermYears}
+                                        onChange={(e) => updateSetting('refinanceTermYears', parseInt(e.target.value) || 30)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Seasoning Period (months)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.refinanceSeasoningMonths}
+                                        onChange={(e) => updateSetting('refinanceSeasoningMonths', parseInt(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Refinance Closing Costs (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.5"
+                                        className="input"
+                                        value={settings.refinanceClosingCostPercent}
+                                        onChange={(e) => updateSetting('refinanceClosingCostPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                    <p className="text-xs text-[var(--muted)] mt-1">Of the new loan amount</p>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </section>
+
+                {/* Offer Targets */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🎯 Offer Targets</h2>
+                    <p className="text-sm text-[var(--muted)] mb-4">
+                        Max offer is the highest price that still meets every target below
+                    </p>
+                    <div className="grid md:grid-cols-3 gap-6">
+                        <div>
+                            <label className="label">Min DSCR</label>
+                            <input
+                                type="number"
+                                step="0.05"
+                                className="input"
+                                value={settings.offerMinDscr}
+                                onChange={(e) => updateSetting('offerMinDscr', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Min Monthly Cashflow ($)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.offerMinCashflow}
+                                onChange={(e) => updateSetting('offerMinCashflow', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Min CoC Return (%)</label>
+                            <input
+                                type="number"
+                                step="0.5"
+                                className="input"
+                                value={settings.offerMinCocReturn}
+                                onChange={(e) => updateSetting('offerMinCocReturn', parseFloat(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div className="md:col-span-3 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Apply 70% Rule</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Cap offers at 70% of ARV minus rehab (properties with an ARV only)
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('offerSeventyPercentRule', !settings.offerSeventyPercentRule)}
+                                className={`toggle ${settings.offerSeventyPercentRule ? 'active' : ''}`}
+                            />
+                        </div>
+                    </div>
+                </section>
+
+                {/* Stress Test */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🌪️ Stress Test</h2>
+                    <div className="grid md:grid-cols-3 gap-6">
+                        <div className="md:col-span-3 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Flag Deals That Fail Under Stress</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Each shock is applied on its own; a deal fails if any one drives cashflow negative or DSCR below the minimum
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('stressTestEnabled', !settings.stressTestEnabled)}
+                                className={`toggle ${settings.stressTestEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.stressTestEnabled && (
+                            <>
+                                <div>
+                                    <label className="label">Rate Increase (pts)</label>
+                                    <input
+                                        type="number"
+                                        step="0.25"
+                                        className="input"
+                                        value={settings.stressRatePoints}
+                                        onChange={(e) => updateSetting('stressRatePoints', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Rent Drop (%)</label>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        className="input"
+                                        value={settings.stressRentPercent}
+                                        onChange={(e) => updateSetting('stressRentPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Vacancy Increase (pts)</label>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        className="input"
+                                        value={settings.stressVacancyPoints}
+                                        onChange={(e) => updateSetting('stressVacancyPoints', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Tax Increase (%)</label>
+                                    <input
+                                        type="number"
+                                        step="5"
+                                        className="input"
+                                        value={settings.stressTaxPercent}
+                                        onChange={(e) => updateSetting('stressTaxPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Insurance Increase (%)</label>
+                                    <input
+                                        type="number"
+                                        step="5"
+                                        className="input"
+                                        value={settings.stressInsurancePercent}
+                                        onChange={(e) => updateSetting('stressInsurancePercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Price Increase (%)</label>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        className="input"
+                                        value={settings.stressPricePercent}
+                                        onChange={(e) => updateSetting('stressPricePercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Min DSCR Under Stress</label>
+                                    <input
+                                        type="number"
+                                        step="0.05"
+                                        className="input"
+                                        value={settings.stressMinDscr}
+                                        onChange={(e) => updateSetting('stressMinDscr', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </section>
+
                 {/* Forecast Assumptions */}
                 <section className="card mb-6">
                     <h2 className="text-xl font-bold mb-6">📈 Forecast Assumptions</h2>
@@ -393,6 +2044,207 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
+                {/* Monte Carlo */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🎲 Monte Carlo Simulation</h2>
+                    <div className="grid md:grid-cols-3 gap-6">
+                        <div className="md:col-span-3 flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Simulate Forecast Ranges</p>
+                                <p className="text-sm text-[var(--muted)]">
+                                    Samples growth, inflation, vacancy and capex each year around the forecast assumptions above and reports P10/P50/P90
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('monteCarloEnabled', !settings.monteCarloEnabled)}
+                                className={`toggle ${settings.monteCarloEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.monteCarloEnabled && (
+                            <>
+                                <div>
+                                    <label className="label">Trials</label>
+                                    <input
+                                        type="number"
+                                        step="100"
+                                        className="input"
+                                        value={settings.monteCarloTrials}
+                                        onChange={(e) => updateSetting('monteCarloTrials', parseInt(e.target.value) || 1)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Random Seed</label>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        className="input"
+                                        value={settings.monteCarloSeed}
+                                        onChange={(e) => updateSetting('monteCarloSeed', parseInt(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Appreciation Std Dev (pts)</label>
+                                    <input
+                                        type="number"
+                                        step="0.5"
+                                        className="input"
+                                        value={settings.monteCarloAppreciationStdDev}
+                                        onChange={(e) => updateSetting('monteCarloAppreciationStdDev', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Rent Growth Std Dev (pts)</label>
+                                    <input
+                                        type="number"
+                                        step="0.5"
+                                        className="input"
+                                        value={settings.monteCarloRentGrowthStdDev}
+                                        onChange={(e) => updateSetting('monteCarloRentGrowthStdDev', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Expense Inflation Std Dev (pts)</label>
+                                    <input
+                                        type="number"
+                                        step="0.5"
+                                        className="input"
+                                        value={settings.monteCarloInflationStdDev}
+                                        onChange={(e) => updateSetting('monteCarloInflationStdDev', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Vacancy Std Dev (months/year)</label>
+                                    <input
+                                        type="number"
+                                        step="0.25"
+                                        className="input"
+                                        value={settings.monteCarloVacancyMonthsStdDev}
+                                        onChange={(e) => updateSetting('monteCarloVacancyMonthsStdDev', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Capex Shock Chance (%/year)</label>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        className="input"
+                                        value={settings.monteCarloCapexProbabilityPercent}
+                                        onChange={(e) => updateSetting('monteCarloCapexProbabilityPercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Capex Shock Cost ($)</label>
+                                    <input
+                                        type="number"
+                                        step="500"
+                                        className="input"
+                                        value={settings.monteCarloCapexCost}
+                                        onChange={(e) => updateSetting('monteCarloCapexCost', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </section>
+
+                {/* Income Tax */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🧾 Income Tax &amp; Depreciation</h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">After-Tax Mode</p>
+                                <p className="text-sm text-[var(--muted)]">Rank on after-tax CoC and cashflow</p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('afterTaxEnabled', !settings.afterTaxEnabled)}
+                                className={`toggle ${settings.afterTaxEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.afterTaxEnabled && (
+                            <div>
+                                <label className="label">Marginal Tax Rate (%)</label>
+                                <input
+                                    type="number"
+                                    className="input"
+                                    value={settings.marginalTaxRatePercent}
+                                    onChange={(e) => updateSetting('marginalTaxRatePercent', parseFloat(e.target.value) || 0)}
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <label className="label">Land Value (% of purchase)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.landValuePercent}
+                                onChange={(e) => updateSetting('landValuePercent', parseFloat(e.target.value) || 0)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">Land does not depreciate; the building is depreciated over 27.5 years</p>
+                        </div>
+                        <div>
+                            <label className="label">Rehab Bonus Depreciation (%)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                value={settings.rehabBonusDepreciationPercent}
+                                onChange={(e) => updateSetting('rehabBonusDepreciationPercent', parseFloat(e.target.value) || 0)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">Share of rehab written off in year 1 via cost segregation</p>
+                        </div>
+                    </div>
+                </section>
+
+                {/* Exit Assumptions */}
+                <section className="card mb-6">
+                    <h2 className="text-xl font-bold mb-6">🏁 Exit Assumptions</h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="label">Selling Costs (%)</label>
+                            <input
+                                type="number"
+                                step="0.5"
+                                className="input"
+                                value={settings.sellingCostPercent}
+                                onChange={(e) => updateSetting('sellingCostPercent', parseFloat(e.target.value) || 0)}
+                            />
+                            <p className="text-xs text-[var(--muted)] mt-1">Commission and seller closing costs</p>
+                        </div>
+                        <div className="flex items-center justify-between p-4 bg-[var(--background)] rounded-lg">
+                            <div>
+                                <p className="font-medium">Taxes on Sale</p>
+                                <p className="text-sm text-[var(--muted)]">Depreciation recapture and capital gains</p>
+                            </div>
+                            <button
+                                onClick={() => updateSetting('exitTaxesEnabled', !settings.exitTaxesEnabled)}
+                                className={`toggle ${settings.exitTaxesEnabled ? 'active' : ''}`}
+                            />
+                        </div>
+                        {settings.exitTaxesEnabled && (
+                            <>
+                                <div>
+                                    <label className="label">Capital Gains Rate (%)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.capitalGainsRatePercent}
+                                        onChange={(e) => updateSetting('capitalGainsRatePercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Depreciation Recapture Rate (%)</label>
+                                    <input
+                                        type="number"
+                                        className="input"
+                                        value={settings.depreciationRecaptureRatePercent}
+                                        onChange={(e) => updateSetting('depreciationRecaptureRatePercent', parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </section>
+
                 {/* Google Sheets */}
                 <section className="card">
                     <h2 className="text-xl font-bold mb-6">🔗 Google Sheets Integration</h2>
@@ -7,10 +7,18 @@ interface UploadWizardProps {
     onComplete: (result: any) => void;
 }
 
+interface ParserProfileOption {
+    id: string;
+    name: string;
+    description: string;
+}
+
 interface UploadState {
     step: 'select' | 'options' | 'uploading' | 'processing' | 'review_ready' | 'complete' | 'error';
     file: File | null;
     dryRun: boolean;
+    parserProfile: string; // Empty to detect the list format from the PDF
+    extractionMode: 'text' | 'layout';
     progress: number;
     progressMessage: string;
     result: any | null;
@@ -24,12 +32,26 @@ export default function UploadWizard({ onComplete }: UploadWizardProps) {
         step: 'select',
         file: null,
         dryRun: false,
+        parserProfile: '',
+        extractionMode: 'text',
         progress: 0,
         progressMessage: '',
         result: null,
         error: null,
         propertiesExtracted: 0,
     });
+    const [parserProfiles, setParserProfiles] = useState<ParserProfileOption[]>([]);
+
+    useEffect(() => {
+        fetch('/api/parser-profiles')
+            .then(res => res.json())
+            .then(result => {
+                if (result.success) {
+                    setParserProfiles(result.data.profiles);
+                }
+            })
+            .catch(err => console.error('Failed to fetch parser profiles', err));
+    }, []);
 
     const handleFileSelect = (file: File) => {
         setState(prev => ({ ...prev, file, step: 'options' }));
@@ -105,6 +127,10 @@ export default function UploadWizard({ onComplete }: UploadWizardProps) {
             const formData = new FormData();
             formData.append('file', state.file);
             formData.append('dryRun', String(state.dryRun));
+            if (state.parserProfile) {
+                formData.append('parserProfile', state.parserProfile);
+            }
+            formData.append('extractionMode', state.extractionMode);
 
             const response = await fetch('/api/upload', {
                 method: 'POST',
@@ -140,6 +166,8 @@ export default function UploadWizard({ onComplete }: UploadWizardProps) {
             step: 'select',
             file: null,
             dryRun: false,
+            parserProfile: '',
+            extractionMode: 'text',
             progress: 0,
             progressMessage: '',
             result: null,
@@ -216,6 +244,47 @@ export default function UploadWizard({ onComplete }: UploadWizardProps) {
                         />
                     </div>
 
+                    {/* List format */}
+                    <div className="p-4 bg-[var(--background)] rounded-lg space-y-2">
+                        <div>
+                            <p className="font-medium">List Format</p>
+                            <p className="text-sm text-[var(--muted)]">
+                                {parserProfiles.find(p => p.id === state.parserProfile)?.description
+                                    ?? 'Detected from the PDF text. Choose one if a wholesaler\'s list parses poorly.'}
+                            </p>
+                        </div>
+                        <select
+                            value={state.parserProfile}
+                            onChange={(e) => setState(prev => ({ ...prev, parserProfile: e.target.value }))}
+                            className="input w-full"
+                        >
+                            <option value="">Auto-detect</option>
+                            {parserProfiles.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Extraction mode */}
+                    <div className="p-4 bg-[var(--background)] rounded-lg space-y-2">
+                        <div>
+                            <p className="font-medium">Extraction Mode</p>
+                            <p className="text-sm text-[var(--muted)]">
+                                {state.extractionMode === 'layout'
+                                    ? 'Also reads each page by column and block from word positions, and keeps whichever finds more listings.'
+                                    : 'Reads each page as flowing text. Try Layout for lists printed in two columns.'}
+                            </p>
+                        </div>
+                        <select
+                            value={state.extractionMode}
+                            onChange={(e) => setState(prev => ({ ...prev, extractionMode: e.target.value as UploadState['extractionMode'] }))}
+                            className="input w-full"
+                        >
+                            <option value="text">Text</option>
+                            <option value="layout">Layout (columns &amp; blocks)</option>
+                        </select>
+                    </div>
+
                     {/* Actions */}
                     <div className="flex gap-4">
                         <button
@@ -0,0 +1,15 @@
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests/unit"],
+  transform: {
+    "^.+\\.[tj]s$": ["ts-jest", { tsconfig: { module: "commonjs", esModuleInterop: true, isolatedModules: true, allowJs: true } }],
+  },
+  // uuid ships ES modules only
+  transformIgnorePatterns: ["/node_modules/(?!uuid/)"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+};
+
+export default config;
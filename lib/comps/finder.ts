@@ -0,0 +1,224 @@
+/**
+ * Rent and Price Comps
+ *
+ * Finds properties from earlier runs that resemble a subject property (same
+ * ZIP, or same city when the ZIP has too few, with similar beds, baths and
+ * sqft) and summarizes their rents and asking prices. Used on the review page
+ * and to flag rents or prices far from our own history.
+ */
+
+import type { Property } from '../types';
+import { normalizeAddress } from '../dedup/normalizer';
+
+// How far a comp may differ from the subject
+const MAX_BEDROOM_DIFFERENCE = 1;
+const MAX_BATHROOM_DIFFERENCE = 1;
+const MAX_SQFT_DIFFERENCE_PERCENT = 25;
+
+// Comps listed with the summary, closest first
+const MAX_LISTED_COMPS = 10;
+
+export interface Comp {
+    id: string;
+    runId: string;
+    address: string | null;
+    city: string | null;
+    zip: string | null;
+    bedrooms: number | null;
+    bathrooms: number | null;
+    sqft: number | null;
+    rent: number | null;
+    askingPrice: number | null;
+    createdAt: string;
+}
+
+export interface CompsSummary {
+    scope: 'zip' | 'city';
+    location: string;                          // The ZIP or city searched
+    sampleSize: number;
+    medianRent: number | null;
+    medianAskingPrice: number | null;
+    medianPricePerSqft: number | null;
+    medianRentToPricePercent: number | null;   // Monthly rent as a % of asking price
+    comps: Comp[];
+}
+
+/**
+ * Summarize comps for a property. Searches the ZIP first and widens to the
+ * city when the ZIP has fewer than the minimum sample.
+ *
+ * @param subject - Property to find comps for
+ * @param history - Properties from earlier runs
+ * @param minSampleSize - Comps needed before the city is not searched
+ * @returns Summary, or null when there are no comps at all
+ */
+export function findComps(
+    subject: Partial<Property>,
+    history: Property[],
+    minSampleSize: number
+): CompsSummary | null {
+    const similar = dedupeByAddress(history.filter(candidate => isSimilar(subject, candidate)));
+
+    const zip = subject.zip?.trim().substring(0, 5);
+    const city = subject.city?.trim().toLowerCase();
+
+    const zipComps = zip ? similar.filter(candidate => candidate.zip?.trim().substring(0, 5) === zip) : [];
+    if (zip && (zipComps.length >= minSampleSize || !city)) {
+        return summarize(subject, zipComps, 'zip', zip);
+    }
+
+    const cityComps = city ? similar.filter(candidate => candidate.city?.trim().toLowerCase() === city) : [];
+    if (city && cityComps.length > 0) {
+        return summarize(subject, cityComps, 'city', subject.city!.trim());
+    }
+
+    return zipComps.length > 0 ? summarize(subject, zipComps, 'zip', zip!) : null;
+}
+
+/**
+ * Issues for a rent or asking price more than the given percentage away from
+ * the comp median. Nothing is flagged below the minimum sample size.
+ */
+export function checkAgainstComps(
+    property: Partial<Property>,
+    summary: CompsSummary,
+    outlierPercent: number,
+    minSampleSize: number
+): string[] {
+    if (summary.sampleSize < minSampleSize) return [];
+
+    const where = summary.scope === 'zip' ? `ZIP ${summary.location}` : summary.location;
+    const issues: string[] = [];
+
+    const check = (label: string, value: number | null | undefined, median: number | null) => {
+        if (!value || !median) return;
+
+        const differencePercent = Math.round((value / median - 1) * 100);
+        if (Math.abs(differencePercent) > outlierPercent) {
+            issues.push(
+                `${label} $${value.toLocaleString()} is ${Math.abs(differencePercent)}% ${differencePercent > 0 ? 'above' : 'below'} ` +
+                `the $${median.toLocaleString()} median of ${summary.sampleSize} comps in ${where}`
+            );
+        }
+    };
+
+    check('Rent', property.rent, summary.medianRent);
+    check('Asking price', property.askingPrice, summary.medianAskingPrice);
+
+    return issues;
+}
+
+function isSimilar(subject: Partial<Property>, candidate: Property): boolean {
+    if (candidate.id === subject.id) return false;
+    if (isSameAddress(subject, candidate)) return false;
+    if (!candidate.rent && !candidate.askingPrice) return false;
+    if ((candidate.unitCount ?? 1) !== (subject.unitCount ?? 1)) return false;
+
+    if (subject.bedrooms != null && candidate.bedrooms != null &&
+        Math.abs(subject.bedrooms - candidate.bedrooms) > MAX_BEDROOM_DIFFERENCE) {
+        return false;
+    }
+    if (subject.bathrooms != null && candidate.bathrooms != null &&
+        Math.abs(subject.bathrooms - candidate.bathrooms) > MAX_BATHROOM_DIFFERENCE) {
+        return false;
+    }
+    if (subject.sqft && candidate.sqft &&
+        Math.abs(candidate.sqft / subject.sqft - 1) * 100 > MAX_SQFT_DIFFERENCE_PERCENT) {
+        return false;
+    }
+
+    return true;
+}
+
+// The subject's own listings from earlier runs are not comps: they would pull
+// the medians toward the subject's own rent and price
+function isSameAddress(subject: Partial<Property>, candidate: Property): boolean {
+    const subjectAddress = normalizeAddress(subject.address ?? null);
+    return subjectAddress !== null && normalizeAddress(candidate.address) === subjectAddress;
+}
+
+// Another house can show up in many runs; keep its most recent listing
+function dedupeByAddress(properties: Property[]): Property[] {
+    const latest = new Map<string, Property>();
+
+    for (const property of properties) {
+        const key = normalizeAddress(property.address) ?? property.id;
+        const existing = latest.get(key);
+        if (!existing || property.createdAt > existing.createdAt) {
+            latest.set(key, property);
+        }
+    }
+
+    return [...latest.values()];
+}
+
+function summarize(
+    subject: Partial<Property>,
+    properties: Property[],
+    scope: CompsSummary['scope'],
+    location: string
+): CompsSummary {
+    const rents = properties.map(p => p.rent).filter((rent): rent is number => !!rent);
+    const prices = properties.map(p => p.askingPrice).filter((price): price is number => !!price);
+    const pricesPerSqft = properties
+        .filter(p => p.askingPrice && p.sqft)
+        .map(p => p.askingPrice! / p.sqft!);
+    const rentToPrice = properties
+        .filter(p => p.rent && p.askingPrice)
+        .map(p => (p.rent! / p.askingPrice!) * 100);
+
+    const comps = [...properties]
+        .sort((a, b) => getDistance(subject, a) - getDistance(subject, b))
+        .slice(0, MAX_LISTED_COMPS)
+        .map(p => ({
+            id: p.id,
+            runId: p.runId,
+            address: p.address,
+            city: p.city,
+            zip: p.zip,
+            bedrooms: p.bedrooms,
+            bathrooms: p.bathrooms,
+            sqft: p.sqft,
+            rent: p.rent,
+            askingPrice: p.askingPrice,
+            createdAt: p.createdAt,
+        }));
+
+    const medianPricePerSqft = median(pricesPerSqft);
+    const medianRentToPrice = median(rentToPrice);
+
+    return {
+        scope,
+        location,
+        sampleSize: properties.length,
+        medianRent: median(rents),
+        medianAskingPrice: median(prices),
+        medianPricePerSqft: medianPricePerSqft !== null ? roundToCents(medianPricePerSqft) : null,
+        medianRentToPricePercent: medianRentToPrice !== null ? roundToCents(medianRentToPrice) : null,
+        comps,
+    };
+}
+
+// Smaller is more alike: a bedroom or bathroom counts as much as 500 sqft
+function getDistance(subject: Partial<Property>, comp: Property): number {
+    let distance = 0;
+    if (subject.bedrooms != null && comp.bedrooms != null) distance += Math.abs(subject.bedrooms - comp.bedrooms);
+    if (subject.bathrooms != null && comp.bathrooms != null) distance += Math.abs(subject.bathrooms - comp.bathrooms);
+    if (subject.sqft && comp.sqft) distance += Math.abs(subject.sqft - comp.sqft) / 500;
+    return distance;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+}
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -1,7 +1,11 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { Job, JobType, JobStatus, Run, RunStatus, Artifact, ArtifactType, Property, Analysis } from '../types';
+import type {
+    Job, JobType, JobStatus, Run, RunStatus, ExtractionMode, LlmProvider, Artifact, ArtifactType, Property, Analysis, PaymentStandard,
+    Acquisition, MonthlyActual, Deal, DealStage, ParserTemplate, ParserTemplateField,
+} from '../types';
+import { AnalysisSchema } from '../types';
 
 // Database path - stored in project data directory
 const DB_PATH = path.join(process.cwd(), 'data', 'section8.db');
@@ -16,6 +20,7 @@ export function getDatabase(): Database.Database {
         db = new Database(DB_PATH);
         db.pragma('journal_mode = WAL');
         initializeSchema(db);
+        migrateSchema(db);
     }
     return db;
 }
@@ -34,6 +39,11 @@ function initializeSchema(database: Database.Database): void {
       file_size INTEGER NOT NULL,
       status TEXT NOT NULL DEFAULT 'pending',
       dry_run INTEGER NOT NULL DEFAULT 0,
+      parser_profile TEXT,
+      parser_profile_source TEXT,
+      extraction_mode TEXT NOT NULL DEFAULT 'text',
+      llm_provider TEXT,
+      llm_model TEXT,
       current_step TEXT,
       progress REAL DEFAULT 0,
       total_pages INTEGER,
@@ -126,9 +136,80 @@ function initializeSchema(database: Database.Database): void {
       value TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
+
+    -- HUD / housing authority payment standards
+    CREATE TABLE IF NOT EXISTS payment_standards (
+      zip TEXT NOT NULL,
+      bedrooms INTEGER NOT NULL,
+      amount REAL NOT NULL,
+      source TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (zip, bedrooms)
+    );
+
+    -- Field templates edited on the settings page, one per parser profile
+    CREATE TABLE IF NOT EXISTS parser_templates (
+      profile_id TEXT PRIMARY KEY,
+      fields TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Portfolio: properties we bought and their monthly actuals. Acquisitions
+    -- keep a copy of their property's analysis, so they outlive the run.
+    CREATE TABLE IF NOT EXISTS acquisitions (
+      id TEXT PRIMARY KEY,
+      property_id TEXT NOT NULL UNIQUE,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS monthly_actuals (
+      acquisition_id TEXT NOT NULL,
+      month TEXT NOT NULL,
+      rent_received REAL NOT NULL,
+      expenses REAL NOT NULL,
+      vacant_days REAL NOT NULL DEFAULT 0,
+      notes TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (acquisition_id, month),
+      FOREIGN KEY (acquisition_id) REFERENCES acquisitions(id)
+    );
+
+    -- Deal stages, one row per address so they carry across runs
+    CREATE TABLE IF NOT EXISTS deals (
+      id TEXT PRIMARY KEY,
+      address_key TEXT NOT NULL UNIQUE,
+      stage TEXT NOT NULL,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_deals_stage ON deals(stage);
   `);
 }
 
+/**
+ * Add columns introduced after a table was first created. CREATE TABLE IF NOT
+ * EXISTS leaves existing databases untouched, so new columns are added here.
+ */
+function migrateSchema(database: Database.Database): void {
+    const addedColumns: { table: string; column: string; definition: string }[] = [
+        { table: 'runs', column: 'parser_profile', definition: 'TEXT' },
+        { table: 'runs', column: 'parser_profile_source', definition: 'TEXT' },
+        { table: 'runs', column: 'extraction_mode', definition: "TEXT NOT NULL DEFAULT 'text'" },
+        { table: 'runs', column: 'llm_provider', definition: 'TEXT' },
+        { table: 'runs', column: 'llm_model', definition: 'TEXT' },
+    ];
+
+    for (const { table, column, definition } of addedColumns) {
+        const columns = database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (!columns.some(c => c.name === column)) {
+            database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+    }
+}
+
 // ============================================================================
 // Run Operations
 // ============================================================================
@@ -140,17 +221,22 @@ export function createRun(data: {
     filePath?: string;
     fileSize: number;
     dryRun?: boolean;
+    parserProfile?: string;  // Chosen on upload; detected during extraction otherwise
+    extractionMode?: ExtractionMode;
 }): Run {
     const db = getDatabase();
     const now = new Date().toISOString();
     const id = data.id || uuidv4();
 
     const stmt = db.prepare(`
-    INSERT INTO runs (id, file_hash, file_name, file_path, file_size, dry_run, status, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)
+    INSERT INTO runs (id, file_hash, file_name, file_path, file_size, dry_run, parser_profile, parser_profile_source, extraction_mode, status, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)
   `);
 
-    stmt.run(id, data.fileHash, data.fileName, data.filePath || null, data.fileSize, data.dryRun ? 1 : 0, now);
+    stmt.run(
+        id, data.fileHash, data.fileName, data.filePath || null, data.fileSize, data.dryRun ? 1 : 0,
+        data.parserProfile ?? null, data.parserProfile ? 'manual' : null, data.extractionMode ?? 'text', now
+    );
 
     return getRun(id)!;
 }
@@ -167,13 +253,17 @@ export function getRun(id: string): Run | null {
 export function updateRun(id: string, updates: Partial<Run>): Run | null {
     const db = getDatabase();
     const allowedFields = [
-        'status', 'current_step', 'progress', 'total_pages', 'chunks_created',
+        'status', 'parser_profile', 'parser_profile_source', 'llm_provider', 'llm_model', 'current_step', 'progress', 'total_pages', 'chunks_created',
         'properties_extracted', 'properties_filtered', 'properties_deduped',
         'properties_unavailable', 'properties_analyzed', 'top_n_count', 'error', 'started_at', 'completed_at'
     ];
 
     const fieldMap: Record<string, string> = {
         status: 'status',
+        parserProfile: 'parser_profile',
+        parserProfileSource: 'parser_profile_source',
+        llmProvider: 'llm_provider',
+        llmModel: 'llm_model',
         currentStep: 'current_step',
         progress: 'progress',
         totalPages: 'total_pages',
@@ -318,6 +408,11 @@ function mapRunRow(row: Record<string, unknown>): Run {
         fileSize: row.file_size as number,
         status: row.status as RunStatus,
         dryRun: Boolean(row.dry_run),
+        parserProfile: row.parser_profile as string | null,
+        parserProfileSource: row.parser_profile_source as Run['parserProfileSource'],
+        extractionMode: (row.extraction_mode as ExtractionMode | null) ?? 'text',
+        llmProvider: (row.llm_provider as LlmProvider | null) ?? null,
+        llmModel: (row.llm_model as string | null) ?? null,
         currentStep: row.current_step as string | null,
         progress: row.progress as number,
         totalPages: row.total_pages as number | null,
@@ -629,6 +724,96 @@ export function getAllSettings(): Record<string, string> {
     return settings;
 }
 
+// ============================================================================
+// Payment Standard Operations
+// ============================================================================
+
+/**
+ * Save payment standards, replacing any existing amount for the same ZIP and
+ * bedroom count. With `replace`, the whole table is cleared first.
+ */
+export function savePaymentStandards(standards: PaymentStandard[], replace = false): void {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+    INSERT OR REPLACE INTO payment_standards (zip, bedrooms, amount, source, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+    const insertMany = db.transaction((items: PaymentStandard[]) => {
+        if (replace) {
+            db.prepare('DELETE FROM payment_standards').run();
+        }
+        for (const item of items) {
+            stmt.run(item.zip, item.bedrooms, item.amount, item.source, now);
+        }
+    });
+
+    insertMany(standards);
+}
+
+export function listPaymentStandards(zip?: string): PaymentStandard[] {
+    const db = getDatabase();
+
+    const rows = (zip
+        ? db.prepare('SELECT * FROM payment_standards WHERE zip = ? ORDER BY bedrooms').all(zip)
+        : db.prepare('SELECT * FROM payment_standards ORDER BY zip, bedrooms').all()
+    ) as Record<string, unknown>[];
+
+    return rows.map(row => ({
+        zip: row.zip as string,
+        bedrooms: row.bedrooms as number,
+        amount: row.amount as number,
+        source: row.source as string,
+    }));
+}
+
+export function deletePaymentStandards(): { deletedCount: number } {
+    const db = getDatabase();
+
+    const result = db.prepare('DELETE FROM payment_standards').run();
+
+    return { deletedCount: result.changes };
+}
+
+// ============================================================================
+// Parser Template Operations
+// ============================================================================
+
+export function saveParserTemplate(profileId: string, fields: ParserTemplateField[]): ParserTemplate {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+    INSERT OR REPLACE INTO parser_templates (profile_id, fields, updated_at)
+    VALUES (?, ?, ?)
+  `).run(profileId, JSON.stringify(fields), now);
+
+    return { profileId, fields, updatedAt: now };
+}
+
+export function getParserTemplate(profileId: string): ParserTemplate | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM parser_templates WHERE profile_id = ?').get(profileId) as Record<string, unknown> | undefined;
+
+    if (!row) return null;
+
+    return {
+        profileId: row.profile_id as string,
+        fields: JSON.parse(row.fields as string),
+        updatedAt: row.updated_at as string,
+    };
+}
+
+export function deleteParserTemplate(profileId: string): boolean {
+    const db = getDatabase();
+
+    const result = db.prepare('DELETE FROM parser_templates WHERE profile_id = ?').run(profileId);
+
+    return result.changes > 0;
+}
+
 // ============================================================================
 // Property Operations (Local Cache)
 // ============================================================================
@@ -661,6 +846,52 @@ export function getPropertiesByRunId(runId: string): Property[] {
     return rows.map(row => JSON.parse(row.data as string));
 }
 
+export function getProperty(id: string): Property | null {
+    const db = getDatabase();
+
+    const row = db.prepare('SELECT data FROM properties WHERE id = ?').get(id) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+}
+
+/**
+ * Properties from earlier runs, optionally limited to a ZIP or city, for comps
+ */
+export function getHistoricalProperties(options: {
+    excludeRunId?: string;
+    zip?: string | null;
+    city?: string | null;
+} = {}): Property[] {
+    const db = getDatabase();
+
+    let query = 'SELECT data FROM properties WHERE 1=1';
+    const params: unknown[] = [];
+
+    if (options.excludeRunId) {
+        query += ' AND run_id != ?';
+        params.push(options.excludeRunId);
+    }
+
+    const location: string[] = [];
+    if (options.zip) {
+        location.push("substr(json_extract(data, '$.zip'), 1, 5) = ?");
+        params.push(options.zip.trim().substring(0, 5));
+    }
+    if (options.city) {
+        location.push("lower(trim(json_extract(data, '$.city'))) = ?");
+        params.push(options.city.trim().toLowerCase());
+    }
+    if (location.length > 0) {
+        query += ` AND (${location.join(' OR ')})`;
+    }
+
+    query += ' ORDER BY created_at DESC';
+
+    const rows = db.prepare(query).all(...params) as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
+}
+
 export function updateProperty(id: string, updates: Partial<Property>): Property | null {
     const db = getDatabase();
     const now = new Date().toISOString();
@@ -704,6 +935,16 @@ export function updatePropertyStatus(
 // Analysis Operations (Local Cache)
 // ============================================================================
 
+/**
+ * Read a stored analysis with schema defaults for fields added since it was saved.
+ * Keys outside the schema are kept; rows the schema rejects are returned as stored.
+ */
+function parseAnalysisData(data: string): Analysis {
+    const raw = JSON.parse(data);
+    const parsed = AnalysisSchema.safeParse(raw);
+    return parsed.success ? { ...raw, ...parsed.data } : raw;
+}
+
 export function saveAnalyses(analyses: Analysis[]): void {
     const db = getDatabase();
     const now = new Date().toISOString();
@@ -725,7 +966,183 @@ export function saveAnalyses(analyses: Analysis[]): void {
 export function getAnalysesByRunId(runId: string): Analysis[] {
     const db = getDatabase();
     const rows = db.prepare('SELECT * FROM analysis WHERE run_id = ?').all(runId) as Record<string, unknown>[];
-    return rows.map(row => JSON.parse(row.data as string));
+    return rows.map(row => parseAnalysisData(row.data as string));
+}
+
+/**
+ * Get the most recent analysis per property for a run
+ * (re-running analysis on a run adds new rows rather than replacing old ones)
+ */
+export function getLatestAnalysesByRunId(runId: string): Analysis[] {
+    const db = getDatabase();
+    const rows = db.prepare(
+        'SELECT * FROM analysis WHERE run_id = ? ORDER BY created_at ASC'
+    ).all(runId) as Record<string, unknown>[];
+
+    const latest = new Map<string, Analysis>();
+    for (const row of rows) {
+        latest.set(row.property_id as string, parseAnalysisData(row.data as string));
+    }
+
+    return Array.from(latest.values());
+}
+
+/**
+ * Get the most recent analysis of a property, or null if it has never been analyzed
+ */
+export function getLatestAnalysisByPropertyId(propertyId: string): Analysis | null {
+    const db = getDatabase();
+    const row = db.prepare(
+        'SELECT * FROM analysis WHERE property_id = ? ORDER BY created_at DESC LIMIT 1'
+    ).get(propertyId) as Record<string, unknown> | undefined;
+
+    return row ? parseAnalysisData(row.data as string) : null;
+}
+
+// ============================================================================
+// Portfolio Operations
+// ============================================================================
+
+export function saveAcquisition(acquisition: Acquisition): void {
+    const db = getDatabase();
+
+    db.prepare(`
+    INSERT OR REPLACE INTO acquisitions (id, property_id, data, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(acquisition.id, acquisition.propertyId, JSON.stringify(acquisition), acquisition.createdAt, acquisition.updatedAt);
+}
+
+export function getAcquisition(id: string): Acquisition | null {
+    const db = getDatabase();
+
+    const row = db.prepare('SELECT data FROM acquisitions WHERE id = ?').get(id) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+}
+
+export function getAcquisitionByPropertyId(propertyId: string): Acquisition | null {
+    const db = getDatabase();
+
+    const row = db.prepare('SELECT data FROM acquisitions WHERE property_id = ?').get(propertyId) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+}
+
+export function listAcquisitions(): Acquisition[] {
+    const db = getDatabase();
+
+    const rows = db.prepare('SELECT data FROM acquisitions ORDER BY created_at ASC').all() as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
+}
+
+/**
+ * Delete an acquisition and its monthly actuals
+ */
+export function deleteAcquisition(id: string): boolean {
+    const db = getDatabase();
+
+    const remove = db.transaction(() => {
+        db.prepare('DELETE FROM monthly_actuals WHERE acquisition_id = ?').run(id);
+        return db.prepare('DELETE FROM acquisitions WHERE id = ?').run(id);
+    });
+
+    return remove().changes > 0;
+}
+
+/**
+ * Save monthly actuals, replacing any existing entry for the same month
+ */
+export function saveMonthlyActuals(actuals: MonthlyActual[]): void {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+    INSERT OR REPLACE INTO monthly_actuals (acquisition_id, month, rent_received, expenses, vacant_days, notes, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+    const insertMany = db.transaction((items: MonthlyActual[]) => {
+        for (const item of items) {
+            stmt.run(item.acquisitionId, item.month, item.rentReceived, item.expenses, item.vacantDays, item.notes, now);
+        }
+    });
+
+    insertMany(actuals);
+}
+
+export function listMonthlyActuals(acquisitionId?: string): MonthlyActual[] {
+    const db = getDatabase();
+
+    const rows = (acquisitionId
+        ? db.prepare('SELECT * FROM monthly_actuals WHERE acquisition_id = ? ORDER BY month').all(acquisitionId)
+        : db.prepare('SELECT * FROM monthly_actuals ORDER BY acquisition_id, month').all()
+    ) as Record<string, unknown>[];
+
+    return rows.map(row => ({
+        acquisitionId: row.acquisition_id as string,
+        month: row.month as string,
+        rentReceived: row.rent_received as number,
+        expenses: row.expenses as number,
+        vacantDays: row.vacant_days as number,
+        notes: (row.notes as string | null) ?? null,
+    }));
+}
+
+export function deleteMonthlyActual(acquisitionId: string, month: string): boolean {
+    const db = getDatabase();
+
+    const result = db.prepare('DELETE FROM monthly_actuals WHERE acquisition_id = ? AND month = ?').run(acquisitionId, month);
+
+    return result.changes > 0;
+}
+
+// ============================================================================
+// Deal Operations
+// ============================================================================
+
+export function saveDeal(deal: Deal): void {
+    const db = getDatabase();
+
+    db.prepare(`
+    INSERT OR REPLACE INTO deals (id, address_key, stage, data, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(deal.id, deal.addressKey, deal.stage, JSON.stringify(deal), deal.createdAt, deal.updatedAt);
+}
+
+export function getDeal(id: string): Deal | null {
+    const db = getDatabase();
+
+    const row = db.prepare('SELECT data FROM deals WHERE id = ?').get(id) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+}
+
+export function getDealByAddressKey(addressKey: string): Deal | null {
+    const db = getDatabase();
+
+    const row = db.prepare('SELECT data FROM deals WHERE address_key = ?').get(addressKey) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+}
+
+export function listDeals(stage?: DealStage): Deal[] {
+    const db = getDatabase();
+
+    const rows = (stage
+        ? db.prepare('SELECT data FROM deals WHERE stage = ? ORDER BY updated_at DESC').all(stage)
+        : db.prepare('SELECT data FROM deals ORDER BY updated_at DESC').all()
+    ) as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
+}
+
+export function deleteDeal(id: string): boolean {
+    const db = getDatabase();
+
+    const result = db.prepare('DELETE FROM deals WHERE id = ?').run(id);
+
+    return result.changes > 0;
 }
 
 // ============================================================================
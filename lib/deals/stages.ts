@@ -0,0 +1,82 @@
+/**
+ * Deal Stages
+ *
+ * Tracks where we are with the seller of a property, from watching through
+ * closed or passed. Deals are keyed by normalized address rather than property
+ * ID, so a property that comes back in a later run keeps its stage and history.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Deal, DealStage, Property } from '../types';
+import { normalizeAddress } from '../dedup/normalizer';
+
+export interface DealStageUpdate {
+    stage: DealStage;
+    offerAmount?: number | null;   // Offer or counter; omitted keeps the deal's last one, null clears it
+    date?: string;                 // "YYYY-MM-DD", defaults to today
+    note?: string | null;
+}
+
+/**
+ * Key that ties a property's listings in different runs to one deal
+ */
+export function getDealKey(property: Pick<Property, 'id' | 'address'>): string {
+    return normalizeAddress(property.address) ?? property.id;
+}
+
+/**
+ * Move a property's deal to a stage, starting a deal when it has none. Every
+ * move is added to the history, including a move to the current stage (a new
+ * counter or a note). The deal follows the property to its latest listing.
+ *
+ * @param deal - Existing deal for the property, or null
+ * @param property - Listing the move was made from
+ * @param update - New stage with optional offer, date and note
+ * @param now - Time the change is recorded
+ * @returns Updated deal
+ */
+export function moveDeal(deal: Deal | null, property: Property, update: DealStageUpdate, now = new Date()): Deal {
+    const timestamp = now.toISOString();
+    const offerAmount = update.offerAmount ?? null;
+
+    const base: Deal = deal ?? {
+        id: uuidv4(),
+        addressKey: getDealKey(property),
+        propertyId: property.id,
+        runId: property.runId,
+        address: property.address,
+        city: property.city,
+        state: property.state,
+        zip: property.zip,
+        stage: update.stage,
+        offerAmount: null,
+        notes: null,
+        history: [],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    };
+
+    return {
+        ...base,
+        propertyId: property.id,
+        runId: property.runId,
+        address: property.address ?? base.address,
+        city: property.city ?? base.city,
+        state: property.state ?? base.state,
+        zip: property.zip ?? base.zip,
+        stage: update.stage,
+        offerAmount: update.offerAmount === undefined ? base.offerAmount : update.offerAmount,
+        history: [
+            ...(base.history ?? []),
+            {
+                stage: update.stage,
+                previousStage: deal ? deal.stage : null,
+                offerAmount,
+                date: update.date ?? timestamp.substring(0, 10),
+                note: update.note || null,
+                changedAt: timestamp,
+            },
+        ],
+        updatedAt: timestamp,
+    };
+}
@@ -1,4 +1,5 @@
-import type { Property, Settings } from '../types';
+import { DEFAULT_LOAN_PROGRAMS, DEFAULT_RATE_SHEET, DEFAULT_EXPENSE_ITEMS, DEFAULT_REHAB_CATALOG } from '../types';
+import type { Property, Settings, LoanProgram, LenderRules, StressShocks } from '../types';
 
 export interface FilterResult {
     passed: Property[];
@@ -88,22 +89,23 @@ export function getFilterReasons(
         });
     }
 
-    // Check minimum bedrooms
-    if (property.bedrooms !== null && property.bedrooms < settings.minBedrooms) {
+    // Check minimum bedrooms and bathrooms (building total, or every unit in unit mode)
+    const bedrooms = getRoomCount(property, 'bedrooms', settings.bedroomFilterMode);
+    if (bedrooms.value !== null && bedrooms.value < settings.minBedrooms) {
         reasons.push({
             field: 'bedrooms',
-            reason: `${property.bedrooms} bedrooms below minimum ${settings.minBedrooms}`,
-            value: property.bedrooms,
+            reason: `${bedrooms.value} bedrooms${bedrooms.label} below minimum ${settings.minBedrooms}`,
+            value: bedrooms.value,
             threshold: settings.minBedrooms,
         });
     }
 
-    // Check minimum bathrooms
-    if (property.bathrooms !== null && property.bathrooms < settings.minBathrooms) {
+    const bathrooms = getRoomCount(property, 'bathrooms', settings.bedroomFilterMode);
+    if (bathrooms.value !== null && bathrooms.value < settings.minBathrooms) {
         reasons.push({
             field: 'bathrooms',
-            reason: `${property.bathrooms} bathrooms below minimum ${settings.minBathrooms}`,
-            value: property.bathrooms,
+            reason: `${bathrooms.value} bathrooms${bathrooms.label} below minimum ${settings.minBathrooms}`,
+            value: bathrooms.value,
             threshold: settings.minBathrooms,
         });
     }
@@ -159,6 +161,38 @@ export function getFilterReasons(
     return reasons;
 }
 
+/**
+ * Bedrooms or bathrooms to hold against a minimum. Building mode uses the
+ * building total. Unit mode uses the smallest listed unit, or the per-unit
+ * average when the units are not broken out.
+ */
+function getRoomCount(
+    property: Property,
+    field: 'bedrooms' | 'bathrooms',
+    mode: Settings['bedroomFilterMode']
+): { value: number | null; label: string } {
+    const unitCount = property.unitCount ?? 1;
+    if (mode === 'building' || unitCount <= 1) {
+        return { value: property[field], label: '' };
+    }
+
+    const listed = (property.units ?? []).filter(unit => unit[field] !== null);
+    if (listed.length > 0) {
+        const smallest = listed.reduce((min, unit) => (unit[field]! < min[field]! ? unit : min));
+        return {
+            value: smallest[field],
+            label: smallest.label ? ` in unit ${smallest.label}` : ' in a unit',
+        };
+    }
+
+    if (property[field] === null) return { value: null, label: '' };
+
+    return {
+        value: Math.round((property[field]! / unitCount) * 10) / 10,
+        label: ' per unit',
+    };
+}
+
 /**
  * Check if a single property passes filters
  */
@@ -177,12 +211,27 @@ export function getDefaultSettings(): Settings {
         minRent: 1300,
         minBedrooms: 2,
         minBathrooms: 1,
+        bedroomFilterMode: 'building',
         occupiedSec8Only: false,
         offerGapThreshold: 10000,
+        paymentStandardCheckEnabled: true,
+        paymentStandardTolerancePercent: 5,
+        paymentStandardCapRent: false,
+        compsEnabled: true,
+        compsMinSampleSize: 3,
+        compsOutlierPercent: 35,
         vacancyEnabled: false,
         vacancyPercent: 5,
         maintenanceEnabled: false,
         maintenancePercent: 5,
+        unitExpenseMonthly: 50,
+        expenseItems: DEFAULT_EXPENSE_ITEMS.map(item => ({ ...item })),
+        averageTenancyYears: 3,
+        rehabCatalog: DEFAULT_REHAB_CATALOG.map(item => ({ ...item, keywords: [...item.keywords] })),
+        rehabContingencyPercent: 10,
+        rehabUnmatchedItemCost: 1000,
+        rehabDefaultSqft: 1200,
+        rehabUseHigherEstimate: false,
         downPaymentPercent: 20,
         closingCostPercent: 5,
         dscrRate: 8.0,
@@ -190,14 +239,79 @@ export function getDefaultSettings(): Settings {
         pmFeePercent: 10,
         propertyTaxRate: 1.2,
         insuranceAnnual: 1200,
+        locationRates: [],
+        insuranceScalingEnabled: false,
+        insuranceBaseSqft: 1200,
+        insuranceOldHomeYear: 1960,
+        insuranceOldHomeSurchargePercent: 20,
+        loanPrograms: DEFAULT_LOAN_PROGRAMS.map(program => ({ ...program })),
+        lenderRulesEnabled: true,
+        lenderMinLoanAmount: 75000,
+        lenderMaxLtvPercent: 80,
+        lenderDscrTiers: [
+            { maxLtvPercent: 65, minDscr: 0.75 },
+            { maxLtvPercent: 75, minDscr: 1.0 },
+            { maxLtvPercent: 80, minDscr: 1.2 },
+        ],
+        lenderLowDscrRateAddOn: 0.5,
+        lenderSmallLoanAmount: 100000,
+        lenderSmallLoanRateAddOn: 0.25,
+        lenderPrepayPenaltySchedule: [5, 4, 3, 2, 1],
+        lenderFallbackToCash: true,
+        lenderRateSheetEnabled: false,
+        lenderRateSheet: DEFAULT_RATE_SHEET.map(tier => ({ ...tier })),
+        refinanceEnabled: true,
+        refinanceLtvPercent: 75,
+        refinanceRate: 8.0,
+        refinanceTermYears: 30,
+        refinanceSeasoningMonths: 6,
+        refinanceClosingCostPercent: 3,
+        stressTestEnabled: true,
+        stressRatePoints: 2,
+        stressRentPercent: 10,
+        stressVacancyPoints: 5,
+        stressTaxPercent: 20,
+        stressInsurancePercent: 30,
+        stressPricePercent: 5,
+        stressMinDscr: 1.0,
+        offerMinDscr: 1.2,
+        offerMinCashflow: 200,
+        offerMinCocReturn: 8,
+        offerSeventyPercentRule: true,
         rentGrowthPercent: 3,
         appreciationPercent: 3,
         expenseInflationPercent: 3,
+        monteCarloEnabled: false,
+        monteCarloTrials: 500,
+        monteCarloSeed: 42,
+        monteCarloAppreciationStdDev: 3,
+        monteCarloRentGrowthStdDev: 1.5,
+        monteCarloInflationStdDev: 1,
+        monteCarloVacancyMonthsStdDev: 0.75,
+        monteCarloCapexProbabilityPercent: 10,
+        monteCarloCapexCost: 5000,
+        afterTaxEnabled: false,
+        marginalTaxRatePercent: 24,
+        landValuePercent: 20,
+        rehabBonusDepreciationPercent: 0,
+        sellingCostPercent: 7,
+        exitTaxesEnabled: false,
+        capitalGainsRatePercent: 15,
+        depreciationRecaptureRatePercent: 25,
         topN: 10,
+        rankOnConservative: false,
+        portfolioCapital: 0,
+        portfolioMaxProperties: 5,
+        portfolioMaxPerZip: 0,
+        portfolioObjective: 'cashflow',
         sheetsEnabled: false,
         chunkSizePages: 5,
         maxChunkSizeMB: 10,
         enableLLMFallback: false,
+        llmProvider: 'openai',
+        llmModel: '',
+        llmBaseUrl: '',
+        llmFixtureDir: '',
         marketStatusEnabled: false,  // Disabled - use manual MCP workflow for checking Zillow
     };
 }
@@ -214,6 +328,99 @@ export function mergeSettings(
     };
 }
 
+/**
+ * Loan programs to underwrite: the DSCR loan from the underwriting assumptions,
+ * followed by every enabled additional program
+ */
+export function getLoanPrograms(settings: Settings): LoanProgram[] {
+    const dscrProgram: LoanProgram = {
+        id: 'dscr-30',
+        name: `DSCR ${settings.loanTermYears}-yr fixed`,
+        type: 'dscr',
+        enabled: true,
+        downPaymentPercent: settings.downPaymentPercent,
+        interestRate: settings.dscrRate,
+        loanTermYears: settings.loanTermYears,
+        interestOnlyMonths: 0,
+        balloonMonths: null,
+        rateResetMonths: null,
+        resetRate: null,
+        closingCostPercent: null,
+    };
+
+    return [dscrProgram, ...(settings.loanPrograms ?? []).filter(program => program.enabled)];
+}
+
+/**
+ * DSCR lender rules from settings, or null when lender rules are turned off
+ */
+export function getLenderRules(settings: Settings): LenderRules | null {
+    if (!settings.lenderRulesEnabled) return null;
+
+    return {
+        minLoanAmount: settings.lenderMinLoanAmount,
+        maxLtvPercent: settings.lenderMaxLtvPercent,
+        dscrTiers: settings.lenderDscrTiers,
+        lowDscrRateAddOn: settings.lenderLowDscrRateAddOn,
+        smallLoanAmount: settings.lenderSmallLoanAmount,
+        smallLoanRateAddOn: settings.lenderSmallLoanRateAddOn,
+        prepayPenaltySchedule: settings.lenderPrepayPenaltySchedule,
+        fallbackToCash: settings.lenderFallbackToCash,
+        rateSheet: settings.lenderRateSheetEnabled ? settings.lenderRateSheet : null,
+    };
+}
+
+/**
+ * Stress test shock sizes from settings
+ */
+export function getStressShocks(settings: Settings): StressShocks {
+    return {
+        ratePoints: settings.stressRatePoints,
+        rentPercent: settings.stressRentPercent,
+        vacancyPoints: settings.stressVacancyPoints,
+        taxPercent: settings.stressTaxPercent,
+        insurancePercent: settings.stressInsurancePercent,
+        pricePercent: settings.stressPricePercent,
+    };
+}
+
+/**
+ * Parse settings stored as strings in the database, using the type of each default.
+ * Unknown keys and unparseable structured values are dropped.
+ */
+export function parseStoredSettings(stored: Record<string, string>): Partial<Settings> {
+    const defaults = getDefaultSettings();
+    const parsed: Partial<Settings> = {};
+
+    for (const [key, value] of Object.entries(stored)) {
+        if (key in defaults) {
+            const defaultValue = (defaults as Record<string, unknown>)[key];
+            if (typeof defaultValue === 'number') {
+                parsed[key as keyof Settings] = parseFloat(value) as never;
+            } else if (typeof defaultValue === 'boolean') {
+                parsed[key as keyof Settings] = (value === 'true') as never;
+            } else if (typeof defaultValue === 'object' && defaultValue !== null) {
+                try {
+                    parsed[key as keyof Settings] = JSON.parse(value) as never;
+                } catch {
+                    console.warn(`Ignoring unparseable stored setting: ${key}`);
+                }
+            } else {
+                parsed[key as keyof Settings] = value as never;
+            }
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Serialize a setting value for the database (structured values as JSON)
+ */
+export function serializeSettingValue(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
 /**
  * Validate settings values
  */
@@ -235,6 +442,67 @@ export function validateSettings(settings: Partial<Settings>): {
         errors.push('Minimum bathrooms cannot be negative');
     }
 
+    if (settings.paymentStandardTolerancePercent !== undefined && settings.paymentStandardTolerancePercent < 0) {
+        errors.push('Payment standard tolerance cannot be negative');
+    }
+
+    if (settings.compsMinSampleSize !== undefined && settings.compsMinSampleSize < 1) {
+        errors.push('Comps minimum sample size must be at least 1');
+    }
+
+    if (settings.compsOutlierPercent !== undefined && settings.compsOutlierPercent < 0) {
+        errors.push('Comps outlier threshold cannot be negative');
+    }
+
+    if (settings.unitExpenseMonthly !== undefined && settings.unitExpenseMonthly < 0) {
+        errors.push('Per-unit expense cannot be negative');
+    }
+
+    if (settings.averageTenancyYears !== undefined && settings.averageTenancyYears <= 0) {
+        errors.push('Average tenancy must be more than 0 years');
+    }
+
+    for (const item of settings.expenseItems ?? []) {
+        if (item.amount < 0) {
+            errors.push(`${item.name || item.id}: expense amount cannot be negative`);
+        }
+    }
+
+    for (const rate of settings.locationRates ?? []) {
+        if (!rate.value.trim()) {
+            errors.push(`Location ${rate.match} cannot be blank`);
+        }
+        if ((rate.propertyTaxRate ?? 0) < 0 || (rate.insuranceAnnual ?? 0) < 0) {
+            errors.push(`${rate.value || rate.match}: tax rate and insurance cannot be negative`);
+        }
+    }
+
+    if (settings.insuranceBaseSqft !== undefined && settings.insuranceBaseSqft <= 0) {
+        errors.push('Insurance base square footage must be more than 0');
+    }
+
+    if (settings.insuranceOldHomeSurchargePercent !== undefined && settings.insuranceOldHomeSurchargePercent < 0) {
+        errors.push('Old-home insurance surcharge cannot be negative');
+    }
+
+    for (const item of settings.rehabCatalog ?? []) {
+        if (item.cost < 0) {
+            errors.push(`${item.name || item.id}: rehab cost cannot be negative`);
+        }
+    }
+
+    if (settings.rehabContingencyPercent !== undefined && settings.rehabContingencyPercent < 0) {
+        errors.push('Rehab contingency cannot be negative');
+    }
+
+    if (settings.rehabUnmatchedItemCost !== undefined && settings.rehabUnmatchedItemCost < 0) {
+        errors.push('Unmatched repair item cost cannot be negative');
+    }
+
+    if (settings.rehabDefaultSqft !== undefined && settings.rehabDefaultSqft <= 0) {
+        errors.push('Default rehab square footage must be more than 0');
+    }
+
     if (settings.dscrRate !== undefined && (settings.dscrRate < 7 || settings.dscrRate > 8.5)) {
         errors.push('DSCR rate must be between 7% and 8.5%');
     }
@@ -251,6 +519,106 @@ export function validateSettings(settings: Partial<Settings>): {
         errors.push('PM fee percent must be between 0% and 100%');
     }
 
+    if (settings.refinanceLtvPercent !== undefined && (settings.refinanceLtvPercent < 0 || settings.refinanceLtvPercent > 100)) {
+        errors.push('Refinance LTV must be between 0% and 100%');
+    }
+
+    if (settings.refinanceSeasoningMonths !== undefined && settings.refinanceSeasoningMonths < 0) {
+        errors.push('Refinance seasoning months cannot be negative');
+    }
+
+    if (settings.sellingCostPercent !== undefined && (settings.sellingCostPercent < 0 || settings.sellingCostPercent > 100)) {
+        errors.push('Selling cost percent must be between 0% and 100%');
+    }
+
+    if (settings.stressRentPercent !== undefined && (settings.stressRentPercent < 0 || settings.stressRentPercent > 100)) {
+        errors.push('Stress rent drop must be between 0% and 100%');
+    }
+
+    if (settings.stressVacancyPoints !== undefined && (settings.stressVacancyPoints < 0 || settings.stressVacancyPoints > 100)) {
+        errors.push('Stress vacancy increase must be between 0 and 100 points');
+    }
+
+    if (settings.portfolioCapital !== undefined && settings.portfolioCapital < 0) {
+        errors.push('Portfolio capital cannot be negative');
+    }
+
+    if (settings.portfolioMaxProperties !== undefined && settings.portfolioMaxProperties < 1) {
+        errors.push('Portfolio max properties must be at least 1');
+    }
+
+    if (settings.monteCarloTrials !== undefined && (settings.monteCarloTrials < 1 || settings.monteCarloTrials > 10000)) {
+        errors.push('Monte Carlo trials must be between 1 and 10,000');
+    }
+
+    if (settings.monteCarloCapexProbabilityPercent !== undefined && (settings.monteCarloCapexProbabilityPercent < 0 || settings.monteCarloCapexProbabilityPercent > 100)) {
+        errors.push('Capex shock probability must be between 0% and 100%');
+    }
+
+    if (settings.marginalTaxRatePercent !== undefined && (settings.marginalTaxRatePercent < 0 || settings.marginalTaxRatePercent > 100)) {
+        errors.push('Marginal tax rate must be between 0% and 100%');
+    }
+
+    if (settings.landValuePercent !== undefined && (settings.landValuePercent < 0 || settings.landValuePercent > 100)) {
+        errors.push('Land value percent must be between 0% and 100%');
+    }
+
+    if (settings.rehabBonusDepreciationPercent !== undefined && (settings.rehabBonusDepreciationPercent < 0 || settings.rehabBonusDepreciationPercent > 100)) {
+        errors.push('Rehab bonus depreciation must be between 0% and 100%');
+    }
+
+    if (settings.lenderMaxLtvPercent !== undefined && (settings.lenderMaxLtvPercent < 0 || settings.lenderMaxLtvPercent > 100)) {
+        errors.push('Lender max LTV must be between 0% and 100%');
+    }
+
+    if (settings.lenderMinLoanAmount !== undefined && settings.lenderMinLoanAmount < 0) {
+        errors.push('Lender minimum loan amount cannot be negative');
+    }
+
+    for (const tier of settings.lenderDscrTiers ?? []) {
+        if (tier.maxLtvPercent < 0 || tier.maxLtvPercent > 100 || tier.minDscr < 0) {
+            errors.push('DSCR tiers need an LTV between 0% and 100% and a non-negative DSCR');
+            break;
+        }
+    }
+
+    for (const tier of settings.lenderRateSheet ?? []) {
+        if (tier.maxLtvPercent < 0 || tier.maxLtvPercent > 100 || tier.minDscr < 0 || tier.minLoanAmount < 0) {
+            errors.push('Rate sheet tiers need an LTV between 0% and 100% and a non-negative DSCR and loan size');
+            break;
+        }
+    }
+
+    if (settings.lenderRateSheetEnabled && (settings.lenderRateSheet ?? []).length === 0) {
+        errors.push('The rate sheet needs at least one tier');
+    }
+
+    if (settings.lenderPrepayPenaltySchedule?.some(percent => percent < 0)) {
+        errors.push('Prepayment penalties cannot be negative');
+    }
+
+    for (const program of settings.loanPrograms ?? []) {
+        const label = program.name || program.id;
+        if (program.downPaymentPercent < 0 || program.downPaymentPercent > 100) {
+            errors.push(`${label}: down payment must be between 0% and 100%`);
+        }
+        if (program.interestRate < 0 || program.interestRate > 30) {
+            errors.push(`${label}: interest rate must be between 0% and 30%`);
+        }
+        if (program.loanTermYears < 1 || program.loanTermYears > 40) {
+            errors.push(`${label}: loan term must be between 1 and 40 years`);
+        }
+        if (program.interestOnlyMonths < 0 || program.interestOnlyMonths > program.loanTermYears * 12) {
+            errors.push(`${label}: interest-only period must fit within the loan term`);
+        }
+        if (program.balloonMonths !== null && program.balloonMonths < 1) {
+            errors.push(`${label}: balloon month must be at least 1`);
+        }
+        if ((program.rateResetMonths === null) !== (program.resetRate === null)) {
+            errors.push(`${label}: rate reset needs both a reset month and a reset rate`);
+        }
+    }
+
     return {
         valid: errors.length === 0,
         errors,
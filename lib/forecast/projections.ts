@@ -5,40 +5,88 @@
  * All functions are deterministic with no side effects.
  */
 
-import type { ForecastInput, ForecastResult, ForecastSummary } from '../types';
-import { calculateRemainingBalance } from '../underwriting/calculator';
+import type {
+    ForecastInput, ForecastResult, ForecastSummary, ForecastPath,
+    ExitAssumptions, ExitResult, ExitSummary,
+} from '../types';
+import {
+    calculateRemainingBalance,
+    calculatePaymentAtMonth,
+    calculateBalloonPayment,
+    calculateAnnualInterest,
+    calculateDepreciation,
+} from '../underwriting/calculator';
+
+// Years in the forecast summary (and the horizon a loan program is held over)
+export const FORECAST_YEARS = 20;
 
 /**
  * Calculate year-by-year forecast for a property investment
  * 
+ * Each year is a full P&L: gross rent grows with rent growth, the expense
+ * lines that are a share of rent (vacancy, PM, maintenance, rent-based line
+ * items) follow it, taxes, insurance, per-unit costs and the other line items
+ * grow with expense inflation, and debt service comes from the
+ * loan schedule (interest-only period ending, rate reset, loan paying off).
+ * A balloon is paid from cashflow in the year it comes due, so equity and
+ * cumulative cashflow stay consistent.
+ * 
+ * A path replaces the fixed growth rates and vacancy with per-year values
+ * and adds capex below NOI (Monte Carlo trials).
+ * 
  * @param input - Forecast input parameters
  * @param years - Number of years to project (default: 20)
+ * @param path - Sampled per-year assumptions (optional)
  * @returns Array of yearly forecast results
  */
 export function calculateYearlyForecast(
     input: ForecastInput,
-    years: number = 20
+    years: number = 20,
+    path?: ForecastPath
 ): ForecastResult[] {
     const {
         purchasePrice,
         loanAmount,
-        annualCashflow,
+        monthlyRent,
+        annualTaxes,
+        annualInsurance,
+        pmFeePercent,
+        vacancyPercent,
+        maintenancePercent,
+        annualUnitExpenses = 0,
+        otherExpensePercent = 0,
+        annualOtherFixedExpenses = 0,
         appreciationPercent,
         rentGrowthPercent,
         expenseInflationPercent,
+        sellingCostPercent = 0,
         interestRate,
         loanTermYears,
+        loanStructure = {},
+        tax,
     } = input;
 
+    const { balloonMonths = null } = loanStructure;
+    const balloonYear = balloonMonths !== null ? Math.ceil(balloonMonths / 12) : null;
+    const balloonDue = calculateBalloonPayment(loanAmount, interestRate / 100, loanTermYears, loanStructure);
+
     const results: ForecastResult[] = [];
     let cumulativeCashflow = 0;
-    let currentAnnualCashflow = annualCashflow;
+    let cumulativeAfterTaxCashflow = 0;
+    let valueFactor = 1;
+    let rentFactor = 1;
+    let inflationFactor = 1;
 
     for (let year = 1; year <= years; year++) {
+        // Growth compounds year over year; rent and expenses start growing in year 2
+        valueFactor *= 1 + (path?.appreciationPercent[year - 1] ?? appreciationPercent) / 100;
+        if (year > 1) {
+            rentFactor *= 1 + (path?.rentGrowthPercent[year - 2] ?? rentGrowthPercent) / 100;
+            inflationFactor *= 1 + (path?.expenseInflationPercent[year - 2] ?? expenseInflationPercent) / 100;
+        }
+
         // Property value with appreciation
-        const propertyValue = roundToCents(
-            purchasePrice * Math.pow(1 + appreciationPercent / 100, year)
-        );
+        const propertyValue = roundToCents(purchasePrice * valueFactor);
 
         // Remaining loan balance
         const monthsPaid = year * 12;
@@ -46,37 +94,85 @@ export function calculateYearlyForecast(
             loanAmount,
             interestRate / 100,
             loanTermYears,
-            monthsPaid
+            monthsPaid,
+            loanStructure
         );
 
         // Equity = Property Value - Loan Balance
         const equity = roundToCents(propertyValue - loanBalance);
 
-        // Cash flow grows with rent but expenses also inflate
-        // Net effect: (rent growth - expense inflation) on the cashflow
-        // Simplified: we apply rent growth to cashflow (conservative)
-        if (year > 1) {
-            // Rent grows, but so do expenses - net effect on cashflow
-            // Assuming expenses are ~60% of rent, rent growth has ~40% net impact
-            const netGrowthRate = rentGrowthPercent - (expenseInflationPercent * 0.3);
-            currentAnnualCashflow = roundToCents(
-                currentAnnualCashflow * (1 + netGrowthRate / 100)
-            );
+        // Income and operating expenses (year 1 matches the underwriting)
+        const grossRent = roundToCents(monthlyRent * 12 * rentFactor);
+        const vacancy = path
+            ? roundToCents(grossRent * (path.vacancyMonths[year - 1] ?? 0) / 12)
+            : roundToCents(grossRent * (vacancyPercent / 100));
+        const pmFee = roundToCents(grossRent * (pmFeePercent / 100));
+        const maintenance = roundToCents(grossRent * (maintenancePercent / 100));
+        const propertyTaxes = roundToCents(annualTaxes * inflationFactor);
+        const insurance = roundToCents(annualInsurance * inflationFactor);
+        const unitExpenses = roundToCents(annualUnitExpenses * inflationFactor);
+        const otherExpenses = roundToCents(grossRent * (otherExpensePercent / 100) + annualOtherFixedExpenses * inflationFactor);
+        const operatingExpenses = roundToCents(vacancy + pmFee + maintenance + unitExpenses + otherExpenses + propertyTaxes + insurance);
+        const noi = roundToCents(grossRent - operatingExpenses);
+
+        // Debt service from the loan schedule, plus the balloon in the year it is due
+        let debtService = 0;
+        for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+            debtService += calculatePaymentAtMonth(loanAmount, interestRate / 100, loanTermYears, month, loanStructure);
+        }
+        debtService = roundToCents(debtService);
+        const balloonPayment = year === balloonYear ? balloonDue : 0;
+        const capex = roundToCents(path?.capex[year - 1] ?? 0);
+
+        const annualCashflow = roundToCents(noi - debtService - balloonPayment - capex);
+        cumulativeCashflow = roundToCents(cumulativeCashflow + annualCashflow);
+
+        // Total return = Equity - Selling Costs + Cumulative Cashflow (what a sale this year would leave)
+        const sellingCosts = propertyValue * (sellingCostPercent / 100);
+        const totalReturn = roundToCents(equity - sellingCosts + cumulativeCashflow);
+
+        // Income tax on NOI less interest and depreciation (losses offset other income)
+        const interest = calculateAnnualInterest(loanAmount, interestRate / 100, loanTermYears, year, loanStructure);
+        let depreciation: number | null = null;
+        let taxableIncome: number | null = null;
+        let incomeTax: number | null = null;
+        let afterTaxCashflow: number | null = null;
+
+        if (tax) {
+            depreciation = calculateDepreciation(tax.depreciation, year);
+            taxableIncome = roundToCents(noi - interest - depreciation);
+            incomeTax = roundToCents(taxableIncome * (tax.marginalRatePercent / 100));
+            afterTaxCashflow = roundToCents(annualCashflow - incomeTax);
+            cumulativeAfterTaxCashflow = roundToCents(cumulativeAfterTaxCashflow + afterTaxCashflow);
         }
-
-        cumulativeCashflow = roundToCents(cumulativeCashflow + currentAnnualCashflow);
-
-        // Total return = Equity + Cumulative Cashflow
-        const totalReturn = roundToCents(equity + cumulativeCashflow);
 
         results.push({
             year,
             propertyValue,
             loanBalance,
             equity,
-            annualCashflow: currentAnnualCashflow,
+            grossRent,
+            vacancy,
+            propertyTaxes,
+            insurance,
+            pmFee,
+            maintenance,
+            unitExpenses,
+            otherExpenses,
+            operatingExpenses,
+            noi,
+            debtService,
+            balloonPayment,
+            capex,
+            annualCashflow,
             cumulativeCashflow,
             totalReturn,
+            interest,
+            depreciation,
+            taxableIncome,
+            incomeTax,
+            afterTaxCashflow,
+            cumulativeAfterTaxCashflow: tax ? cumulativeAfterTaxCashflow : null,
         });
     }
 
@@ -90,7 +186,7 @@ export function calculateYearlyForecast(
  * @returns Summary with key metrics at 5, 10, and 20 years
  */
 export function calculateForecastSummary(input: ForecastInput): ForecastSummary {
-    const yearByYear = calculateYearlyForecast(input, 20);
+    const yearByYear = calculateYearlyForecast(input, FORECAST_YEARS);
 
     const get = (year: number): ForecastResult | undefined =>
         yearByYear.find(r => r.year === year);
@@ -106,9 +202,27 @@ export function calculateForecastSummary(input: ForecastInput): ForecastSummary
         cashflow5yr: year5?.cumulativeCashflow ?? 0,
         cashflow10yr: year10?.cumulativeCashflow ?? 0,
         cashflow20yr: year20?.cumulativeCashflow ?? 0,
+        cumulativeAfterTaxCashflow5yr: year5?.cumulativeAfterTaxCashflow ?? null,
+        cumulativeAfterTaxCashflow10yr: year10?.cumulativeAfterTaxCashflow ?? null,
+        cumulativeAfterTaxCashflow20yr: year20?.cumulativeAfterTaxCashflow ?? null,
         totalReturn5yr: year5?.totalReturn ?? 0,
         totalReturn10yr: year10?.totalReturn ?? 0,
         totalReturn20yr: year20?.totalReturn ?? 0,
+        grossRent5yr: year5?.grossRent ?? 0,
+        grossRent10yr: year10?.grossRent ?? 0,
+        grossRent20yr: year20?.grossRent ?? 0,
+        operatingExpenses5yr: year5?.operatingExpenses ?? 0,
+        operatingExpenses10yr: year10?.operatingExpenses ?? 0,
+        operatingExpenses20yr: year20?.operatingExpenses ?? 0,
+        noi5yr: year5?.noi ?? 0,
+        noi10yr: year10?.noi ?? 0,
+        noi20yr: year20?.noi ?? 0,
+        debtService5yr: year5?.debtService ?? 0,
+        debtService10yr: year10?.debtService ?? 0,
+        debtService20yr: year20?.debtService ?? 0,
+        annualCashflow5yr: year5?.annualCashflow ?? 0,
+        annualCashflow10yr: year10?.annualCashflow ?? 0,
+        annualCashflow20yr: year20?.annualCashflow ?? 0,
         yearByYear,
     };
 }
@@ -117,13 +231,13 @@ export function calculateForecastSummary(input: ForecastInput): ForecastSummary
  * Calculate when a property becomes cashflow positive (if negative at start)
  * 
  * @param input - Forecast input parameters
- * @returns Year when cashflow turns positive, or null if never
+ * @returns Year when cashflow turns positive (0 if positive from the start), or null if never
  */
 export function calculateBreakevenYear(input: ForecastInput): number | null {
-    if (input.annualCashflow >= 0) return 0; // Already positive
-
     const forecast = calculateYearlyForecast(input, 30);
 
+    if (forecast[0].annualCashflow >= 0) return 0; // Already positive
+
     for (const result of forecast) {
         if (result.annualCashflow >= 0) {
             return result.year;
@@ -144,8 +258,6 @@ export function calculatePaybackPeriod(
     input: ForecastInput,
     totalInvestment: number
 ): number | null {
-    if (input.annualCashflow <= 0) return null; // Never pays back with negative cashflow
-
     const forecast = calculateYearlyForecast(input, 30);
 
     for (const result of forecast) {
@@ -209,10 +321,109 @@ export function calculateIRR(
     return roundToDecimal(rate * 100, 2);
 }
 
+/**
+ * Model selling the property at the end of a forecast year
+ * 
+ * Sale proceeds are the appreciated value less selling costs, the loan payoff
+ * and (optionally) depreciation recapture and capital gains tax. IRR and equity
+ * multiple use the cash invested up front, each year's cashflow and the net
+ * sale proceeds in the exit year.
+ * 
+ * @param yearByYear - Forecast from calculateYearlyForecast (must cover exitYear)
+ * @param exitYear - Year the property is sold
+ * @param cashInvested - Cash in the deal at the start (after any refi)
+ * @param assumptions - Selling costs, cost basis and tax treatment
+ * @returns Sale proceeds, profit, IRR and equity multiple
+ */
+export function calculateExit(
+    yearByYear: ForecastResult[],
+    exitYear: number,
+    cashInvested: number,
+    assumptions: ExitAssumptions
+): ExitResult {
+    const exit = yearByYear.find(r => r.year === exitYear);
+    if (!exit) {
+        throw new Error(`Forecast does not cover exit year ${exitYear}`);
+    }
+
+    const salePrice = exit.propertyValue;
+    const sellingCosts = roundToCents(salePrice * (assumptions.sellingCostPercent / 100));
+    const loanPayoff = exit.loanBalance;
+
+    let taxes = 0;
+    if (assumptions.taxes) {
+        const { capitalGainsRatePercent, depreciationRecaptureRatePercent } = assumptions.taxes;
+        let depreciation = 0;
+        for (let year = 1; year <= exitYear; year++) {
+            depreciation += calculateDepreciation(assumptions.taxes.depreciation, year);
+        }
+        const gain = salePrice - sellingCosts - (assumptions.costBasis - depreciation);
+
+        // Gain up to the depreciation taken is recaptured; the rest is capital gain
+        const recaptured = Math.min(Math.max(gain, 0), depreciation);
+        const capitalGain = Math.max(gain - depreciation, 0);
+        taxes = roundToCents(
+            recaptured * (depreciationRecaptureRatePercent / 100) +
+            capitalGain * (capitalGainsRatePercent / 100)
+        );
+    }
+
+    const netSaleProceeds = roundToCents(salePrice - sellingCosts - loanPayoff - taxes);
+    const annualCashflows = yearByYear.filter(r => r.year <= exitYear).map(r => r.annualCashflow);
+    const totalProfit = roundToCents(exit.cumulativeCashflow + netSaleProceeds - cashInvested);
+
+    return {
+        exitYear,
+        salePrice,
+        sellingCosts,
+        loanPayoff,
+        taxes,
+        netSaleProceeds,
+        totalProfit,
+        irr: cashInvested > 0 ? calculateIRR(cashInvested, annualCashflows, netSaleProceeds) : null,
+        equityMultiple: cashInvested > 0
+            ? calculateEquityMultiple(exit.cumulativeCashflow + netSaleProceeds, cashInvested)
+            : null,
+    };
+}
+
+/**
+ * Calculate exits at 5, 10 and 20 years
+ * 
+ * @param yearByYear - Forecast covering at least 20 years
+ * @param cashInvested - Cash in the deal at the start (after any refi)
+ * @param assumptions - Selling costs, cost basis and tax treatment
+ * @returns Sale proceeds, profit, IRR and equity multiple per horizon
+ */
+export function calculateExitSummary(
+    yearByYear: ForecastResult[],
+    cashInvested: number,
+    assumptions: ExitAssumptions
+): ExitSummary {
+    const year5 = calculateExit(yearByYear, 5, cashInvested, assumptions);
+    const year10 = calculateExit(yearByYear, 10, cashInvested, assumptions);
+    const year20 = calculateExit(yearByYear, 20, cashInvested, assumptions);
+
+    return {
+        netSaleProceeds5yr: year5.netSaleProceeds,
+        netSaleProceeds10yr: year10.netSaleProceeds,
+        netSaleProceeds20yr: year20.netSaleProceeds,
+        totalProfit5yr: year5.totalProfit,
+        totalProfit10yr: year10.totalProfit,
+        totalProfit20yr: year20.totalProfit,
+        irr5yr: year5.irr,
+        irr10yr: year10.irr,
+        irr20yr: year20.irr,
+        equityMultiple5yr: year5.equityMultiple,
+        equityMultiple10yr: year10.equityMultiple,
+        equityMultiple20yr: year20.equityMultiple,
+    };
+}
+
 /**
  * Calculate equity multiple (total return / initial investment)
  * 
- * @param totalReturn - Total return (equity + cumulative cashflow)
+ * @param totalReturn - Total return (equity less selling costs, plus cumulative cashflow)
  * @param totalInvestment - Initial cash invested
  * @returns Equity multiple (e.g., 2.5x means 2.5 times initial investment)
  */
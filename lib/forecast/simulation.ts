@@ -0,0 +1,191 @@
+/**
+ * Monte Carlo Forecast Simulation
+ *
+ * Runs the year-by-year forecast many times with appreciation, rent growth,
+ * expense inflation, vacancy and capex sampled each year, and reports
+ * P10/P50/P90 bands of equity, cumulative cashflow and IRR.
+ *
+ * Sampling uses a seeded generator, so the same inputs and seed always
+ * produce the same bands.
+ */
+
+import type {
+    ForecastInput, ForecastPath, ExitAssumptions,
+    MonteCarloAssumptions, MonteCarloResult, MonteCarloYear, NormalDistribution, PercentileBand,
+} from '../types';
+import { calculateYearlyForecast, calculateExit } from './projections';
+
+const SIMULATION_YEARS = 20;
+const SNAPSHOT_YEARS = [5, 10, 20];
+
+// ============================================================================
+// Random Sampling
+// ============================================================================
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Draw from a normal distribution (Box-Muller)
+ */
+function sampleNormal(random: () => number, distribution: NormalDistribution): number {
+    if (distribution.stdDev <= 0) return distribution.mean;
+
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+
+    return distribution.mean + z * distribution.stdDev;
+}
+
+/**
+ * Sample one path of per-year assumptions
+ *
+ * @param random - Seeded generator
+ * @param assumptions - Distributions to sample from
+ * @param years - Years to sample
+ * @returns Forecast path
+ */
+export function sampleForecastPath(
+    random: () => number,
+    assumptions: MonteCarloAssumptions,
+    years: number = SIMULATION_YEARS
+): ForecastPath {
+    const path: ForecastPath = {
+        appreciationPercent: [],
+        rentGrowthPercent: [],
+        expenseInflationPercent: [],
+        vacancyMonths: [],
+        capex: [],
+    };
+
+    let inflationFactor = 1;
+
+    for (let year = 1; year <= years; year++) {
+        const inflation = sampleNormal(random, assumptions.expenseInflationPercent);
+
+        path.appreciationPercent.push(sampleNormal(random, assumptions.appreciationPercent));
+        path.rentGrowthPercent.push(sampleNormal(random, assumptions.rentGrowthPercent));
+        path.expenseInflationPercent.push(inflation);
+        path.vacancyMonths.push(Math.min(12, Math.max(0, sampleNormal(random, assumptions.vacancyMonths))));
+
+        // Always drawn, so changing the capex settings does not shift the other samples
+        const capexHit = random() * 100 < assumptions.capexProbabilityPercent;
+        path.capex.push(capexHit ? assumptions.capexCost * inflationFactor : 0);
+
+        inflationFactor *= 1 + inflation / 100;
+    }
+
+    return path;
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Run a Monte Carlo forecast
+ *
+ * Each trial samples a path, runs calculateYearlyForecast on it, and sells at
+ * 5, 10 and 20 years for IRR. IRR bands are null when no cash is left in the deal.
+ *
+ * @param input - Forecast input (its fixed growth rates and vacancy are replaced by the samples)
+ * @param cashInvested - Cash in the deal at the start (after any refi)
+ * @param exitAssumptions - Selling costs, cost basis and tax treatment
+ * @param assumptions - Trials, seed and distributions
+ * @returns Yearly bands and 5/10/20 year snapshots
+ */
+export function runMonteCarlo(
+    input: ForecastInput,
+    cashInvested: number,
+    exitAssumptions: ExitAssumptions,
+    assumptions: MonteCarloAssumptions
+): MonteCarloResult {
+    const random = createRandom(assumptions.seed);
+    const trials = Math.max(1, Math.floor(assumptions.trials));
+
+    const equity: number[][] = Array.from({ length: SIMULATION_YEARS }, () => []);
+    const cumulativeCashflow: number[][] = Array.from({ length: SIMULATION_YEARS }, () => []);
+    const irr = new Map<number, number[]>(SNAPSHOT_YEARS.map(year => [year, []]));
+
+    for (let trial = 0; trial < trials; trial++) {
+        const path = sampleForecastPath(random, assumptions);
+        const yearByYear = calculateYearlyForecast(input, SIMULATION_YEARS, path);
+
+        for (const result of yearByYear) {
+            equity[result.year - 1].push(result.equity);
+            cumulativeCashflow[result.year - 1].push(result.cumulativeCashflow);
+        }
+
+        for (const year of SNAPSHOT_YEARS) {
+            const exit = calculateExit(yearByYear, year, cashInvested, exitAssumptions);
+            if (exit.irr !== null) irr.get(year)!.push(exit.irr);
+        }
+    }
+
+    const yearly: MonteCarloYear[] = equity.map((values, index) => ({
+        year: index + 1,
+        equity: getPercentileBand(values),
+        cumulativeCashflow: getPercentileBand(cumulativeCashflow[index]),
+    }));
+
+    return {
+        trials,
+        seed: assumptions.seed,
+        yearly,
+        snapshots: SNAPSHOT_YEARS.map(year => {
+            const irrValues = irr.get(year)!;
+            return {
+                ...yearly[year - 1],
+                irr: irrValues.length > 0 ? getPercentileBand(irrValues) : null,
+            };
+        }),
+    };
+}
+
+/**
+ * P10 / P50 / P90 of a sample, interpolating between ranks
+ *
+ * @param values - Sample values (not modified)
+ * @returns Percentile band, rounded to 2 decimals
+ */
+export function getPercentileBand(values: number[]): PercentileBand {
+    const sorted = [...values].sort((a, b) => a - b);
+
+    return {
+        p10: roundToDecimal(getPercentile(sorted, 10), 2),
+        p50: roundToDecimal(getPercentile(sorted, 50), 2),
+        p90: roundToDecimal(getPercentile(sorted, 90), 2),
+    };
+}
+
+function getPercentile(sorted: number[], percentile: number): number {
+    if (sorted.length === 0) return 0;
+
+    const rank = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function roundToDecimal(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
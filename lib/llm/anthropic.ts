@@ -0,0 +1,51 @@
+import { readApiError, type LlmCompletion } from './extractor';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicResponse {
+    content?: { type: string; text?: string }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Messages API call with the page image attached
+ */
+export function createAnthropicCompletion(apiKey: string, model: string): LlmCompletion {
+    return async ({ prompt, image, maxTokens }) => {
+        const response = await fetch(ANTHROPIC_API_URL, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+            },
+            body: JSON.stringify({
+                model,
+                max_tokens: maxTokens,
+                temperature: 0,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: image.toString('base64') } },
+                            { type: 'text', text: `${prompt}\nRespond with the JSON object only.` },
+                        ],
+                    },
+                ],
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Anthropic API error ${response.status}: ${await readApiError(response)}`);
+        }
+        const body = await response.json() as AnthropicResponse;
+
+        return {
+            content: body.content?.find(block => block.type === 'text')?.text || '{}',
+            usage: body.usage
+                ? { inputTokens: body.usage.input_tokens ?? null, outputTokens: body.usage.output_tokens ?? null }
+                : null,
+        };
+    };
+}
@@ -0,0 +1,436 @@
+/**
+ * LLM Extraction
+ *
+ * Vision extraction of listings from a page image, behind one interface so the
+ * pipeline does not depend on a vendor. A provider only sends a prompt and the
+ * page image and returns the model's JSON text; the prompts, response parsing,
+ * retries and the verification pass are shared here. Providers are picked from
+ * settings in ./providers.
+ */
+
+import { applyUnitBreakdown } from '../parser/units';
+import { LLM_DEFAULT_CONFIDENCE, setFieldProvenance } from '../parser/provenance';
+import type { LlmProvider, Property, PropertyUnit } from '../types';
+
+// Rate limiting delay between API calls (ms)
+const API_CALL_DELAY = 200;
+
+// Extracted fields recorded with LLM provenance
+const LLM_FIELDS = [
+    'address', 'city', 'state', 'zip', 'zillowUrl',
+    'askingPrice', 'suggestedOffer', 'rent', 'arv', 'rehabNeeded',
+    'bedrooms', 'bathrooms', 'sqft', 'occupied', 'section8Tenant',
+] as const;
+
+export interface LlmUsage {
+    inputTokens: number | null;
+    outputTokens: number | null;
+}
+
+export interface LlmExtraction {
+    properties: Partial<Property>[];
+    usage: LlmUsage | null;
+}
+
+export interface LlmCorrection {
+    address: string;
+    field: string;
+    extracted: unknown;
+    actual: unknown;
+    reason: string;
+}
+
+export interface LlmExtractor {
+    provider: LlmProvider;
+    model: string;
+    extractPropertiesWithLLM(imageBuffer: Buffer, pageNumber: number): Promise<LlmExtraction>;
+    extractPropertiesWithRetry(imageBuffer: Buffer, pageNumber: number, maxRetries?: number): Promise<LlmExtraction>;
+    verifyExtractedProperties(
+        properties: Partial<Property>[],
+        imageBuffer: Buffer,
+        pageNumber: number
+    ): Promise<{ corrections: LlmCorrection[] }>;
+}
+
+// One call to a model: the prompt and a PNG page image in, JSON text out
+export interface LlmRequest {
+    kind: 'extract' | 'verify';
+    prompt: string;
+    image: Buffer;
+    pageNumber: number;
+    maxTokens: number;
+}
+
+export type LlmCompletion = (request: LlmRequest) => Promise<{ content: string; usage: LlmUsage | null }>;
+
+/**
+ * Error message from a failed provider response. The body is read as text,
+ * since a gateway or proxy in front of the API may answer with HTML; the
+ * API's own JSON error message is used when there is one.
+ */
+export async function readApiError(response: Response): Promise<string> {
+    const text = await response.text().catch(() => '');
+    try {
+        const message = (JSON.parse(text) as { error?: { message?: unknown } } | null)?.error?.message;
+        if (typeof message === 'string' && message) return message;
+    } catch {
+        // Not JSON
+    }
+    return text.trim().substring(0, 500) || response.statusText;
+}
+
+const EXTRACTION_PROMPT = `
+You are extracting property data from a Section 8 investment listing PDF.
+
+=== CRITICAL INSTRUCTIONS ===
+1. Process each property INDEPENDENTLY - never mix data between properties
+2. Report CONFIDENCE (0-100) for askingPrice and rehabNeeded fields
+3. If you cannot clearly read a value, use null
+4. Read EXACTLY what is shown - do not guess or infer values
+
+=== CONFIDENCE SCORING ===
+- 90-100: I can clearly read this exact value in the image
+- 70-89: I found a value but text is slightly unclear
+- 50-69: I'm making an educated guess based on context
+- 0-49: I cannot find or read this value (use null)
+
+=== ADDRESS EXTRACTION ===
+Properties may show address in TWO ways:
+1. Separate address line: "1611 15th Ave N"
+2. ONLY in Zillow URL: "https://www.zillow.com/homedetails/1340-43rd-Street-Ensley-Birmingham-AL-35208/..."
+
+If ONLY a Zillow URL is shown (no separate address), PARSE THE ADDRESS FROM THE URL:
+- URL: /homedetails/1340-43rd-Street-Ensley-Birmingham-AL-35208/...
+- Extract: address="1340 43rd Street", city="Ensley", zip="35208"
+
+=== RANGE VALUES ===
+Rent and ARV often show ranges. Capture BOTH min and max values:
+- "$1,300-$1,400" → rentMin=1300, rentMax=1400
+- "$135k-$145k" → arvMin=135000, arvMax=145000
+- Single value "$1,400" → rentMin=1400, rentMax=1400 (same value for both)
+
+=== MULTI-UNIT PROPERTIES ===
+Duplexes, triplexes and fourplexes often list each unit separately ("Unit A: 2bd/1ba $850", "Side B vacant").
+- rentMin/rentMax, bedrooms and bathrooms are totals for the whole building
+- "$800 each" on a duplex → rentMin=1600, rentMax=1600
+
+=== LOCATION CONTEXT ===
+All properties are in ALABAMA (state: "AL"), mostly Birmingham metro area.
+Default city to "Birmingham" if not explicitly shown.
+
+=== FIELDS TO EXTRACT ===
+- address: Street address (from text line OR parsed from Zillow URL)
+- city: City name (from text, from Zillow URL, or default "Birmingham")
+- county: County name if shown (e.g. "Jefferson"), otherwise null
+- state: Always "AL"
+- zip: ZIP code (from text or Zillow URL)
+- askingPrice: Dollar amount. "$110k" = 110000
+- askingPriceConfidence: 0-100 confidence score
+- suggestedOffer: Offer price. "$65k" = 65000
+- rentMin: Lower rent value
+- rentMax: Higher rent value (or same as min if single value)
+- rehabNeeded: Rehab cost. "44k" = 44000, "$0" = 0
+- rehabConfidence: 0-100 confidence score
+- repairItems: Items from the "Needs:" repair list as short strings, e.g. ["HVAC", "Roof", "Electrical rewire"]. Empty array if none.
+- arvMin: Lower ARV value
+- arvMax: Higher ARV value
+- bedrooms: Number (look for "FOUR BEDROOM" = 4, "3 bed" = 3)
+- bathrooms: Number (look for "TWO BATHROOM" = 2, "2 bath" = 2)
+- unitCount: Units in the building. DUPLEX = 2, TRIPLEX = 3, FOURPLEX = 4, otherwise 1
+- units: For multi-unit buildings, one entry per unit: {"label": "A", "rent": 850, "bedrooms": 2, "bathrooms": 1, "occupied": true}. Use null for values not shown. Omit for single-family homes.
+- zillowUrl: Full Zillow URL exactly as shown
+- section8Tenant: true if "Section 8 Tenant" mentioned
+
+=== EXAMPLE FROM YOUR PDF ===
+Image shows:
+  "1611 15th Ave N
+   Asking Price: $110k
+   Section 8 Tenant Application Accepted
+   Rehab Needed: $0"
+
+Extract as:
+{
+  "address": "1611 15th Ave N",
+  "city": "Birmingham",
+  "state": "AL",
+  "askingPrice": 110000,
+  "askingPriceConfidence": 100,
+  "suggestedOffer": null,
+  "rentMin": null,
+  "rentMax": null,
+  "rehabNeeded": 0,
+  "rehabConfidence": 100,
+  "section8Tenant": true
+}
+
+=== SCANNING INSTRUCTIONS ===
+- Scan the ENTIRE image including all columns
+- Count ALL properties - pages often have 10-15+ properties
+- Each Zillow link or address header indicates a separate property
+- Read the ACTUAL values shown, do not confuse values between properties
+
+Return ONLY valid JSON:
+{
+  "properties": [...],
+  "pagePropertyCount": <number>
+}
+`;
+
+function buildVerificationPrompt(properties: Partial<Property>[], pageNumber: number): string {
+    // Build verification request for suspicious properties
+    const propsToVerify = properties.map((p, i) => ({
+        index: i,
+        address: p.address,
+        askingPrice: p.askingPrice,
+        rent: p.rent,
+        rehabNeeded: p.rehabNeeded,
+    }));
+
+    return `
+You are VERIFYING extracted property data. Look at the image and check if these values are CORRECT.
+
+Properties extracted from page ${pageNumber}:
+${JSON.stringify(propsToVerify, null, 2)}
+
+For EACH property, find it in the image by its ADDRESS and verify:
+1. Is the asking price correct? Look for "Asking Price: $XXk"
+2. Is the rent correct? Look for "Section 8 Rent: $X,XXX"
+3. Is the rehab correct? Look for "Rehab Needed: $XXk" or "$0"
+
+Return corrections ONLY for values that are WRONG:
+{
+  "corrections": [
+    {
+      "address": "1611 15th Ave N",
+      "field": "askingPrice",
+      "extracted": 75000,
+      "actual": 110000,
+      "reason": "Image shows 'Asking Price: $110k' not $75k"
+    }
+  ]
+}
+
+If all values are correct, return: { "corrections": [] }
+
+IMPORTANT: Only flag CLEAR errors where you can see a different value in the image.
+`;
+}
+
+/**
+ * Parse a model's JSON reply, tolerating a markdown code fence around it
+ */
+function parseJsonContent(content: string): unknown {
+    const trimmed = content.trim() || '{}';
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        // Try to fix common JSON markdown issues
+        const cleanJson = trimmed.replace(/^```(?:json)?\s*|\s*```$/g, '');
+        return JSON.parse(cleanJson);
+    }
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The list in a reply that is either a raw array or an object holding it under
+ * the given key. A null or scalar reply has no list.
+ */
+function getJsonList(parsed: unknown, key: string): unknown[] {
+    if (Array.isArray(parsed)) return parsed;
+    if (isJsonObject(parsed) && Array.isArray(parsed[key])) return parsed[key];
+    return [];
+}
+
+/**
+ * Turn the model's listings into properties, with LLM provenance on every field found
+ */
+export function parseExtractedProperties(content: string, pageNumber: number): Partial<Property>[] {
+    // Handle wrap in "properties" key or raw array
+    const rawList = getJsonList(parseJsonContent(content), 'properties')
+        .filter((item): item is Record<string, unknown> => isJsonObject(item));
+
+    return rawList.map((item: Record<string, unknown>) => {
+        // Parse numeric values from potentially string inputs
+        const parseNumber = (val: unknown): number | null => {
+            if (typeof val === 'number') return val;
+            if (typeof val === 'string') {
+                const num = parseFloat(val.replace(/[^0-9.]/g, ''));
+                return isNaN(num) ? null : num;
+            }
+            return null;
+        };
+
+        // Handle range fields - use max value for backwards compatibility with 'rent' and 'arv'
+        const rentMin = parseNumber(item.rentMin);
+        const rentMax = parseNumber(item.rentMax);
+        const arvMin = parseNumber(item.arvMin);
+        const arvMax = parseNumber(item.arvMax);
+
+        // Unit breakdown for multi-unit buildings
+        const units: PropertyUnit[] = Array.isArray(item.units)
+            ? (item.units as Record<string, unknown>[]).map((unit, i) => ({
+                label: typeof unit.label === 'string' ? unit.label : String(i + 1),
+                rent: parseNumber(unit.rent),
+                bedrooms: parseNumber(unit.bedrooms),
+                bathrooms: parseNumber(unit.bathrooms),
+                occupied: typeof unit.occupied === 'boolean' ? unit.occupied : null,
+            }))
+            : [];
+
+        // Get confidence scores
+        const askingPriceConfidence = parseNumber(item.askingPriceConfidence) ?? 0;
+        const rehabConfidence = parseNumber(item.rehabConfidence) ?? 0;
+
+        // Flag for manual review if low confidence on critical fields
+        const needsReview = askingPriceConfidence < 70 || rehabConfidence < 70;
+
+        const property: Partial<Property> = {
+            sourcePage: pageNumber,
+            sourceChunk: 'llm-extraction',
+            address: typeof item.address === 'string' ? item.address : null,
+            city: typeof item.city === 'string' ? item.city : null,
+            county: typeof item.county === 'string' ? item.county : null,
+            state: typeof item.state === 'string' ? item.state : null,
+            zip: typeof item.zip === 'string' ? item.zip : null,
+            askingPrice: parseNumber(item.askingPrice),
+            suggestedOffer: parseNumber(item.suggestedOffer),
+            // Use rentMax for backwards compat, fall back to old 'rent' field
+            rent: rentMax ?? parseNumber(item.rent),
+            rentMin: rentMin,
+            rentMax: rentMax,
+            rehabNeeded: parseNumber(item.rehabNeeded),
+            repairItems: Array.isArray(item.repairItems)
+                ? item.repairItems.filter((repair: unknown): repair is string => typeof repair === 'string' && repair.trim() !== '')
+                : [],
+            // Use arvMax for backwards compat, fall back to old 'arv' field
+            arv: arvMax ?? parseNumber(item.arv),
+            arvMin: arvMin,
+            arvMax: arvMax,
+            bedrooms: parseNumber(item.bedrooms),
+            bathrooms: parseNumber(item.bathrooms),
+            sqft: parseNumber(item.sqft),
+            zillowUrl: typeof item.zillowUrl === 'string' ? item.zillowUrl : null,
+            occupied: typeof item.occupied === 'boolean' ? item.occupied : null,
+            section8Tenant: typeof item.section8Tenant === 'boolean' ? item.section8Tenant : null,
+            needsManualReview: needsReview,
+            reviewNotes: needsReview ? `Low confidence: asking=${askingPriceConfidence}%, rehab=${rehabConfidence}%` : null,
+        };
+
+        applyUnitBreakdown(property, units, parseNumber(item.unitCount));
+
+        // The model reports confidence for asking price and rehab only
+        const fieldConfidence: Record<string, number> = {
+            askingPrice: askingPriceConfidence,
+            rehabNeeded: rehabConfidence,
+        };
+        for (const field of LLM_FIELDS) {
+            if (property[field] === null || property[field] === undefined) continue;
+            setFieldProvenance(property, field, {
+                method: 'llm',
+                page: pageNumber,
+                confidence: fieldConfidence[field] ?? LLM_DEFAULT_CONFIDENCE,
+            });
+        }
+
+        return property;
+    });
+}
+
+/**
+ * Build an extractor around a provider's completion call
+ */
+export function createLlmExtractor(provider: LlmProvider, model: string, complete: LlmCompletion): LlmExtractor {
+    const label = `[LLM ${provider}]`;
+
+    const extractPropertiesWithLLM = async (imageBuffer: Buffer, pageNumber: number): Promise<LlmExtraction> => {
+        try {
+            const { content, usage } = await complete({
+                kind: 'extract',
+                prompt: EXTRACTION_PROMPT,
+                image: imageBuffer,
+                pageNumber,
+                maxTokens: 8192,
+            });
+
+            return { properties: parseExtractedProperties(content, pageNumber), usage };
+        } catch (error) {
+            console.error(`${label} Extraction error:`, error);
+            throw error;
+        }
+    };
+
+    /**
+     * Extract properties with retry logic and exponential backoff
+     */
+    const extractPropertiesWithRetry = async (
+        imageBuffer: Buffer,
+        pageNumber: number,
+        maxRetries = 3
+    ): Promise<LlmExtraction> => {
+        let lastError: Error | null = null;
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+                // Add delay between attempts (and between pages)
+                if (attempt > 0) {
+                    const backoffDelay = API_CALL_DELAY * Math.pow(2, attempt);
+                    console.log(`${label} Retry attempt ${attempt + 1}/${maxRetries} after ${backoffDelay}ms`);
+                    await new Promise(resolve => setTimeout(resolve, backoffDelay));
+                }
+
+                const result = await extractPropertiesWithLLM(imageBuffer, pageNumber);
+
+                // Add small delay after successful call to avoid rate limits
+                await new Promise(resolve => setTimeout(resolve, API_CALL_DELAY));
+
+                return result;
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                console.error(`${label} Attempt ${attempt + 1} failed:`, lastError.message);
+
+                // Don't retry on auth errors or missing configuration
+                if (/401|403|invalid_api_key|not configured|No LLM fixture/.test(lastError.message)) {
+                    throw lastError;
+                }
+            }
+        }
+
+        throw lastError || new Error('All retry attempts failed');
+    };
+
+    /**
+     * Verify extracted properties against the image.
+     * Used as a second pass to catch hallucinations.
+     */
+    const verifyExtractedProperties = async (
+        properties: Partial<Property>[],
+        imageBuffer: Buffer,
+        pageNumber: number
+    ): Promise<{ corrections: LlmCorrection[] }> => {
+        // Only verify properties that need it
+        if (properties.length === 0) return { corrections: [] };
+
+        try {
+            const { content } = await complete({
+                kind: 'verify',
+                prompt: buildVerificationPrompt(properties, pageNumber),
+                image: imageBuffer,
+                pageNumber,
+                maxTokens: 2048,
+            });
+            const parsed = parseJsonContent(content);
+
+            return {
+                corrections: isJsonObject(parsed) && Array.isArray(parsed.corrections) ? parsed.corrections : [],
+            };
+        } catch (error) {
+            console.error(`${label} Verification error:`, error);
+            return { corrections: [] };
+        }
+    };
+
+    return { provider, model, extractPropertiesWithLLM, extractPropertiesWithRetry, verifyExtractedProperties };
+}
@@ -0,0 +1,28 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import type { LlmCompletion } from './extractor';
+
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'data', 'llm-fixtures');
+
+/**
+ * Replays recorded model responses instead of calling a model, so runs over
+ * scanned pages are deterministic in tests. The directory holds the raw JSON
+ * reply for each page: page_3.json for extraction and verify_page_3.json for
+ * the verification pass. A page without a verify file has no corrections.
+ * tests/fixtures/llm holds an example set.
+ */
+export function createFixtureCompletion(fixtureDir: string): LlmCompletion {
+    return async ({ kind, pageNumber }) => {
+        const fileName = kind === 'extract' ? `page_${pageNumber}.json` : `verify_page_${pageNumber}.json`;
+        const filePath = path.join(fixtureDir, fileName);
+
+        try {
+            return { content: await fs.readFile(filePath, 'utf-8'), usage: null };
+        } catch (error) {
+            if (kind === 'verify' && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { content: '{ "corrections": [] }', usage: null };
+            }
+            throw new Error(`No LLM fixture for page ${pageNumber}: ${filePath}`);
+        }
+    };
+}
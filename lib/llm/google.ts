@@ -0,0 +1,55 @@
+import { readApiError, type LlmCompletion } from './extractor';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiResponse {
+    candidates?: { content?: { parts?: { text?: string }[] } }[];
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+/**
+ * Gemini generateContent call with the page image attached
+ */
+export function createGoogleCompletion(apiKey: string, model: string): LlmCompletion {
+    return async ({ prompt, image, maxTokens }) => {
+        const response = await fetch(`${GEMINI_API_URL}/${encodeURIComponent(model)}:generateContent`, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-goog-api-key': apiKey,
+            },
+            body: JSON.stringify({
+                contents: [
+                    {
+                        role: 'user',
+                        parts: [
+                            { text: prompt },
+                            { inline_data: { mime_type: 'image/png', data: image.toString('base64') } },
+                        ],
+                    },
+                ],
+                generationConfig: {
+                    temperature: 0,
+                    maxOutputTokens: maxTokens,
+                    responseMimeType: 'application/json',
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Google API error ${response.status}: ${await readApiError(response)}`);
+        }
+        const body = await response.json() as GeminiResponse;
+
+        const parts = body.candidates?.[0]?.content?.parts ?? [];
+        return {
+            content: parts.map(part => part.text ?? '').join('') || '{}',
+            usage: body.usageMetadata
+                ? {
+                    inputTokens: body.usageMetadata.promptTokenCount ?? null,
+                    outputTokens: body.usageMetadata.candidatesTokenCount ?? null,
+                }
+                : null,
+        };
+    };
+}
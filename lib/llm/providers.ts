@@ -0,0 +1,72 @@
+/**
+ * LLM Providers
+ *
+ * Picks the extractor for the provider and model chosen in settings. Hosted
+ * providers take the key from the llmApiKey setting or their environment
+ * variable; without one the provider is not configured and the pipeline falls
+ * back to OCR.
+ */
+
+import path from 'path';
+import { getSetting } from '../db/sqlite';
+import type { LlmProvider, Settings } from '../types';
+import { createLlmExtractor, type LlmCompletion, type LlmExtractor } from './extractor';
+import { createOpenAICompletion, getLocalClient, getOpenAIClient } from './openai';
+import { createAnthropicCompletion } from './anthropic';
+import { createGoogleCompletion } from './google';
+import { createFixtureCompletion, DEFAULT_FIXTURE_DIR } from './fixture';
+
+// Model used when the llmModel setting is blank
+export const DEFAULT_LLM_MODELS: Record<LlmProvider, string> = {
+    openai: 'gpt-4o',
+    anthropic: 'claude-sonnet-4-5',
+    google: 'gemini-2.5-flash',
+    local: 'llava',
+    fixture: 'fixture',
+};
+
+const API_KEY_ENV: Partial<Record<LlmProvider, string>> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    google: 'GOOGLE_API_KEY',
+};
+
+function getApiKey(settings: Settings, provider: LlmProvider): string | null {
+    const envKey = API_KEY_ENV[provider];
+    return settings.llmApiKey || getSetting('llmApiKey') || (envKey ? process.env[envKey] : null) || null;
+}
+
+function getCompletion(settings: Settings, provider: LlmProvider, model: string): LlmCompletion | null {
+    switch (provider) {
+        case 'openai': {
+            const apiKey = getApiKey(settings, provider);
+            return apiKey ? createOpenAICompletion(getOpenAIClient(apiKey), model) : null;
+        }
+        case 'anthropic': {
+            const apiKey = getApiKey(settings, provider);
+            return apiKey ? createAnthropicCompletion(apiKey, model) : null;
+        }
+        case 'google': {
+            const apiKey = getApiKey(settings, provider);
+            return apiKey ? createGoogleCompletion(apiKey, model) : null;
+        }
+        case 'local':
+            return settings.llmBaseUrl
+                ? createOpenAICompletion(getLocalClient(settings.llmBaseUrl, getApiKey(settings, provider)), model)
+                : null;
+        case 'fixture':
+            return createFixtureCompletion(settings.llmFixtureDir ? path.resolve(settings.llmFixtureDir) : DEFAULT_FIXTURE_DIR);
+    }
+}
+
+/**
+ * Extractor for the configured provider, or null when it has no API key
+ * (or, for a local server, no base URL)
+ */
+export function getLlmExtractor(settings: Settings): LlmExtractor | null {
+    const provider = settings.llmProvider ?? 'openai';
+    const model = settings.llmModel?.trim() || DEFAULT_LLM_MODELS[provider];
+
+    const completion = getCompletion(settings, provider, model);
+    return completion ? createLlmExtractor(provider, model, completion) : null;
+}
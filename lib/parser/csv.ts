@@ -0,0 +1,54 @@
+/**
+ * CSV Parsing
+ *
+ * Minimal reader for the rate tables users paste or upload: comma separated,
+ * double quotes around cells that contain commas, "" for a literal quote.
+ * Cells do not span lines.
+ */
+
+/**
+ * Split CSV text into rows of cells, skipping blank lines
+ */
+export function parseCsv(csv: string): string[][] {
+    return csv
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(splitCsvLine);
+}
+
+/**
+ * Header cells reduced to lowercase letters and digits, e.g. "SAFMR 2BR" -> "safmr2br"
+ */
+export function normalizeCsvHeader(header: string[]): string[] {
+    return header.map(cell => cell.toLowerCase().replace(/[^a-z0-9]/g, ''));
+}
+
+/**
+ * Split one CSV line on commas outside double quotes
+ */
+export function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (quoted && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (char === ',' && !quoted) {
+            cells.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current);
+
+    return cells;
+}
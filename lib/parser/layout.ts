@@ -0,0 +1,313 @@
+/**
+ * Layout Extraction
+ *
+ * Rebuilds listing records from word positions rather than the flattened page
+ * text, for list PDFs laid out in columns. Words (pdf.js text items or OCR
+ * words) are grouped into lines, each label is joined to the value beside or
+ * below it, the page is split into columns at the empty gutters between them,
+ * and each column into blocks at blank vertical space. Every block is then
+ * parsed like a page of text.
+ */
+
+import type { ExtractionResult, ParserTemplateField, PositionedWord, Property } from '../types';
+import { parsePropertiesFromText, extractionConfidence } from './section8';
+import { compileLabelPattern } from './templates';
+import { attachWordBoxes, shiftProvenance, type LocatedWord } from './provenance';
+import type { ParserProfile } from './profiles';
+
+interface Box {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+// Words on one line with no wide gap between them
+interface Segment {
+    words: PositionedWord[];
+    labelWords: number;   // Leading words that are a label joined to the value after them
+    box: Box;
+}
+
+export interface LayoutBlock {
+    column: number;
+    box: Box;
+    text: string;
+    words: LocatedWord[];   // Spans in text
+}
+
+export interface PageLayout {
+    columns: number;
+    blocks: LayoutBlock[];
+    text: string;           // Blocks joined by blank lines; provenance offsets point into this
+}
+
+// Distances, as multiples of the page's median word height
+const SAME_LINE = 0.5;        // Vertical distance between word centres on one line
+const SEGMENT_GAP = 1.5;      // Horizontal gap that ends a segment
+const GUTTER_WIDTH = 1.5;     // Empty width between columns
+const BLOCK_GAP = 1.2;        // Blank space between lines that ends a block
+
+// Segments wider than this share of the page (titles, banners) do not block a gutter
+const SPANNING_WIDTH = 0.6;
+
+// Text that reads as a value: an amount, a count or a yes/no answer
+const VALUE_START = /^(?:[~$]|\d|yes\b|no\b)/i;
+
+const BLOCK_SEPARATOR = '\n\n';
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+}
+
+function unionBox(boxes: Box[]): Box {
+    return {
+        x0: Math.min(...boxes.map(box => box.x0)),
+        y0: Math.min(...boxes.map(box => box.y0)),
+        x1: Math.max(...boxes.map(box => box.x1)),
+        y1: Math.max(...boxes.map(box => box.y1)),
+    };
+}
+
+function segmentText(segment: Segment): string {
+    return segment.words.map(word => word.text).join(' ');
+}
+
+/**
+ * Group words into lines, top to bottom, each sorted left to right
+ */
+function groupLines(words: PositionedWord[], tolerance: number): PositionedWord[][] {
+    const centre = (word: PositionedWord) => (word.bbox.y0 + word.bbox.y1) / 2;
+    const sorted = [...words].sort((a, b) => centre(a) - centre(b));
+    const lines: PositionedWord[][] = [];
+    let lineCentre = -Infinity;
+
+    for (const word of sorted) {
+        if (centre(word) - lineCentre > tolerance || lines.length === 0) {
+            lines.push([word]);
+            lineCentre = centre(word);
+        } else {
+            lines[lines.length - 1].push(word);
+        }
+    }
+
+    return lines.map(line => line.sort((a, b) => a.bbox.x0 - b.bbox.x0));
+}
+
+/**
+ * Split a line at wide horizontal gaps
+ */
+function splitSegments(line: PositionedWord[], gap: number): Segment[] {
+    const segments: Segment[] = [];
+
+    for (const word of line) {
+        const last = segments[segments.length - 1];
+        if (last && word.bbox.x0 - last.box.x1 <= gap) {
+            last.words.push(word);
+            last.box = unionBox([last.box, word.bbox]);
+        } else {
+            segments.push({ words: [word], labelWords: 0, box: { ...word.bbox } });
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Join each label that stands alone to the nearest value: the next segment on
+ * its line, or failing that the value segment just below it
+ */
+function pairLabels(lines: Segment[][], labels: RegExp, lineGap: number): void {
+    const isLoneLabel = (segment: Segment) => {
+        const text = segmentText(segment);
+        return segment.labelWords === 0 && !/\d/.test(text) && (labels.test(text) || /:$/.test(text));
+    };
+    const isValue = (segment: Segment) => segment.labelWords === 0 && VALUE_START.test(segmentText(segment));
+
+    const join = (label: Segment, value: Segment) => {
+        label.labelWords = label.words.length;
+        label.words = [...label.words, ...value.words];
+        label.box = unionBox([label.box, value.box]);
+    };
+
+    lines.forEach((line, lineIndex) => {
+        for (let i = 0; i < line.length; i++) {
+            const label = line[i];
+            if (!isLoneLabel(label)) continue;
+
+            const right = line[i + 1];
+            if (right && isValue(right)) {
+                join(label, right);
+                line.splice(i + 1, 1);
+                continue;
+            }
+
+            const below = lines[lineIndex + 1];
+            if (!below) continue;
+
+            const candidates = below
+                .filter(segment => isValue(segment)
+                    && segment.box.y0 - label.box.y1 <= lineGap
+                    && segment.box.x0 < label.box.x1 + lineGap
+                    && segment.box.x1 > label.box.x0)
+                .sort((a, b) => Math.abs(a.box.x0 - label.box.x0) - Math.abs(b.box.x0 - label.box.x0));
+
+            if (candidates.length > 0) {
+                join(label, candidates[0]);
+                below.splice(below.indexOf(candidates[0]), 1);
+            }
+        }
+    });
+}
+
+/**
+ * X positions of the empty vertical bands that separate columns
+ */
+function findGutters(segments: Segment[], minWidth: number): number[] {
+    if (segments.length === 0) return [];
+
+    const left = Math.min(...segments.map(segment => segment.box.x0));
+    const right = Math.max(...segments.map(segment => segment.box.x1));
+    const spans = segments
+        .filter(segment => segment.box.x1 - segment.box.x0 <= (right - left) * SPANNING_WIDTH)
+        .map(segment => [segment.box.x0, segment.box.x1])
+        .sort((a, b) => a[0] - b[0]);
+
+    const gutters: number[] = [];
+    let coveredTo = spans.length > 0 ? spans[0][1] : right;
+
+    for (const [x0, x1] of spans) {
+        if (x0 - coveredTo >= minWidth) {
+            gutters.push((coveredTo + x0) / 2);
+        }
+        coveredTo = Math.max(coveredTo, x1);
+    }
+
+    return gutters;
+}
+
+/**
+ * Build a block's text line by line, keeping each word's span. A label joined
+ * to its value is given a colon, which counts need in the field templates.
+ */
+function buildBlock(column: number, lines: Segment[][]): LayoutBlock {
+    const words: LocatedWord[] = [];
+    let text = '';
+
+    lines.forEach((line, lineIndex) => {
+        if (lineIndex > 0) text += '\n';
+
+        line.forEach((segment, segmentIndex) => {
+            if (segmentIndex > 0) text += ' ';
+
+            segment.words.forEach((word, wordIndex) => {
+                if (wordIndex > 0) text += ' ';
+                words.push({ word, start: text.length, end: text.length + word.text.length });
+                text += word.text;
+
+                if (wordIndex === segment.labelWords - 1 && !word.text.endsWith(':')) {
+                    text += ':';
+                }
+            });
+        });
+    });
+
+    return { column, box: unionBox(lines.flat().map(segment => segment.box)), text, words };
+}
+
+/**
+ * Group a page's positioned words into columns and blocks. Labels come from
+ * the field template, so "Asking Price" in one table cell is read with the
+ * "$85k" in the next.
+ */
+export function extractLayout(words: PositionedWord[], template: ParserTemplateField[]): PageLayout {
+    const textWords = words.filter(word => word.text.trim());
+    if (textWords.length === 0) {
+        return { columns: 0, blocks: [], text: '' };
+    }
+
+    const height = median(textWords.map(word => word.bbox.y1 - word.bbox.y0)) || 1;
+
+    const lines = groupLines(textWords, height * SAME_LINE)
+        .map(line => splitSegments(line, height * SEGMENT_GAP));
+    pairLabels(lines, compileLabelPattern(template), height * BLOCK_GAP);
+
+    const gutters = findGutters(lines.flat(), height * GUTTER_WIDTH);
+    const columnOf = (segment: Segment) =>
+        gutters.filter(x => x < (segment.box.x0 + segment.box.x1) / 2).length;
+
+    const blocks: LayoutBlock[] = [];
+    for (let column = 0; column <= gutters.length; column++) {
+        let blockLines: Segment[][] = [];
+        let previousBottom: number | null = null;
+
+        for (const line of lines) {
+            const inColumn = line.filter(segment => columnOf(segment) === column);
+            if (inColumn.length === 0) continue;
+
+            const top = Math.min(...inColumn.map(segment => segment.box.y0));
+            if (previousBottom !== null && top - previousBottom > height * BLOCK_GAP && blockLines.length > 0) {
+                blocks.push(buildBlock(column, blockLines));
+                blockLines = [];
+            }
+
+            blockLines.push(inColumn);
+            previousBottom = Math.max(...inColumn.map(segment => segment.box.y1));
+        }
+
+        if (blockLines.length > 0) {
+            blocks.push(buildBlock(column, blockLines));
+        }
+    }
+
+    return {
+        columns: gutters.length + 1,
+        blocks,
+        text: blocks.map(block => block.text).join(BLOCK_SEPARATOR),
+    };
+}
+
+/**
+ * Parse the properties in each block of a page layout. Provenance spans point
+ * into the layout's text and carry the boxes of the words they cover.
+ */
+export function parsePropertiesFromLayout(
+    layout: PageLayout,
+    runId: string,
+    options: {
+        sourcePage?: number;
+        profile?: ParserProfile;
+        template?: ParserTemplateField[];
+        method?: 'text' | 'ocr';
+    } = {}
+): ExtractionResult {
+    const properties: Partial<Property>[] = [];
+    const errors: string[] = [];
+    let offset = 0;
+
+    for (const block of layout.blocks) {
+        const result = parsePropertiesFromText(block.text, runId, options);
+        const blockConfidence = block.words.length > 0
+            ? block.words.reduce((sum, { word }) => sum + word.confidence, 0) / block.words.length
+            : 100;
+
+        for (const property of result.properties) {
+            attachWordBoxes(property, block.words, blockConfidence);
+            shiftProvenance(property, offset);
+            properties.push(property);
+        }
+
+        errors.push(...result.errors);
+        offset += block.text.length + BLOCK_SEPARATOR.length;
+    }
+
+    return {
+        success: true,
+        properties,
+        rawText: layout.text,
+        confidence: extractionConfidence(properties),
+        method: options.method ?? 'text',
+        errors,
+    };
+}
@@ -0,0 +1,253 @@
+/**
+ * Parser Profiles
+ *
+ * Wholesalers lay out their lists differently. A profile describes one layout:
+ * the patterns that start a new listing and find its address, the built-in
+ * field template (see ./templates) that reads the listed figures, and any
+ * post-processing for fields the template does not read. The
+ * profile for a PDF is picked by the signals it finds in the text, or chosen
+ * on upload, and stored on the run.
+ */
+
+import type { Property, ParserTemplateField } from '../types';
+import { templateField, DEFAULT_K_MULTIPLIER } from './templates';
+
+export interface ParserAddressPatterns {
+    zillowUrl: RegExp;
+    streetAddress: RegExp;       // Group 1 is the street address
+    numberedStreet: RegExp;      // Group 1 is the street address
+    addressWithType: RegExp;     // Group 1 is the street address, group 2 the building type
+}
+
+export interface ParserProfile {
+    id: string;
+    name: string;
+    description: string;
+    boundaries: RegExp[];        // Lookaheads that start a new listing, applied in order
+    patterns: ParserAddressPatterns;
+    template: ParserTemplateField[];  // Built-in field template; a stored one replaces it
+    signals: RegExp[];           // Text typical of the layout, used to detect it (global flag)
+    postProcess?: (property: Partial<Property>, text: string) => void;
+}
+
+export interface ProfileDetection {
+    profile: ParserProfile;
+    scores: Record<string, number>;
+}
+
+// A signal that matches more often than this stops adding to the score, so one
+// repeated phrase cannot outweigh several distinct ones
+const MAX_SIGNAL_MATCHES = 20;
+
+// ============================================================================
+// Rhett Wiseman (default)
+// ============================================================================
+
+// Section 8 email lists: Zillow URL or address as header, then Asking Price,
+// Suggested Offer Price, Estimated Section 8 Rent, Estimated ARV, Rehab Needed
+// and a "Needs:" section
+const RHETT_WISEMAN_PATTERNS: ParserAddressPatterns = {
+    // Zillow URL pattern
+    zillowUrl: /https?:\/\/(?:www\.)?zillow\.com\/homedetails\/[^\s]+/gi,
+
+    // Address patterns (when no Zillow URL)
+    // Matches standard addresses like "1234 Main St" or "5678 Oak Ave N"
+    streetAddress: /^(\d{1,5}\s+(?:[A-Za-z0-9]+\s+)*(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Boulevard|Dr(?:ive)?|Ln|Lane|Ct|Court|Pl(?:ace)?|Way|Cir(?:cle)?|Pkwy|Parkway)\.?(?:\s+[NSEW]\.?)?)/im,
+
+    // Numbered street addresses like "3827 40th" or "4300 6th Ave"
+    numberedStreet: /^(\d{1,5}\s+\d+(?:st|nd|rd|th)(?:\s+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Dr(?:ive)?|Ln|Ct|Pl|Way|Cir))?)/im,
+
+    // Address with property type descriptor like "3827 40th DUPLEX"
+    addressWithType: /^(\d{1,5}\s+(?:\d+(?:st|nd|rd|th)|[A-Za-z]+)(?:\s+[A-Za-z]+)?)\s+(DUPLEX|TRIPLEX|FOURPLEX|MULTI)/im,
+};
+
+// Status labels are the same across the lists seen so far
+const STATUS_FIELDS: ParserTemplateField[] = [
+    templateField('offMarket', ['OFF MARKET'], 'bool'),
+    templateField('underContract', ['Under Contract', 'Pending', 'Contingent'], 'bool'),
+    templateField('section8Tenant', ['Section 8 Tenant', 'Tenant in place', 'Tenant application accepted'], 'bool'),
+    templateField('occupied', ['Occupied', 'Tenant in place', 'Tenant application'], 'bool'),
+];
+
+// Prices are written "$110k" or "$110,000"; rent ranges like "$1,200-$1,300"
+const RHETT_WISEMAN_TEMPLATE: ParserTemplateField[] = [
+    templateField('askingPrice', ['Asking Price', 'Asking'], 'k-money'),
+    templateField('askingPrice', ['Price'], 'k-money', { lineStart: true }),
+    templateField('suggestedOffer', ['Suggested Offer Price', 'Suggested Offer'], 'k-money'),
+    templateField('rent', ['Estimated Section 8 Rent', 'Section 8 Rent', 'Current Rent', 'Rent'], 'range'),
+    templateField('arv', ['Estimated ARV', 'ARV'], 'range', { multiplier: DEFAULT_K_MULTIPLIER }),
+    templateField('rehabNeeded', ['Rehab Needed', 'Rehab'], 'k-money'),
+    ...STATUS_FIELDS,
+];
+
+const RHETT_WISEMAN_PROFILE: ParserProfile = {
+    id: 'rhett-wiseman',
+    name: 'Rhett Wiseman Section 8 list',
+    description: 'Zillow link or street address per listing with Asking Price, Suggested Offer, Estimated Section 8 Rent, ARV, Rehab Needed and Needs:',
+    // Important: Address patterns should come BEFORE "OFF MARKET" so the address line
+    // is included with the property, not the previous one
+    boundaries: [
+        // Zillow URL - most reliable boundary
+        /(?=https?:\/\/(?:www\.)?zillow\.com\/homedetails\/)/gi,
+
+        // Address with descriptor on its own line (e.g., "3827 40th DUPLEX", "1234 Main TRIPLEX")
+        /(?=\n\d{1,5}\s+(?:\d+(?:st|nd|rd|th)|[A-Za-z]+)(?:\s+[A-Za-z]+)?\s*(?:DUPLEX|TRIPLEX|FOURPLEX|MULTI|UNIT)\s*\n)/gi,
+
+        // Standalone address with numbered street (e.g., "4300 6th Ave", "1782 49th Street")
+        /(?=\n\d{1,5}\s+\d+(?:st|nd|rd|th)\s+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Dr(?:ive)?|Ln|Ct|Pl|Way|Cir)?\s*\n)/gi,
+
+        // Street address at line start (e.g., "1234 Main St", "5678 Oak Ave N")
+        /(?=\n\d{1,5}\s+(?:[A-Za-z]+\s+)+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Boulevard|Dr(?:ive)?|Ln|Lane|Ct|Court|Pl(?:ace)?|Way|Cir(?:cle)?|Pkwy|Parkway)\.?(?:\s+[NSEW]\.?)?\s*\n)/gi,
+    ],
+    patterns: RHETT_WISEMAN_PATTERNS,
+    template: RHETT_WISEMAN_TEMPLATE,
+    signals: [
+        /estimated\s+section\s*8\s+rent/gi,
+        /suggested\s+offer/gi,
+        /zillow\.com\/homedetails/gi,
+        /rehab\s+needed/gi,
+    ],
+};
+
+// ============================================================================
+// Address Header
+// ============================================================================
+
+// A full address line: "1234 Main St, Birmingham, AL 35208"
+const FULL_ADDRESS = /^(\d{1,5}\s+[^\n,]{2,40}),\s*([A-Za-z][A-Za-z .'-]{1,30}),\s*([A-Z]{2})\s+(\d{5})(?:-\d{4})?\s*$/m;
+
+// Field labels used across MLS-style exports and most wholesaler flyers
+const LABELED_TEMPLATE: ParserTemplateField[] = [
+    templateField('askingPrice', ['List Price', 'Listing Price', 'Purchase Price', 'Asking Price', 'Asking', 'Sale Price'], 'k-money'),
+    templateField('askingPrice', ['Price'], 'k-money', { lineStart: true }),
+    templateField('suggestedOffer', ['Suggested Offer', 'Target Offer', 'Max Offer', 'Maximum Offer', 'Offer Price'], 'k-money'),
+    templateField('rent', [
+        'Market Rent', 'Projected Rent', 'Estimated Rent', 'Section 8 Rent', 'Current Rent', 'Monthly Rent',
+        'Gross Rent', 'Rent Estimate', 'Rents', 'Rent', 'FMR',
+    ], 'range'),
+    templateField('arv', ['ARV', 'After Repair Value'], 'range', { multiplier: DEFAULT_K_MULTIPLIER }),
+    templateField('rehabNeeded', [
+        'Repair Estimate', 'Repair Cost', 'Repair Costs', 'Repair Budget', 'Est. Repairs', 'Estimated Repairs',
+        'Rehab Needed', 'Rehab Estimate', 'Rehab Budget', 'Rehab',
+    ], 'k-money'),
+    templateField('bedrooms', ['Beds', 'Bedrooms'], 'int'),
+    templateField('bathrooms', ['Baths', 'Bathrooms'], 'number'),
+    templateField('sqft', ['Sq Ft', 'Sqft', 'Square Feet'], 'int'),
+    ...STATUS_FIELDS,
+];
+
+const BEDS_BATHS = /\b(\d{1,2})\s*(?:bd|br|bed(?:room)?s?)\b[\s,/|]*(\d{1,2}(?:\.\d)?)\s*(?:ba|bath(?:room)?s?)\b/i;
+const SQFT = /\b([\d,]{3,6})\s*(?:sq\.?\s*ft\.?|sqft|square\s+feet|sf)\b/i;
+
+/**
+ * Fill city, state, ZIP, beds, baths and sqft from a labeled listing when the
+ * template left them empty ("3 bd / 2 ba" has the numbers before the labels)
+ */
+function applyLabeledDetails(property: Partial<Property>, text: string): void {
+    const address = text.match(FULL_ADDRESS);
+    if (address) {
+        property.city = property.city ?? address[2].trim();
+        property.state = property.state ?? address[3];
+        property.zip = property.zip ?? address[4];
+    }
+
+    const bedsBaths = text.match(BEDS_BATHS);
+    if (bedsBaths) {
+        property.bedrooms = property.bedrooms ?? parseInt(bedsBaths[1], 10);
+        property.bathrooms = property.bathrooms ?? parseFloat(bedsBaths[2]);
+    }
+
+    const sqft = text.match(SQFT);
+    if (sqft && !property.sqft) {
+        property.sqft = parseInt(sqft[1].replace(/,/g, ''), 10);
+    }
+}
+
+const ADDRESS_HEADER_PROFILE: ParserProfile = {
+    id: 'address-header',
+    name: 'Address header list',
+    description: 'Each listing starts with a full address line (1234 Main St, City, ST 35208) followed by labeled Price, Rent, ARV and Repairs fields',
+    boundaries: [
+        /(?=https?:\/\/(?:www\.)?zillow\.com\/homedetails\/)/gi,
+        /(?=\n\d{1,5}\s+[^\n,]{2,40},\s*[A-Za-z][A-Za-z .'-]{1,30},\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\s*\n)/g,
+    ],
+    patterns: {
+        ...RHETT_WISEMAN_PATTERNS,
+        streetAddress: /^(\d{1,5}\s+[^\n,]{2,40}),\s*[A-Za-z][A-Za-z .'-]{1,30},\s*[A-Z]{2}\s+\d{5}/m,
+    },
+    template: LABELED_TEMPLATE,
+    // Only the header line: the field labels are shared with the numbered list
+    signals: [
+        /^\d{1,5}\s+[^\n,]{2,40},\s*[A-Za-z][A-Za-z .'-]{1,30},\s*[A-Z]{2}\s+\d{5}/gm,
+    ],
+    postProcess: applyLabeledDetails,
+};
+
+// ============================================================================
+// Numbered Deals
+// ============================================================================
+
+const NUMBERED_DEALS_PROFILE: ParserProfile = {
+    id: 'numbered-deals',
+    name: 'Numbered deal list',
+    description: 'Listings numbered "Deal #1", "Property 2" or "#3", with the address on the following line and labeled fields',
+    boundaries: [
+        /(?=\n\s*(?:deal|property|listing|house)\s*#?\s*\d{1,3}\b)/gi,
+        /(?=\n\s*#\d{1,3}\b)/g,
+    ],
+    patterns: {
+        ...RHETT_WISEMAN_PATTERNS,
+        // The address follows the number line rather than starting the record
+        streetAddress: /^\s*(\d{1,5}\s+(?:[A-Za-z0-9.]+\s+){0,4}(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Boulevard|Dr(?:ive)?|Ln|Lane|Ct|Court|Pl(?:ace)?|Way|Cir(?:cle)?|Pkwy|Parkway|Ter(?:race)?|Trl|Trail)\.?(?:\s+[NSEW]{1,2}\.?)?)/im,
+    },
+    template: LABELED_TEMPLATE,
+    signals: [
+        /^\s*(?:deal|property|listing|house)\s*#?\s*\d{1,3}\b/gim,
+        /^\s*#\d{1,3}\b/gm,
+    ],
+    postProcess: applyLabeledDetails,
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const DEFAULT_PARSER_PROFILE_ID = RHETT_WISEMAN_PROFILE.id;
+
+// Detection order: the default profile wins ties
+export const PARSER_PROFILES: ParserProfile[] = [
+    RHETT_WISEMAN_PROFILE,
+    ADDRESS_HEADER_PROFILE,
+    NUMBERED_DEALS_PROFILE,
+];
+
+/**
+ * Profile by ID, or the default profile when the ID is unknown or missing
+ */
+export function getParserProfile(id: string | null | undefined): ParserProfile {
+    return PARSER_PROFILES.find(profile => profile.id === id) ?? RHETT_WISEMAN_PROFILE;
+}
+
+/**
+ * Pick the profile whose signals best match the text. Each signal counts its
+ * matches up to a cap; text that matches no signal gets the default profile.
+ *
+ * @param text - Extracted text of the PDF (all pages)
+ * @returns Best profile and every profile's score
+ */
+export function detectParserProfile(text: string): ProfileDetection {
+    const scores: Record<string, number> = {};
+    let best = RHETT_WISEMAN_PROFILE;
+
+    for (const profile of PARSER_PROFILES) {
+        scores[profile.id] = profile.signals.reduce(
+            (score, signal) => score + Math.min(text.match(signal)?.length ?? 0, MAX_SIGNAL_MATCHES),
+            0
+        );
+        if (scores[profile.id] > scores[best.id]) {
+            best = profile;
+        }
+    }
+
+    return { profile: best, scores };
+}
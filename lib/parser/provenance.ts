@@ -0,0 +1,184 @@
+/**
+ * Field Provenance
+ *
+ * Records where each extracted value came from: the extraction method, the
+ * page, the matched span of the page text (or the OCR words covering it) and a
+ * confidence score. Provenance is keyed by property field name and stored with
+ * the property, so the review page can show the source of every value.
+ */
+
+import type { ExtractionMethod, FieldProvenance, OcrBox, PositionedWord, Property } from '../types';
+
+// A word and its character span in the text it was joined into
+export interface LocatedWord {
+    word: PositionedWord;
+    start: number;
+    end: number;
+}
+
+// Confidence for each way the text parser finds a value
+export const PARSE_CONFIDENCE = {
+    zillowUrl: 99,        // Address read from the listing's Zillow link
+    label: 95,            // Value after one of the field's own labels, e.g. "Asking Price:"
+    fallbackLabel: 80,    // A looser template entry, e.g. "Price" at the start of a line
+    streetAddress: 85,    // Street address pattern in the listing text
+    layout: 75,           // Derived from the profile's layout or the unit breakdown, no single span
+    heuristic: 50,        // Unlabeled "$85k" near the top of the listing
+};
+
+// Fields the LLM returns without a confidence of their own
+export const LLM_DEFAULT_CONFIDENCE = 70;
+
+// Edits on the review page map onto the field they came from
+const MANUAL_FIELD_ALIASES: Record<string, string> = {
+    rentMin: 'rent',
+    rentMax: 'rent',
+    arvMin: 'arv',
+    arvMax: 'arv',
+};
+
+// Fields whose edits are recorded as manual provenance
+const MANUAL_FIELDS = new Set([
+    'address', 'city', 'state', 'zip',
+    'askingPrice', 'suggestedOffer', 'rent', 'arv', 'rehabNeeded',
+    'bedrooms', 'bathrooms', 'sqft', 'occupied', 'section8Tenant',
+]);
+
+/**
+ * Record where a field's value came from, replacing any earlier entry
+ */
+export function setFieldProvenance(
+    property: Partial<Property>,
+    field: string,
+    entry: {
+        method: ExtractionMethod;
+        page?: number | null;
+        start?: number | null;
+        end?: number | null;
+        text?: string | null;
+        boxes?: OcrBox[];
+        confidence: number;
+    }
+): void {
+    property.provenance = {
+        ...property.provenance,
+        [field]: {
+            method: entry.method,
+            page: entry.page ?? null,
+            start: entry.start ?? null,
+            end: entry.end ?? null,
+            text: entry.text ?? null,
+            boxes: entry.boxes ?? [],
+            confidence: Math.round(entry.confidence),
+        },
+    };
+}
+
+/**
+ * Move every span by an offset, e.g. from a listing record into its page text
+ */
+export function shiftProvenance(property: Partial<Property>, offset: number): void {
+    for (const entry of Object.values(property.provenance ?? {})) {
+        if (entry.start !== null) entry.start += offset;
+        if (entry.end !== null) entry.end += offset;
+    }
+}
+
+/**
+ * Re-anchor spans found in a two-page window ("previous page + current page")
+ * onto the page each one actually falls on
+ */
+export function splitWindowProvenance(
+    property: Partial<Property>,
+    boundary: number,
+    previousPage: number,
+    currentPage: number
+): void {
+    for (const entry of Object.values(property.provenance ?? {})) {
+        if (entry.start !== null && entry.start < boundary) {
+            entry.page = previousPage;
+        } else {
+            if (entry.start !== null) entry.start -= boundary;
+            if (entry.end !== null) entry.end -= boundary;
+            entry.page = currentPage;
+        }
+    }
+}
+
+/**
+ * Find each OCR word's character span in the page text built from them.
+ * Words are searched for in reading order; words the normalized text no
+ * longer contains are skipped.
+ */
+export function locateOcrWords(text: string, words: PositionedWord[]): LocatedWord[] {
+    const haystack = text.toLowerCase();
+    const located: LocatedWord[] = [];
+    let cursor = 0;
+
+    for (const word of words) {
+        const needle = word.text.trim().toLowerCase();
+        if (!needle) continue;
+
+        const start = haystack.indexOf(needle, cursor);
+        if (start === -1) continue;
+
+        located.push({ word, start, end: start + needle.length });
+        cursor = start + needle.length;
+    }
+
+    return located;
+}
+
+/**
+ * Attach the boxes of the words under each span of a property parsed from
+ * positioned words, and cap each confidence at the words' own confidence (or
+ * the page's, when a value has no span). Words read from the PDF itself carry
+ * full confidence, so only OCR lowers it.
+ */
+export function attachWordBoxes(
+    property: Partial<Property>,
+    located: LocatedWord[],
+    pageConfidence: number
+): void {
+    for (const entry of Object.values(property.provenance ?? {})) {
+        const covering = entry.start !== null && entry.end !== null
+            ? located.filter(({ start, end }) => start < entry.end! && end > entry.start!)
+            : [];
+
+        entry.boxes = covering.map(({ word }) => ({ ...word.bbox, confidence: Math.round(word.confidence) }));
+
+        const ocrConfidence = covering.length > 0
+            ? Math.min(...covering.map(({ word }) => word.confidence))
+            : pageConfidence;
+        entry.confidence = Math.round(Math.min(entry.confidence, ocrConfidence));
+    }
+}
+
+/**
+ * Add manual provenance for the fields an edit changes, for use as the
+ * update's provenance value
+ */
+export function withManualProvenance(
+    property: Property,
+    updates: Partial<Property>
+): Record<string, FieldProvenance> {
+    const provenance = { ...property.provenance };
+
+    for (const [key, value] of Object.entries(updates)) {
+        const field = MANUAL_FIELD_ALIASES[key] ?? key;
+        if (!MANUAL_FIELDS.has(field)) continue;
+        if ((property as Record<string, unknown>)[key] === value) continue;
+
+        provenance[field] = {
+            method: 'manual',
+            page: null,
+            start: null,
+            end: null,
+            text: null,
+            boxes: [],
+            confidence: 100,
+        };
+    }
+
+    return provenance;
+}
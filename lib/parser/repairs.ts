@@ -0,0 +1,64 @@
+/**
+ * Repair List Parsing
+ *
+ * Reads the "Needs:" section of a listing into individual repair items, e.g.:
+ * - "Needs: HVAC, roof, electrical rewire and paint"
+ * - "Needs:\n- New roof\n- Kitchen update\n- Flooring"
+ *
+ * Works on both line-broken and whitespace-collapsed (OCR) text: in collapsed
+ * text the list runs until the next listing field.
+ */
+
+const REPAIR_PATTERNS = {
+    // Start of the list: "Needs:", "Repairs needed:", "Needs -"
+    header: /\b(?:needs|repairs?(?:\s+needed)?|work\s+needed)\s*[:\-–]\s*/i,
+
+    // A field that ends the list
+    nextField: /\b(?:asking|suggested\s+offer|estimated|section\s*8|current\s+rent|rent|arv|rehab(?:\s+needed)?|price|occupied|vacant|tenant|unit\s+[A-D1-4]\b|https?:\/\/)/i,
+
+    // Separators between items on one line
+    separator: /\s*(?:[,;•·|]|\s-\s|\band\b|\s+&\s+)\s*/i,
+
+    // Bullet at the start of a line
+    bullet: /^\s*(?:[-*•·]|\d+[.)])\s*/,
+};
+
+// Longest stretch of text read as the repair list
+const MAX_LIST_LENGTH = 400;
+
+// Items longer than this are sentences, not repair items
+const MAX_ITEM_LENGTH = 60;
+
+/**
+ * Repair items from the listing's "Needs:" section, or [] when there is none
+ */
+export function extractRepairItems(text: string): string[] {
+    const header = text.match(REPAIR_PATTERNS.header);
+    if (!header) return [];
+
+    const start = header.index! + header[0].length;
+    const rest = text.substring(start, start + MAX_LIST_LENGTH);
+
+    // Bulleted lines after the header, or the rest of the header's line
+    const lines = rest.split('\n');
+    const listLines = [lines[0]];
+    for (const line of lines.slice(1)) {
+        if (!REPAIR_PATTERNS.bullet.test(line)) break;
+        listLines.push(line.replace(REPAIR_PATTERNS.bullet, ''));
+    }
+
+    const items: string[] = [];
+    for (const line of listLines) {
+        const nextField = line.match(REPAIR_PATTERNS.nextField);
+        const list = nextField ? line.substring(0, nextField.index) : line;
+
+        for (const part of list.split(REPAIR_PATTERNS.separator)) {
+            const item = part.replace(/^[\s\-*•.]+|[\s.:]+$/g, '');
+            if (item.length > 1 && item.length <= MAX_ITEM_LENGTH) {
+                items.push(item);
+            }
+        }
+    }
+
+    return [...new Set(items)];
+}
@@ -1,58 +1,29 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Property, ExtractionResult } from '../types';
+import type { Property, ExtractionResult, ParserTemplateField, TemplateFieldName } from '../types';
+import { getUnitCountFromText, extractUnitsFromText, extractRentEach, applyUnitBreakdown } from './units';
+import { extractRepairItems } from './repairs';
+import { DEFAULT_PARSER_PROFILE_ID, getParserProfile, type ParserProfile } from './profiles';
+import { compileTemplate, extractTemplateValues, type CompiledTemplateField } from './templates';
+import { PARSE_CONFIDENCE, setFieldProvenance, shiftProvenance } from './provenance';
 
 /**
  * Section 8 Property Parser
  * 
- * Parses text extracted from Section 8 property listing PDFs (Rhett Wiseman format).
- * Format characteristics:
+ * Parses text extracted from Section 8 property listing PDFs. Listing boundaries
+ * and address patterns come from a parser profile (see ./profiles) and the
+ * listed figures are read with a field template (see ./templates). The default
+ * profile is the Rhett Wiseman format:
  * - Zillow URL or address as header
  * - Asking Price, Suggested Offer Price, Estimated Section 8 Rent
  * - Estimated ARV, Rehab Needed
  * - "Needs:" section with repair items
+ *
+ * Each value is recorded with its provenance (see ./provenance): the matched
+ * span of the page text and a confidence for how it was found.
  */
 
-// Regex patterns for the Rhett Wiseman Section 8 email format
-const PATTERNS = {
-    // Zillow URL pattern
-    zillowUrl: /https?:\/\/(?:www\.)?zillow\.com\/homedetails\/[^\s]+/gi,
-
-    // Address patterns (when no Zillow URL)
-    // Matches standard addresses like "1234 Main St" or "5678 Oak Ave N"
-    streetAddress: /^(\d{1,5}\s+(?:[A-Za-z0-9]+\s+)*(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Boulevard|Dr(?:ive)?|Ln|Lane|Ct|Court|Pl(?:ace)?|Way|Cir(?:cle)?|Pkwy|Parkway)\.?(?:\s+[NSEW]\.?)?)/im,
-
-    // Numbered street addresses like "3827 40th" or "4300 6th Ave"
-    numberedStreet: /^(\d{1,5}\s+\d+(?:st|nd|rd|th)(?:\s+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Dr(?:ive)?|Ln|Ct|Pl|Way|Cir))?)/im,
-
-    // Address with property type descriptor like "3827 40th DUPLEX"
-    addressWithType: /^(\d{1,5}\s+(?:\d+(?:st|nd|rd|th)|[A-Za-z]+)(?:\s+[A-Za-z]+)?)\s+(DUPLEX|TRIPLEX|FOURPLEX|MULTI)/im,
-
-    // Pricing patterns - handles both "$110k" and "$110,000" formats
-    askingPrice: /(?:asking(?:\s+price)?)[:\s]*\$?\s*([\d,]+(?:\.\d+)?)\s*k?/i,
-    suggestedOffer: /(?:suggested\s+offer(?:\s+price)?)[:\s]*\$?\s*([\d,]+(?:\.\d+)?)\s*k?/i,
-
-    // Rent pattern - handles ranges like "$1,200-$1,300" and "Current Rent: $1,325"
-    rent: /(?:(?:estimated\s+)?section\s*8\s+rent|current\s+rent|rent)[:\s]*\$?\s*([\d,]+)(?:\s*[-–]\s*\$?\s*([\d,]+))?/i,
-
-    // ARV pattern - handles ranges
-    arv: /(?:estimated\s+)?ARV[:\s]*\$?\s*([\d,]+)\s*k?(?:\s*[-–]\s*\$?\s*([\d,]+)\s*k?)?/i,
-
-    // Rehab needed
-    rehab: /(?:rehab(?:\s+needed)?)[:\s]*(?:~)?\$?\s*([\d,]+(?:\.\d+)?)\s*k?/i,
-
-    // Property details from Zillow URL
-    bedsFromUrl: /(\d+)-bd/i,
-    bathsFromUrl: /(\d+(?:\.\d)?)-ba/i,
-
-    // Status indicators
-    offMarket: /\bOFF\s+MARKET\b/i,
-    underContract: /\b(?:UNDER\s+CONTRACT|PENDING|CONTINGENT)\b/i,
-    section8Tenant: /\b(?:section\s*8\s+tenant|tenant\s+(?:in\s+place|application\s+accepted))/i,
-    occupied: /\b(?:occupied|tenant\s+(?:in\s+place|application))/i,
-
-    // Address extraction from Zillow URL
-    addressFromUrl: /homedetails\/([^/]+)-([A-Za-z]+)-([A-Z]{2})-(\d{5})/i,
-};
+// Address extraction from Zillow URL
+const ZILLOW_ADDRESS_PATTERN = /homedetails\/([^/]+)-([A-Za-z]+)-([A-Z]{2})-(\d{5})/i;
 
 // Patterns that indicate rehab/description text, NOT property listings
 const REHAB_INDICATORS = [
@@ -92,6 +63,13 @@ function parsePrice(value: string, hasKSuffix: boolean = false): number {
     return Math.round(num);
 }
 
+/**
+ * Check whether any template entry for the field matches the text
+ */
+function hasTemplateField(text: string, template: CompiledTemplateField[], field: 'askingPrice' | 'rent'): boolean {
+    return template.some(entry => entry.field.field === field && entry.pattern.test(text));
+}
+
 /**
  * Extract address components from a Zillow URL
  */
@@ -101,7 +79,7 @@ export function extractAddressFromZillowUrl(url: string): {
     state: string | null;
     zip: string | null;
 } {
-    const match = url.match(PATTERNS.addressFromUrl);
+    const match = url.match(ZILLOW_ADDRESS_PATTERN);
     if (!match) {
         return { address: null, city: null, state: null, zip: null };
     }
@@ -120,43 +98,46 @@ export function extractAddressFromZillowUrl(url: string): {
     return { address, city, state, zip };
 }
 
+interface PropertyRecord {
+    text: string;
+    offset: number;    // Where the record starts in the parsed text
+}
+
+/**
+ * Context for parsing one record
+ */
+interface RecordContext {
+    profile: ParserProfile;
+    template: CompiledTemplateField[];
+    method: 'text' | 'ocr';
+    sourcePage?: number;
+}
+
 /**
  * Split OCR text into individual property records
  *
- * Detects property boundaries using multiple signals:
+ * Detects property boundaries with the profile's boundary patterns, e.g. for the
+ * default profile:
  * 1. Zillow URLs (most reliable)
  * 2. Street addresses (e.g., "1234 Main St", "5678 Oak Ave")
- * 3. "OFF MARKET" headers
- * 4. Addresses with descriptors (e.g., "3827 40th DUPLEX")
+ * 3. Addresses with descriptors (e.g., "3827 40th DUPLEX")
  */
-function splitIntoPropertyRecords(text: string): string[] {
-    const records: string[] = [];
+function splitIntoPropertyRecords(
+    text: string,
+    profile: ParserProfile,
+    template: CompiledTemplateField[]
+): PropertyRecord[] {
+    const records: PropertyRecord[] = [];
+    const { patterns } = profile;
 
     // Normalize line breaks for consistent splitting
     const normalizedText = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
 
-    // Property boundary patterns (ordered by priority)
-    // Important: Address patterns should come BEFORE "OFF MARKET" so the address line
-    // is included with the property, not the previous one
-    const boundaryPatterns = [
-        // Zillow URL - most reliable boundary
-        /(?=https?:\/\/(?:www\.)?zillow\.com\/homedetails\/)/gi,
-
-        // Address with descriptor on its own line (e.g., "3827 40th DUPLEX", "1234 Main TRIPLEX")
-        /(?=\n\d{1,5}\s+(?:\d+(?:st|nd|rd|th)|[A-Za-z]+)(?:\s+[A-Za-z]+)?\s*(?:DUPLEX|TRIPLEX|FOURPLEX|MULTI|UNIT)\s*\n)/gi,
-
-        // Standalone address with numbered street (e.g., "4300 6th Ave", "1782 49th Street")
-        /(?=\n\d{1,5}\s+\d+(?:st|nd|rd|th)\s+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Dr(?:ive)?|Ln|Ct|Pl|Way|Cir)?\s*\n)/gi,
-
-        // Street address at line start (e.g., "1234 Main St", "5678 Oak Ave N")
-        /(?=\n\d{1,5}\s+(?:[A-Za-z]+\s+)+(?:St(?:reet)?|Ave(?:nue)?|Rd|Road|Blvd|Boulevard|Dr(?:ive)?|Ln|Lane|Ct|Court|Pl(?:ace)?|Way|Cir(?:cle)?|Pkwy|Parkway)\.?(?:\s+[NSEW]\.?)?\s*\n)/gi,
-    ];
-
     // Start with the full text
     let parts = [normalizedText];
 
     // Apply each pattern to split further
-    for (const pattern of boundaryPatterns) {
+    for (const pattern of profile.boundaries) {
         const newParts: string[] = [];
         for (const part of parts) {
             // Reset regex lastIndex
@@ -168,29 +149,35 @@ function splitIntoPropertyRecords(text: string): string[] {
     }
 
     // Filter and validate each part as a potential property record
+    let cursor = 0;
     for (const part of parts) {
         const trimmed = part.trim();
 
         // Skip very short parts
         if (trimmed.length < 30) continue;
 
+        // Parts come back in order, so each is found after the previous one
+        const offset = Math.max(normalizedText.indexOf(trimmed, cursor), 0);
+        cursor = offset + trimmed.length;
+        const record = { text: trimmed, offset };
+
         // Check for property indicators
-        const hasPrice = PATTERNS.askingPrice.test(trimmed) || /asking\s*:?\s*\$?\d/i.test(trimmed);
-        const hasRent = PATTERNS.rent.test(trimmed) || /(?:rent|current\s+rent)[:\s]*\$?\d/i.test(trimmed);
+        const hasPrice = hasTemplateField(trimmed, template, 'askingPrice') || /asking\s*:?\s*\$?\d/i.test(trimmed);
+        const hasRent = hasTemplateField(trimmed, template, 'rent') || /(?:rent|current\s+rent)[:\s]*\$?\d/i.test(trimmed);
         const hasUrl = /zillow\.com/i.test(trimmed);
-        const hasAddress = PATTERNS.streetAddress.test(trimmed) || /^\d{1,5}\s+\d+(?:st|nd|rd|th)/i.test(trimmed);
+        const hasAddress = patterns.streetAddress.test(trimmed) || /^\d{1,5}\s+\d+(?:st|nd|rd|th)/i.test(trimmed);
         const hasOffMarket = /^OFF\s+MARKET/i.test(trimmed);
 
         // Include if it has enough property-like characteristics
         if ((hasPrice || hasRent) && (hasUrl || hasAddress || hasOffMarket)) {
-            records.push(trimmed);
+            records.push(record);
         } else if (hasUrl) {
             // Always include if it has a Zillow URL
-            records.push(trimmed);
+            records.push(record);
         } else if (hasPrice || hasRent) {
             // Include pricing-only records - they may belong to a URL from the previous page
             // The sliding window in orchestrator will merge them properly
-            records.push(trimmed);
+            records.push(record);
         }
     }
 
@@ -201,10 +188,10 @@ function splitIntoPropertyRecords(text: string): string[] {
             return [];
         }
 
-        const hasPrice = PATTERNS.askingPrice.test(text);
-        const hasRent = PATTERNS.rent.test(text);
+        const hasPrice = hasTemplateField(text, template, 'askingPrice');
+        const hasRent = hasTemplateField(text, template, 'rent');
         if (hasPrice || hasRent) {
-            records.push(text.trim());
+            records.push({ text: text.trim(), offset: text.length - text.trimStart().length });
         }
     }
 
@@ -217,8 +204,10 @@ function splitIntoPropertyRecords(text: string): string[] {
 function parsePropertyRecord(
     text: string,
     runId: string,
-    sourcePage?: number
+    context: RecordContext
 ): Partial<Property> | null {
+    const { profile, template, method, sourcePage } = context;
+    const { patterns } = profile;
     const property: Partial<Property> = {
         id: uuidv4(),
         runId,
@@ -228,10 +217,23 @@ function parsePropertyRecord(
         rawText: text.substring(0, 2000), // Limit raw text storage
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        provenance: {},
+    };
+
+    // Offsets are relative to this record until parsePropertiesFromText shifts them
+    const recordSource = (
+        fields: string[],
+        confidence: number,
+        span?: { start: number; end: number; text: string }
+    ) => {
+        for (const field of fields) {
+            if (property[field as keyof Property] === null || property[field as keyof Property] === undefined) continue;
+            setFieldProvenance(property, field, { method, page: sourcePage, ...span, confidence });
+        }
     };
 
     // Extract Zillow URL
-    const zillowMatch = text.match(PATTERNS.zillowUrl);
+    const zillowMatch = text.match(patterns.zillowUrl);
     if (zillowMatch) {
         property.zillowUrl = zillowMatch[0];
 
@@ -241,49 +243,65 @@ function parsePropertyRecord(
         property.city = addressInfo.city;
         property.state = addressInfo.state;
         property.zip = addressInfo.zip;
+
+        const start = text.indexOf(zillowMatch[0]);
+        recordSource(['zillowUrl', 'address', 'city', 'state', 'zip'], PARSE_CONFIDENCE.zillowUrl, {
+            start,
+            end: start + zillowMatch[0].length,
+            text: zillowMatch[0],
+        });
     }
 
     // If no Zillow URL, try to extract street address using multiple patterns
     if (!property.address) {
         // Try standard street address first (e.g., "1234 Main St")
-        let addressMatch = text.match(PATTERNS.streetAddress);
+        let addressMatch = text.match(patterns.streetAddress);
         if (addressMatch) {
             property.address = addressMatch[1].trim();
         }
 
         // Try address with property type (e.g., "3827 40th DUPLEX")
         if (!property.address) {
-            addressMatch = text.match(PATTERNS.addressWithType);
+            addressMatch = text.match(patterns.addressWithType);
             if (addressMatch) {
                 property.address = addressMatch[1].trim();
-                // Note: addressMatch[2] contains the property type (DUPLEX, etc.)
+                // The property type in addressMatch[2] is read with the unit breakdown below
             }
         }
 
         // Try numbered street address (e.g., "4300 6th Ave" or "1782 49th Street")
         if (!property.address) {
-            addressMatch = text.match(PATTERNS.numberedStreet);
+            addressMatch = text.match(patterns.numberedStreet);
             if (addressMatch) {
                 property.address = addressMatch[1].trim();
             }
         }
-    }
 
-    // Extract asking price - try multiple patterns
-    let askingMatch = text.match(PATTERNS.askingPrice);
-    if (askingMatch) {
-        const hasK = /k\s*$/i.test(askingMatch[0]);
-        property.askingPrice = parsePrice(askingMatch[1], hasK);
+        if (addressMatch && property.address) {
+            const start = text.indexOf(property.address, addressMatch.index);
+            recordSource(['address'], PARSE_CONFIDENCE.streetAddress, {
+                start,
+                end: start + property.address.length,
+                text: property.address,
+            });
+        }
     }
 
-    // Fallback: "Price: $XXk" without "asking" prefix
-    if (!property.askingPrice) {
-        const priceMatch = text.match(/(?:^|\n)\s*price[:\s]*\$?\s*([\d,]+(?:\.\d+)?)\s*k?/im);
-        if (priceMatch) {
-            const hasK = /k\s*$/i.test(priceMatch[0]);
-            property.askingPrice = parsePrice(priceMatch[1], hasK);
+    // Listed figures and status labels, read with the template
+    const values = extractTemplateValues(text, template);
+    const amount = (field: TemplateFieldName): number | undefined => {
+        const value = values[field]?.value;
+        return typeof value === 'number' ? value : undefined;
+    };
+    const templateSource = (field: TemplateFieldName, fields: string[] = [field]) => {
+        const match = values[field];
+        if (match) {
+            recordSource(fields, match.primary ? PARSE_CONFIDENCE.label : PARSE_CONFIDENCE.fallbackLabel, match);
         }
-    }
+    };
+
+    // Asking price from its labels ("Asking Price", or "Price" starting a line)
+    property.askingPrice = amount('askingPrice');
 
     // Fallback: standalone "$XXk" or "$XX,XXX" near start of text (first 200 chars)
     if (!property.askingPrice) {
@@ -291,56 +309,87 @@ function parsePropertyRecord(
         const standaloneMatch = startText.match(/\$\s*([\d,]+(?:\.\d+)?)\s*k\b/i);
         if (standaloneMatch) {
             property.askingPrice = parsePrice(standaloneMatch[1], true);
+            const start = standaloneMatch.index ?? 0;
+            recordSource(['askingPrice'], PARSE_CONFIDENCE.heuristic, {
+                start,
+                end: start + standaloneMatch[0].length,
+                text: standaloneMatch[0],
+            });
         }
+    } else {
+        templateSource('askingPrice');
     }
 
-    // Extract suggested offer price
-    const offerMatch = text.match(PATTERNS.suggestedOffer);
-    if (offerMatch) {
-        const hasK = /k\s*$/i.test(offerMatch[0]);
-        property.suggestedOffer = parsePrice(offerMatch[1], hasK);
-    }
+    property.suggestedOffer = amount('suggestedOffer');
+    templateSource('suggestedOffer');
 
-    // Extract rent (capture full range)
-    const rentMatch = text.match(PATTERNS.rent);
-    if (rentMatch) {
-        const lowRent = parseInt(rentMatch[1].replace(/,/g, ''), 10);
-        const highRent = rentMatch[2] ? parseInt(rentMatch[2].replace(/,/g, ''), 10) : lowRent;
+    // Rent (capture full range)
+    if (values.rent) {
         // Capture both min and max for range display
-        property.rentMin = lowRent;
-        property.rentMax = highRent;
+        property.rentMin = values.rent.min;
+        property.rentMax = values.rent.max;
         // Use the higher end of the range for conservative analysis (backwards compat)
-        property.rent = highRent;
+        property.rent = amount('rent');
+        templateSource('rent');
     }
 
-    // Extract ARV (capture full range)
-    const arvMatch = text.match(PATTERNS.arv);
-    if (arvMatch) {
-        const hasK1 = /\d\s*k/i.test(arvMatch[0]);
-        const lowArv = parsePrice(arvMatch[1], hasK1);
-        const highArv = arvMatch[2] ? parsePrice(arvMatch[2], hasK1) : lowArv;
-        property.arvMin = lowArv;
-        property.arvMax = highArv;
-        property.arv = highArv; // backwards compat
+    // Multi-unit buildings: rent quoted per unit ("$800 each") is scaled to the
+    // building, and a complete per-unit breakdown replaces the building rent
+    const unitCount = getUnitCountFromText(text);
+    const rentEach = unitCount && unitCount > 1 ? extractRentEach(text, unitCount) : null;
+    if (rentEach) {
+        property.rentMin = rentEach.min;
+        property.rentMax = rentEach.max;
+        property.rent = rentEach.max;
+    }
+    const rentBeforeUnits = property.rent;
+    applyUnitBreakdown(property, extractUnitsFromText(text), unitCount);
+    if (rentEach || property.rent !== rentBeforeUnits) {
+        recordSource(['rent'], PARSE_CONFIDENCE.layout);
     }
 
-    // Extract rehab needed
-    const rehabMatch = text.match(PATTERNS.rehab);
-    if (rehabMatch) {
-        const hasK = /\d\s*k/i.test(rehabMatch[0]);
-        property.rehabNeeded = parsePrice(rehabMatch[1], hasK);
+    // ARV (capture full range)
+    if (values.arv) {
+        property.arvMin = values.arv.min;
+        property.arvMax = values.arv.max;
+        property.arv = amount('arv'); // backwards compat
+        templateSource('arv');
     }
 
+    property.rehabNeeded = amount('rehabNeeded');
+    property.bedrooms = amount('bedrooms');
+    property.bathrooms = amount('bathrooms');
+    property.sqft = amount('sqft');
+    templateSource('rehabNeeded');
+    templateSource('bedrooms');
+    templateSource('bathrooms');
+    templateSource('sqft');
+
+    // Repair items from the "Needs:" section, priced later against the rehab catalog
+    property.repairItems = extractRepairItems(text);
+
+    // Fields only this profile's layout carries
+    const beforePostProcess = { ...property };
+    profile.postProcess?.(property, text);
+    recordSource(
+        (Object.keys(property) as (keyof Property)[]).filter(key => beforePostProcess[key] == null && key !== 'provenance'),
+        PARSE_CONFIDENCE.layout
+    );
+
     // Check status indicators
-    property.occupied = PATTERNS.occupied.test(text) || PATTERNS.section8Tenant.test(text);
-    property.section8Tenant = PATTERNS.section8Tenant.test(text);
+    property.occupied = !!values.occupied || !!values.section8Tenant;
+    property.section8Tenant = !!values.section8Tenant;
+    templateSource('occupied');
+    templateSource('section8Tenant', ['occupied', 'section8Tenant']);
 
     // Check if off market deal (special opportunity from PDF)
-    if (PATTERNS.offMarket.test(text)) {
+    if (values.offMarket) {
         property.zillowStatus = 'off-market';
         property.isOffMarketDeal = true;  // This is a special off-market opportunity from the PDF
-    } else if (PATTERNS.underContract.test(text)) {
+        templateSource('offMarket', ['zillowStatus']);
+    } else if (values.underContract) {
         property.zillowStatus = 'pending';
+        templateSource('underContract', ['zillowStatus']);
     }
 
     // Only return if we have minimum required data
@@ -375,6 +424,10 @@ function parsePropertyRecord(
     if (!property.rent) {
         reviewReasons.push('Missing rent estimate');
     }
+    const unitsWithRent = (property.units ?? []).filter(unit => unit.rent !== null).length;
+    if (unitsWithRent > 0 && unitsWithRent < (property.unitCount ?? 1)) {
+        reviewReasons.push(`Rent listed for ${unitsWithRent} of ${property.unitCount} units`);
+    }
 
     property.needsManualReview = reviewReasons.length > 0;
     property.reviewNotes = reviewReasons.length > 0 ? reviewReasons.join('; ') : null;
@@ -382,6 +435,27 @@ function parsePropertyRecord(
     return property;
 }
 
+/**
+ * Confidence for a set of parsed properties, based on completeness
+ */
+export function extractionConfidence(properties: Partial<Property>[]): number {
+    const totalFields = properties.length * 8; // 8 key fields per property
+    const filledFields = properties.reduce((count, p) => {
+        let filled = 0;
+        if (p.address) filled++;
+        if (p.city) filled++;
+        if (p.state) filled++;
+        if (p.zip) filled++;
+        if (p.askingPrice) filled++;
+        if (p.suggestedOffer) filled++;
+        if (p.rent) filled++;
+        if (p.zillowUrl) filled++;
+        return count + filled;
+    }, 0);
+
+    return totalFields > 0 ? Math.round((filledFields / totalFields) * 100) : 0;
+}
+
 /**
  * Parse multiple properties from OCR/extracted text
  */
@@ -390,19 +464,29 @@ export function parsePropertiesFromText(
     runId: string,
     options: {
         sourcePage?: number;
+        profile?: ParserProfile;
+        template?: ParserTemplateField[];  // Stored template for the profile; its built-in one otherwise
+        method?: 'text' | 'ocr';           // How the text was read, recorded in each field's provenance
     } = {}
 ): ExtractionResult {
-    const { sourcePage } = options;
+    const method = options.method ?? 'text';
+    const profile = options.profile ?? getParserProfile(DEFAULT_PARSER_PROFILE_ID);
+    const context: RecordContext = {
+        profile,
+        template: compileTemplate(options.template ?? profile.template),
+        method,
+        sourcePage: options.sourcePage,
+    };
     const properties: Partial<Property>[] = [];
     const errors: string[] = [];
 
     try {
         // Split text into individual property records
-        const records = splitIntoPropertyRecords(text);
+        const records = splitIntoPropertyRecords(text, profile, context.template);
 
         if (records.length === 0) {
             // Try parsing the entire text as a single record if no splits found
-            const singleProperty = parsePropertyRecord(text, runId, sourcePage);
+            const singleProperty = parsePropertyRecord(text, runId, context);
             if (singleProperty) {
                 properties.push(singleProperty);
             }
@@ -410,8 +494,9 @@ export function parsePropertiesFromText(
             // Parse each record
             for (const record of records) {
                 try {
-                    const property = parsePropertyRecord(record, runId, sourcePage);
+                    const property = parsePropertyRecord(record.text, runId, context);
                     if (property) {
+                        shiftProvenance(property, record.offset);
                         properties.push(property);
                     }
                 } catch (err) {
@@ -421,29 +506,12 @@ export function parsePropertiesFromText(
             }
         }
 
-        // Calculate confidence based on completeness
-        const totalFields = properties.length * 8; // 8 key fields per property
-        const filledFields = properties.reduce((count, p) => {
-            let filled = 0;
-            if (p.address) filled++;
-            if (p.city) filled++;
-            if (p.state) filled++;
-            if (p.zip) filled++;
-            if (p.askingPrice) filled++;
-            if (p.suggestedOffer) filled++;
-            if (p.rent) filled++;
-            if (p.zillowUrl) filled++;
-            return count + filled;
-        }, 0);
-
-        const confidence = totalFields > 0 ? (filledFields / totalFields) * 100 : 0;
-
         return {
             success: true,
             properties,
             rawText: text,
-            confidence: Math.round(confidence),
-            method: 'ocr',
+            confidence: extractionConfidence(properties),
+            method,
             errors,
         };
     } catch (err) {
@@ -453,7 +521,7 @@ export function parsePropertiesFromText(
             properties: [],
             rawText: text,
             confidence: 0,
-            method: 'ocr',
+            method,
             errors: [message],
         };
     }
@@ -514,6 +582,9 @@ export function mergePropertyData(
         }
     }
 
+    // Each field keeps the provenance of the side its value came from
+    merged.provenance = { ...base.provenance, ...overlay.provenance };
+
     merged.updatedAt = new Date().toISOString();
 
     return merged;
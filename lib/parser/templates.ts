@@ -0,0 +1,194 @@
+/**
+ * Parser Templates
+ *
+ * Field extraction driven by JSON templates instead of hand-written regexes.
+ * Each template field lists the labels a value is written under and how to
+ * read the value after them. Every parser profile carries a built-in template;
+ * a copy edited on the settings page and stored in SQLite replaces it.
+ */
+
+import type { ParserTemplateField, TemplateFieldName, TemplateMultiplier, TemplateValueType } from '../types';
+
+export interface TemplateMatch {
+    value: number | boolean;
+    min: number | null;          // Low end of a range; the value itself for single amounts
+    max: number | null;
+    text: string;                // Matched label and value, shown in the settings preview
+    start: number;               // Character offsets of the text in the searched string
+    end: number;
+    primary: boolean;            // Matched by the field's first template entry rather than a fallback
+}
+
+export type TemplateValues = Partial<Record<TemplateFieldName, TemplateMatch>>;
+
+export interface CompiledTemplateField {
+    field: ParserTemplateField;
+    pattern: RegExp;
+}
+
+// The old parsePrice rule: "$110k" and a bare "110" are both thousands
+export const DEFAULT_K_MULTIPLIER: TemplateMultiplier = { suffix: 'k', factor: 1000, below: 1000 };
+
+const AMOUNT = '\\$?\\s*([\\d,]+(?:\\.\\d+)?)';
+
+/**
+ * Build a template field with the schema defaults filled in
+ */
+export function templateField(
+    field: TemplateFieldName,
+    aliases: string[],
+    valueType: TemplateValueType,
+    options: { multiplier?: TemplateMultiplier; lineStart?: boolean } = {}
+): ParserTemplateField {
+    return {
+        field,
+        aliases,
+        valueType,
+        multiplier: options.multiplier ?? null,
+        lineStart: options.lineStart ?? false,
+    };
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex source for a label as written: any whitespace between words, and
+ * periods optional ("Est. Rent" also matches "Est Rent")
+ */
+function aliasSource(alias: string): string {
+    return alias
+        .trim()
+        .split(/\s+/)
+        .map(word => escapeRegex(word).replace(/\\\./g, '\\.?'))
+        .join('\\s*');
+}
+
+function getMultiplier(field: ParserTemplateField): TemplateMultiplier | null {
+    return field.multiplier ?? (field.valueType === 'k-money' ? DEFAULT_K_MULTIPLIER : null);
+}
+
+/**
+ * Regex source for the value after the label. Groups: amount, suffix, and for
+ * ranges the high amount and its suffix.
+ */
+function valueSource(valueType: TemplateValueType, multiplier: TemplateMultiplier | null): string {
+    const suffix = multiplier ? `\\s*(${escapeRegex(multiplier.suffix)})?\\b` : '()';
+
+    switch (valueType) {
+        case 'money':
+        case 'k-money':
+            return `[:\\s]*~?\\s*${AMOUNT}${suffix}`;
+        case 'range':
+            return `[:\\s]*~?\\s*${AMOUNT}${suffix}(?:\\s*[-–]\\s*${AMOUNT}${suffix})?`;
+        case 'int':
+        case 'number':
+            // Counts need a colon so "3 Bedrooms 2 Baths" does not read 2 bedrooms
+            return '\\s*:\\s*([\\d,]+(?:\\.\\d+)?)';
+        case 'bool':
+            return '(?![A-Za-z0-9])';
+    }
+}
+
+/**
+ * Compile a template's fields into regexes, in template order
+ */
+export function compileTemplate(fields: ParserTemplateField[]): CompiledTemplateField[] {
+    return fields.map(field => {
+        // Longest label first, so "Asking Price" is preferred over "Asking"
+        const labels = [...field.aliases]
+            .sort((a, b) => b.length - a.length)
+            .map(aliasSource)
+            .join('|');
+        const start = field.lineStart ? '^[ \\t]*' : '(?<![A-Za-z0-9])';
+        const pattern = `${start}(?:${labels})${valueSource(field.valueType, getMultiplier(field))}`;
+
+        return { field, pattern: new RegExp(pattern, field.lineStart ? 'im' : 'i') };
+    });
+}
+
+/**
+ * Regex for text that is only a label from the template, e.g. "Asking Price:"
+ * standing apart from its value in a table layout. Status labels carry no value
+ * and are left out.
+ */
+export function compileLabelPattern(fields: ParserTemplateField[]): RegExp {
+    const labels = fields
+        .filter(field => field.valueType !== 'bool')
+        .flatMap(field => field.aliases)
+        .sort((a, b) => b.length - a.length)
+        .map(aliasSource)
+        .join('|');
+
+    return new RegExp(`^(?:${labels})\\s*:?$`, 'i');
+}
+
+function scaleAmount(raw: string, hasSuffix: boolean, multiplier: TemplateMultiplier | null): number {
+    let value = parseFloat(raw.replace(/,/g, ''));
+    if (multiplier && (hasSuffix || (multiplier.below !== null && value < multiplier.below))) {
+        value *= multiplier.factor;
+    }
+    return Math.round(value);
+}
+
+/**
+ * Read one field's value from its regex match, or null when the number is unreadable
+ */
+function readMatch(field: ParserTemplateField, match: RegExpMatchArray, primary: boolean): TemplateMatch | null {
+    const text = match[0].trim();
+    const start = (match.index ?? 0) + match[0].length - match[0].trimStart().length;
+    const span = { text, start, end: start + text.length, primary };
+    const multiplier = getMultiplier(field);
+
+    switch (field.valueType) {
+        case 'bool':
+            return { value: true, min: null, max: null, ...span };
+
+        case 'int':
+        case 'number': {
+            const value = field.valueType === 'int'
+                ? parseInt(match[1].replace(/,/g, ''), 10)
+                : parseFloat(match[1].replace(/,/g, ''));
+            return Number.isNaN(value) ? null : { value, min: value, max: value, ...span };
+        }
+
+        case 'range': {
+            // A suffix on either end applies to both: "$140-150k"
+            const hasSuffix = !!(match[2] || match[4]);
+            const low = scaleAmount(match[1], hasSuffix, multiplier);
+            const high = match[3] ? scaleAmount(match[3], hasSuffix, multiplier) : low;
+            if (Number.isNaN(low) || Number.isNaN(high)) return null;
+            return { value: high, min: low, max: high, ...span };
+        }
+
+        default: {
+            const value = scaleAmount(match[1], !!match[2], multiplier);
+            return Number.isNaN(value) ? null : { value, min: value, max: value, ...span };
+        }
+    }
+}
+
+/**
+ * Extract every template field found in the text. Entries are tried in order
+ * and the first one that matches a field wins.
+ */
+export function extractTemplateValues(text: string, template: CompiledTemplateField[]): TemplateValues {
+    const values: TemplateValues = {};
+    const tried = new Set<TemplateFieldName>();
+
+    for (const { field, pattern } of template) {
+        if (values[field.field]) continue;
+
+        const primary = !tried.has(field.field);
+        tried.add(field.field);
+
+        const match = text.match(pattern);
+        const result = match ? readMatch(field, match, primary) : null;
+        if (result) {
+            values[field.field] = result;
+        }
+    }
+
+    return values;
+}
@@ -0,0 +1,196 @@
+import type { Property, PropertyUnit } from '../types';
+
+/**
+ * Multi-Unit Parsing
+ *
+ * Reads the unit count and per-unit breakdown of duplexes, triplexes and
+ * fourplexes from listing text, e.g.:
+ * - "3827 40th DUPLEX"
+ * - "Unit A: 2bd/1ba $850 occupied" / "Side B 3 bed 1 bath vacant"
+ * - "Rents: $850 / $900"
+ * - "Rent: $800 each"
+ *
+ * Works on both line-broken and whitespace-collapsed (OCR) text.
+ */
+
+const UNIT_COUNT_BY_TYPE: Record<string, number> = {
+    DUPLEX: 2,
+    TRIPLEX: 3,
+    FOURPLEX: 4,
+    QUADPLEX: 4,
+};
+
+const UNIT_PATTERNS = {
+    // Property type word ("DUPLEX") or "4-unit" / "2 family"
+    buildingType: /\b(DUPLEX|TRIPLEX|FOURPLEX|QUADPLEX)\b/i,
+    unitsInName: /\b([2-4])[\s-]*(?:units?|family|plex)\b/i,
+
+    // Start of a unit entry: "Unit A:", "Apt 2 -", "Side B", "Upstairs unit:"
+    unitHeader: /\b(?:(?:unit|apt\.?|apartment|side)\s*#?\s*([A-D]|[1-4])\b|(upstairs|downstairs|upper|lower)(?:\s+unit)?\s*[:\-–])\s*[:\-–]?/gi,
+
+    // Rent listed per unit: "$800 each", "$800-$850 per unit"
+    rentEach: /\$\s*([\d,]+)(?:\s*[-–]\s*\$?\s*([\d,]+))?\s*(?:each|per\s+unit|\/\s*unit|a\s+unit)\b/i,
+
+    // Several rents on one line: "Rents: $850 / $900 / $925"
+    rentList: /\brents?[:\s]*(\$\s*[\d,]+(?:\s*(?:[\/+&,]|and)\s*\$\s*[\d,]+)+)/i,
+
+    // Inside a unit entry
+    rent: /\$\s*([\d,]+)/,
+    bedsAndBaths: /\b(\d)\s*\/\s*(\d(?:\.\d)?)\b/,
+    beds: /(\d+)\s*(?:bd|br|bed(?:room)?s?)\b/i,
+    baths: /(\d+(?:\.\d)?)\s*(?:ba|bath(?:room)?s?)\b/i,
+    vacant: /\bvacant\b/i,
+    occupied: /\b(?:occupied|leased|tenant)\b/i,
+};
+
+// Longest stretch of text read as one unit's entry
+const MAX_UNIT_ENTRY_LENGTH = 120;
+
+// Amounts below this inside a unit entry are deposits or fees, not rent
+const MIN_UNIT_RENT = 200;
+
+/**
+ * Number of units implied by the property type, or null when the text does not say
+ */
+export function getUnitCountFromText(text: string): number | null {
+    const typeMatch = text.match(UNIT_PATTERNS.buildingType);
+    if (typeMatch) return UNIT_COUNT_BY_TYPE[typeMatch[1].toUpperCase()];
+
+    const namedMatch = text.match(UNIT_PATTERNS.unitsInName);
+    if (namedMatch) return parseInt(namedMatch[1], 10);
+
+    return null;
+}
+
+/**
+ * Per-unit breakdown from "Unit A: ..." style entries, or from a "Rents: $x / $y"
+ * list when the units are not written out. Units with nothing readable are dropped.
+ */
+export function extractUnitsFromText(text: string): PropertyUnit[] {
+    const headers = [...text.matchAll(UNIT_PATTERNS.unitHeader)];
+    const units: PropertyUnit[] = [];
+    const seen = new Set<string>();
+
+    headers.forEach((header, i) => {
+        const start = header.index! + header[0].length;
+        const end = i + 1 < headers.length ? headers[i + 1].index! : text.length;
+        const entry = text.substring(start, Math.min(end, start + MAX_UNIT_ENTRY_LENGTH)).split('\n')[0];
+
+        const rawLabel = header[1] ?? header[2];
+        const label = rawLabel.length === 1 ? rawLabel.toUpperCase() : capitalize(rawLabel);
+        if (seen.has(label)) return;
+
+        const unit = parseUnitEntry(entry, label);
+        if (unit.rent !== null || unit.bedrooms !== null || unit.bathrooms !== null) {
+            seen.add(label);
+            units.push(unit);
+        }
+    });
+
+    if (units.length > 0) return units;
+
+    const listMatch = text.match(UNIT_PATTERNS.rentList);
+    if (!listMatch) return [];
+
+    return [...listMatch[1].matchAll(/\$\s*([\d,]+)/g)].map((match, i) => ({
+        label: String(i + 1),
+        rent: parseInt(match[1].replace(/,/g, ''), 10),
+        bedrooms: null,
+        bathrooms: null,
+        occupied: null,
+    }));
+}
+
+/**
+ * Rent range for the whole building when the listing quotes rent per unit
+ * ("$800 each"), or null when it does not
+ */
+export function extractRentEach(text: string, unitCount: number): { min: number; max: number } | null {
+    const match = text.match(UNIT_PATTERNS.rentEach);
+    if (!match) return null;
+
+    const low = parseInt(match[1].replace(/,/g, ''), 10);
+    const high = match[2] ? parseInt(match[2].replace(/,/g, ''), 10) : low;
+
+    return { min: low * unitCount, max: high * unitCount };
+}
+
+function parseUnitEntry(entry: string, label: string): PropertyUnit {
+    const rentMatch = [...entry.matchAll(new RegExp(UNIT_PATTERNS.rent, 'g'))]
+        .map(match => parseInt(match[1].replace(/,/g, ''), 10))
+        .find(amount => amount >= MIN_UNIT_RENT);
+
+    const pairMatch = entry.match(UNIT_PATTERNS.bedsAndBaths);
+    const bedsMatch = entry.match(UNIT_PATTERNS.beds);
+    const bathsMatch = entry.match(UNIT_PATTERNS.baths);
+
+    let occupied: boolean | null = null;
+    if (UNIT_PATTERNS.vacant.test(entry)) {
+        occupied = false;
+    } else if (UNIT_PATTERNS.occupied.test(entry)) {
+        occupied = true;
+    }
+
+    return {
+        label,
+        rent: rentMatch ?? null,
+        bedrooms: bedsMatch ? parseInt(bedsMatch[1], 10) : pairMatch ? parseInt(pairMatch[1], 10) : null,
+        bathrooms: bathsMatch ? parseFloat(bathsMatch[1]) : pairMatch ? parseFloat(pairMatch[2]) : null,
+        occupied,
+    };
+}
+
+/**
+ * Building-level fields implied by a unit breakdown: the unit count, and the
+ * total rent, bedrooms and bathrooms when every unit lists them (null otherwise)
+ *
+ * @param units - Per-unit breakdown
+ * @param unitCount - Unit count from the property type, if known
+ * @returns Unit count and building totals
+ */
+export function getUnitTotals(
+    units: PropertyUnit[],
+    unitCount: number | null
+): Pick<Property, 'unitCount' | 'rent' | 'bedrooms' | 'bathrooms'> {
+    const count = Math.max(unitCount ?? 1, units.length, 1);
+    const complete = units.length === count;
+
+    const total = (field: 'rent' | 'bedrooms' | 'bathrooms'): number | null =>
+        complete && units.every(unit => unit[field] !== null)
+            ? units.reduce((sum, unit) => sum + unit[field]!, 0)
+            : null;
+
+    return {
+        unitCount: count,
+        rent: total('rent'),
+        bedrooms: total('bedrooms'),
+        bathrooms: total('bathrooms'),
+    };
+}
+
+/**
+ * Apply a unit breakdown to a partially extracted property. Totals from a
+ * complete breakdown replace the building-level rent, bedrooms and bathrooms.
+ */
+export function applyUnitBreakdown(
+    property: Partial<Property>,
+    units: PropertyUnit[],
+    unitCount: number | null
+): void {
+    const totals = getUnitTotals(units, unitCount);
+
+    property.unitCount = totals.unitCount;
+    property.units = units;
+
+    if (totals.rent !== null) {
+        property.rent = totals.rent;
+        property.rentMin = totals.rent;
+        property.rentMax = totals.rent;
+    }
+    if (totals.bedrooms !== null) property.bedrooms = totals.bedrooms;
+    if (totals.bathrooms !== null) property.bathrooms = totals.bathrooms;
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
@@ -38,6 +38,7 @@ if (!global.ImageData) {
 
 const pdfParse = require('pdf-parse');
 import * as fs from 'fs/promises';
+import type { PositionedWord } from '../types';
 
 export interface TextExtractionResult {
     success: boolean;
@@ -97,6 +98,64 @@ export async function extractTextFromBuffer(
     }
 }
 
+// The parts of pdf.js's page and text items used for word positions
+interface PdfTextItem {
+    str: string;
+    transform: number[];   // [scaleX, skewY, skewX, scaleY, x, baselineY], PDF units with a bottom-left origin
+    width: number;
+    height?: number;
+}
+
+interface PdfPageData {
+    getViewport(scale: number): { height: number };
+    getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: PdfTextItem[] }>;
+}
+
+/**
+ * Extract the words on a PDF's first page with their boxes (PDF units, top-left
+ * origin), for layout extraction. pdf.js gives positions per text item, so each
+ * item's width is shared out among its words by character count.
+ */
+export async function extractPositionedWords(
+    pdfBuffer: Buffer
+): Promise<{ success: boolean; words: PositionedWord[]; error?: string }> {
+    const words: PositionedWord[] = [];
+
+    try {
+        await pdfParse(pdfBuffer, {
+            max: 1,
+            pagerender: async (pageData: PdfPageData) => {
+                const pageHeight = pageData.getViewport(1).height;
+                const content = await pageData.getTextContent({ normalizeWhitespace: true, disableCombineTextItems: false });
+
+                for (const item of content.items) {
+                    if (!item.str.trim()) continue;
+
+                    const height = item.height || Math.abs(item.transform[3]);
+                    const y1 = pageHeight - item.transform[5];
+                    const charWidth = item.width / item.str.length;
+
+                    for (const match of item.str.matchAll(/\S+/g)) {
+                        const x0 = item.transform[4] + (match.index ?? 0) * charWidth;
+                        words.push({
+                            text: match[0],
+                            confidence: 100,
+                            bbox: { x0, y0: y1 - height, x1: x0 + match[0].length * charWidth, y1 },
+                        });
+                    }
+                }
+
+                return '';
+            },
+        });
+
+        return { success: true, words };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { success: false, words: [], error: message };
+    }
+}
+
 /**
  * Extract text from a PDF file path
  */
@@ -19,30 +19,50 @@ import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
 import { splitPdf, computeBufferHash } from '../pdf/splitter';
-import { extractTextFromBuffer, hasSelectableText } from '../pdf/extractor';
-import { extractPropertiesWithRetry, verifyExtractedProperties } from '../llm/openai';
+import { extractTextFromBuffer, extractPositionedWords, hasSelectableText } from '../pdf/extractor';
+import { getLlmExtractor } from '../llm/providers';
 import { ocrPdfPage, pdfPageToImage, terminateOcrWorker } from '../ocr/tesseract';
 import { validatePropertyData } from '../validation/checker';
+import { getRentLimit } from '../validation/payment-standards';
 import { parsePropertiesFromText, normalizeOcrText, extractAddressFromZillowUrl } from '../parser/section8';
-import { filterProperties, mergeSettings } from '../filter/engine';
+import { detectParserProfile, getParserProfile } from '../parser/profiles';
+import { extractLayout, parsePropertiesFromLayout } from '../parser/layout';
+import {
+    PARSE_CONFIDENCE, LLM_DEFAULT_CONFIDENCE, setFieldProvenance, splitWindowProvenance,
+    locateOcrWords, attachWordBoxes,
+} from '../parser/provenance';
+import { filterProperties, mergeSettings, getLoanPrograms, getLenderRules, getStressShocks } from '../filter/engine';
 import { deduplicateProperties } from '../dedup/normalizer';
 import { checkZillowUrl, closeBrowser as closeZillowBrowser } from '../zillow/scraper';
 import { checkPropertyAvailability, closeSearchBrowser } from '../availability/checker';
-import { calculateUnderwriting } from '../underwriting/calculator';
-import { calculateForecastSummary } from '../forecast/projections';
+import {
+    calculateRefinance, calculateRangeScenarios, calculateMaxAllowableOffer,
+    calculateProgramComparison, applyLoanProgram, getDepreciationBasis,
+} from '../underwriting/calculator';
+import { applyLenderRules, getPrepaymentPenaltyPercent, formatRateSheetTier } from '../underwriting/lender';
+import { runStressTest } from '../underwriting/stress';
+import { getLocationCosts } from '../underwriting/location';
+import { getRehabEstimate } from '../underwriting/rehab';
+import {
+    calculateForecastSummary, calculateExitSummary, calculatePaybackPeriod, calculateBreakevenYear, FORECAST_YEARS,
+} from '../forecast/projections';
+import { runMonteCarlo } from '../forecast/simulation';
 import { rankProperties } from '../ranking/scorer';
+import { optimizePortfolio, getPortfolioConstraints } from '../ranking/portfolio';
 import { generateReports, closeBrowser as closeReportBrowser } from '../reports/generator';
 import {
     createRun, updateRun, getRun,
     createArtifact,
     saveProperties, saveAnalyses,
     getPropertiesByRunId,
+    listPaymentStandards, getHistoricalProperties,
+    getParserTemplate,
 } from '../db/sqlite';
 import * as sheets from '../sheets/client';
 
 import type {
-    Property, Analysis, Run, Settings,
-    UnderwritingInput, ForecastInput
+    Property, Analysis, Run, Settings, PaymentStandard, ExtractionMode, ExtractionResult, LayoutComparison, PositionedWord,
+    UnderwritingInput, RefinanceInput, ForecastInput, TaxAssumptions, ExitAssumptions
 } from '../types';
 import type { RankedProperty } from '../ranking/scorer';
 
@@ -52,6 +72,8 @@ export interface PipelineOptions {
     settings?: Partial<Settings>;
     onProgress?: (step: string, progress: number, message: string) => void;
     runId?: string;
+    parserProfile?: string;  // Profile ID chosen on upload; detected from the text when omitted
+    extractionMode?: ExtractionMode;  // 'layout' also parses pages from word positions; 'text' by default
 }
 
 export interface PipelineResult {
@@ -76,7 +98,7 @@ export async function runPipeline(
     fileName: string,
     options: PipelineOptions = {}
 ): Promise<PipelineResult> {
-    const { dryRun = false, targetStage = 'extract-only', onProgress } = options;
+    const { dryRun = false, targetStage = 'extract-only', extractionMode = 'text', onProgress } = options;
     const settings = mergeSettings(options.settings || {});
 
     const runId = options.runId || uuidv4();
@@ -86,6 +108,17 @@ export async function runPipeline(
     const chunksDir = path.join(runDir, 'chunks');
     const reportsDir = path.join(runDir, 'reports');
 
+    // Extracted rents are checked against the payment standards (underwriting may cap at
+    // them) and against comps from earlier runs
+    const paymentStandards = listPaymentStandards();
+    const validationOptions = {
+        paymentStandards: settings.paymentStandardCheckEnabled ? paymentStandards : [],
+        paymentStandardTolerancePercent: settings.paymentStandardTolerancePercent,
+        compHistory: settings.compsEnabled ? getHistoricalProperties({ excludeRunId: runId }) : [],
+        compsMinSampleSize: settings.compsMinSampleSize,
+        compsOutlierPercent: settings.compsOutlierPercent,
+    };
+
     // Only create run record if we don't already have one (passed via options.runId from upload route)
     if (!options.runId) {
         createRun({
@@ -94,6 +127,8 @@ export async function runPipeline(
             fileName,
             fileSize: pdfBuffer.length,
             dryRun,
+            parserProfile: options.parserProfile,
+            extractionMode,
         });
     }
 
@@ -173,11 +208,14 @@ export async function runPipeline(
         const chunks = splitResult.chunks;
         const totalPages = splitResult.totalPages;
 
-        // Check if LLM is enabled - auto-detect if OpenAI API key is available
-        const hasOpenAIKey = !!(process.env.OPENAI_API_KEY || settings.llmApiKey);
-        const useLLM = settings.enableLLMFallback || settings.llmProvider === 'openai' || hasOpenAIKey;
+        // Use the LLM when the chosen provider is configured (has a key, base URL or fixtures)
+        const llm = getLlmExtractor(settings);
+        const useLLM = llm !== null;
 
-        console.log(`[Pipeline] OpenAI check: hasKey=${hasOpenAIKey}, envKey=${!!process.env.OPENAI_API_KEY}, settingsKey=${!!settings.llmApiKey}, useLLM=${useLLM}`);
+        if (settings.enableLLMFallback && !llm) {
+            console.warn(`[Pipeline] LLM fallback enabled but ${settings.llmProvider} is not configured; using OCR`);
+        }
+        console.log(`[Pipeline] LLM check: provider=${llm?.provider ?? 'none'}, model=${llm?.model ?? 'none'}, useLLM=${useLLM}`);
 
         // Create temp dir for OCR/Image processing
         const tempDir = path.join(runDir, 'temp');
@@ -188,6 +226,7 @@ export async function runPipeline(
         // ================================================================
         progress('extracting', 17, 'Extracting text from all pages...');
         const pageTexts: Map<number, string> = new Map();
+        const pageWords: Map<number, PositionedWord[]> = new Map();  // Layout mode only
         const pagesNeedingLLM: number[] = [];
 
         for (const chunk of chunks) {
@@ -199,6 +238,13 @@ export async function runPipeline(
                     const extracted = await extractTextFromBuffer(chunkBuffer);
                     if (extracted.text.length > 50) {
                         pageTexts.set(chunk.pageStart, extracted.text);
+
+                        if (extractionMode === 'layout') {
+                            const positioned = await extractPositionedWords(chunkBuffer);
+                            if (positioned.success) {
+                                pageWords.set(chunk.pageStart, positioned.words);
+                            }
+                        }
                     }
                 } catch (err) {
                     console.error(`[Pipeline] Text extraction failed for page ${chunk.pageStart}:`, err);
@@ -213,6 +259,66 @@ export async function runPipeline(
 
         console.log(`[Pipeline] Extracted text from ${pageTexts.size} pages, ${pagesNeedingLLM.length} pages have no selectable text`);
 
+        // Pick the list format: the profile chosen on upload (already on the run), or the
+        // best match for the text
+        let parserProfile = getParserProfile(options.parserProfile);
+        if (!options.parserProfile) {
+            const detection = detectParserProfile([...pageTexts.values()].join('\n\n'));
+            parserProfile = detection.profile;
+            updateRun(runId, { parserProfile: parserProfile.id, parserProfileSource: 'detected' });
+            console.log(`[Pipeline] Detected parser profile ${parserProfile.id} (scores: ${JSON.stringify(detection.scores)})`);
+        }
+
+        // Field template edited on the settings page, if any
+        const parserTemplate = getParserTemplate(parserProfile.id)?.fields;
+
+        // Layout mode: parse the page from word positions as well and keep whichever
+        // path finds more listings (the layout on a tie, unless it fills fewer fields).
+        // Each page's blocks and comparison are kept as an artifact.
+        const compareLayout = async (
+            page: number,
+            source: LayoutComparison['source'],
+            textResult: ExtractionResult,
+            words: PositionedWord[],
+            method: 'text' | 'ocr'
+        ): Promise<ExtractionResult> => {
+            const layout = extractLayout(words, parserTemplate ?? parserProfile.template);
+            const layoutResult = parsePropertiesFromLayout(layout, runId, {
+                sourcePage: page,
+                profile: parserProfile,
+                template: parserTemplate,
+                method,
+            });
+
+            const listings = (result: ExtractionResult) => result.properties.filter(p => p.askingPrice || p.rent).length;
+            const textCount = listings(textResult);
+            const layoutCount = listings(layoutResult);
+            const useLayout = layoutCount > textCount ||
+                (layoutCount === textCount && layoutResult.confidence >= textResult.confidence);
+
+            const comparison: LayoutComparison = {
+                page,
+                source,
+                columns: layout.columns,
+                blocks: layout.blocks.length,
+                text: { properties: textCount, confidence: textResult.confidence },
+                layout: { properties: layoutCount, confidence: layoutResult.confidence },
+                used: useLayout ? 'layout' : 'text',
+            };
+
+            const layoutDir = path.join(runDir, 'layout');
+            await fs.mkdir(layoutDir, { recursive: true });
+            const layoutPath = path.join(layoutDir, `page_${page}.json`);
+            await fs.writeFile(layoutPath, JSON.stringify({
+                columns: layout.columns,
+                blocks: layout.blocks.map(({ column, box, text }) => ({ column, box, text })),
+            }, null, 2));
+            createArtifact({ runId, type: 'layout-comparison', path: layoutPath, metadata: { ...comparison } });
+
+            console.log(`[Pipeline] Page ${page}: layout ${layoutCount} properties in ${layout.blocks.length} blocks, text ${textCount} - using ${comparison.used}`);
+            return useLayout ? layoutResult : textResult;
+        };
+
         // ================================================================
         // Phase 2: Parse each page individually (FIRST PASS)
         // This catches properties where all data is on the same page
@@ -233,10 +339,17 @@ export async function runPipeline(
             const currText = pageTexts.get(chunk.pageStart) || '';
             if (currText.trim().length < 100) continue;
 
-            const parseResult = parsePropertiesFromText(currText, runId, {
+            let parseResult = parsePropertiesFromText(currText, runId, {
                 sourcePage: chunk.pageStart,
+                profile: parserProfile,
+                template: parserTemplate,
             });
 
+            const words = pageWords.get(chunk.pageStart);
+            if (words) {
+                parseResult = await compareLayout(chunk.pageStart, 'pdf-text', parseResult, words, 'text');
+            }
+
             // Filter to properties that have pricing data
             const pageProps = parseResult.properties.filter(p => p.askingPrice || p.rent);
 
@@ -279,6 +392,8 @@ export async function runPipeline(
 
             const parseResult = parsePropertiesFromText(windowText, runId, {
                 sourcePage: chunk.pageStart,
+                profile: parserProfile,
+                template: parserTemplate,
             });
 
             const pageProps = parseResult.properties.filter(p => p.askingPrice || p.rent);
@@ -333,6 +448,9 @@ export async function runPipeline(
                     });
 
                     if (!isDuplicate) {
+                        // Offsets were found in the joined window text; point each at its own page
+                        splitWindowProvenance(prop, prevText.length + 2, chunk.pageStart - 1, chunk.pageStart);
+
                         prop.id = uuidv4();
                         prop.runId = runId;
                         prop.status = 'raw';
@@ -383,6 +501,7 @@ export async function runPipeline(
             ];
 
             let foundPrice: number | null = null;
+            let foundMatch: RegExpMatchArray | null = null;
             for (const pattern of pricePatterns) {
                 const match = nextText.match(pattern);
                 if (match) {
@@ -396,13 +515,24 @@ export async function runPipeline(
 
                     if (price > 0 && price < 10000000) {  // Sanity check
                         foundPrice = price;
+                        foundMatch = match;
                         break;
                     }
                 }
             }
 
-            if (foundPrice) {
+            if (foundPrice && foundMatch) {
                 prop.askingPrice = foundPrice;
+                const start = foundMatch.index ?? 0;
+                setFieldProvenance(prop, 'askingPrice', {
+                    method: 'text',
+                    page: nextPageNum,
+                    start,
+                    end: start + foundMatch[0].length,
+                    text: foundMatch[0],
+                    // Matched on another page than the listing, so never above a fallback label
+                    confidence: /asking|price/i.test(foundMatch[0]) ? PARSE_CONFIDENCE.fallbackLabel : PARSE_CONFIDENCE.heuristic,
+                });
                 const existingNotes = prop.reviewNotes || '';
                 prop.reviewNotes = existingNotes
                     ? `${existingNotes}; Asking price merged from page ${nextPageNum}`
@@ -412,7 +542,7 @@ export async function runPipeline(
 
                 // Re-run sanity check since property is now more complete
                 if (prop.needsManualReview) {
-                    const validation = validatePropertyData(prop);
+                    const validation = validatePropertyData(prop, validationOptions);
                     if (!validation.shouldFlag) {
                         // Property is now valid, remove the review flag
                         prop.needsManualReview = false;
@@ -447,7 +577,7 @@ export async function runPipeline(
             if (urlKey) seenUrls.add(urlKey);
 
             // Run sanity checks
-            const validation = validatePropertyData(prop);
+            const validation = validatePropertyData(prop, validationOptions);
             if (validation.shouldFlag) {
                 prop.needsManualReview = true;
                 const existingNotes = prop.reviewNotes || '';
@@ -543,8 +673,9 @@ export async function runPipeline(
         // Phase 3: LLM fallback for pages without any selectable text
         // (scanned/image pages only - not for pages where parser found nothing)
         // ================================================================
-        if (useLLM && pagesNeedingLLM.length > 0) {
+        if (llm && pagesNeedingLLM.length > 0) {
             console.log(`[Pipeline] Running LLM extraction on ${pagesNeedingLLM.length} pages without selectable text...`);
+            updateRun(runId, { llmProvider: llm.provider, llmModel: llm.model });
 
             for (const pageNum of pagesNeedingLLM) {
                 const chunk = chunks.find(c => c.pageStart === pageNum);
@@ -554,13 +685,13 @@ export async function runPipeline(
                 progress('extracting', chunkProgress, `LLM extracting page ${pageNum} of ${totalPages}...`);
 
                 try {
-                    // Convert PDF page to image for GPT-4o vision
+                    // Convert PDF page to image for the vision model
                     const imageResult = await pdfPageToImage(chunk.path, 1, tempDir);
                     if (imageResult.success && imageResult.imagePath) {
                         const imgBuffer = await fs.readFile(imageResult.imagePath);
 
                         // Use retry-enabled extraction
-                        const { properties } = await extractPropertiesWithRetry(imgBuffer, pageNum);
+                        const { properties } = await llm.extractPropertiesWithRetry(imgBuffer, pageNum);
 
                         console.log(`[Pipeline] Page ${pageNum}: LLM extracted ${properties.length} properties`);
 
@@ -586,7 +717,7 @@ export async function runPipeline(
                             prop.updatedAt = new Date().toISOString();
 
                             // Run sanity checks to catch obvious hallucinations
-                            const validation = validatePropertyData(prop);
+                            const validation = validatePropertyData(prop, validationOptions);
                             if (validation.shouldFlag) {
                                 prop.needsManualReview = true;
                                 const existingNotes = prop.reviewNotes || '';
@@ -609,6 +740,14 @@ export async function runPipeline(
                                     prop.city = prop.city || extracted.city;
                                     prop.state = prop.state || extracted.state;
                                     prop.zip = prop.zip || extracted.zip;
+                                    for (const field of ['address', 'city', 'state', 'zip']) {
+                                        if (prop.provenance?.[field]) continue;
+                                        setFieldProvenance(prop, field, {
+                                            ...prop.provenance?.zillowUrl,
+                                            method: 'llm',
+                                            confidence: prop.provenance?.zillowUrl?.confidence ?? LLM_DEFAULT_CONFIDENCE,
+                                        });
+                                    }
                                     console.log(`[Pipeline] Extracted address from Zillow URL: ${prop.address}`);
                                 }
                             }
@@ -618,7 +757,7 @@ export async function runPipeline(
                         if (flaggedForVerification.length > 0 && flaggedForVerification.length <= 5) {
                             console.log(`[Pipeline] Running verification pass for ${flaggedForVerification.length} flagged properties...`);
                             try {
-                                const { corrections } = await verifyExtractedProperties(
+                                const { corrections } = await llm.verifyExtractedProperties(
                                     flaggedForVerification,
                                     imgBuffer,
                                     pageNum
@@ -630,6 +769,12 @@ export async function runPipeline(
                                     if (prop && correction.field && correction.actual !== undefined) {
                                         console.log(`[Pipeline] Correction applied: ${correction.address}.${correction.field}: ${correction.extracted} → ${correction.actual}`);
                                         (prop as Record<string, unknown>)[correction.field] = correction.actual;
+                                        setFieldProvenance(prop, correction.field, {
+                                            method: 'llm',
+                                            page: pageNum,
+                                            text: correction.reason,
+                                            confidence: LLM_DEFAULT_CONFIDENCE,
+                                        });
                                         prop.reviewNotes = `${prop.reviewNotes || ''}; Corrected: ${correction.reason}`;
                                     }
                                 }
@@ -706,10 +851,24 @@ export async function runPipeline(
                         const text = normalizeOcrText(ocrResult.text);
 
                         if (text.length > 50) {
-                            const parseResult = parsePropertiesFromText(text, runId, {
+                            let parseResult = parsePropertiesFromText(text, runId, {
                                 sourcePage: pageNum,
+                                profile: parserProfile,
+                                template: parserTemplate,
+                                method: 'ocr',
                             });
 
+                            // Words are normalized the same way as the page text so they can be found in it
+                            const normalizedWords = ocrResult.words.map(word => ({ ...word, text: normalizeOcrText(word.text) }));
+                            const ocrWords = locateOcrWords(text, normalizedWords);
+                            for (const prop of parseResult.properties) {
+                                attachWordBoxes(prop, ocrWords, ocrResult.confidence);
+                            }
+
+                            if (extractionMode === 'layout') {
+                                parseResult = await compareLayout(pageNum, 'ocr', parseResult, normalizedWords, 'ocr');
+                            }
+
                             for (const prop of parseResult.properties) {
                                 // Deduplicate
                                 const addrKey = prop.address?.toLowerCase().trim();
@@ -917,62 +1076,8 @@ export async function runPipeline(
         const analyses: Analysis[] = [];
 
         for (const property of propertiesToAnalyze) {
-            // Skip if missing required data
-            if (!property.askingPrice || !property.rent) continue;
-
-            const underwritingInput: UnderwritingInput = {
-                purchasePrice: property.suggestedOffer || property.askingPrice,
-                rent: property.rent,
-                downPaymentPercent: settings.downPaymentPercent,
-                closingCostPercent: settings.closingCostPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-                pmFeePercent: settings.pmFeePercent,
-                propertyTaxRate: settings.propertyTaxRate,
-                insuranceAnnual: settings.insuranceAnnual,
-                vacancyPercent: settings.vacancyEnabled ? settings.vacancyPercent : 0,
-                maintenancePercent: settings.maintenanceEnabled ? settings.maintenancePercent : 0,
-            };
-
-            const underwriting = calculateUnderwriting(underwritingInput);
-
-            // Run forecast
-            const forecastInput: ForecastInput = {
-                purchasePrice: underwritingInput.purchasePrice,
-                loanAmount: underwriting.loanAmount,
-                annualCashflow: underwriting.annualCashflow,
-                appreciationPercent: settings.appreciationPercent,
-                rentGrowthPercent: settings.rentGrowthPercent,
-                expenseInflationPercent: settings.expenseInflationPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-            };
-
-            const forecast = calculateForecastSummary(forecastInput);
-
-            const analysis: Analysis = {
-                id: uuidv4(),
-                propertyId: property.id,
-                runId,
-                purchasePrice: underwritingInput.purchasePrice,
-                downPaymentPercent: settings.downPaymentPercent,
-                closingCostPercent: settings.closingCostPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-                pmFeePercent: settings.pmFeePercent,
-                vacancyPercent: underwritingInput.vacancyPercent,
-                maintenancePercent: underwritingInput.maintenancePercent,
-                propertyTaxRate: settings.propertyTaxRate,
-                insuranceAnnual: settings.insuranceAnnual,
-                ...underwriting,
-                monthlyRent: property.rent,
-                ...forecast,
-                rankScore: 0, // Will be set during ranking
-                rank: null,
-                createdAt: new Date().toISOString(),
-            };
-
-            analyses.push(analysis);
+            const analysis = underwriteProperty(property, settings, runId, paymentStandards);
+            if (analysis) analyses.push(analysis);
         }
 
         updateRun(runId, { propertiesAnalyzed: analyses.length });
@@ -988,7 +1093,11 @@ export async function runPipeline(
         const rankingResult = rankProperties(
             propertiesToAnalyze,
             analyses,
-            { topN: settings.topN }
+            {
+                topN: settings.topN,
+                scenario: settings.rankOnConservative ? 'conservative' : undefined,
+                afterTax: settings.afterTaxEnabled,
+            }
         );
 
         // Update rank scores in analyses
@@ -1002,6 +1111,11 @@ export async function runPipeline(
 
         updateRun(runId, { topNCount: rankingResult.topN.length });
 
+        const portfolioConstraints = getPortfolioConstraints(settings);
+        const portfolio = portfolioConstraints
+            ? optimizePortfolio(rankingResult.ranked, portfolioConstraints)
+            : null;
+
         // ========================================================================
         // STEP 10: Generate Reports
         // ========================================================================
@@ -1016,6 +1130,11 @@ export async function runPipeline(
                 date: new Date().toLocaleDateString(),
                 totalProperties: allProperties.length,
                 filteredCount: filterResult.passed.length,
+                portfolio,
+                rankingBasis: {
+                    scenario: settings.rankOnConservative ? 'conservative' : null,
+                    afterTax: settings.afterTaxEnabled,
+                },
             },
             reportsDir
         );
@@ -1089,6 +1208,7 @@ export async function resumePipeline(
     // Ideally we should merge with *existing* run settings but runs don't store settings yet in DB explicitly column-wise
     // For now we'll use passed options + defaults
     const settings = mergeSettings(options.settings || {});
+    const paymentStandards = listPaymentStandards();
 
     const progress = (step: string, pct: number, msg: string) => {
         updateRun(runId, { currentStep: msg, progress: pct });
@@ -1176,60 +1296,8 @@ export async function resumePipeline(
         const analyses: Analysis[] = [];
 
         for (const property of propertiesToAnalyze) {
-            if (!property.askingPrice || !property.rent) continue;
-
-            const underwritingInput: UnderwritingInput = {
-                purchasePrice: property.suggestedOffer || property.askingPrice,
-                rent: property.rent,
-                downPaymentPercent: settings.downPaymentPercent,
-                closingCostPercent: settings.closingCostPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-                pmFeePercent: settings.pmFeePercent,
-                propertyTaxRate: settings.propertyTaxRate,
-                insuranceAnnual: settings.insuranceAnnual,
-                vacancyPercent: settings.vacancyEnabled ? settings.vacancyPercent : 0,
-                maintenancePercent: settings.maintenanceEnabled ? settings.maintenancePercent : 0,
-            };
-
-            const underwriting = calculateUnderwriting(underwritingInput);
-
-            const forecastInput: ForecastInput = {
-                purchasePrice: underwritingInput.purchasePrice,
-                loanAmount: underwriting.loanAmount,
-                annualCashflow: underwriting.annualCashflow,
-                appreciationPercent: settings.appreciationPercent,
-                rentGrowthPercent: settings.rentGrowthPercent,
-                expenseInflationPercent: settings.expenseInflationPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-            };
-
-            const forecast = calculateForecastSummary(forecastInput);
-
-            const analysis: Analysis = {
-                id: uuidv4(),
-                propertyId: property.id,
-                runId,
-                purchasePrice: underwritingInput.purchasePrice,
-                downPaymentPercent: settings.downPaymentPercent,
-                closingCostPercent: settings.closingCostPercent,
-                interestRate: settings.dscrRate,
-                loanTermYears: settings.loanTermYears,
-                pmFeePercent: settings.pmFeePercent,
-                vacancyPercent: underwritingInput.vacancyPercent,
-                maintenancePercent: underwritingInput.maintenancePercent,
-                propertyTaxRate: settings.propertyTaxRate,
-                insuranceAnnual: settings.insuranceAnnual,
-                ...underwriting,
-                monthlyRent: property.rent,
-                ...forecast,
-                rankScore: 0,
-                rank: null,
-                createdAt: new Date().toISOString(),
-            };
-
-            analyses.push(analysis);
+            const analysis = underwriteProperty(property, settings, runId, paymentStandards);
+            if (analysis) analyses.push(analysis);
         }
 
         updateRun(runId, { propertiesAnalyzed: analyses.length });
@@ -1245,7 +1313,11 @@ export async function resumePipeline(
         const rankingResult = rankProperties(
             propertiesToAnalyze,
             analyses,
-            { topN: settings.topN }
+            {
+                topN: settings.topN,
+                scenario: settings.rankOnConservative ? 'conservative' : undefined,
+                afterTax: settings.afterTaxEnabled,
+            }
         );
 
         for (const ranked of rankingResult.ranked) {
@@ -1258,6 +1330,11 @@ export async function resumePipeline(
 
         updateRun(runId, { topNCount: rankingResult.topN.length });
 
+        const portfolioConstraints = getPortfolioConstraints(settings);
+        const portfolio = portfolioConstraints
+            ? optimizePortfolio(rankingResult.ranked, portfolioConstraints)
+            : null;
+
         // ========================================================================
         // STEP 10: Generate Reports
         // ========================================================================
@@ -1275,6 +1352,11 @@ export async function resumePipeline(
                 date: new Date().toLocaleDateString(),
                 totalProperties: properties.length,
                 filteredCount: filterResult.passed.length,
+                portfolio,
+                rankingBasis: {
+                    scenario: settings.rankOnConservative ? 'conservative' : null,
+                    afterTax: settings.afterTaxEnabled,
+                },
             },
             reportsDir
         );
@@ -1333,6 +1415,285 @@ export async function resumePipeline(
     }
 }
 
+/**
+ * Underwrite and forecast a single property with the current settings.
+ * Returns null when the property is missing the price or rent needed to underwrite.
+ *
+ * The property is underwritten under every loan program that passes the lender
+ * rules; the analysis, max offer, scenarios and forecast all use the best
+ * program's financing.
+ *
+ * When an ARV is known and refinance is enabled, the forecast runs on the
+ * stabilized post-refi position (ARV value, refi loan, post-refi cashflow).
+ */
+function underwriteProperty(
+    property: Property,
+    settings: Settings,
+    runId: string,
+    paymentStandards: PaymentStandard[]
+): Analysis | null {
+    if (!property.askingPrice || !property.rent) return null;
+
+    // The housing authority will not pay more than its payment standard
+    const rentLimit = getRentLimit(property, paymentStandards);
+    const rentCapped = settings.paymentStandardCapRent && rentLimit !== null && property.rent > rentLimit.amount;
+    const rent = rentCapped ? rentLimit!.amount : property.rent;
+
+    const taxAssumptions: TaxAssumptions = {
+        marginalRatePercent: settings.marginalTaxRatePercent,
+        landValuePercent: settings.landValuePercent,
+        rehabBonusPercent: settings.rehabBonusDepreciationPercent,
+    };
+
+    // Tax rate and insurance from the location table when a row matches
+    const location = getLocationCosts(property, settings);
+
+    // Our rehab estimate from the repair list can replace a lower wholesaler figure
+    const rehabEstimate = getRehabEstimate(property, settings);
+    const useRehabEstimate = settings.rehabUseHigherEstimate && rehabEstimate !== null &&
+        rehabEstimate.total > (property.rehabNeeded ?? 0);
+
+    const baseInput: UnderwritingInput = {
+        purchasePrice: property.suggestedOffer || property.askingPrice,
+        rent,
+        downPaymentPercent: settings.downPaymentPercent,
+        closingCostPercent: settings.closingCostPercent,
+        interestRate: settings.dscrRate,
+        loanTermYears: settings.loanTermYears,
+        pmFeePercent: settings.pmFeePercent,
+        propertyTaxRate: location.propertyTaxRate,
+        insuranceAnnual: location.insuranceAnnual,
+        vacancyPercent: settings.vacancyEnabled ? settings.vacancyPercent : 0,
+        maintenancePercent: settings.maintenanceEnabled ? settings.maintenancePercent : 0,
+        rehabCost: useRehabEstimate ? rehabEstimate!.total : property.rehabNeeded ?? 0,
+        unitCount: property.unitCount ?? 1,
+        unitExpenseMonthly: settings.unitExpenseMonthly,
+        expenseItems: settings.expenseItems,
+        averageTenancyYears: settings.averageTenancyYears,
+        taxes: settings.afterTaxEnabled ? taxAssumptions : undefined,
+    };
+
+    // DSCR loans are re-priced or dropped by the lender rules before programs compete
+    const lenderRules = getLenderRules(settings);
+    const lender = lenderRules
+        ? applyLenderRules(baseInput, getLoanPrograms(settings), lenderRules)
+        : { programs: getLoanPrograms(settings), verdict: null };
+
+    const arv = property.arv ?? property.arvMax ?? property.arvMin ?? null;
+
+    // Everything below uses the financing of the best program. A balloon inside
+    // the forecast must be paid off by the refinance to count.
+    const programs = calculateProgramComparison(baseInput, lender.programs, {
+        horizonMonths: FORECAST_YEARS * 12,
+        refinanceSeasoningMonths: settings.refinanceEnabled && arv ? settings.refinanceSeasoningMonths : null,
+    });
+    const underwritingInput = applyLoanProgram(baseInput, programs.best);
+    const underwriting = programs.bestResult.underwriting;
+
+    // Pricing from the lender verdict only applies when the deal is financed with the DSCR loan
+    const dscrVerdict = programs.best.type === 'dscr' ? lender.verdict : null;
+
+    const refinanceInput: RefinanceInput | null = settings.refinanceEnabled && arv
+        ? {
+            arv,
+            ltvPercent: settings.refinanceLtvPercent,
+            interestRate: settings.refinanceRate,
+            loanTermYears: settings.refinanceTermYears,
+            seasoningMonths: settings.refinanceSeasoningMonths,
+            closingCostPercent: settings.refinanceClosingCostPercent,
+            prepaymentPenaltyPercent: lenderRules && programs.best.type === 'dscr'
+                ? getPrepaymentPenaltyPercent(lenderRules.prepayPenaltySchedule, settings.refinanceSeasoningMonths)
+                : 0,
+        }
+        : null;
+
+    const refinance = refinanceInput
+        ? calculateRefinance(underwritingInput, underwriting, refinanceInput)
+        : null;
+
+    const maxOffer = calculateMaxAllowableOffer(
+        underwritingInput,
+        {
+            minDscr: settings.offerMinDscr,
+            minMonthlyCashflow: settings.offerMinCashflow,
+            minCocReturn: settings.offerMinCocReturn,
+            seventyPercentRule: settings.offerSeventyPercentRule,
+        },
+        arv
+    );
+
+    const stress = settings.stressTestEnabled
+        ? runStressTest(underwritingInput, getStressShocks(settings), settings.stressMinDscr)
+        : null;
+
+    // Rent and ARV ranges from the list (single values collapse to a zero-width range),
+    // held to the payment standard when rent is capped
+    const capRent = (value: number) => (rentCapped ? Math.min(value, rent) : value);
+    const rentLow = capRent(property.rentMin ?? property.rent);
+    const rentHigh = capRent(property.rentMax ?? property.rent);
+    const arvLow = property.arvMin ?? property.arv;
+    const arvHigh = property.arvMax ?? property.arv;
+
+    const scenarios = calculateRangeScenarios(
+        underwritingInput,
+        { min: Math.min(rentLow, rentHigh), max: Math.max(rentLow, rentHigh) },
+        refinanceInput,
+        arvLow && arvHigh ? { min: Math.min(arvLow, arvHigh), max: Math.max(arvLow, arvHigh) } : null
+    );
+
+    // Rent-based line items follow rent in the forecast; the rest grow with inflation
+    const otherExpensePercent = underwriting.expenseItems
+        .filter(item => item.type === 'percentOfRent')
+        .reduce((sum, item) => sum + item.amount, 0);
+    const otherFixedExpenses = underwriting.expenseItems
+        .filter(item => item.type !== 'percentOfRent')
+        .reduce((sum, item) => sum + item.monthly, 0);
+
+    // Rent and operating expenses are the same before and after the refi; only the debt changes
+    const operations = {
+        monthlyRent: underwritingInput.rent,
+        annualTaxes: underwriting.monthlyTaxes * 12,
+        annualInsurance: underwriting.monthlyInsurance * 12,
+        pmFeePercent: underwritingInput.pmFeePercent,
+        vacancyPercent: underwritingInput.vacancyPercent,
+        maintenancePercent: underwritingInput.maintenancePercent,
+        annualUnitExpenses: underwriting.unitExpenses * 12,
+        otherExpensePercent,
+        annualOtherFixedExpenses: otherFixedExpenses * 12,
+        appreciationPercent: settings.appreciationPercent,
+        rentGrowthPercent: settings.rentGrowthPercent,
+        expenseInflationPercent: settings.expenseInflationPercent,
+        sellingCostPercent: settings.sellingCostPercent,
+    };
+
+    // Depreciation follows the original purchase; a cash-out refi does not reset the basis
+    const depreciation = getDepreciationBasis(
+        underwritingInput.purchasePrice,
+        underwriting.closingCosts,
+        underwritingInput.rehabCost ?? 0,
+        taxAssumptions
+    );
+    const tax = settings.afterTaxEnabled
+        ? { marginalRatePercent: settings.marginalTaxRatePercent, depreciation }
+        : undefined;
+
+    const forecastInput: ForecastInput = refinance && refinanceInput
+        ? {
+            ...operations,
+            purchasePrice: refinanceInput.arv,
+            loanAmount: refinance.refiLoanAmount,
+            interestRate: refinanceInput.interestRate,
+            loanTermYears: refinanceInput.loanTermYears,
+            tax,
+        }
+        : {
+            ...operations,
+            purchasePrice: underwritingInput.purchasePrice,
+            loanAmount: underwriting.loanAmount,
+            interestRate: underwritingInput.interestRate,
+            loanTermYears: underwritingInput.loanTermYears,
+            loanStructure: underwritingInput.loanStructure,
+            tax,
+        };
+
+    const forecast = calculateForecastSummary(forecastInput);
+
+    // Returns are measured on the cash still in the deal once any refi is done
+    const cashInvested = refinance ? refinance.cashLeftInDeal : underwriting.totalInvestment;
+    const exitAssumptions: ExitAssumptions = {
+        sellingCostPercent: settings.sellingCostPercent,
+        costBasis: underwriting.allInCost,
+        taxes: settings.exitTaxesEnabled
+            ? {
+                capitalGainsRatePercent: settings.capitalGainsRatePercent,
+                depreciationRecaptureRatePercent: settings.depreciationRecaptureRatePercent,
+                depreciation,
+            }
+            : null,
+    };
+    const exit = calculateExitSummary(forecast.yearByYear, cashInvested, exitAssumptions);
+
+    // Every property uses the same seed, so bands are comparable across properties
+    const monteCarlo = settings.monteCarloEnabled
+        ? runMonteCarlo(forecastInput, cashInvested, exitAssumptions, {
+            trials: settings.monteCarloTrials,
+            seed: settings.monteCarloSeed,
+            appreciationPercent: { mean: settings.appreciationPercent, stdDev: settings.monteCarloAppreciationStdDev },
+            rentGrowthPercent: { mean: settings.rentGrowthPercent, stdDev: settings.monteCarloRentGrowthStdDev },
+            expenseInflationPercent: { mean: settings.expenseInflationPercent, stdDev: settings.monteCarloInflationStdDev },
+            vacancyMonths: { mean: forecastInput.vacancyPercent * 12 / 100, stdDev: settings.monteCarloVacancyMonthsStdDev },
+            capexProbabilityPercent: settings.monteCarloCapexProbabilityPercent,
+            capexCost: settings.monteCarloCapexCost,
+        })
+        : null;
+
+    return {
+        id: uuidv4(),
+        propertyId: property.id,
+        runId,
+        purchasePrice: underwritingInput.purchasePrice,
+        downPaymentPercent: underwritingInput.downPaymentPercent,
+        closingCostPercent: underwritingInput.closingCostPercent,
+        interestRate: underwritingInput.interestRate,
+        loanTermYears: underwritingInput.loanTermYears,
+        pmFeePercent: settings.pmFeePercent,
+        vacancyPercent: underwritingInput.vacancyPercent,
+        maintenancePercent: underwritingInput.maintenancePercent,
+        propertyTaxRate: location.propertyTaxRate,
+        insuranceAnnual: location.insuranceAnnual,
+        propertyTaxSource: location.propertyTaxSource,
+        insuranceSource: location.insuranceSource,
+        paymentStandard: rentLimit?.amount ?? null,
+        rentCapped,
+        rehabEstimate: rehabEstimate?.total ?? null,
+        rehabLineItems: rehabEstimate?.lineItems ?? [],
+        rehabSource: useRehabEstimate ? 'estimate' : 'wholesaler',
+        unitCount: underwritingInput.unitCount ?? 1,
+        averageTenancyYears: settings.averageTenancyYears,
+        loanProgramId: programs.best.id,
+        loanProgramName: programs.best.name,
+        loanProgramType: programs.best.type,
+        financeable: lender.verdict?.financeable ?? true,
+        financingIssues: lender.verdict?.reasons ?? [],
+        lenderRateAddOn: dscrVerdict?.rateAddOn ?? 0,
+        rateSheetRate: dscrVerdict?.pricingTier ? dscrVerdict.adjustedRate : null,
+        rateSheetTier: dscrVerdict?.pricingTier ? formatRateSheetTier(dscrVerdict.pricingTier) : null,
+        ...underwriting,
+        monthlyRent: rent,
+        ...forecast,
+        ...exit,
+        paybackYear: cashInvested > 0 ? calculatePaybackPeriod(forecastInput, cashInvested) : 0,
+        breakevenYear: calculateBreakevenYear(forecastInput),
+        refiArv: refinanceInput?.arv ?? null,
+        refiLtvPercent: refinanceInput?.ltvPercent ?? null,
+        refiInterestRate: refinanceInput?.interestRate ?? null,
+        refiSeasoningMonths: refinanceInput?.seasoningMonths ?? null,
+        refiLoanAmount: refinance?.refiLoanAmount ?? null,
+        refiClosingCosts: refinance?.refiClosingCosts ?? null,
+        refiLoanPayoff: refinance?.refiLoanPayoff ?? null,
+        refiPrepaymentPenalty: refinance?.prepaymentPenalty ?? null,
+        cashRecouped: refinance?.cashRecouped ?? null,
+        cashLeftInDeal: refinance?.cashLeftInDeal ?? null,
+        postRefiMonthlyPI: refinance?.postRefiMonthlyPI ?? null,
+        postRefiPITI: refinance?.postRefiPITI ?? null,
+        postRefiCashflow: refinance?.postRefiCashflow ?? null,
+        postRefiDscr: refinance?.postRefiDscr ?? null,
+        postRefiCocReturn: refinance?.postRefiCocReturn ?? null,
+        infiniteReturn: refinance?.infiniteReturn ?? false,
+        maxOffer: maxOffer.maxOffer,
+        maxOfferConstraint: maxOffer.bindingConstraint,
+        maxOfferUnconstrained: maxOffer.maxOffer === null,
+        failsStress: stress?.failsUnderStress ?? false,
+        stressFailures: stress?.failures ?? [],
+        monteCarlo,
+        scenarios,
+        programResults: programs.results,
+        rankScore: 0, // Will be set during ranking
+        rank: null,
+        createdAt: new Date().toISOString(),
+    };
+}
+
 /**
  * Cleanup resources (call on shutdown)
  */
@@ -0,0 +1,362 @@
+/**
+ * Portfolio Tracker
+ *
+ * Measures properties we bought against their underwriting. Every month of
+ * actuals is compared with two baselines: the original Analysis (year 1 at the
+ * analyzed price and loan) and a calculateYearlyForecast projection re-run on
+ * the terms the purchase actually closed on, where the closing month is month
+ * 1 of forecast year 1. Also parses monthly actuals from CSV.
+ */
+
+import { MonthlyActualSchema } from '../types';
+import type { Acquisition, MonthlyActual, Settings, ForecastInput, ForecastResult } from '../types';
+import { calculateYearlyForecast } from '../forecast/projections';
+import { parseCsv, normalizeCsvHeader } from '../parser/csv';
+
+export type PortfolioMetric = 'rent' | 'expenses' | 'noi' | 'cashflow' | 'vacantDays';
+
+export interface MetricComparison {
+    actual: number;
+    projected: number;                // Forecast on the actual purchase terms
+    underwritten: number;             // Original analysis, year 1
+    variance: number;                 // Actual - projected
+    variancePercent: number | null;   // Variance as a % of projected (null when projected is 0)
+}
+
+export type MetricComparisons = Record<PortfolioMetric, MetricComparison>;
+
+export interface MonthComparison {
+    month: string;                    // "2026-04"
+    forecastYear: number;
+    metrics: MetricComparisons;
+    notes: string | null;
+}
+
+export interface AcquisitionPerformance {
+    acquisition: Acquisition;
+    cashInvested: number;             // Down payment, closing costs and rehab
+    purchasePriceVariance: number;    // Actual price - analyzed price
+    interestRateVariance: number;     // Actual rate - analyzed rate, percentage points
+    monthsReported: number;
+    months: MonthComparison[];
+    totals: MetricComparisons;        // Sum over the reported months
+}
+
+export interface PortfolioSummary {
+    propertyCount: number;
+    totalPurchasePrice: number;
+    totalLoanAmount: number;
+    totalCashInvested: number;
+    monthsReported: number;
+    totals: MetricComparisons;        // Sum over every property's reported months
+    properties: AcquisitionPerformance[];
+}
+
+const METRICS: PortfolioMetric[] = ['rent', 'expenses', 'noi', 'cashflow', 'vacantDays'];
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * Forecast input for an acquisition: operations from its analysis, price and
+ * loan from the closing, growth rates from the current settings. Taxes are
+ * re-assessed on the actual price.
+ */
+export function getAcquisitionForecastInput(
+    acquisition: Acquisition,
+    settings: Pick<Settings, 'appreciationPercent' | 'rentGrowthPercent' | 'expenseInflationPercent'>
+): ForecastInput {
+    const analysis = acquisition.analysis;
+    const expenseItems = analysis.expenseItems ?? [];
+
+    // Rent-based line items follow rent in the forecast; the rest grow with inflation
+    const otherExpensePercent = expenseItems
+        .filter(item => item.type === 'percentOfRent')
+        .reduce((sum, item) => sum + item.amount, 0);
+    const otherFixedExpenses = expenseItems
+        .filter(item => item.type !== 'percentOfRent')
+        .reduce((sum, item) => sum + item.monthly, 0);
+
+    return {
+        purchasePrice: acquisition.purchasePrice,
+        loanAmount: acquisition.loanAmount,
+        monthlyRent: analysis.monthlyRent,
+        annualTaxes: roundToCents(acquisition.purchasePrice * analysis.propertyTaxRate / 100),
+        annualInsurance: analysis.monthlyInsurance * 12,
+        pmFeePercent: analysis.pmFeePercent,
+        vacancyPercent: analysis.vacancyPercent,
+        maintenancePercent: analysis.maintenancePercent,
+        annualUnitExpenses: (analysis.unitExpenses ?? 0) * 12,
+        otherExpensePercent,
+        annualOtherFixedExpenses: otherFixedExpenses * 12,
+        appreciationPercent: settings.appreciationPercent,
+        rentGrowthPercent: settings.rentGrowthPercent,
+        expenseInflationPercent: settings.expenseInflationPercent,
+        interestRate: acquisition.interestRate,
+        loanTermYears: acquisition.loanTermYears,
+    };
+}
+
+/**
+ * Forecast year a month falls in, counting the closing month as month 1 of
+ * year 1. Months before the closing return 0 or less.
+ *
+ * @param closingDate - "YYYY-MM-DD"
+ * @param month - "YYYY-MM"
+ */
+export function getForecastYear(closingDate: string, month: string): number {
+    const [closingYear, closingMonth] = closingDate.split('-').map(Number);
+    const [year, monthNumber] = month.split('-').map(Number);
+    const monthsSinceClosing = (year - closingYear) * 12 + (monthNumber - closingMonth);
+
+    return monthsSinceClosing < 0 ? 0 : Math.floor(monthsSinceClosing / 12) + 1;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Compare an acquisition's monthly actuals with its analysis and projection.
+ * Actual cashflow uses the scheduled payment on the actual loan, since the
+ * mortgage is not part of the entered expenses. Months before the closing are
+ * left out.
+ *
+ * @param acquisition - The purchase, with its analysis
+ * @param actuals - Monthly actuals for the acquisition
+ * @param settings - Growth rates for the projection
+ * @returns Per-month and total comparisons
+ */
+export function compareAcquisition(
+    acquisition: Acquisition,
+    actuals: MonthlyActual[],
+    settings: Pick<Settings, 'appreciationPercent' | 'rentGrowthPercent' | 'expenseInflationPercent'>
+): AcquisitionPerformance {
+    const analysis = acquisition.analysis;
+    const reported = actuals
+        .map(actual => ({ actual, forecastYear: getForecastYear(acquisition.closingDate, actual.month) }))
+        .filter(entry => entry.forecastYear >= 1)
+        .sort((a, b) => a.actual.month.localeCompare(b.actual.month));
+
+    const years = Math.max(1, ...reported.map(entry => entry.forecastYear));
+    const forecast = calculateYearlyForecast(getAcquisitionForecastInput(acquisition, settings), years);
+
+    const unitCount = analysis.unitCount ?? 1;
+    const underwrittenExpenses = analysis.pmFee + analysis.maintenance + (analysis.unitExpenses ?? 0) +
+        (analysis.otherExpenses ?? 0) + analysis.monthlyTaxes + analysis.monthlyInsurance;
+    const underwrittenRent = analysis.monthlyRent - analysis.vacancy;
+
+    const months: MonthComparison[] = reported.map(({ actual, forecastYear }) => {
+        const year = forecast[forecastYear - 1];
+        const projected = getProjectedMonth(year);
+        const vacantDayShare = getDaysInMonth(actual.month) * unitCount * analysis.vacancyPercent / 100;
+
+        const actualNoi = actual.rentReceived - actual.expenses;
+
+        return {
+            month: actual.month,
+            forecastYear,
+            notes: actual.notes ?? null,
+            metrics: {
+                rent: compare(actual.rentReceived, projected.rent, underwrittenRent),
+                expenses: compare(actual.expenses, projected.expenses, underwrittenExpenses),
+                noi: compare(actualNoi, projected.noi, underwrittenRent - underwrittenExpenses),
+                cashflow: compare(actualNoi - projected.debtService, projected.cashflow, analysis.netCashflow),
+                vacantDays: compare(actual.vacantDays ?? 0, vacantDayShare, vacantDayShare),
+            },
+        };
+    });
+
+    return {
+        acquisition,
+        cashInvested: getCashInvested(acquisition),
+        purchasePriceVariance: roundToCents(acquisition.purchasePrice - analysis.purchasePrice),
+        interestRateVariance: roundToCents(acquisition.interestRate - analysis.interestRate),
+        monthsReported: months.length,
+        months,
+        totals: sumComparisons(months.map(month => month.metrics)),
+    };
+}
+
+/**
+ * Totals across every acquisition
+ */
+export function summarizePortfolio(properties: AcquisitionPerformance[]): PortfolioSummary {
+    return {
+        propertyCount: properties.length,
+        totalPurchasePrice: roundToCents(properties.reduce((sum, p) => sum + p.acquisition.purchasePrice, 0)),
+        totalLoanAmount: roundToCents(properties.reduce((sum, p) => sum + p.acquisition.loanAmount, 0)),
+        totalCashInvested: roundToCents(properties.reduce((sum, p) => sum + p.cashInvested, 0)),
+        monthsReported: properties.reduce((sum, p) => sum + p.monthsReported, 0),
+        totals: sumComparisons(properties.map(p => p.totals)),
+        properties,
+    };
+}
+
+// One twelfth of a forecast year, with vacancy counted against rent rather than as an expense
+function getProjectedMonth(year: ForecastResult) {
+    return {
+        rent: (year.grossRent - year.vacancy) / 12,
+        expenses: (year.operatingExpenses - year.vacancy) / 12,
+        noi: year.noi / 12,
+        debtService: year.debtService / 12,
+        cashflow: (year.noi - year.debtService) / 12,
+    };
+}
+
+function compare(actual: number, projected: number, underwritten: number): MetricComparison {
+    const variance = actual - projected;
+
+    return {
+        actual: roundToCents(actual),
+        projected: roundToCents(projected),
+        underwritten: roundToCents(underwritten),
+        variance: roundToCents(variance),
+        variancePercent: projected !== 0 ? roundToCents((variance / Math.abs(projected)) * 100) : null,
+    };
+}
+
+function sumComparisons(comparisons: MetricComparisons[]): MetricComparisons {
+    const totals = {} as MetricComparisons;
+
+    for (const metric of METRICS) {
+        totals[metric] = compare(
+            comparisons.reduce((sum, c) => sum + c[metric].actual, 0),
+            comparisons.reduce((sum, c) => sum + c[metric].projected, 0),
+            comparisons.reduce((sum, c) => sum + c[metric].underwritten, 0)
+        );
+    }
+
+    return totals;
+}
+
+function getCashInvested(acquisition: Acquisition): number {
+    return roundToCents(
+        acquisition.purchasePrice - acquisition.loanAmount + (acquisition.closingCosts ?? 0) + (acquisition.rehabCost ?? 0)
+    );
+}
+
+function getDaysInMonth(month: string): number {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+}
+
+// ============================================================================
+// CSV Import
+// ============================================================================
+
+// Accepted header names for each column (lowercase letters and digits only)
+const CSV_COLUMNS = {
+    month: ['month', 'period', 'date'],
+    rentReceived: ['rentreceived', 'rentcollected', 'rent', 'income'],
+    expenses: ['expenses', 'operatingexpenses', 'opex'],
+    vacantDays: ['vacantdays', 'vacancydays', 'daysvacant', 'vacancy'],
+    notes: ['notes', 'note', 'memo'],
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * A month as "YYYY-MM", or null when the text is not a month. Accepts
+ * "2026-04", "2026-04-01", "4/2026", "04/30/2026" and "Apr 2026".
+ */
+export function normalizeMonth(text: string): string | null {
+    const value = text.trim();
+    let year: number;
+    let month: number;
+
+    const iso = value.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+    const slashed = value.match(/^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})$/);
+    const named = value.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/i);
+
+    if (iso) {
+        year = parseInt(iso[1], 10);
+        month = parseInt(iso[2], 10);
+    } else if (slashed) {
+        year = parseInt(slashed[2], 10);
+        month = parseInt(slashed[1], 10);
+    } else if (named) {
+        year = parseInt(named[2], 10);
+        month = MONTH_NAMES.indexOf(named[1].toLowerCase()) + 1;
+    } else {
+        return null;
+    }
+
+    if (month < 1 || month > 12) return null;
+
+    return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Parse monthly actuals for one acquisition from CSV.
+ *
+ * The first line is a header naming the columns month, rentReceived, expenses
+ * and optionally vacantDays and notes. Bad lines are skipped and reported.
+ *
+ * @param csv - CSV text
+ * @param acquisitionId - Acquisition the rows belong to
+ * @returns Parsed rows and a message for each skipped line
+ */
+export function parseMonthlyActualsCsv(
+    csv: string,
+    acquisitionId: string
+): { actuals: MonthlyActual[]; errors: string[] } {
+    const rows = parseCsv(csv);
+    const actuals: MonthlyActual[] = [];
+    const errors: string[] = [];
+
+    if (rows.length === 0) {
+        return { actuals, errors: ['CSV is empty'] };
+    }
+
+    const header = normalizeCsvHeader(rows[0]);
+    const columnIndex = (column: keyof typeof CSV_COLUMNS) => header.findIndex(cell => CSV_COLUMNS[column].includes(cell));
+    const columns = {
+        month: columnIndex('month'),
+        rentReceived: columnIndex('rentReceived'),
+        expenses: columnIndex('expenses'),
+        vacantDays: columnIndex('vacantDays'),
+        notes: columnIndex('notes'),
+    };
+
+    if (columns.month < 0 || columns.rentReceived < 0 || columns.expenses < 0) {
+        return { actuals, errors: ['CSV header needs "month", "rentReceived" and "expenses" columns'] };
+    }
+
+    rows.slice(1).forEach((cells, i) => {
+        const cell = (index: number) => (index >= 0 ? cells[index]?.trim() ?? '' : '');
+        const number = (index: number) => {
+            const text = cell(index).replace(/[$,\s]/g, '');
+            return text === '' ? 0 : parseFloat(text);
+        };
+
+        const lineNumber = i + 2;
+        const month = normalizeMonth(cell(columns.month));
+        if (!month) {
+            errors.push(`Line ${lineNumber}: invalid month "${cell(columns.month)}"`);
+            return;
+        }
+
+        const parsed = MonthlyActualSchema.safeParse({
+            acquisitionId,
+            month,
+            rentReceived: number(columns.rentReceived),
+            expenses: number(columns.expenses),
+            vacantDays: number(columns.vacantDays),
+            notes: cell(columns.notes) || null,
+        });
+
+        if (parsed.success) {
+            actuals.push(parsed.data);
+        } else {
+            errors.push(`Line ${lineNumber}: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+        }
+    });
+
+    return { actuals, errors };
+}
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,226 @@
+/**
+ * Portfolio Optimizer
+ *
+ * Chooses the set of ranked properties that maximizes total cashflow, total
+ * return or score while fitting a capital budget, a maximum property count and
+ * an optional per-ZIP concentration limit. Pure functions for deterministic selection.
+ */
+
+import type { Settings } from '../types';
+import type { RankedProperty } from './scorer';
+
+export type PortfolioObjective = 'cashflow' | 'totalReturn' | 'score';
+
+export interface PortfolioConstraints {
+    capital: number;           // Cash available to deploy
+    maxProperties: number;
+    maxPerZip: number | null;  // null = no ZIP concentration limit
+    objective: PortfolioObjective;
+}
+
+export interface PortfolioSelection {
+    objective: PortfolioObjective;
+    capital: number;
+    selected: RankedProperty[];  // In rank order
+    capitalUsed: number;
+    capitalRemaining: number;
+    totalAnnualCashflow: number;
+    totalMonthlyCashflow: number;
+    combinedDscr: number | null;  // Combined NOI / combined debt service; null when nothing is financed
+    totalReturn10yr: number;
+    totalScore: number;
+    optimal: boolean;             // false when the search hit its node limit and kept the best basket found
+}
+
+// Branch-and-bound nodes to explore before settling for the best basket found so far
+const MAX_SEARCH_NODES = 500000;
+
+interface Candidate {
+    ranked: RankedProperty;
+    cost: number;
+    value: number;
+    zip: string | null;
+}
+
+/**
+ * Portfolio constraints from settings, or null when no capital budget is set
+ */
+export function getPortfolioConstraints(settings: Settings): PortfolioConstraints | null {
+    if (settings.portfolioCapital <= 0) return null;
+
+    return {
+        capital: settings.portfolioCapital,
+        maxProperties: settings.portfolioMaxProperties,
+        maxPerZip: settings.portfolioMaxPerZip > 0 ? settings.portfolioMaxPerZip : null,
+        objective: settings.portfolioObjective,
+    };
+}
+
+/**
+ * Capital a property needs at purchase. totalInvestment already includes rehab.
+ */
+export function getCapitalRequired(ranked: RankedProperty): number {
+    return ranked.analysis.totalInvestment;
+}
+
+/**
+ * Value of a property under an objective (10-year horizon for total return),
+ * on the same scenario and tax basis the ranking used
+ */
+export function getObjectiveValue(ranked: RankedProperty, objective: PortfolioObjective): number {
+    switch (objective) {
+        case 'cashflow': return ranked.metrics.annualCashflow;
+        case 'totalReturn': return ranked.metrics.totalReturn10yr;
+        case 'score': return ranked.score;
+    }
+}
+
+/**
+ * Choose the best basket of properties under a capital budget.
+ *
+ * This is a 0/1 knapsack with a count limit and per-ZIP limits, solved by
+ * branch and bound. Properties that add nothing to the objective are never
+ * chosen. Each branch is pruned on the lower of two bounds: the fractional
+ * knapsack value of the remaining capital, and the largest remaining values
+ * that still fit the count limit.
+ *
+ * @param ranked - Ranked properties (from rankProperties)
+ * @param constraints - Budget, count and ZIP limits, and the objective
+ * @returns The chosen basket and its combined metrics
+ */
+export function optimizePortfolio(
+    ranked: RankedProperty[],
+    constraints: PortfolioConstraints
+): PortfolioSelection {
+    const { capital, maxProperties, maxPerZip, objective } = constraints;
+
+    // Highest value per dollar first, so good baskets are found early and the bound is tight
+    const candidates: Candidate[] = ranked
+        .map(r => ({
+            ranked: r,
+            cost: Math.max(0, getCapitalRequired(r)),
+            value: getObjectiveValue(r, objective),
+            zip: r.property.zip ? r.property.zip.substring(0, 5) : null,
+        }))
+        .filter(c => c.value > 0 && c.cost <= capital)
+        .sort((a, b) => getRatio(b) - getRatio(a) || a.ranked.rank - b.ranked.rank);
+
+    // topSums[i][k] = sum of the k largest values among candidates[i...]
+    const topSums = candidates.map((_, i) => {
+        const values = candidates.slice(i).map(c => c.value).sort((a, b) => b - a);
+        const sums = [0];
+        for (const value of values) sums.push(sums[sums.length - 1] + value);
+        return sums;
+    });
+
+    let best: number[] = [];
+    let bestValue = 0;
+    let nodes = 0;
+
+    const chosen: number[] = [];
+    const zipCounts = new Map<string, number>();
+
+    const search = (index: number, capitalLeft: number, value: number) => {
+        if (value > bestValue) {
+            bestValue = value;
+            best = [...chosen];
+        }
+        if (index >= candidates.length || chosen.length >= maxProperties) return;
+        if (++nodes > MAX_SEARCH_NODES) return;
+        const slotsLeft = maxProperties - chosen.length;
+        const countBound = topSums[index][Math.min(slotsLeft, topSums[index].length - 1)];
+        if (value + Math.min(getFractionalBound(candidates, index, capitalLeft), countBound) <= bestValue) return;
+
+        const candidate = candidates[index];
+        const zipCount = candidate.zip ? zipCounts.get(candidate.zip) ?? 0 : 0;
+        const zipAllows = maxPerZip === null || !candidate.zip || zipCount < maxPerZip;
+
+        // Take it
+        if (candidate.cost <= capitalLeft && zipAllows) {
+            chosen.push(index);
+            if (candidate.zip) zipCounts.set(candidate.zip, zipCount + 1);
+
+            search(index + 1, capitalLeft - candidate.cost, value + candidate.value);
+
+            chosen.pop();
+            if (candidate.zip) zipCounts.set(candidate.zip, zipCount);
+        }
+
+        // Leave it
+        search(index + 1, capitalLeft, value);
+    };
+
+    if (capital > 0 && maxProperties > 0) {
+        search(0, capital, 0);
+    }
+
+    const selected = best
+        .map(i => candidates[i].ranked)
+        .sort((a, b) => a.rank - b.rank);
+
+    return summarizePortfolio(selected, constraints, nodes <= MAX_SEARCH_NODES);
+}
+
+/**
+ * Combined metrics of a basket
+ */
+function summarizePortfolio(
+    selected: RankedProperty[],
+    constraints: PortfolioConstraints,
+    optimal: boolean
+): PortfolioSelection {
+    const sum = (get: (r: RankedProperty) => number) => selected.reduce((total, r) => total + get(r), 0);
+
+    const capitalUsed = roundToCents(sum(getCapitalRequired));
+    const totalAnnualCashflow = roundToCents(sum(r => r.metrics.annualCashflow));
+    const annualDebtService = sum(r => r.metrics.monthlyPI * 12);
+
+    return {
+        objective: constraints.objective,
+        capital: constraints.capital,
+        selected,
+        capitalUsed,
+        capitalRemaining: roundToCents(constraints.capital - capitalUsed),
+        totalAnnualCashflow,
+        totalMonthlyCashflow: roundToCents(sum(r => r.metrics.netCashflow)),
+        combinedDscr: annualDebtService > 0
+            ? Math.round((sum(r => r.metrics.annualNOI) / annualDebtService) * 100) / 100
+            : null,
+        totalReturn10yr: roundToCents(sum(r => r.metrics.totalReturn10yr)),
+        totalScore: Math.round(sum(r => r.score) * 100) / 100,
+        optimal,
+    };
+}
+
+function getRatio(candidate: Candidate): number {
+    return candidate.cost > 0 ? candidate.value / candidate.cost : Infinity;
+}
+
+/**
+ * Fractional knapsack value of candidates[index...] (they are sorted by ratio),
+ * an upper bound on what the remaining capital can still buy
+ */
+function getFractionalBound(candidates: Candidate[], index: number, capitalLeft: number): number {
+    let bound = 0;
+    let room = capitalLeft;
+
+    for (let i = index; i < candidates.length; i++) {
+        const { cost, value } = candidates[i];
+        if (cost > room) {
+            bound += value * (room / cost);
+            break;
+        }
+        bound += value;
+        room -= cost;
+    }
+
+    return bound;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -5,7 +5,7 @@
  * Pure functions for deterministic ranking.
  */
 
-import type { Analysis, Property } from '../types';
+import type { Analysis, Property, ScenarioName } from '../types';
 
 export interface RankingWeights {
     dscr: number;
@@ -13,19 +13,25 @@ export interface RankingWeights {
     capRate: number;
     equity20yr: number;
     annualCashflow: number;
+    irr: number;             // 10-year levered IRR
+    equityMultiple: number;  // 10-year equity multiple
 }
 
 export interface RankedProperty {
     property: Property;
     analysis: Analysis;
+    metrics: Analysis;  // The analysis with the scenario and after-tax figures the score was computed on
     score: number;
     rank: number;
+    flags: string[];  // Warnings that don't affect the score (e.g. financing issues)
     breakdown: {
         dscr: { value: number; normalized: number; weighted: number };
         cocReturn: { value: number; normalized: number; weighted: number };
         capRate: { value: number; normalized: number; weighted: number };
         equity20yr: { value: number; normalized: number; weighted: number };
         annualCashflow: { value: number; normalized: number; weighted: number };
+        irr: { value: number; normalized: number; weighted: number };
+        equityMultiple: { value: number; normalized: number; weighted: number };
     };
 }
 
@@ -49,6 +55,8 @@ const DEFAULT_WEIGHTS: RankingWeights = {
     equity20yr: 20,     // Long-term wealth building
     capRate: 15,        // Fundamental property value
     annualCashflow: 15, // Immediate income
+    irr: 0,             // Exit metrics are opt-in
+    equityMultiple: 0,
 };
 
 // Normalization ranges for each metric
@@ -58,6 +66,8 @@ const NORMALIZATION_RANGES = {
     capRate: { min: 4, max: 14 },
     equity20yr: { min: 0, max: 500000 },
     annualCashflow: { min: -2000, max: 15000 },
+    irr: { min: 0, max: 30 },
+    equityMultiple: { min: 1, max: 5 },
 };
 
 /**
@@ -70,6 +80,68 @@ function normalizeScore(value: number, min: number, max: number): number {
     return ((value - min) / (max - min)) * 100;
 }
 
+/**
+ * Swap the headline underwriting metrics of an analysis for those of one
+ * rent/ARV scenario. Returns the analysis unchanged if it has no scenarios.
+ */
+export function applyScenario(analysis: Analysis, scenario: ScenarioName): Analysis {
+    const selected = analysis.scenarios?.[scenario];
+    if (!selected) return analysis;
+
+    return {
+        ...analysis,
+        monthlyRent: selected.rent,
+        dscr: selected.underwriting.dscr,
+        cocReturn: selected.underwriting.cocReturn,
+        capRate: selected.underwriting.capRate,
+        netCashflow: selected.underwriting.netCashflow,
+        annualCashflow: selected.underwriting.annualCashflow,
+        annualNOI: selected.underwriting.annualNOI,
+        afterTaxCashflow: selected.underwriting.afterTaxCashflow,
+        afterTaxCocReturn: selected.underwriting.afterTaxCocReturn,
+    };
+}
+
+/**
+ * Swap cash-on-cash return and cashflow for their after-tax values.
+ * Returns the analysis unchanged if it was underwritten without taxes.
+ */
+export function applyAfterTax(analysis: Analysis): Analysis {
+    if (analysis.afterTaxCashflow === null || analysis.afterTaxCocReturn === null) return analysis;
+
+    return {
+        ...analysis,
+        cocReturn: analysis.afterTaxCocReturn,
+        annualCashflow: analysis.afterTaxCashflow,
+        netCashflow: Math.round(analysis.afterTaxCashflow / 12 * 100) / 100,
+    };
+}
+
+/**
+ * Warnings to show next to a ranked property
+ */
+export function getRankingFlags(analysis: Analysis): string[] {
+    const flags: string[] = [];
+
+    // Analyses saved before these fields existed have no issues or failures recorded
+    if (analysis.financeable === false) {
+        const issues = (analysis.financingIssues ?? []).join('; ');
+        if (analysis.loanProgramType === 'cash') {
+            flags.push(`DSCR loan not financeable, underwritten as all cash: ${issues}`);
+        } else if (analysis.loanProgramType && analysis.loanProgramType !== 'dscr') {
+            flags.push(`DSCR loan not financeable, underwritten as ${analysis.loanProgramName}: ${issues}`);
+        } else {
+            flags.push(`DSCR loan not financeable: ${issues}`);
+        }
+    }
+
+    if (analysis.failsStress) {
+        flags.push(`Fails under stress: ${(analysis.stressFailures ?? []).join('; ')}`);
+    }
+
+    return flags;
+}
+
 /**
  * Calculate ranking score for a single property
  */
@@ -86,15 +158,24 @@ export function calculateRankScore(
     const equityNorm = normalizeScore(analysis.equity20yr, ranges.equity20yr.min, ranges.equity20yr.max);
     const cashflowNorm = normalizeScore(analysis.annualCashflow, ranges.annualCashflow.min, ranges.annualCashflow.max);
 
+    // No cash left in the deal means IRR and multiple are unbounded: score them at the top
+    const irr = analysis.irr10yr ?? (analysis.infiniteReturn ? Infinity : 0);
+    const equityMultiple = analysis.equityMultiple10yr ?? (analysis.infiniteReturn ? Infinity : 0);
+    const irrNorm = normalizeScore(irr, ranges.irr.min, ranges.irr.max);
+    const multipleNorm = normalizeScore(equityMultiple, ranges.equityMultiple.min, ranges.equityMultiple.max);
+
     // Calculate weighted scores
     const dscrWeighted = (dscrNorm * weights.dscr) / 100;
     const cocWeighted = (cocNorm * weights.cocReturn) / 100;
     const capWeighted = (capNorm * weights.capRate) / 100;
     const equityWeighted = (equityNorm * weights.equity20yr) / 100;
     const cashflowWeighted = (cashflowNorm * weights.annualCashflow) / 100;
+    const irrWeighted = (irrNorm * weights.irr) / 100;
+    const multipleWeighted = (multipleNorm * weights.equityMultiple) / 100;
 
     // Total score (0-100 scale)
-    const score = dscrWeighted + cocWeighted + capWeighted + equityWeighted + cashflowWeighted;
+    const score = dscrWeighted + cocWeighted + capWeighted + equityWeighted + cashflowWeighted +
+        irrWeighted + multipleWeighted;
 
     return {
         score: Math.round(score * 100) / 100,
@@ -104,6 +185,8 @@ export function calculateRankScore(
             capRate: { value: analysis.capRate, normalized: capNorm, weighted: capWeighted },
             equity20yr: { value: analysis.equity20yr, normalized: equityNorm, weighted: equityWeighted },
             annualCashflow: { value: analysis.annualCashflow, normalized: cashflowNorm, weighted: cashflowWeighted },
+            irr: { value: irr, normalized: irrNorm, weighted: irrWeighted },
+            equityMultiple: { value: equityMultiple, normalized: multipleNorm, weighted: multipleWeighted },
         },
     };
 }
@@ -119,6 +202,8 @@ export function rankProperties(
         weights?: RankingWeights;
         minDscr?: number;
         requirePositiveCashflow?: boolean;
+        scenario?: ScenarioName;  // Score on this rent/ARV scenario instead of the headline rent
+        afterTax?: boolean;       // Score on after-tax CoC and cashflow
     } = {}
 ): RankingResult {
     const {
@@ -126,6 +211,8 @@ export function rankProperties(
         weights = DEFAULT_WEIGHTS,
         minDscr = 0,
         requirePositiveCashflow = false,
+        scenario,
+        afterTax = false,
     } = options;
 
     // Create analysis lookup map
@@ -141,17 +228,22 @@ export function rankProperties(
         const analysis = analysisMap.get(property.id);
         if (!analysis) continue;
 
+        const scenarioMetrics = scenario ? applyScenario(analysis, scenario) : analysis;
+        const metrics = afterTax ? applyAfterTax(scenarioMetrics) : scenarioMetrics;
+
         // Apply filters
-        if (minDscr > 0 && analysis.dscr < minDscr) continue;
-        if (requirePositiveCashflow && analysis.annualCashflow < 0) continue;
+        if (minDscr > 0 && metrics.dscr < minDscr) continue;
+        if (requirePositiveCashflow && metrics.annualCashflow < 0) continue;
 
-        const { score, breakdown } = calculateRankScore(analysis, weights);
+        const { score, breakdown } = calculateRankScore(metrics, weights);
 
         scored.push({
             property,
             analysis,
+            metrics,
             score,
             rank: 0, // Will be set after sorting
+            flags: getRankingFlags(analysis),
             breakdown,
         });
     }
@@ -209,7 +301,7 @@ export function validateWeights(weights: RankingWeights): {
     error?: string;
 } {
     const sum = weights.dscr + weights.cocReturn + weights.capRate +
-        weights.equity20yr + weights.annualCashflow;
+        weights.equity20yr + weights.annualCashflow + weights.irr + weights.equityMultiple;
 
     if (Math.abs(sum - 100) > 0.01) {
         return {
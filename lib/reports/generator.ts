@@ -8,11 +8,18 @@
 import { chromium, Browser } from 'playwright';
 import * as fs from 'fs/promises';
 import path from 'path';
-import type { Property, Analysis } from '../types';
+import type { Property, Analysis, OfferConstraint, MonteCarloYear, PercentileBand, ScenarioName } from '../types';
 import { RankedProperty } from '../ranking/scorer';
+import type { PortfolioSelection, PortfolioObjective } from '../ranking/portfolio';
 
 let browser: Browser | null = null;
 
+// Scenario and tax basis the ranking scored on (the options given to rankProperties)
+export interface RankingBasis {
+    scenario: ScenarioName | null;
+    afterTax: boolean;
+}
+
 /**
  * Get or create browser for PDF generation
  */
@@ -54,6 +61,18 @@ function formatPercent(value: number | null | undefined): string {
     return `${value.toFixed(2)}%`;
 }
 
+/**
+ * Format an exit IRR or multiple; null means no cash is left in the deal
+ */
+function formatExitRatio(
+    value: number | null | undefined,
+    analysis: Analysis,
+    format: (value: number) => string
+): string {
+    if (value === null || value === undefined) return analysis.infiniteReturn ? '∞' : '-';
+    return format(value);
+}
+
 /**
  * Get color class based on value (for DSCR, CoC, etc.)
  */
@@ -64,14 +83,331 @@ function getValueClass(value: number, thresholds: { good: number; warning: numbe
 }
 
 /**
- * Generate HTML report for a single property
+ * Generate the BRRRR refinance block for a property card (empty when no refi was modeled)
+ */
+function generateRefinanceSection(analysis: Analysis): string {
+    if (analysis.refiLoanAmount === null || analysis.refiLoanAmount === undefined) return '';
+
+    const postRefiDscr = analysis.postRefiDscr ?? 0;
+    const postRefiCashflow = analysis.postRefiCashflow ?? 0;
+    const dscrClass = getValueClass(postRefiDscr, { good: 1.25, warning: 1.0 });
+    const cashflowClass = postRefiCashflow >= 200 ? 'good' : postRefiCashflow >= 0 ? 'warning' : 'poor';
+
+    return `
+      <div class="refinance-section">
+        <h4>BRRRR Refinance${analysis.infiniteReturn ? ' <span class="infinite-badge">∞ Infinite Return</span>' : ''}</h4>
+        <div class="metrics-grid">
+          <div class="metric">
+            <span class="metric-label">Rehab${analysis.rehabSource === 'estimate' ? ' (our estimate)' : ''}</span>
+            <span class="metric-value">${formatCurrency(analysis.rehabCost)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">ARV</span>
+            <span class="metric-value">${formatCurrency(analysis.refiArv)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">Refi Loan (${analysis.refiLtvPercent ?? 0}% LTV)</span>
+            <span class="metric-value">${formatCurrency(analysis.refiLoanAmount)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">Cash Recouped</span>
+            <span class="metric-value">${formatCurrency(analysis.cashRecouped)}</span>
+          </div>${analysis.refiPrepaymentPenalty ? `
+          <div class="metric">
+            <span class="metric-label">Prepayment Penalty</span>
+            <span class="metric-value">${formatCurrency(analysis.refiPrepaymentPenalty)}</span>
+          </div>` : ''}
+        </div>
+        <div class="key-metrics">
+          <div class="key-metric">
+            <span class="key-metric-value">${formatCurrency(analysis.cashLeftInDeal)}</span>
+            <span class="key-metric-label">Cash Left in Deal</span>
+          </div>
+          <div class="key-metric ${dscrClass}">
+            <span class="key-metric-value">${postRefiDscr.toFixed(2)}</span>
+            <span class="key-metric-label">Post-Refi DSCR</span>
+          </div>
+          <div class="key-metric ${cashflowClass}">
+            <span class="key-metric-value">${formatCurrency(analysis.postRefiCashflow)}</span>
+            <span class="key-metric-label">Post-Refi Cashflow</span>
+          </div>
+          <div class="key-metric">
+            <span class="key-metric-value">${formatCurrency(analysis.postRefiPITI)}</span>
+            <span class="key-metric-label">Post-Refi PITI</span>
+          </div>
+        </div>
+      </div>
+    `;
+}
+
+/**
+ * Generate the year 1 income tax block for a property card (empty when taxes were not modeled)
+ */
+function generateTaxSection(analysis: Analysis): string {
+    if (analysis.afterTaxCashflow === null || analysis.afterTaxCocReturn === null) return '';
+
+    const cashflowClass = analysis.afterTaxCashflow >= 2400 ? 'good' : analysis.afterTaxCashflow >= 0 ? 'warning' : 'poor';
+    const cocClass = getValueClass(analysis.afterTaxCocReturn, { good: 10, warning: 5 });
+
+    return `
+      <div class="tax-section">
+        <h4>After-Tax (Year 1)</h4>
+        <div class="metrics-grid">
+          <div class="metric">
+            <span class="metric-label">Mortgage Interest</span>
+            <span class="metric-value">${formatCurrency(analysis.annualInterest)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">Depreciation</span>
+            <span class="metric-value">${formatCurrency(analysis.annualDepreciation)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">Taxable Income</span>
+            <span class="metric-value">${formatCurrency(analysis.taxableIncome)}</span>
+          </div>
+          <div class="metric">
+            <span class="metric-label">Income Tax${(analysis.incomeTax ?? 0) < 0 ? ' (Saved)' : ''}</span>
+            <span class="metric-value">${formatCurrency(analysis.incomeTax)}</span>
+          </div>
+        </div>
+        <div class="key-metrics">
+          <div class="key-metric ${cashflowClass}">
+            <span class="key-metric-value">${formatCurrency(analysis.afterTaxCashflow)}</span>
+            <span class="key-metric-label">After-Tax Cashflow</span>
+          </div>
+          <div class="key-metric ${cocClass}">
+            <span class="key-metric-value">${formatPercent(analysis.afterTaxCocReturn)}</span>
+            <span class="key-metric-label">After-Tax CoC</span>
+          </div>
+        </div>
+      </div>
+    `;
+}
+
+/**
+ * Inline SVG of a P10-P90 band with the P50 line, one point per forecast year
+ */
+function generateBandChart(yearly: MonteCarloYear[], metric: 'equity' | 'cumulativeCashflow', title: string): string {
+    const width = 320;
+    const height = 160;
+    const pad = { top: 20, right: 10, bottom: 20, left: 10 };
+
+    const values = yearly.flatMap(y => [y[metric].p10, y[metric].p90]);
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const span = max - min || 1;
+
+    const x = (year: number) => pad.left + ((year - 1) / Math.max(1, yearly.length - 1)) * (width - pad.left - pad.right);
+    const y = (value: number) => pad.top + (1 - (value - min) / span) * (height - pad.top - pad.bottom);
+    const point = (year: number, value: number) => `${x(year).toFixed(1)},${y(value).toFixed(1)}`;
+
+    const band = [
+        ...yearly.map(yr => point(yr.year, yr[metric].p90)),
+        ...[...yearly].reverse().map(yr => point(yr.year, yr[metric].p10)),
+    ].join(' ');
+    const median = yearly.map(yr => point(yr.year, yr[metric].p50)).join(' ');
+    const last = yearly[yearly.length - 1];
+
+    return `
+          <svg class="mc-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">
+            <text x="${pad.left}" y="12" class="mc-title">${title}</text>
+            <line x1="${pad.left}" x2="${width - pad.right}" y1="${y(0).toFixed(1)}" y2="${y(0).toFixed(1)}" class="mc-zero" />
+            <polygon points="${band}" class="mc-band" />
+            <polyline points="${median}" class="mc-median" />
+            <text x="${width - pad.right}" y="${height - 4}" text-anchor="end" class="mc-axis">Year ${last.year}: ${formatCurrency(last[metric].p50)}</text>
+            <text x="${pad.left}" y="${height - 4}" class="mc-axis">Year 1</text>
+          </svg>`;
+}
+
+/**
+ * Generate the Monte Carlo percentile bands for a property card (empty when simulation is off)
+ */
+function generateMonteCarloSection(analysis: Analysis): string {
+    const monteCarlo = analysis.monteCarlo;
+    if (!monteCarlo || monteCarlo.yearly.length === 0) return '';
+
+    const band = (values: PercentileBand, format: (value: number) => string) =>
+        `${format(values.p10)} / <strong>${format(values.p50)}</strong> / ${format(values.p90)}`;
+
+    const rows = monteCarlo.snapshots.map(snapshot => `
+            <tr>
+              <td>${snapshot.year} Years</td>
+              <td>${band(snapshot.equity, formatCurrency)}</td>
+              <td>${band(snapshot.cumulativeCashflow, formatCurrency)}</td>
+              <td>${snapshot.irr ? band(snapshot.irr, formatPercent) : formatExitRatio(null, analysis, formatPercent)}</td>
+            </tr>`).join('');
+
+    return `
+      <div class="monte-carlo-section">
+        <h4>Monte Carlo Range (${monteCarlo.trials.toLocaleString()} trials, seed ${monteCarlo.seed})</h4>
+        <div class="mc-charts">
+          ${generateBandChart(monteCarlo.yearly, 'equity', 'Equity (P10-P90, median line)')}
+          ${generateBandChart(monteCarlo.yearly, 'cumulativeCashflow', 'Cumulative Cashflow (P10-P90, median line)')}
+        </div>
+        <table class="forecast-table">
+          <thead>
+            <tr>
+              <th>P10 / P50 / P90</th>
+              <th>Equity</th>
+              <th>Cumulative Cashflow</th>
+              <th>IRR</th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>
+      </div>
+    `;
+}
+
+const OFFER_CONSTRAINT_LABELS: Record<OfferConstraint, string> = {
+    dscr: 'Min DSCR',
+    cashflow: 'Min cashflow',
+    cocReturn: 'Min CoC return',
+    seventyPercentRule: '70% of ARV - rehab',
+};
+
+/**
+ * Generate the asking / suggested / max offer comparison for a property card
+ */
+function generateOfferSection(property: Property, analysis: Analysis): string {
+    const unconstrained = analysis.maxOfferUnconstrained === true;
+    if (!unconstrained && (analysis.maxOffer === null || analysis.maxOffer === undefined)) return '';
+
+    const maxOfferClass = unconstrained || (property.askingPrice && analysis.maxOffer! >= property.askingPrice) ? 'good' : 'warning';
+
+    return `
+      <div class="offer-section">
+        <h4>Offer Comparison</h4>
+        <div class="key-metrics">
+          <div class="key-metric">
+            <span class="key-metric-value">${formatCurrency(property.askingPrice)}</span>
+            <span class="key-metric-label">Asking</span>
+          </div>
+          <div class="key-metric">
+            <span class="key-metric-value">${formatCurrency(property.suggestedOffer)}</span>
+            <span class="key-metric-label">Suggested Offer</span>
+          </div>
+          <div class="key-metric ${maxOfferClass}">
+            <span class="key-metric-value">${unconstrained ? 'No limit' : formatCurrency(analysis.maxOffer)}</span>
+            <span class="key-metric-label">Our Max Offer${unconstrained ? ' (targets met at any price)' : analysis.maxOfferConstraint ? ` (${OFFER_CONSTRAINT_LABELS[analysis.maxOfferConstraint]})` : ''}</span>
+          </div>
+        </div>
+      </div>
+    `;
+}
+
+/**
+ * Generate the loan program comparison for a property card (empty when only one program ran)
+ */
+function generateProgramSection(analysis: Analysis): string {
+    const results = analysis.programResults;
+    if (!results || results.length < 2) return '';
+
+    const rows = results.map(({ programId, name, underwriting }) => `
+            <tr${programId === analysis.loanProgramId ? ' class="best-program"' : ''}>
+              <td>${name}${programId === analysis.loanProgramId ? ' ★' : ''}</td>
+              <td>${formatCurrency(underwriting.totalInvestment)}</td>
+              <td>${formatCurrency(underwriting.monthlyPI)}${underwriting.adjustedMonthlyPI !== underwriting.monthlyPI ? ` → ${formatCurrency(underwriting.adjustedMonthlyPI)}` : ''}</td>
+              <td>${underwriting.balloonPayment > 0 ? formatCurrency(underwriting.balloonPayment) : '-'}</td>
+              <td>${formatCurrency(underwriting.netCashflow)}</td>
+              <td>${underwriting.monthlyPI > 0 ? underwriting.dscr.toFixed(2) : '-'}</td>
+              <td>${formatPercent(underwriting.cocReturn)}</td>
+            </tr>`).join('');
+
+    return `
+      <div class="program-section">
+        <h4>Financing Programs${analysis.lenderRateAddOn > 0 ? ` <span class="range-warning">DSCR rate +${analysis.lenderRateAddOn}%</span>` : ''}</h4>
+        <table class="forecast-table">
+          <thead>
+            <tr>
+              <th>Program</th>
+              <th>Cash Needed</th>
+              <th>Monthly P&amp;I</th>
+              <th>Balloon</th>
+              <th>Cashflow</th>
+              <th>DSCR</th>
+              <th>CoC Return</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+        ${analysis.rateSheetTier ? `<p class="forecast-note">DSCR loan priced at ${analysis.rateSheetRate}% from rate sheet tier ${analysis.rateSheetTier}</p>` : ''}
+      </div>
+    `;
+}
+
+/**
+ * Generate the rent/ARV range spread for a property card (empty when the list gave single values)
+ */
+function generateScenarioSection(analysis: Analysis): string {
+    const scenarios = analysis.scenarios;
+    if (!scenarios) return '';
+
+    const { conservative, base, optimistic } = scenarios;
+    if (conservative.rent === optimistic.rent && conservative.arv === optimistic.arv) return '';
+
+    const columns = [conservative, base, optimistic];
+    const hasArv = columns.some(s => s.arv !== null);
+    const hasRefi = columns.some(s => s.refinance !== null);
+    const onlyWorksAtTop = conservative.underwriting.netCashflow < 0 && optimistic.underwriting.netCashflow >= 0;
+
+    const row = (label: string, values: string[]) => `
+            <tr>
+              <td>${label}</td>
+              ${values.map(v => `<td>${v}</td>`).join('')}
+            </tr>`;
+
+    return `
+      <div class="scenario-section">
+        <h4>Rent / ARV Range${onlyWorksAtTop ? ' <span class="range-warning">⚠ Only works at top of range</span>' : ''}</h4>
+        <table class="forecast-table">
+          <thead>
+            <tr>
+              <th></th>
+              <th>Conservative</th>
+              <th>Base</th>
+              <th>Optimistic</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${row('Rent', columns.map(s => formatCurrency(s.rent)))}
+            ${hasArv ? row('ARV', columns.map(s => formatCurrency(s.arv))) : ''}
+            ${row('Monthly Cashflow', columns.map(s => formatCurrency(s.underwriting.netCashflow)))}
+            ${row('DSCR', columns.map(s => s.underwriting.dscr.toFixed(2)))}
+            ${row('CoC Return', columns.map(s => formatPercent(s.underwriting.cocReturn)))}
+            ${hasRefi ? row('Post-Refi Cashflow', columns.map(s => formatCurrency(s.refinance?.postRefiCashflow))) : ''}
+            ${hasRefi ? row('Cash Left in Deal', columns.map(s => formatCurrency(s.refinance?.cashLeftInDeal))) : ''}
+          </tbody>
+        </table>
+      </div>
+    `;
+}
+
+/**
+ * Label for the figures a property was scored on, e.g. "Conservative scenario, after tax".
+ * A scenario or after-tax basis the analysis has no figures for was not applied.
+ */
+function getBasisLabel(analysis: Analysis, basis: RankingBasis | undefined): string {
+    const scenario = basis?.scenario && analysis.scenarios?.[basis.scenario] ? basis.scenario : null;
+    const afterTax = !!basis?.afterTax && analysis.afterTaxCashflow !== null && analysis.afterTaxCocReturn !== null;
+
+    return `${scenario ? `${scenario.charAt(0).toUpperCase()}${scenario.slice(1)} scenario` : 'Headline rent'}, ${afterTax ? 'after tax' : 'pre-tax'}`;
+}
+
+/**
+ * Generate HTML report for a single property. The headline metrics are the
+ * ones the property was ranked on (metrics), labeled with their basis.
  */
-function generatePropertyCard(ranked: RankedProperty, index: number): string {
-    const { property, analysis, score } = ranked;
+function generatePropertyCard(ranked: RankedProperty, index: number, basis?: RankingBasis): string {
+    const { property, analysis, metrics, score, flags } = ranked;
+    const scenarioRent = metrics.monthlyRent !== analysis.monthlyRent;
 
-    const dscrClass = getValueClass(analysis.dscr, { good: 1.25, warning: 1.0 });
-    const cocClass = getValueClass(analysis.cocReturn, { good: 10, warning: 5 });
-    const cashflowClass = analysis.netCashflow >= 200 ? 'good' : analysis.netCashflow >= 0 ? 'warning' : 'poor';
+    const dscrClass = getValueClass(metrics.dscr, { good: 1.25, warning: 1.0 });
+    const cocClass = getValueClass(metrics.cocReturn, { good: 10, warning: 5 });
+    const cashflowClass = metrics.netCashflow >= 200 ? 'good' : metrics.netCashflow >= 0 ? 'warning' : 'poor';
 
     return `
     <div class="property-card">
@@ -89,14 +425,16 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
       
       ${property.zillowUrl ? `<a href="${property.zillowUrl}" class="zillow-link" target="_blank">View on Zillow →</a>` : ''}
       
+      ${flags.length > 0 ? `<div class="ranking-flags">${flags.map(flag => `<p>⚠ ${flag}</p>`).join('')}</div>` : ''}
+      
       <div class="metrics-grid">
         <div class="metric">
           <span class="metric-label">Asking Price</span>
           <span class="metric-value">${formatCurrency(property.askingPrice)}</span>
         </div>
         <div class="metric">
-          <span class="metric-label">Monthly Rent</span>
-          <span class="metric-value">${formatCurrency(property.rent)}</span>
+          <span class="metric-label">Monthly Rent${scenarioRent ? ` (${basis?.scenario})` : analysis.rentCapped ? ' (payment standard)' : ''}</span>
+          <span class="metric-value">${formatCurrency(scenarioRent || analysis.rentCapped ? metrics.monthlyRent : property.rent)}</span>
         </div>
         <div class="metric">
           <span class="metric-label">Down Payment</span>
@@ -108,25 +446,36 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
         </div>
       </div>
       
+      <p class="forecast-note">Ranked on: ${getBasisLabel(analysis, basis)}</p>
       <div class="key-metrics">
         <div class="key-metric ${dscrClass}">
-          <span class="key-metric-value">${analysis.dscr.toFixed(2)}</span>
+          <span class="key-metric-value">${metrics.dscr.toFixed(2)}</span>
           <span class="key-metric-label">DSCR</span>
         </div>
         <div class="key-metric ${cocClass}">
-          <span class="key-metric-value">${formatPercent(analysis.cocReturn)}</span>
+          <span class="key-metric-value">${formatPercent(metrics.cocReturn)}</span>
           <span class="key-metric-label">CoC Return</span>
         </div>
         <div class="key-metric ${cashflowClass}">
-          <span class="key-metric-value">${formatCurrency(analysis.netCashflow)}</span>
+          <span class="key-metric-value">${formatCurrency(metrics.netCashflow)}</span>
           <span class="key-metric-label">Monthly Cashflow</span>
         </div>
         <div class="key-metric">
-          <span class="key-metric-value">${formatPercent(analysis.capRate)}</span>
+          <span class="key-metric-value">${formatPercent(metrics.capRate)}</span>
           <span class="key-metric-label">Cap Rate</span>
         </div>
       </div>
       
+      ${generateOfferSection(property, analysis)}
+      
+      ${generateProgramSection(analysis)}
+      
+      ${generateRefinanceSection(analysis)}
+      
+      ${generateTaxSection(analysis)}
+      
+      ${generateScenarioSection(analysis)}
+      
       <div class="forecast-section">
         <h4>Forecast Projections</h4>
         <table class="forecast-table">
@@ -139,6 +488,36 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
             </tr>
           </thead>
           <tbody>
+            <tr>
+              <td>Gross Rent (that year)</td>
+              <td>${formatCurrency(analysis.grossRent5yr)}</td>
+              <td>${formatCurrency(analysis.grossRent10yr)}</td>
+              <td>${formatCurrency(analysis.grossRent20yr)}</td>
+            </tr>
+            <tr>
+              <td>Operating Expenses</td>
+              <td>${formatCurrency(analysis.operatingExpenses5yr)}</td>
+              <td>${formatCurrency(analysis.operatingExpenses10yr)}</td>
+              <td>${formatCurrency(analysis.operatingExpenses20yr)}</td>
+            </tr>
+            <tr>
+              <td>NOI</td>
+              <td>${formatCurrency(analysis.noi5yr)}</td>
+              <td>${formatCurrency(analysis.noi10yr)}</td>
+              <td>${formatCurrency(analysis.noi20yr)}</td>
+            </tr>
+            <tr>
+              <td>Debt Service</td>
+              <td>${formatCurrency(analysis.debtService5yr)}</td>
+              <td>${formatCurrency(analysis.debtService10yr)}</td>
+              <td>${formatCurrency(analysis.debtService20yr)}</td>
+            </tr>
+            <tr>
+              <td>Annual Cashflow</td>
+              <td>${formatCurrency(analysis.annualCashflow5yr)}</td>
+              <td>${formatCurrency(analysis.annualCashflow10yr)}</td>
+              <td>${formatCurrency(analysis.annualCashflow20yr)}</td>
+            </tr>
             <tr>
               <td>Equity</td>
               <td>${formatCurrency(analysis.equity5yr)}</td>
@@ -150,17 +529,54 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
               <td>${formatCurrency(analysis.cashflow5yr)}</td>
               <td>${formatCurrency(analysis.cashflow10yr)}</td>
               <td>${formatCurrency(analysis.cashflow20yr)}</td>
-            </tr>
+            </tr>${analysis.cumulativeAfterTaxCashflow10yr !== null ? `
+            <tr>
+              <td>Cumulative After-Tax Cashflow</td>
+              <td>${formatCurrency(analysis.cumulativeAfterTaxCashflow5yr)}</td>
+              <td>${formatCurrency(analysis.cumulativeAfterTaxCashflow10yr)}</td>
+              <td>${formatCurrency(analysis.cumulativeAfterTaxCashflow20yr)}</td>
+            </tr>` : ''}
             <tr>
               <td>Total Return</td>
               <td>${formatCurrency(analysis.totalReturn5yr)}</td>
               <td>${formatCurrency(analysis.totalReturn10yr)}</td>
               <td>${formatCurrency(analysis.totalReturn20yr)}</td>
             </tr>
+            <tr>
+              <td>Net Sale Proceeds</td>
+              <td>${formatCurrency(analysis.netSaleProceeds5yr)}</td>
+              <td>${formatCurrency(analysis.netSaleProceeds10yr)}</td>
+              <td>${formatCurrency(analysis.netSaleProceeds20yr)}</td>
+            </tr>
+            <tr>
+              <td>Profit if Sold</td>
+              <td>${formatCurrency(analysis.totalProfit5yr)}</td>
+              <td>${formatCurrency(analysis.totalProfit10yr)}</td>
+              <td>${formatCurrency(analysis.totalProfit20yr)}</td>
+            </tr>
+            <tr>
+              <td>IRR</td>
+              <td>${formatExitRatio(analysis.irr5yr, analysis, formatPercent)}</td>
+              <td>${formatExitRatio(analysis.irr10yr, analysis, formatPercent)}</td>
+              <td>${formatExitRatio(analysis.irr20yr, analysis, formatPercent)}</td>
+            </tr>
+            <tr>
+              <td>Equity Multiple</td>
+              <td>${formatExitRatio(analysis.equityMultiple5yr, analysis, v => `${v.toFixed(2)}x`)}</td>
+              <td>${formatExitRatio(analysis.equityMultiple10yr, analysis, v => `${v.toFixed(2)}x`)}</td>
+              <td>${formatExitRatio(analysis.equityMultiple20yr, analysis, v => `${v.toFixed(2)}x`)}</td>
+            </tr>
           </tbody>
         </table>
+        <p class="forecast-note">
+          Payback: ${analysis.paybackYear === null ? 'not within 30 years' : analysis.paybackYear === 0 ? 'immediate' : `year ${analysis.paybackYear}`}
+          &nbsp;·&nbsp;
+          Cashflow positive: ${analysis.breakevenYear === null ? 'not within 30 years' : analysis.breakevenYear === 0 ? 'from day one' : `year ${analysis.breakevenYear}`}
+        </p>
       </div>
       
+      ${generateMonteCarloSection(analysis)}
+      
       <div class="monthly-breakdown">
         <h4>Monthly Breakdown</h4>
         <div class="breakdown-grid">
@@ -169,17 +585,29 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
             <span>${formatCurrency(analysis.monthlyPI)}</span>
           </div>
           <div class="breakdown-item">
-            <span>Taxes</span>
+            <span>Taxes${analysis.propertyTaxSource ? ` (${analysis.propertyTaxSource})` : ''}</span>
             <span>${formatCurrency(analysis.monthlyTaxes)}</span>
           </div>
           <div class="breakdown-item">
-            <span>Insurance</span>
+            <span>Insurance${analysis.insuranceSource ? ` (${analysis.insuranceSource})` : ''}</span>
             <span>${formatCurrency(analysis.monthlyInsurance)}</span>
           </div>
           <div class="breakdown-item">
             <span>PM Fee</span>
             <span>${formatCurrency(analysis.pmFee)}</span>
           </div>
+          ${(analysis.expenseItems ?? []).map(item => `
+          <div class="breakdown-item">
+            <span>${item.name}</span>
+            <span>${formatCurrency(item.monthly)}</span>
+          </div>
+          `).join('')}
+          ${analysis.unitExpenses > 0 ? `
+          <div class="breakdown-item">
+            <span>Per-Unit Costs (${analysis.unitCount} units)</span>
+            <span>${formatCurrency(analysis.unitExpenses)}</span>
+          </div>
+          ` : ''}
           <div class="breakdown-item total">
             <span>Total Expenses</span>
             <span>${formatCurrency(analysis.totalExpenses)}</span>
@@ -190,6 +618,71 @@ function generatePropertyCard(ranked: RankedProperty, index: number): string {
   `;
 }
 
+const PORTFOLIO_OBJECTIVE_LABELS: Record<PortfolioObjective, string> = {
+    cashflow: 'total cashflow',
+    totalReturn: '10-year total return',
+    score: 'total score',
+};
+
+/**
+ * Generate the capital-constrained portfolio basket (empty when no budget is set)
+ */
+function generatePortfolioSection(portfolio: PortfolioSelection | null | undefined): string {
+    if (!portfolio) return '';
+
+    const rows = portfolio.selected.map(({ property, metrics, rank, score }) => `
+          <tr>
+            <td>#${rank}</td>
+            <td>${property.address || 'Address Unknown'}${property.zip ? ` ${property.zip}` : ''}</td>
+            <td>${formatCurrency(metrics.totalInvestment)}</td>
+            <td>${formatCurrency(metrics.netCashflow)}</td>
+            <td>${metrics.dscr.toFixed(2)}</td>
+            <td>${score.toFixed(1)}</td>
+          </tr>`).join('');
+
+    return `
+    <div class="portfolio-section">
+      <h2>Best Portfolio for ${formatCurrency(portfolio.capital)}</h2>
+      <p class="forecast-note">
+        Maximizing ${PORTFOLIO_OBJECTIVE_LABELS[portfolio.objective]}${portfolio.optimal ? '' : ' (search limit reached; best basket found)'}
+      </p>
+      ${portfolio.selected.length === 0 ? '<p>No property fits the budget.</p>' : `
+      <div class="key-metrics">
+        <div class="key-metric">
+          <span class="key-metric-value">${formatCurrency(portfolio.capitalUsed)}</span>
+          <span class="key-metric-label">Capital Used (${formatCurrency(portfolio.capitalRemaining)} left)</span>
+        </div>
+        <div class="key-metric">
+          <span class="key-metric-value">${formatCurrency(portfolio.totalMonthlyCashflow)}</span>
+          <span class="key-metric-label">Combined Monthly Cashflow</span>
+        </div>
+        <div class="key-metric">
+          <span class="key-metric-value">${portfolio.combinedDscr !== null ? portfolio.combinedDscr.toFixed(2) : '-'}</span>
+          <span class="key-metric-label">Combined DSCR</span>
+        </div>
+        <div class="key-metric">
+          <span class="key-metric-value">${portfolio.selected.length}</span>
+          <span class="key-metric-label">Properties</span>
+        </div>
+      </div>
+      <table class="forecast-table">
+        <thead>
+          <tr>
+            <th>Rank</th>
+            <th>Property</th>
+            <th>Capital</th>
+            <th>Cashflow/mo</th>
+            <th>DSCR</th>
+            <th>Score</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>`}
+    </div>
+  `;
+}
+
 /**
  * Generate full HTML report
  */
@@ -201,10 +694,12 @@ export function generateHtmlReport(
         date: string;
         totalProperties: number;
         filteredCount: number;
+        portfolio?: PortfolioSelection | null;
+        rankingBasis?: RankingBasis;
     }
 ): string {
     const propertyCards = rankedProperties
-        .map((rp, i) => generatePropertyCard(rp, i))
+        .map((rp, i) => generatePropertyCard(rp, i, runInfo.rankingBasis))
         .join('\n');
 
     return `
@@ -401,11 +896,11 @@ export function generateHtmlReport(
       color: #666;
     }
     
-    .forecast-section, .monthly-breakdown {
+    .forecast-section, .monthly-breakdown, .offer-section, .program-section, .refinance-section, .tax-section, .scenario-section, .monte-carlo-section {
       margin-top: 24px;
     }
     
-    .forecast-section h4, .monthly-breakdown h4 {
+    .forecast-section h4, .monthly-breakdown h4, .offer-section h4, .program-section h4, .refinance-section h4, .tax-section h4, .scenario-section h4, .monte-carlo-section h4 {
       font-size: 1rem;
       color: #1a1a2e;
       margin-bottom: 12px;
@@ -451,6 +946,92 @@ export function generateHtmlReport(
       font-size: 0.9rem;
     }
     
+    .ranking-flags {
+      background: #fff3e0;
+      color: #e65100;
+      border-left: 4px solid #f57c00;
+      padding: 8px 12px;
+      margin: 12px 0;
+      font-size: 0.9rem;
+    }
+    
+    .portfolio-section {
+      background: white;
+      border-radius: 12px;
+      padding: 24px;
+      margin-bottom: 24px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+    }
+    
+    .portfolio-section h2 {
+      font-size: 1.25rem;
+      color: #1a1a2e;
+    }
+    
+    .forecast-note {
+      margin-top: 8px;
+      font-size: 0.85rem;
+      color: #666;
+    }
+    
+    .mc-charts {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 16px;
+      margin-bottom: 12px;
+    }
+    
+    .mc-chart {
+      width: 100%;
+      height: auto;
+      background: #f8f9fa;
+      border-radius: 8px;
+    }
+    
+    .mc-band {
+      fill: #667eea;
+      fill-opacity: 0.25;
+    }
+    
+    .mc-median {
+      fill: none;
+      stroke: #667eea;
+      stroke-width: 2;
+    }
+    
+    .mc-zero {
+      stroke: #ccc;
+      stroke-dasharray: 4 3;
+    }
+    
+    .mc-title, .mc-axis {
+      font-size: 10px;
+      fill: #666;
+    }
+    
+    .best-program td {
+      background: #e8f5e9;
+      font-weight: 600;
+    }
+    
+    .infinite-badge {
+      background: #e8f5e9;
+      color: #2e7d32;
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 0.8rem;
+      margin-left: 8px;
+    }
+    
+    .range-warning {
+      background: #fff3e0;
+      color: #f57c00;
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 0.8rem;
+      margin-left: 8px;
+    }
+    
     .breakdown-item.total {
       background: #1a1a2e;
       color: white;
@@ -499,8 +1080,18 @@ export function generateHtmlReport(
         <div class="stat-value">${rankedProperties.length > 0 ? rankedProperties[0].score.toFixed(0) : 'N/A'}</div>
         <div class="stat-label">Best Score</div>
       </div>
+      <div class="stat-card">
+        <div class="stat-value">${rankedProperties.filter(r => r.analysis.failsStress).length}</div>
+        <div class="stat-label">Fail Under Stress</div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-value">${rankedProperties.filter(r => r.analysis.financeable === false).length}</div>
+        <div class="stat-label">DSCR Not Financeable</div>
+      </div>
     </div>
     
+    ${generatePortfolioSection(runInfo.portfolio)}
+    
     ${propertyCards}
     
     <div class="footer">
@@ -551,6 +1142,8 @@ export async function generateReports(
         date: string;
         totalProperties: number;
         filteredCount: number;
+        portfolio?: PortfolioSelection | null;
+        rankingBasis?: RankingBasis;
     },
     outputDir: string
 ): Promise<{ htmlPath: string; pdfPath: string }> {
@@ -6,7 +6,7 @@
  */
 
 import { google, sheets_v4 } from 'googleapis';
-import type { Property, Analysis, Run, Settings } from '../types';
+import type { Property, Analysis, Run, Settings, ExpenseLineItem, RehabLineItem } from '../types';
 
 // Sheet names
 const SHEETS = {
@@ -18,9 +18,9 @@ const SHEETS = {
 
 // Column mappings for each sheet
 const PROPERTY_COLUMNS = [
-    'id', 'runId', 'address', 'city', 'state', 'zip',
+    'id', 'runId', 'address', 'city', 'county', 'state', 'zip',
     'askingPrice', 'suggestedOffer', 'rent', 'bedrooms', 'bathrooms',
-    'sqft', 'yearBuilt', 'occupied', 'section8Tenant',
+    'unitCount', 'sqft', 'yearBuilt', 'occupied', 'section8Tenant',
     'zillowUrl', 'zillowStatus', 'zillowZestimate', 'zillowLastChecked',
     'status', 'discardReason', 'needsManualReview', 'reviewNotes',
     'sourceChunk', 'sourcePage', 'createdAt', 'updatedAt'
@@ -30,15 +30,38 @@ const ANALYSIS_COLUMNS = [
     'id', 'propertyId', 'runId',
     'purchasePrice', 'downPaymentPercent', 'closingCostPercent',
     'interestRate', 'loanTermYears', 'pmFeePercent',
-    'vacancyPercent', 'maintenancePercent', 'propertyTaxRate', 'insuranceAnnual',
-    'downPayment', 'closingCosts', 'loanAmount', 'totalInvestment',
-    'monthlyPI', 'monthlyTaxes', 'monthlyInsurance', 'monthlyPITI',
-    'monthlyRent', 'pmFee', 'vacancy', 'maintenance',
+    'vacancyPercent', 'maintenancePercent', 'propertyTaxRate', 'insuranceAnnual', 'rehabCost', 'unitCount',
+    'propertyTaxSource', 'insuranceSource', 'paymentStandard', 'rentCapped',
+    'rehabEstimate', 'rehabSource', 'rehabLineItems',
+    'loanProgramId', 'loanProgramName', 'loanProgramType', 'financeable', 'financingIssues', 'lenderRateAddOn',
+    'rateSheetRate', 'rateSheetTier',
+    'downPayment', 'closingCosts', 'loanAmount', 'totalInvestment', 'allInCost',
+    'monthlyPI', 'adjustedMonthlyPI', 'balloonPayment', 'monthlyTaxes', 'monthlyInsurance', 'monthlyPITI',
+    'monthlyRent', 'pmFee', 'vacancy', 'maintenance', 'unitExpenses',
+    'expenseItems', 'otherExpenses',
     'totalExpenses', 'netCashflow', 'annualCashflow', 'annualNOI',
     'dscr', 'capRate', 'cocReturn',
+    'annualInterest', 'annualDepreciation', 'taxableIncome', 'incomeTax', 'afterTaxCashflow', 'afterTaxCocReturn',
     'equity5yr', 'equity10yr', 'equity20yr',
     'cashflow5yr', 'cashflow10yr', 'cashflow20yr',
+    'cumulativeAfterTaxCashflow5yr', 'cumulativeAfterTaxCashflow10yr', 'cumulativeAfterTaxCashflow20yr',
     'totalReturn5yr', 'totalReturn10yr', 'totalReturn20yr',
+    'grossRent5yr', 'grossRent10yr', 'grossRent20yr',
+    'operatingExpenses5yr', 'operatingExpenses10yr', 'operatingExpenses20yr',
+    'noi5yr', 'noi10yr', 'noi20yr',
+    'debtService5yr', 'debtService10yr', 'debtService20yr',
+    'annualCashflow5yr', 'annualCashflow10yr', 'annualCashflow20yr',
+    'netSaleProceeds5yr', 'netSaleProceeds10yr', 'netSaleProceeds20yr',
+    'totalProfit5yr', 'totalProfit10yr', 'totalProfit20yr',
+    'irr5yr', 'irr10yr', 'irr20yr',
+    'equityMultiple5yr', 'equityMultiple10yr', 'equityMultiple20yr',
+    'paybackYear', 'breakevenYear',
+    'refiArv', 'refiLtvPercent', 'refiInterestRate', 'refiSeasoningMonths',
+    'refiLoanAmount', 'refiClosingCosts', 'refiLoanPayoff', 'refiPrepaymentPenalty',
+    'cashRecouped', 'cashLeftInDeal', 'postRefiMonthlyPI', 'postRefiPITI',
+    'postRefiCashflow', 'postRefiDscr', 'postRefiCocReturn', 'infiniteReturn',
+    'maxOffer', 'maxOfferConstraint', 'maxOfferUnconstrained',
+    'failsStress', 'stressFailures',
     'rankScore', 'rank', 'createdAt'
 ];
 
@@ -50,6 +73,19 @@ const RUN_COLUMNS = [
     'error', 'createdAt', 'startedAt', 'completedAt'
 ];
 
+/**
+ * Convert a 1-based column count to its A1 letter (1 -> A, 27 -> AA)
+ */
+function columnLetter(column: number): string {
+    let letter = '';
+    while (column > 0) {
+        const remainder = (column - 1) % 26;
+        letter = String.fromCharCode(65 + remainder) + letter;
+        column = Math.floor((column - 1) / 26);
+    }
+    return letter;
+}
+
 let sheetsClient: sheets_v4.Sheets | null = null;
 let spreadsheetId: string | null = null;
 
@@ -220,7 +256,7 @@ export async function getPropertiesByRunId(runId: string): Promise<Partial<Prope
 
             if (value !== undefined && value !== '') {
                 // Parse based on column type
-                if (['askingPrice', 'suggestedOffer', 'rent', 'sqft', 'bedrooms', 'bathrooms', 'yearBuilt', 'zillowZestimate', 'sourcePage'].includes(col)) {
+                if (['askingPrice', 'suggestedOffer', 'rent', 'sqft', 'bedrooms', 'bathrooms', 'unitCount', 'yearBuilt', 'zillowZestimate', 'sourcePage'].includes(col)) {
                     property[col] = parseFloat(value) || null;
                 } else if (['occupied', 'section8Tenant', 'needsManualReview'].includes(col)) {
                     property[col] = value === 'TRUE' || value === 'true';
@@ -302,13 +338,21 @@ export async function appendAnalysis(analyses: Partial<Analysis>[]): Promise<voi
         ANALYSIS_COLUMNS.map(col => {
             const value = (a as Record<string, unknown>)[col];
             if (value === null || value === undefined) return '';
+            if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+            if (col === 'expenseItems') {
+                return (value as ExpenseLineItem[]).map(item => `${item.name}: ${item.monthly}`).join('; ');
+            }
+            if (col === 'rehabLineItems') {
+                return (value as RehabLineItem[]).map(line => `${line.item}: ${line.cost}`).join('; ');
+            }
+            if (Array.isArray(value)) return value.join('; ');
             return String(value);
         })
     );
 
     await sheetsClient.spreadsheets.values.append({
         spreadsheetId,
-        range: `${SHEETS.ANALYSIS}!A:AQ`,
+        range: `${SHEETS.ANALYSIS}!A:${columnLetter(ANALYSIS_COLUMNS.length)}`,
         valueInputOption: 'RAW',
         insertDataOption: 'INSERT_ROWS',
         requestBody: { values: rows },
@@ -4,6 +4,46 @@ import { z } from 'zod';
 // Property Schema
 // ============================================================================
 
+// One unit of a multi-unit building (duplex, triplex, fourplex)
+export const PropertyUnitSchema = z.object({
+  label: z.string().nullable(),  // e.g. "A", "1", "Upstairs"
+  rent: z.number().positive().nullable(),
+  bedrooms: z.number().int().min(0).nullable(),
+  bathrooms: z.number().min(0).nullable(),
+  occupied: z.boolean().nullable(),
+});
+
+export type PropertyUnit = z.infer<typeof PropertyUnitSchema>;
+
+// How a field value was obtained
+export const ExtractionMethodSchema = z.enum(['text', 'ocr', 'llm', 'manual']);
+
+export type ExtractionMethod = z.infer<typeof ExtractionMethodSchema>;
+
+// A word's bounding box on the rendered page image, in pixels
+export const OcrBoxSchema = z.object({
+  x0: z.number(),
+  y0: z.number(),
+  x1: z.number(),
+  y1: z.number(),
+  confidence: z.number().min(0).max(100),
+});
+
+export type OcrBox = z.infer<typeof OcrBoxSchema>;
+
+// Where one extracted field value came from
+export const FieldProvenanceSchema = z.object({
+  method: ExtractionMethodSchema,
+  page: z.number().int().nullable(),
+  start: z.number().int().min(0).nullable(),   // Character offsets of the match in the page text
+  end: z.number().int().min(0).nullable(),
+  text: z.string().nullable(),                 // The matched text, e.g. "Asking: $85k"
+  boxes: z.array(OcrBoxSchema).default([]),    // OCR words covering the match
+  confidence: z.number().min(0).max(100),
+});
+
+export type FieldProvenance = z.infer<typeof FieldProvenanceSchema>;
+
 export const PropertySchema = z.object({
   id: z.string().uuid(),
   runId: z.string().uuid(),
@@ -13,6 +53,7 @@ export const PropertySchema = z.object({
   city: z.string().nullable(),
   state: z.string().max(2).nullable(),
   zip: z.string().nullable(),
+  county: z.string().nullable().optional(),
 
   // Pricing
   askingPrice: z.number().positive().nullable(),
@@ -25,11 +66,17 @@ export const PropertySchema = z.object({
   bedrooms: z.number().int().min(0).nullable(),
   bathrooms: z.number().min(0).nullable(),
   sqft: z.number().positive().nullable(),
+
+  // Units: rent, bedrooms and bathrooms above are building totals
+  unitCount: z.number().int().min(1).default(1),
+  units: z.array(PropertyUnitSchema).default([]),
+
   yearBuilt: z.number().int().min(1800).max(2030).nullable(),
   arv: z.number().positive().nullable(),
   arvMin: z.number().positive().nullable().optional(),
   arvMax: z.number().positive().nullable().optional(),
   rehabNeeded: z.number().min(0).nullable(),
+  repairItems: z.array(z.string()).default([]),   // The listing's "Needs:" list, e.g. ["HVAC", "roof", "paint"]
 
   // Occupancy
   occupied: z.boolean().nullable(),
@@ -56,6 +103,7 @@ export const PropertySchema = z.object({
   sourceChunk: z.string().nullable(),
   sourcePage: z.number().int().nullable(),
   rawText: z.string().nullable(),
+  provenance: z.record(z.string(), FieldProvenanceSchema).default({}),  // Keyed by property field name
 
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -67,6 +115,193 @@ export type Property = z.infer<typeof PropertySchema>;
 // Analysis Schema
 // ============================================================================
 
+// Rent/ARV range scenarios: low end, midpoint and high end of the extracted ranges
+export const ScenarioNameSchema = z.enum(['conservative', 'base', 'optimistic']);
+
+export type ScenarioName = z.infer<typeof ScenarioNameSchema>;
+
+// ============================================================================
+// Loan Program Schema
+// ============================================================================
+
+export const LoanProgramTypeSchema = z.enum([
+  'dscr',
+  'conventional',
+  'cash',
+  'hard-money',
+  'seller-finance',
+  'arm',
+]);
+
+export const LoanProgramSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: LoanProgramTypeSchema,
+  enabled: z.boolean().default(true),
+  downPaymentPercent: z.number().min(0).max(100),   // 100 = all cash
+  interestRate: z.number().min(0).max(30),
+  loanTermYears: z.number().min(1).max(40),          // Amortization term
+  interestOnlyMonths: z.number().int().min(0).default(0),
+  balloonMonths: z.number().int().min(1).nullable().default(null),    // Remaining balance due at this month
+  rateResetMonths: z.number().int().min(1).nullable().default(null),  // ARM: rate resets after this month
+  resetRate: z.number().min(0).max(30).nullable().default(null),      // ARM: rate after the reset
+  closingCostPercent: z.number().min(0).max(100).nullable().default(null),  // Overrides the global closing cost
+});
+
+export type LoanProgram = z.infer<typeof LoanProgramSchema>;
+export type LoanProgramType = z.infer<typeof LoanProgramTypeSchema>;
+
+const loanProgramDefaults = {
+  enabled: true,
+  interestOnlyMonths: 0,
+  balloonMonths: null,
+  rateResetMonths: null,
+  resetRate: null,
+  closingCostPercent: null,
+};
+
+export const DEFAULT_LOAN_PROGRAMS: LoanProgram[] = [
+  { ...loanProgramDefaults, id: 'conventional-30', name: 'Conventional 30-yr fixed', type: 'conventional', enabled: false, downPaymentPercent: 25, interestRate: 7.0, loanTermYears: 30 },
+  { ...loanProgramDefaults, id: 'all-cash', name: 'All cash', type: 'cash', downPaymentPercent: 100, interestRate: 0, loanTermYears: 30 },
+  { ...loanProgramDefaults, id: 'hard-money', name: 'Hard money (12-mo interest only)', type: 'hard-money', enabled: false, downPaymentPercent: 10, interestRate: 12, loanTermYears: 30, interestOnlyMonths: 12, balloonMonths: 12 },
+  { ...loanProgramDefaults, id: 'seller-finance', name: 'Seller financing (5-yr balloon)', type: 'seller-finance', enabled: false, downPaymentPercent: 10, interestRate: 6.0, loanTermYears: 30, balloonMonths: 60 },
+  { ...loanProgramDefaults, id: 'arm-5-1', name: '5/1 ARM', type: 'arm', enabled: false, downPaymentPercent: 20, interestRate: 6.75, loanTermYears: 30, rateResetMonths: 60, resetRate: 8.75 },
+];
+
+export const DscrTierSchema = z.object({
+  maxLtvPercent: z.number().min(0).max(100),
+  minDscr: z.number().min(0),
+});
+
+export type DscrTier = z.infer<typeof DscrTierSchema>;
+
+// One cell of a DSCR lender rate sheet. A loan is priced by the tightest cell
+// it falls in: the highest DSCR floor, then the lowest LTV cap, then the highest loan size floor.
+export const RateSheetTierSchema = z.object({
+  minDscr: z.number().min(0),
+  maxLtvPercent: z.number().min(0).max(100),
+  minLoanAmount: z.number().min(0),
+  rateAdjustment: z.number(),  // Percentage points added to the DSCR rate (negative = discount)
+});
+
+export type RateSheetTier = z.infer<typeof RateSheetTierSchema>;
+
+export const DEFAULT_RATE_SHEET: RateSheetTier[] = [
+  { minDscr: 1.25, maxLtvPercent: 70, minLoanAmount: 100000, rateAdjustment: -0.25 },
+  { minDscr: 1.25, maxLtvPercent: 70, minLoanAmount: 0, rateAdjustment: 0 },
+  { minDscr: 1.25, maxLtvPercent: 80, minLoanAmount: 100000, rateAdjustment: 0 },
+  { minDscr: 1.25, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 0.25 },
+  { minDscr: 1.0, maxLtvPercent: 70, minLoanAmount: 100000, rateAdjustment: 0.25 },
+  { minDscr: 1.0, maxLtvPercent: 70, minLoanAmount: 0, rateAdjustment: 0.5 },
+  { minDscr: 1.0, maxLtvPercent: 80, minLoanAmount: 100000, rateAdjustment: 0.5 },
+  { minDscr: 1.0, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 0.75 },
+  { minDscr: 0.75, maxLtvPercent: 70, minLoanAmount: 100000, rateAdjustment: 0.75 },
+  { minDscr: 0.75, maxLtvPercent: 70, minLoanAmount: 0, rateAdjustment: 1.0 },
+  { minDscr: 0.75, maxLtvPercent: 80, minLoanAmount: 100000, rateAdjustment: 1.0 },
+  { minDscr: 0.75, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 1.25 },
+];
+
+// Operating expense line items on top of PM, vacancy, maintenance, taxes and insurance
+export const ExpenseItemTypeSchema = z.enum([
+  'fixed',           // $ per month
+  'percentOfRent',   // % of gross rent
+  'percentOfValue',  // % of purchase price per year
+  'perTurnover',     // $ each time a unit turns over
+]);
+
+export type ExpenseItemType = z.infer<typeof ExpenseItemTypeSchema>;
+
+export const ExpenseItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  enabled: z.boolean().default(true),
+  type: ExpenseItemTypeSchema,
+  amount: z.number().min(0),
+});
+
+export type ExpenseItem = z.infer<typeof ExpenseItemSchema>;
+
+// An expense item as underwritten, with its monthly cost
+export interface ExpenseLineItem extends ExpenseItem {
+  monthly: number;
+}
+
+export const DEFAULT_EXPENSE_ITEMS: ExpenseItem[] = [
+  { id: 'capex-reserve', name: 'Capex reserve (roof, HVAC)', enabled: false, type: 'percentOfRent', amount: 5 },
+  { id: 'water-sewer', name: 'Water/sewer', enabled: false, type: 'fixed', amount: 60 },
+  { id: 'hoa', name: 'HOA', enabled: false, type: 'fixed', amount: 0 },
+  { id: 'lawn', name: 'Lawn care', enabled: false, type: 'fixed', amount: 40 },
+  { id: 'pmi', name: 'PMI', enabled: false, type: 'percentOfValue', amount: 0.5 },
+  { id: 'leasing-fee', name: 'Leasing fee', enabled: false, type: 'perTurnover', amount: 500 },
+];
+
+// Rehab cost catalog: repair items whose text contains one of the keywords are
+// priced at a flat cost, per square foot of the building, or per unit
+export const RehabCostItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  keywords: z.array(z.string()),
+  basis: z.enum(['fixed', 'perSqft', 'perUnit']),
+  cost: z.number().min(0),
+});
+
+export type RehabCostItem = z.infer<typeof RehabCostItemSchema>;
+
+export const DEFAULT_REHAB_CATALOG: RehabCostItem[] = [
+  { id: 'hvac', name: 'HVAC', keywords: ['hvac', 'ac', 'a/c', 'furnace', 'heat pump', 'central air'], basis: 'perUnit', cost: 6500 },
+  { id: 'roof', name: 'Roof', keywords: ['roof', 'shingles'], basis: 'perSqft', cost: 5 },
+  { id: 'electrical', name: 'Electrical', keywords: ['electrical', 'rewire', 'wiring', 'panel'], basis: 'perSqft', cost: 4 },
+  { id: 'plumbing', name: 'Plumbing', keywords: ['plumbing', 'pipes', 'repipe'], basis: 'perSqft', cost: 3 },
+  { id: 'water-heater', name: 'Water heater', keywords: ['water heater', 'hot water'], basis: 'perUnit', cost: 1400 },
+  { id: 'kitchen', name: 'Kitchen', keywords: ['kitchen', 'cabinets', 'countertops'], basis: 'perUnit', cost: 8000 },
+  { id: 'bathroom', name: 'Bathroom', keywords: ['bathroom', 'bath', 'toilet', 'shower', 'tub'], basis: 'perUnit', cost: 5000 },
+  { id: 'flooring', name: 'Flooring', keywords: ['floor', 'flooring', 'floors', 'carpet', 'lvp'], basis: 'perSqft', cost: 4 },
+  { id: 'paint', name: 'Paint', keywords: ['paint', 'painting'], basis: 'perSqft', cost: 2.5 },
+  { id: 'drywall', name: 'Drywall', keywords: ['drywall', 'sheetrock', 'walls', 'ceiling'], basis: 'perSqft', cost: 2 },
+  { id: 'windows', name: 'Windows', keywords: ['window', 'windows'], basis: 'fixed', cost: 4500 },
+  { id: 'siding', name: 'Siding', keywords: ['siding', 'exterior'], basis: 'perSqft', cost: 4 },
+  { id: 'foundation', name: 'Foundation', keywords: ['foundation', 'structural', 'joists', 'subfloor'], basis: 'fixed', cost: 8000 },
+  { id: 'cosmetic', name: 'Cosmetic / cleanout', keywords: ['cosmetic', 'cleanout', 'clean out', 'trash out', 'light rehab'], basis: 'fixed', cost: 1500 },
+];
+
+// A priced repair item. Items that match no catalog entry are priced at the
+// unmatched-item allowance; an entry matched twice is only counted once.
+export interface RehabLineItem {
+  item: string;              // Text from the listing
+  catalogId: string | null;  // null = no catalog match
+  name: string;              // Catalog name, or the item text when unmatched
+  cost: number;
+}
+
+export interface RehabEstimate {
+  lineItems: RehabLineItem[];
+  subtotal: number;
+  contingency: number;
+  total: number;
+}
+
+// Property tax rate and insurance estimate for a ZIP, city or county. Each value
+// comes from the most specific row that sets it: ZIP, then city, then county.
+export const LocationRateSchema = z.object({
+  match: z.enum(['zip', 'city', 'county']),
+  value: z.string(),                               // e.g. "35208", "Bessemer", "Jefferson"
+  propertyTaxRate: z.number().min(0).nullable(),   // % of price per year; null = use the global rate
+  insuranceAnnual: z.number().min(0).nullable(),   // null = use the global estimate
+});
+
+export type LocationRate = z.infer<typeof LocationRateSchema>;
+
+// Most a voucher pays for a ZIP and bedroom count, from a HUD Small Area FMR file
+// or a housing authority's payment standard schedule
+export const PaymentStandardSchema = z.object({
+  zip: z.string(),
+  bedrooms: z.number().int().min(0),
+  amount: z.number().positive(),   // Monthly
+  source: z.string(),              // e.g. "HUD SAFMR FY2026"
+});
+
+export type PaymentStandard = z.infer<typeof PaymentStandardSchema>;
+
 export const AnalysisSchema = z.object({
   id: z.string().uuid(),
   propertyId: z.string().uuid(),
@@ -83,15 +318,41 @@ export const AnalysisSchema = z.object({
   maintenancePercent: z.number(),
   propertyTaxRate: z.number(),
   insuranceAnnual: z.number(),
+  propertyTaxSource: z.string().nullable().default(null),  // Location table row for the tax rate, e.g. "ZIP 35208" (null = global setting)
+  insuranceSource: z.string().nullable().default(null),    // Location table row for insurance (null = global setting)
+  paymentStandard: z.number().nullable().default(null),    // Voucher payment standard for the property (null = none on file)
+  rentCapped: z.boolean().default(false),                  // Listed rent was above the payment standard and capped to it
+  rehabCost: z.number().default(0),
+  rehabEstimate: z.number().nullable().default(null),               // Our estimate from the repair list (null = no list)
+  rehabLineItems: z.custom<RehabLineItem[]>().default([]),
+  rehabSource: z.enum(['wholesaler', 'estimate']).default('wholesaler'),  // Which figure rehabCost came from
+  unitCount: z.number().int().min(1).default(1),
+  averageTenancyYears: z.number().default(3),
+
+  // Financing program used for this analysis (the best of the enabled programs,
+  // or the all-cash fallback when the lender rules drop the DSCR loan)
+  loanProgramId: z.string().nullable().default(null),
+  loanProgramName: z.string().nullable().default(null),
+  loanProgramType: LoanProgramTypeSchema.nullable().default(null),
+
+  // DSCR lender qualification, whichever program was chosen (financeable is true when lender rules are off)
+  financeable: z.boolean().default(true),
+  financingIssues: z.array(z.string()).default([]),
+  lenderRateAddOn: z.number().default(0),
+  rateSheetRate: z.number().nullable().default(null),   // DSCR rate priced from the rate sheet (null when the sheet is off)
+  rateSheetTier: z.string().nullable().default(null),   // The rate sheet cell that priced it, e.g. "DSCR 1.00+ / LTV ≤ 80% / $100,000+"
 
   // Calculated loan values
   downPayment: z.number(),
   closingCosts: z.number(),
   loanAmount: z.number(),
   totalInvestment: z.number(),
+  allInCost: z.number().default(0),
 
   // Monthly breakdown
   monthlyPI: z.number(),
+  adjustedMonthlyPI: z.number().nullable().default(null),  // After any interest-only period or rate reset
+  balloonPayment: z.number().default(0),
   monthlyTaxes: z.number(),
   monthlyInsurance: z.number(),
   monthlyPITI: z.number(),
@@ -99,6 +360,9 @@ export const AnalysisSchema = z.object({
   pmFee: z.number(),
   vacancy: z.number(),
   maintenance: z.number(),
+  unitExpenses: z.number().default(0),
+  expenseItems: z.custom<ExpenseLineItem[]>().default([]),  // Enabled line items only
+  otherExpenses: z.number().default(0),                      // Sum of the line items
   totalExpenses: z.number(),
   netCashflow: z.number(),
 
@@ -111,6 +375,14 @@ export const AnalysisSchema = z.object({
   capRate: z.number(),
   cocReturn: z.number(),
 
+  // Year 1 income tax (null when after-tax mode is off)
+  annualInterest: z.number().default(0),
+  annualDepreciation: z.number().nullable().default(null),
+  taxableIncome: z.number().nullable().default(null),
+  incomeTax: z.number().nullable().default(null),
+  afterTaxCashflow: z.number().nullable().default(null),
+  afterTaxCocReturn: z.number().nullable().default(null),
+
   // Forecasts
   equity5yr: z.number(),
   equity10yr: z.number(),
@@ -118,10 +390,84 @@ export const AnalysisSchema = z.object({
   cashflow5yr: z.number(),
   cashflow10yr: z.number(),
   cashflow20yr: z.number(),
+  cumulativeAfterTaxCashflow5yr: z.number().nullable().default(null),  // null for a pre-tax forecast
+  cumulativeAfterTaxCashflow10yr: z.number().nullable().default(null),
+  cumulativeAfterTaxCashflow20yr: z.number().nullable().default(null),
   totalReturn5yr: z.number(),
   totalReturn10yr: z.number(),
   totalReturn20yr: z.number(),
 
+  // Projected P&L for year 5 / 10 / 20 (annual, not cumulative)
+  grossRent5yr: z.number().default(0),
+  grossRent10yr: z.number().default(0),
+  grossRent20yr: z.number().default(0),
+  operatingExpenses5yr: z.number().default(0),
+  operatingExpenses10yr: z.number().default(0),
+  operatingExpenses20yr: z.number().default(0),
+  noi5yr: z.number().default(0),
+  noi10yr: z.number().default(0),
+  noi20yr: z.number().default(0),
+  debtService5yr: z.number().default(0),
+  debtService10yr: z.number().default(0),
+  debtService20yr: z.number().default(0),
+  annualCashflow5yr: z.number().default(0),
+  annualCashflow10yr: z.number().default(0),
+  annualCashflow20yr: z.number().default(0),
+  yearByYear: z.custom<ForecastResult[]>().nullable().default(null),
+
+  // Sale at year 5 / 10 / 20 (IRR and multiple are null when no cash is left in the deal)
+  netSaleProceeds5yr: z.number().default(0),
+  netSaleProceeds10yr: z.number().default(0),
+  netSaleProceeds20yr: z.number().default(0),
+  totalProfit5yr: z.number().default(0),
+  totalProfit10yr: z.number().default(0),
+  totalProfit20yr: z.number().default(0),
+  irr5yr: z.number().nullable().default(null),
+  irr10yr: z.number().nullable().default(null),
+  irr20yr: z.number().nullable().default(null),
+  equityMultiple5yr: z.number().nullable().default(null),
+  equityMultiple10yr: z.number().nullable().default(null),
+  equityMultiple20yr: z.number().nullable().default(null),
+  paybackYear: z.number().nullable().default(null),
+  breakevenYear: z.number().nullable().default(null),
+
+  // BRRRR refinance (null when no ARV or refinance disabled)
+  refiArv: z.number().nullable().default(null),
+  refiLtvPercent: z.number().nullable().default(null),
+  refiInterestRate: z.number().nullable().default(null),
+  refiSeasoningMonths: z.number().nullable().default(null),
+  refiLoanAmount: z.number().nullable().default(null),
+  refiClosingCosts: z.number().nullable().default(null),
+  refiLoanPayoff: z.number().nullable().default(null),
+  refiPrepaymentPenalty: z.number().nullable().default(null),
+  cashRecouped: z.number().nullable().default(null),
+  cashLeftInDeal: z.number().nullable().default(null),
+  postRefiMonthlyPI: z.number().nullable().default(null),
+  postRefiPITI: z.number().nullable().default(null),
+  postRefiCashflow: z.number().nullable().default(null),
+  postRefiDscr: z.number().nullable().default(null),
+  postRefiCocReturn: z.number().nullable().default(null),
+  infiniteReturn: z.boolean().default(false),
+
+  // Max allowable offer that still meets the offer targets
+  maxOffer: z.number().nullable().default(null),
+  maxOfferConstraint: z.enum(['dscr', 'cashflow', 'cocReturn', 'seventyPercentRule']).nullable().default(null),
+  // Every target still holds at any price we search, so there is no max offer
+  maxOfferUnconstrained: z.boolean().default(false),
+
+  // Stress test: full adverse shocks that push cashflow negative or DSCR below the stress minimum
+  failsStress: z.boolean().default(false),
+  stressFailures: z.array(z.string()).default([]),
+
+  // Monte Carlo percentile bands (null when simulation is off)
+  monteCarlo: z.custom<MonteCarloResult>().nullable().default(null),
+
+  // Underwriting at the low / mid / high end of the rent and ARV ranges
+  scenarios: z.custom<UnderwritingScenarios>().nullable().default(null),
+
+  // Underwriting under every enabled loan program
+  programResults: z.custom<LoanProgramResult[]>().nullable().default(null),
+
   // Ranking
   rankScore: z.number(),
   rank: z.number().nullable(),
@@ -154,6 +500,18 @@ export const RunStatusSchema = z.enum([
   'cancelled'
 ]);
 
+// How page text is turned into listing records: the flattened text, or words
+// grouped into columns and blocks by position
+export const ExtractionModeSchema = z.enum(['text', 'layout']);
+
+export type ExtractionMode = z.infer<typeof ExtractionModeSchema>;
+
+// Vision model used for pages without selectable text. 'local' is any
+// OpenAI-compatible server; 'fixture' replays recorded responses.
+export const LlmProviderSchema = z.enum(['openai', 'anthropic', 'google', 'local', 'fixture']);
+
+export type LlmProvider = z.infer<typeof LlmProviderSchema>;
+
 export const RunSchema = z.object({
   id: z.string().uuid(),
   fileHash: z.string(),
@@ -164,6 +522,15 @@ export const RunSchema = z.object({
   status: RunStatusSchema,
   dryRun: z.boolean().default(false),
 
+  // Parser profile used for the PDF, detected from its text or chosen on upload
+  parserProfile: z.string().nullable().default(null),
+  parserProfileSource: z.enum(['detected', 'manual']).nullable().default(null),
+  extractionMode: ExtractionModeSchema.default('text'),
+
+  // LLM that read the scanned pages (null when the run made no LLM calls)
+  llmProvider: LlmProviderSchema.nullable().default(null),
+  llmModel: z.string().nullable().default(null),
+
   // Progress tracking
   currentStep: z.string().nullable(),
   progress: z.number().min(0).max(100).default(0),
@@ -190,6 +557,63 @@ export const RunSchema = z.object({
 export type Run = z.infer<typeof RunSchema>;
 export type RunStatus = z.infer<typeof RunStatusSchema>;
 
+// ============================================================================
+// Parser Template Schema
+// ============================================================================
+
+// Listing fields a parser template can read
+export const TemplateFieldNameSchema = z.enum([
+  'askingPrice',
+  'suggestedOffer',
+  'rent',
+  'arv',
+  'rehabNeeded',
+  'bedrooms',
+  'bathrooms',
+  'sqft',
+  'occupied',
+  'section8Tenant',
+  'offMarket',
+  'underContract',
+]);
+
+export type TemplateFieldName = z.infer<typeof TemplateFieldNameSchema>;
+
+// money: dollars as written; k-money: dollars that may be quoted in thousands ("$110k");
+// range: "$1,200-$1,300"; bool: the label alone marks the listing
+export const TemplateValueTypeSchema = z.enum(['money', 'k-money', 'range', 'int', 'number', 'bool']);
+
+export type TemplateValueType = z.infer<typeof TemplateValueTypeSchema>;
+
+// Scale a value by `factor` when it ends in `suffix`, or when it is below `below`
+export const TemplateMultiplierSchema = z.object({
+  suffix: z.string().min(1).max(3),
+  factor: z.number().positive(),
+  below: z.number().positive().nullable().default(null),
+});
+
+export type TemplateMultiplier = z.infer<typeof TemplateMultiplierSchema>;
+
+// A field can be listed more than once; the first entry that matches wins
+export const ParserTemplateFieldSchema = z.object({
+  field: TemplateFieldNameSchema,
+  aliases: z.array(z.string().trim().min(1)).min(1),    // Labels as written, e.g. "Est. Sec 8 Rent"
+  valueType: TemplateValueTypeSchema,
+  multiplier: TemplateMultiplierSchema.nullable().default(null),  // k-money falls back to "k" / x1000 / below 1000
+  lineStart: z.boolean().default(false),                 // Label must start a line
+});
+
+export type ParserTemplateField = z.infer<typeof ParserTemplateFieldSchema>;
+
+// Field template for one parser profile; stored templates replace the profile's built-in one
+export const ParserTemplateSchema = z.object({
+  profileId: z.string(),
+  fields: z.array(ParserTemplateFieldSchema).min(1),
+  updatedAt: z.string().datetime().nullable(),           // Null for the built-in template
+});
+
+export type ParserTemplate = z.infer<typeof ParserTemplateSchema>;
+
 // ============================================================================
 // Settings Schema
 // ============================================================================
@@ -199,14 +623,35 @@ export const SettingsSchema = z.object({
   minRent: z.number().default(1300),
   minBedrooms: z.number().int().default(2),
   minBathrooms: z.number().default(1),
+  bedroomFilterMode: z.enum(['building', 'unit']).default('building'),  // Apply min beds/baths to the building total or to every unit
   occupiedSec8Only: z.boolean().default(false),
   offerGapThreshold: z.number().default(10000),
 
+  // Rent check against HUD / housing authority payment standards
+  paymentStandardCheckEnabled: z.boolean().default(true),
+  paymentStandardTolerancePercent: z.number().min(0).default(5),  // Flag rent more than this far above the standard
+  paymentStandardCapRent: z.boolean().default(false),             // Underwrite at the standard when the listed rent is higher
+
+  // Rent and price check against comps from earlier runs
+  compsEnabled: z.boolean().default(true),
+  compsMinSampleSize: z.number().int().min(1).default(3),   // Comps needed before a property is flagged
+  compsOutlierPercent: z.number().min(0).default(35),       // Flag rent or price this far from the comp median
+
   // Expense toggles
   vacancyEnabled: z.boolean().default(false),
   vacancyPercent: z.number().default(5),
   maintenanceEnabled: z.boolean().default(false),
   maintenancePercent: z.number().default(5),
+  unitExpenseMonthly: z.number().min(0).default(50),  // Owner-paid costs per unit per month, multi-unit buildings only
+  expenseItems: z.array(ExpenseItemSchema).default(DEFAULT_EXPENSE_ITEMS),
+  averageTenancyYears: z.number().positive().default(3),  // How often each unit turns over, for per-turnover items
+
+  // Rehab estimate from the listing's repair list
+  rehabCatalog: z.array(RehabCostItemSchema).default(DEFAULT_REHAB_CATALOG),
+  rehabContingencyPercent: z.number().min(0).default(10),
+  rehabUnmatchedItemCost: z.number().min(0).default(1000),  // Allowance for repair items not in the catalog
+  rehabDefaultSqft: z.number().positive().default(1200),    // Used for per-sqft items when sqft is unknown
+  rehabUseHigherEstimate: z.boolean().default(false),       // Underwrite the higher of the wholesaler's rehab and ours
 
   // Underwriting assumptions
   downPaymentPercent: z.number().default(20),
@@ -217,13 +662,94 @@ export const SettingsSchema = z.object({
   propertyTaxRate: z.number().default(1.2),
   insuranceAnnual: z.number().default(1200),
 
+  // Tax and insurance by location (override the two values above)
+  locationRates: z.array(LocationRateSchema).default([]),
+  insuranceScalingEnabled: z.boolean().default(false),
+  insuranceBaseSqft: z.number().positive().default(1200),          // Insurance estimates are for a home this size
+  insuranceOldHomeYear: z.number().int().default(1960),            // Homes built before this year pay the surcharge
+  insuranceOldHomeSurchargePercent: z.number().min(0).default(20),
+
+  // Additional loan programs (the DSCR loan above is always underwritten)
+  loanPrograms: z.array(LoanProgramSchema).default(DEFAULT_LOAN_PROGRAMS),
+
+  // DSCR lender qualification rules
+  lenderRulesEnabled: z.boolean().default(true),
+  lenderMinLoanAmount: z.number().min(0).default(75000),
+  lenderMaxLtvPercent: z.number().min(0).max(100).default(80),
+  lenderDscrTiers: z.array(DscrTierSchema).default([
+    { maxLtvPercent: 65, minDscr: 0.75 },
+    { maxLtvPercent: 75, minDscr: 1.0 },
+    { maxLtvPercent: 80, minDscr: 1.2 },
+  ]),
+  lenderLowDscrRateAddOn: z.number().min(0).default(0.5),     // Added to the rate when DSCR < 1.0
+  lenderSmallLoanAmount: z.number().min(0).default(100000),
+  lenderSmallLoanRateAddOn: z.number().min(0).default(0.25),  // Added to the rate below the small loan amount
+  lenderPrepayPenaltySchedule: z.array(z.number().min(0)).default([5, 4, 3, 2, 1]),  // % of payoff by loan year
+  lenderFallbackToCash: z.boolean().default(true),  // Drop unfinanceable DSCR loans instead of just flagging them
+  lenderRateSheetEnabled: z.boolean().default(false),  // Price by the rate sheet instead of the two add-ons above
+  lenderRateSheet: z.array(RateSheetTierSchema).default(DEFAULT_RATE_SHEET),
+
+  // BRRRR refinance assumptions
+  refinanceEnabled: z.boolean().default(true),
+  refinanceLtvPercent: z.number().min(0).max(100).default(75),
+  refinanceRate: z.number().default(8.0),
+  refinanceTermYears: z.number().default(30),
+  refinanceSeasoningMonths: z.number().int().min(0).default(6),
+  refinanceClosingCostPercent: z.number().default(3),
+
+  // Stress test: adverse shock sizes, and the DSCR a stressed deal must still meet
+  stressTestEnabled: z.boolean().default(true),
+  stressRatePoints: z.number().min(0).default(2),
+  stressRentPercent: z.number().min(0).max(100).default(10),
+  stressVacancyPoints: z.number().min(0).max(100).default(5),
+  stressTaxPercent: z.number().min(0).default(20),
+  stressInsurancePercent: z.number().min(0).default(30),
+  stressPricePercent: z.number().min(0).default(5),
+  stressMinDscr: z.number().min(0).default(1.0),
+
+  // Max offer targets
+  offerMinDscr: z.number().default(1.2),
+  offerMinCashflow: z.number().default(200),
+  offerMinCocReturn: z.number().default(8),
+  offerSeventyPercentRule: z.boolean().default(true),
+
   // Forecast assumptions
   rentGrowthPercent: z.number().default(3),
   appreciationPercent: z.number().default(3),
   expenseInflationPercent: z.number().default(3),
 
+  // Monte Carlo forecast: the means are the forecast assumptions above
+  monteCarloEnabled: z.boolean().default(false),
+  monteCarloTrials: z.number().int().min(1).max(10000).default(500),
+  monteCarloSeed: z.number().int().default(42),
+  monteCarloAppreciationStdDev: z.number().min(0).default(3),
+  monteCarloRentGrowthStdDev: z.number().min(0).default(1.5),
+  monteCarloInflationStdDev: z.number().min(0).default(1),
+  monteCarloVacancyMonthsStdDev: z.number().min(0).default(0.75),
+  monteCarloCapexProbabilityPercent: z.number().min(0).max(100).default(10),
+  monteCarloCapexCost: z.number().min(0).default(5000),
+
+  // Income tax and depreciation
+  afterTaxEnabled: z.boolean().default(false),
+  marginalTaxRatePercent: z.number().min(0).max(100).default(24),
+  landValuePercent: z.number().min(0).max(100).default(20),              // Land does not depreciate
+  rehabBonusDepreciationPercent: z.number().min(0).max(100).default(0),  // Cost segregation: rehab deducted in year 1
+
+  // Exit assumptions
+  sellingCostPercent: z.number().min(0).max(100).default(7),
+  exitTaxesEnabled: z.boolean().default(false),
+  capitalGainsRatePercent: z.number().min(0).max(100).default(15),
+  depreciationRecaptureRatePercent: z.number().min(0).max(100).default(25),
+
   // Ranking
   topN: z.number().int().default(10),
+  rankOnConservative: z.boolean().default(false),  // Score on the low end of the rent/ARV range
+
+  // Portfolio optimizer (off while capital is 0)
+  portfolioCapital: z.number().min(0).default(0),
+  portfolioMaxProperties: z.number().int().min(1).default(5),
+  portfolioMaxPerZip: z.number().int().min(0).default(0),  // 0 = no ZIP concentration limit
+  portfolioObjective: z.enum(['cashflow', 'totalReturn', 'score']).default('cashflow'),
 
   // Google Sheets
   spreadsheetId: z.string().optional(),
@@ -233,7 +759,10 @@ export const SettingsSchema = z.object({
   chunkSizePages: z.number().int().default(5),
   maxChunkSizeMB: z.number().default(10),
   enableLLMFallback: z.boolean().default(false),
-  llmProvider: z.enum(['openai', 'anthropic', 'google']).optional(),
+  llmProvider: LlmProviderSchema.default('openai'),
+  llmModel: z.string().default(''),         // Blank = the provider's default model
+  llmBaseUrl: z.string().default(''),       // OpenAI-compatible endpoint for the local provider
+  llmFixtureDir: z.string().default(''),    // Recorded responses for the fixture provider; blank = data/llm-fixtures
   llmApiKey: z.string().optional(),
 
   // Market status checking - disabled by default (use manual MCP workflow)
@@ -303,6 +832,7 @@ export const ArtifactTypeSchema = z.enum([
   'analysis-results',
   'report-html',
   'report-pdf',
+  'layout-comparison',
 ]);
 
 export const ArtifactSchema = z.object({
@@ -317,6 +847,90 @@ export const ArtifactSchema = z.object({
 export type Artifact = z.infer<typeof ArtifactSchema>;
 export type ArtifactType = z.infer<typeof ArtifactTypeSchema>;
 
+// ============================================================================
+// Portfolio Schema
+// ============================================================================
+
+// A property we bought, with the terms it actually closed on
+export const AcquisitionSchema = z.object({
+  id: z.string().uuid(),
+  propertyId: z.string().uuid(),
+  analysis: z.custom<Analysis>(),     // Underwriting the purchase is measured against (a copy: runs can be deleted)
+  address: z.string().nullable(),
+  purchasePrice: z.number().positive(),
+  closingCosts: z.number().min(0).default(0),
+  rehabCost: z.number().min(0).default(0),
+  loanAmount: z.number().min(0),
+  interestRate: z.number().min(0).max(30),
+  loanTermYears: z.number().int().min(1).max(40),
+  closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),   // "2026-03-15"
+  notes: z.string().nullable().default(null),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Acquisition = z.infer<typeof AcquisitionSchema>;
+
+// One month of actual results for an acquired property
+export const MonthlyActualSchema = z.object({
+  acquisitionId: z.string().uuid(),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/),   // "2026-04"
+  rentReceived: z.number().min(0),
+  expenses: z.number().min(0),                          // Operating expenses paid, excluding the mortgage payment
+  vacantDays: z.number().min(0).default(0),             // Unit-days vacant, summed over units
+  notes: z.string().nullable().default(null),
+});
+
+export type MonthlyActual = z.infer<typeof MonthlyActualSchema>;
+
+// ============================================================================
+// Deal Schema
+// ============================================================================
+
+// Where we are with the seller, separate from Property.status (pipeline processing)
+export const DealStageSchema = z.enum([
+  'watching',
+  'contacted',
+  'offer-sent',
+  'countered',
+  'under-contract',
+  'closed',
+  'passed',
+]);
+
+export type DealStage = z.infer<typeof DealStageSchema>;
+
+export const DealStageChangeSchema = z.object({
+  stage: DealStageSchema,
+  previousStage: DealStageSchema.nullable(),
+  offerAmount: z.number().positive().nullable().default(null),   // Offer or counter at this stage
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),                  // When it happened, e.g. the day the offer went out
+  note: z.string().nullable().default(null),
+  changedAt: z.string().datetime(),                               // When it was recorded
+});
+
+export type DealStageChange = z.infer<typeof DealStageChangeSchema>;
+
+// One deal per address, so a property keeps its stage when it shows up in later runs
+export const DealSchema = z.object({
+  id: z.string().uuid(),
+  addressKey: z.string(),             // Normalized address (the property ID when there is no address)
+  propertyId: z.string().uuid(),      // Most recent listing of the property
+  runId: z.string().uuid(),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  zip: z.string().nullable(),
+  stage: DealStageSchema,
+  offerAmount: z.number().positive().nullable().default(null),    // Latest offer or counter
+  notes: z.string().nullable().default(null),
+  history: z.array(DealStageChangeSchema).default([]),            // Oldest first
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Deal = z.infer<typeof DealSchema>;
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -345,10 +959,34 @@ export interface ExtractionResult {
   properties: Partial<Property>[];
   rawText: string;
   confidence: number;
-  method: 'text' | 'ocr' | 'llm';
+  method: Exclude<ExtractionMethod, 'manual'>;
   errors: string[];
 }
 
+// A word (or PDF text item) and its box on the page, top-left origin
+export interface PositionedWord {
+  text: string;
+  confidence: number;   // 0-100; 100 for text read from the PDF itself
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+// Property counts and completeness for one extraction path on a page
+export interface ExtractionPathStats {
+  properties: number;
+  confidence: number;   // ExtractionResult.confidence: share of key fields filled
+}
+
+// A page of a layout-mode run, parsed both ways
+export interface LayoutComparison {
+  page: number;
+  source: 'pdf-text' | 'ocr';
+  columns: number;
+  blocks: number;
+  text: ExtractionPathStats;
+  layout: ExtractionPathStats;
+  used: 'text' | 'layout';
+}
+
 export interface ChunkInfo {
   id: string;
   runId: string;
@@ -379,6 +1017,13 @@ export interface ZillowResult {
 // Underwriting Types
 // ============================================================================
 
+export interface LoanStructure {
+  interestOnlyMonths?: number;
+  balloonMonths?: number | null;
+  rateResetMonths?: number | null;
+  resetRate?: number | null;  // Annual rate (%) after the reset, e.g. 8.75
+}
+
 export interface UnderwritingInput {
   purchasePrice: number;
   rent: number;
@@ -391,6 +1036,25 @@ export interface UnderwritingInput {
   insuranceAnnual: number;
   vacancyPercent: number;
   maintenancePercent: number;
+  rehabCost?: number;  // Paid in cash at purchase, added to the all-in basis
+  unitCount?: number;           // Units in the building (default 1); rent is the sum of unit rents
+  unitExpenseMonthly?: number;  // Owner-paid cost per unit per month (water, common areas)
+  expenseItems?: ExpenseItem[];  // Disabled items are ignored
+  averageTenancyYears?: number;  // Default 3
+  loanStructure?: LoanStructure;  // Interest-only, balloon and rate reset terms
+  taxes?: TaxAssumptions;         // Omit for pre-tax underwriting
+}
+
+export interface TaxAssumptions {
+  marginalRatePercent: number;
+  landValuePercent: number;        // Share of price + closing costs that is land
+  rehabBonusPercent: number;       // Share of rehab deducted in year 1 (cost segregation)
+}
+
+export interface DepreciationBasis {
+  buildingBasis: number;           // Price + closing costs, less land
+  rehabCost: number;
+  rehabBonusPercent: number;
 }
 
 export interface UnderwritingResult {
@@ -398,13 +1062,20 @@ export interface UnderwritingResult {
   closingCosts: number;
   loanAmount: number;
   totalInvestment: number;
+  rehabCost: number;
+  allInCost: number;
   monthlyPI: number;
+  adjustedMonthlyPI: number;  // Payment once any interest-only period or rate reset kicks in
+  balloonPayment: number;     // Balance due at the balloon month (0 when fully amortizing)
   monthlyTaxes: number;
   monthlyInsurance: number;
   monthlyPITI: number;
   pmFee: number;
   vacancy: number;
   maintenance: number;
+  unitExpenses: number;       // Per-unit costs for the whole building
+  expenseItems: ExpenseLineItem[];
+  otherExpenses: number;      // Sum of the expense line items
   totalExpenses: number;
   netCashflow: number;
   annualCashflow: number;
@@ -412,6 +1083,133 @@ export interface UnderwritingResult {
   dscr: number;
   capRate: number;
   cocReturn: number;
+  // Year 1 income tax (null when underwriting pre-tax); losses are assumed to offset other income
+  annualInterest: number;
+  annualDepreciation: number | null;
+  taxableIncome: number | null;
+  incomeTax: number | null;
+  afterTaxCashflow: number | null;
+  afterTaxCocReturn: number | null;
+}
+
+export interface RefinanceInput {
+  arv: number;
+  ltvPercent: number;
+  interestRate: number;
+  loanTermYears: number;
+  seasoningMonths: number;
+  closingCostPercent: number;
+  prepaymentPenaltyPercent?: number;  // Charged on the purchase loan payoff
+}
+
+export interface RefinanceResult {
+  refiLoanAmount: number;
+  refiClosingCosts: number;
+  refiLoanPayoff: number;
+  prepaymentPenalty: number;
+  cashRecouped: number;
+  cashLeftInDeal: number;
+  postRefiMonthlyPI: number;
+  postRefiPITI: number;
+  postRefiCashflow: number;
+  postRefiAnnualCashflow: number;
+  postRefiDscr: number;
+  postRefiCocReturn: number;
+  infiniteReturn: boolean;
+}
+
+export type OfferConstraint = 'dscr' | 'cashflow' | 'cocReturn' | 'seventyPercentRule';
+
+export interface OfferTargets {
+  minDscr: number;
+  minMonthlyCashflow: number;
+  minCocReturn: number;
+  seventyPercentRule: boolean;  // Also cap at 70% of ARV minus rehab
+}
+
+export interface MaxOfferResult {
+  maxOffer: number | null;                          // Null when no target limits the price
+  bindingConstraint: OfferConstraint | null;
+  limits: Record<OfferConstraint, number | null>;  // Max price allowed by each target on its own (null: not applied, or no limit)
+}
+
+export interface LenderRules {
+  minLoanAmount: number;
+  maxLtvPercent: number;
+  dscrTiers: DscrTier[];
+  lowDscrRateAddOn: number;
+  smallLoanAmount: number;
+  smallLoanRateAddOn: number;
+  prepayPenaltySchedule: number[];
+  fallbackToCash: boolean;
+  rateSheet: RateSheetTier[] | null;  // null = price with the low-DSCR and small-loan add-ons
+}
+
+export interface LenderVerdict {
+  financeable: boolean;
+  reasons: string[];            // Why the loan does not qualify (empty when financeable)
+  loanAmount: number;
+  ltvPercent: number;
+  requiredDscr: number | null;  // null when the LTV is above every tier
+  dscr: number;                 // At the adjusted rate
+  rateAddOn: number;            // Percentage points added to the note rate
+  adjustedRate: number;
+  pricingTier: RateSheetTier | null;  // Rate sheet cell that priced the loan (null without a rate sheet)
+  pricingConverged: boolean;    // false when re-pricing kept jumping between tiers and the higher rate was kept
+}
+
+export interface UnderwritingScenario {
+  rent: number;
+  arv: number | null;
+  underwriting: UnderwritingResult;
+  refinance: RefinanceResult | null;
+}
+
+export type UnderwritingScenarios = Record<ScenarioName, UnderwritingScenario>;
+
+export interface LoanProgramResult {
+  programId: string;
+  name: string;
+  type: LoanProgramType;
+  underwriting: UnderwritingResult;
+}
+
+export type StressVariable = 'rate' | 'rent' | 'vacancy' | 'taxes' | 'insurance' | 'purchasePrice';
+
+// Size of the adverse shock applied to each input
+export interface StressShocks {
+  ratePoints: number;        // Interest rate up, percentage points
+  rentPercent: number;       // Rent down, %
+  vacancyPoints: number;     // Vacancy up, percentage points
+  taxPercent: number;        // Property taxes up, %
+  insurancePercent: number;  // Insurance up, %
+  pricePercent: number;      // Purchase price up, %
+}
+
+export interface StressPoint {
+  shock: number;          // Signed change applied to the input (points or %)
+  value: number;          // Input value after the shock
+  dscr: number;
+  netCashflow: number;    // Monthly
+  cocReturn: number;
+  dscrDelta: number;      // Change from the base case
+  cashflowDelta: number;
+  cocDelta: number;
+}
+
+export interface StressSensitivity {
+  variable: StressVariable;
+  baseValue: number;
+  points: StressPoint[];        // Ordered from most favorable to most adverse
+  cashflowSwing: number;        // Cashflow range across the points (tornado bar width)
+  breakevenValue: number | null;  // Input value where monthly cashflow hits zero; null if it never does
+}
+
+export interface StressTestResult {
+  base: { dscr: number; netCashflow: number; cocReturn: number };
+  sensitivities: StressSensitivity[];  // Widest cashflow swing first
+  failures: string[];                  // Full adverse shocks that break the deal
+  failsUnderStress: boolean;
 }
 
 // ============================================================================
@@ -419,14 +1217,28 @@ export interface UnderwritingResult {
 // ============================================================================
 
 export interface ForecastInput {
-  purchasePrice: number;
+  purchasePrice: number;         // Starting property value
   loanAmount: number;
-  annualCashflow: number;
+  monthlyRent: number;           // Gross rent in year 1
+  annualTaxes: number;           // Year 1, grows with expense inflation
+  annualInsurance: number;       // Year 1, grows with expense inflation
+  pmFeePercent: number;          // % of gross rent
+  vacancyPercent: number;        // % of gross rent
+  maintenancePercent: number;    // % of gross rent
+  annualUnitExpenses?: number;   // Year 1 per-unit costs, grows with expense inflation
+  otherExpensePercent?: number;  // Line items that are a share of rent, % of gross rent
+  annualOtherFixedExpenses?: number;  // Year 1 of all other line items, grows with expense inflation
   appreciationPercent: number;
   rentGrowthPercent: number;
   expenseInflationPercent: number;
+  sellingCostPercent?: number;   // % of value it would cost to sell, netted out of total return
   interestRate: number;
   loanTermYears: number;
+  loanStructure?: LoanStructure;
+  tax?: {                          // Omit for a pre-tax forecast
+    marginalRatePercent: number;
+    depreciation: DepreciationBasis;
+  };
 }
 
 export interface ForecastResult {
@@ -434,9 +1246,28 @@ export interface ForecastResult {
   propertyValue: number;
   loanBalance: number;
   equity: number;
-  annualCashflow: number;
+  grossRent: number;
+  vacancy: number;
+  propertyTaxes: number;
+  insurance: number;
+  pmFee: number;
+  maintenance: number;
+  unitExpenses: number;
+  otherExpenses: number;         // Expense line items
+  operatingExpenses: number;
+  noi: number;
+  debtService: number;
+  balloonPayment: number;
+  capex: number;                 // Capital expenditure (Monte Carlo paths only)
+  annualCashflow: number;        // NOI - debt service - balloon - capex
   cumulativeCashflow: number;
-  totalReturn: number;
+  totalReturn: number;           // Equity less selling costs, plus cumulative cashflow
+  interest: number;
+  depreciation: number | null;   // Tax fields are null for a pre-tax forecast
+  taxableIncome: number | null;
+  incomeTax: number | null;
+  afterTaxCashflow: number | null;
+  cumulativeAfterTaxCashflow: number | null;
 }
 
 export interface ForecastSummary {
@@ -446,8 +1277,111 @@ export interface ForecastSummary {
   cashflow5yr: number;
   cashflow10yr: number;
   cashflow20yr: number;
+  cumulativeAfterTaxCashflow5yr: number | null;  // null for a pre-tax forecast
+  cumulativeAfterTaxCashflow10yr: number | null;
+  cumulativeAfterTaxCashflow20yr: number | null;
   totalReturn5yr: number;
   totalReturn10yr: number;
   totalReturn20yr: number;
+  grossRent5yr: number;
+  grossRent10yr: number;
+  grossRent20yr: number;
+  operatingExpenses5yr: number;
+  operatingExpenses10yr: number;
+  operatingExpenses20yr: number;
+  noi5yr: number;
+  noi10yr: number;
+  noi20yr: number;
+  debtService5yr: number;
+  debtService10yr: number;
+  debtService20yr: number;
+  annualCashflow5yr: number;
+  annualCashflow10yr: number;
+  annualCashflow20yr: number;
   yearByYear: ForecastResult[];
 }
+
+export interface ExitAssumptions {
+  sellingCostPercent: number;        // Commission + seller closing costs, % of sale price
+  costBasis: number;                 // Purchase price + closing costs + rehab
+  taxes: {
+    capitalGainsRatePercent: number;
+    depreciationRecaptureRatePercent: number;
+    depreciation: DepreciationBasis;  // Depreciation taken while held is recaptured
+  } | null;                           // null = pre-tax sale
+}
+
+export interface ExitResult {
+  exitYear: number;
+  salePrice: number;
+  sellingCosts: number;
+  loanPayoff: number;
+  taxes: number;
+  netSaleProceeds: number;
+  totalProfit: number;               // Cumulative cashflow + net sale proceeds - cash invested
+  irr: number | null;                // null when no cash is left in the deal
+  equityMultiple: number | null;
+}
+
+export interface ExitSummary {
+  netSaleProceeds5yr: number;
+  netSaleProceeds10yr: number;
+  netSaleProceeds20yr: number;
+  totalProfit5yr: number;
+  totalProfit10yr: number;
+  totalProfit20yr: number;
+  irr5yr: number | null;
+  irr10yr: number | null;
+  irr20yr: number | null;
+  equityMultiple5yr: number | null;
+  equityMultiple10yr: number | null;
+  equityMultiple20yr: number | null;
+}
+
+// One sampled Monte Carlo path; arrays are indexed by year - 1
+export interface ForecastPath {
+  appreciationPercent: number[];
+  rentGrowthPercent: number[];
+  expenseInflationPercent: number[];
+  vacancyMonths: number[];       // Replaces vacancyPercent
+  capex: number[];
+}
+
+export interface NormalDistribution {
+  mean: number;
+  stdDev: number;
+}
+
+export interface MonteCarloAssumptions {
+  trials: number;
+  seed: number;                         // Same seed, same results
+  appreciationPercent: NormalDistribution;
+  rentGrowthPercent: NormalDistribution;
+  expenseInflationPercent: NormalDistribution;
+  vacancyMonths: NormalDistribution;    // Per year, clamped to 0-12
+  capexProbabilityPercent: number;      // Chance of a capex shock in any year
+  capexCost: number;                    // In today's dollars, grows with expense inflation
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloYear {
+  year: number;
+  equity: PercentileBand;
+  cumulativeCashflow: PercentileBand;
+}
+
+export interface MonteCarloSnapshot extends MonteCarloYear {
+  irr: PercentileBand | null;  // null when no cash is left in the deal
+}
+
+export interface MonteCarloResult {
+  trials: number;
+  seed: number;
+  yearly: MonteCarloYear[];          // Every year, for plotting bands
+  snapshots: MonteCarloSnapshot[];   // 5, 10 and 20 years
+}
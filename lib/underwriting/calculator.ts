@@ -5,7 +5,18 @@
  * All functions are deterministic with no side effects - ideal for unit testing.
  */
 
-import type { UnderwritingInput, UnderwritingResult } from '../types';
+import type {
+    UnderwritingInput, UnderwritingResult,
+    RefinanceInput, RefinanceResult,
+    ScenarioName, UnderwritingScenarios,
+    OfferTargets, OfferConstraint, MaxOfferResult,
+    LoanStructure, LoanProgram, LoanProgramResult,
+    TaxAssumptions, DepreciationBasis,
+    ExpenseItem, ExpenseLineItem,
+} from '../types';
+
+// Straight-line recovery period for residential rental property
+export const RESIDENTIAL_DEPRECIATION_YEARS = 27.5;
 
 /**
  * Calculate monthly mortgage payment (Principal + Interest)
@@ -37,30 +48,225 @@ export function calculateMonthlyPI(
 /**
  * Calculate remaining loan balance at a given month
  * 
+ * Handles an interest-only period (no principal paid), a rate reset (the balance
+ * re-amortizes over the remaining term at the new rate) and a balloon (the
+ * balance is paid off in full at the balloon month).
+ * 
  * @param principal - Original loan amount
  * @param annualRate - Annual interest rate as decimal
  * @param termYears - Loan term in years
  * @param monthsPaid - Number of months paid
+ * @param structure - Interest-only, balloon and rate reset terms (default: fully amortizing)
  * @returns Remaining balance
  */
 export function calculateRemainingBalance(
     principal: number,
     annualRate: number,
     termYears: number,
-    monthsPaid: number
+    monthsPaid: number,
+    structure: LoanStructure = {}
 ): number {
     if (principal <= 0 || monthsPaid <= 0) return principal;
 
-    const monthlyRate = annualRate / 12;
+    const { interestOnlyMonths = 0, balloonMonths = null } = structure;
     const numPayments = termYears * 12;
 
     if (monthsPaid >= numPayments) return 0;
+    if (balloonMonths !== null && monthsPaid >= balloonMonths) return 0;
+    if (monthsPaid <= interestOnlyMonths) return principal;
 
-    const balance = principal *
-        (Math.pow(1 + monthlyRate, numPayments) - Math.pow(1 + monthlyRate, monthsPaid)) /
-        (Math.pow(1 + monthlyRate, numPayments) - 1);
+    // Amortization starts once the interest-only period ends
+    const amortizingPayments = numPayments - interestOnlyMonths;
+    const amortizedMonths = monthsPaid - interestOnlyMonths;
+    const resetAt = getResetPoint(structure);
 
-    return Math.max(0, roundToCents(balance));
+    if (resetAt === null || monthsPaid <= resetAt.month) {
+        return amortizedBalance(principal, annualRate, amortizingPayments, amortizedMonths);
+    }
+
+    // Balance at the reset re-amortizes over what is left of the term at the new rate
+    const monthsBeforeReset = Math.max(0, resetAt.month - interestOnlyMonths);
+    const balanceAtReset = amortizedBalance(principal, annualRate, amortizingPayments, monthsBeforeReset);
+
+    return amortizedBalance(
+        balanceAtReset,
+        resetAt.rate,
+        amortizingPayments - monthsBeforeReset,
+        amortizedMonths - monthsBeforeReset
+    );
+}
+
+/**
+ * Calculate the scheduled principal and interest payment for a given month
+ * 
+ * @param principal - Original loan amount
+ * @param annualRate - Annual interest rate as decimal
+ * @param termYears - Loan term in years
+ * @param month - Payment number (1 = first payment)
+ * @param structure - Interest-only, balloon and rate reset terms (default: fully amortizing)
+ * @returns Scheduled payment (excludes the balloon itself; 0 once the loan is paid off)
+ */
+export function calculatePaymentAtMonth(
+    principal: number,
+    annualRate: number,
+    termYears: number,
+    month: number,
+    structure: LoanStructure = {}
+): number {
+    if (principal <= 0 || month < 1) return 0;
+
+    const { interestOnlyMonths = 0, balloonMonths = null } = structure;
+    const numPayments = termYears * 12;
+
+    if (month > numPayments) return 0;
+    if (balloonMonths !== null && month > balloonMonths) return 0;
+
+    const resetAt = getResetPoint(structure);
+    const afterReset = resetAt !== null && month > resetAt.month;
+    const rate = afterReset ? resetAt.rate : annualRate;
+
+    if (month <= interestOnlyMonths) {
+        return roundToCents(principal * rate / 12);
+    }
+
+    // Re-amortize from whichever came last: end of interest-only or the rate reset
+    const startMonth = afterReset ? Math.max(resetAt.month, interestOnlyMonths) : interestOnlyMonths;
+    const startBalance = calculateRemainingBalance(principal, annualRate, termYears, startMonth, {
+        ...structure,
+        balloonMonths: null,
+    });
+
+    return calculateMonthlyPI(startBalance, rate, (numPayments - startMonth) / 12);
+}
+
+/**
+ * Balance due when a balloon comes due (0 for a fully amortizing loan)
+ * 
+ * @param principal - Original loan amount
+ * @param annualRate - Annual interest rate as decimal
+ * @param termYears - Loan term in years
+ * @param structure - Interest-only, balloon and rate reset terms
+ * @returns Balloon payment
+ */
+export function calculateBalloonPayment(
+    principal: number,
+    annualRate: number,
+    termYears: number,
+    structure: LoanStructure = {}
+): number {
+    if (!structure.balloonMonths) return 0;
+    return calculateRemainingBalance(principal, annualRate, termYears, structure.balloonMonths, {
+        ...structure,
+        balloonMonths: null,
+    });
+}
+
+/**
+ * Interest paid during one loan year (payments plus any balloon, less principal repaid)
+ * 
+ * @param principal - Original loan amount
+ * @param annualRate - Annual interest rate as decimal
+ * @param termYears - Loan term in years
+ * @param year - Loan year (1 = first twelve payments)
+ * @param structure - Interest-only, balloon and rate reset terms
+ * @returns Interest paid that year
+ */
+export function calculateAnnualInterest(
+    principal: number,
+    annualRate: number,
+    termYears: number,
+    year: number,
+    structure: LoanStructure = {}
+): number {
+    if (principal <= 0) return 0;
+
+    let payments = 0;
+    for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+        payments += calculatePaymentAtMonth(principal, annualRate, termYears, month, structure);
+    }
+
+    const { balloonMonths = null } = structure;
+    const balloon = balloonMonths !== null && Math.ceil(balloonMonths / 12) === year
+        ? calculateBalloonPayment(principal, annualRate, termYears, structure)
+        : 0;
+
+    const startBalance = calculateRemainingBalance(principal, annualRate, termYears, (year - 1) * 12, structure);
+    const endBalance = calculateRemainingBalance(principal, annualRate, termYears, year * 12, structure);
+
+    return Math.max(0, roundToCents(payments + balloon - (startBalance - endBalance)));
+}
+
+/**
+ * Depreciable basis of a purchase: the building (not the land) plus rehab
+ * 
+ * @param purchasePrice - Purchase price
+ * @param closingCosts - Purchase closing costs (capitalized into the basis)
+ * @param rehabCost - Rehab cost
+ * @param taxes - Tax assumptions
+ * @returns Depreciation basis
+ */
+export function getDepreciationBasis(
+    purchasePrice: number,
+    closingCosts: number,
+    rehabCost: number,
+    taxes: TaxAssumptions
+): DepreciationBasis {
+    return {
+        buildingBasis: roundToCents((purchasePrice + closingCosts) * (1 - taxes.landValuePercent / 100)),
+        rehabCost,
+        rehabBonusPercent: taxes.rehabBonusPercent,
+    };
+}
+
+/**
+ * Depreciation deduction for one year of ownership: 27.5-year straight line,
+ * plus the cost-segregated share of rehab taken as bonus depreciation in year 1
+ * 
+ * @param basis - Depreciation basis
+ * @param year - Year of ownership (1 = first year)
+ * @returns Depreciation for that year
+ */
+export function calculateDepreciation(basis: DepreciationBasis, year: number): number {
+    const bonus = basis.rehabCost * (basis.rehabBonusPercent / 100);
+    const straightLineBasis = basis.buildingBasis + basis.rehabCost - bonus;
+    const fullYear = straightLineBasis / RESIDENTIAL_DEPRECIATION_YEARS;
+    const fullYears = Math.floor(RESIDENTIAL_DEPRECIATION_YEARS);
+
+    let straightLine = 0;
+    if (year >= 1 && year <= fullYears) {
+        straightLine = fullYear;
+    } else if (year === fullYears + 1) {
+        straightLine = straightLineBasis - fullYear * fullYears;  // Final partial year
+    }
+
+    return roundToCents(straightLine + (year === 1 ? bonus : 0));
+}
+
+/**
+ * Monthly cost of one expense line item
+ * 
+ * @param item - Expense item
+ * @param rent - Monthly gross rent
+ * @param purchasePrice - Purchase price (value-based items are a yearly % of it)
+ * @param unitCount - Units in the building; each unit turns over on its own
+ * @param averageTenancyYears - Years between turnovers of a unit
+ * @returns Monthly cost
+ */
+export function calculateExpenseItem(
+    item: ExpenseItem,
+    rent: number,
+    purchasePrice: number,
+    unitCount: number = 1,
+    averageTenancyYears: number = 3
+): number {
+    switch (item.type) {
+        case 'fixed': return roundToCents(item.amount);
+        case 'percentOfRent': return roundToCents(rent * (item.amount / 100));
+        case 'percentOfValue': return roundToCents((purchasePrice * (item.amount / 100)) / 12);
+        case 'perTurnover': return averageTenancyYears > 0
+            ? roundToCents((item.amount * unitCount) / (averageTenancyYears * 12))
+            : 0;
+    }
 }
 
 /**
@@ -82,54 +288,103 @@ export function calculateUnderwriting(input: UnderwritingInput): UnderwritingRes
         insuranceAnnual,
         vacancyPercent,
         maintenancePercent,
+        rehabCost = 0,
+        unitCount = 1,
+        unitExpenseMonthly = 0,
+        expenseItems = [],
+        averageTenancyYears = 3,
+        loanStructure = {},
+        taxes,
     } = input;
 
-    // Calculate loan structure
+    // Calculate loan structure (rehab is funded in cash, not by the purchase loan)
     const downPayment = roundToCents(purchasePrice * (downPaymentPercent / 100));
     const closingCosts = roundToCents(purchasePrice * (closingCostPercent / 100));
     const loanAmount = purchasePrice - downPayment;
-    const totalInvestment = downPayment + closingCosts;
+    const totalInvestment = downPayment + closingCosts + rehabCost;
+    const allInCost = purchasePrice + closingCosts + rehabCost;
+
+    // Underwrite on the first payment; also surface the payment after any IO period or reset
+    const monthlyPI = calculatePaymentAtMonth(loanAmount, interestRate / 100, loanTermYears, 1, loanStructure);
+    const adjustedMonthlyPI = calculateAdjustedPayment(loanAmount, interestRate / 100, loanTermYears, loanStructure);
+    const balloonPayment = calculateBalloonPayment(loanAmount, interestRate / 100, loanTermYears, loanStructure);
 
     // Calculate monthly fixed costs
-    const monthlyPI = calculateMonthlyPI(loanAmount, interestRate / 100, loanTermYears);
     const monthlyTaxes = roundToCents((purchasePrice * (propertyTaxRate / 100)) / 12);
     const monthlyInsurance = roundToCents(insuranceAnnual / 12);
     const monthlyPITI = monthlyPI + monthlyTaxes + monthlyInsurance;
 
-    // Calculate monthly variable costs (based on rent)
+    // Calculate monthly variable costs (based on rent). Rent is the sum of the
+    // unit rents, so this is the same as taking the percentages unit by unit.
     const pmFee = roundToCents(rent * (pmFeePercent / 100));
     const vacancy = roundToCents(rent * (vacancyPercent / 100));
     const maintenance = roundToCents(rent * (maintenancePercent / 100));
 
+    // Owner-paid costs per unit (multi-unit buildings only)
+    const unitExpenses = unitCount > 1 ? roundToCents(unitCount * unitExpenseMonthly) : 0;
+
+    // Itemized expenses (capex reserve, utilities, HOA, ...)
+    const lineItems: ExpenseLineItem[] = expenseItems
+        .filter(item => item.enabled)
+        .map(item => ({
+            ...item,
+            monthly: calculateExpenseItem(item, rent, purchasePrice, unitCount, averageTenancyYears),
+        }));
+    const otherExpenses = roundToCents(lineItems.reduce((sum, item) => sum + item.monthly, 0));
+
     // Total monthly expenses
-    const totalExpenses = monthlyPITI + pmFee + vacancy + maintenance;
+    const totalExpenses = monthlyPITI + pmFee + vacancy + maintenance + unitExpenses + otherExpenses;
 
     // Cash flow
     const netCashflow = roundToCents(rent - totalExpenses);
     const annualCashflow = roundToCents(netCashflow * 12);
 
     // NOI (Net Operating Income) - before debt service
-    const operatingExpenses = pmFee + vacancy + maintenance + monthlyTaxes + monthlyInsurance;
+    const operatingExpenses = pmFee + vacancy + maintenance + unitExpenses + otherExpenses + monthlyTaxes + monthlyInsurance;
     const monthlyNOI = rent - operatingExpenses;
     const annualNOI = roundToCents(monthlyNOI * 12);
 
     // Key ratios
     const dscr = monthlyPI > 0 ? roundToDecimal(monthlyNOI / monthlyPI, 2) : 0;
-    const capRate = purchasePrice > 0 ? roundToDecimal((annualNOI / purchasePrice) * 100, 2) : 0;
+    const capRate = purchasePrice + rehabCost > 0 ? roundToDecimal((annualNOI / (purchasePrice + rehabCost)) * 100, 2) : 0;
     const cocReturn = totalInvestment > 0 ? roundToDecimal((annualCashflow / totalInvestment) * 100, 2) : 0;
 
+    // Year 1 income tax: NOI less mortgage interest and depreciation, at the marginal rate
+    const annualInterest = calculateAnnualInterest(loanAmount, interestRate / 100, loanTermYears, 1, loanStructure);
+    let annualDepreciation: number | null = null;
+    let taxableIncome: number | null = null;
+    let incomeTax: number | null = null;
+    let afterTaxCashflow: number | null = null;
+    let afterTaxCocReturn: number | null = null;
+
+    if (taxes) {
+        const basis = getDepreciationBasis(purchasePrice, closingCosts, rehabCost, taxes);
+        annualDepreciation = calculateDepreciation(basis, 1);
+        taxableIncome = roundToCents(annualNOI - annualInterest - annualDepreciation);
+        incomeTax = roundToCents(taxableIncome * (taxes.marginalRatePercent / 100));
+        afterTaxCashflow = roundToCents(annualCashflow - incomeTax);
+        afterTaxCocReturn = calculateCoCReturn(afterTaxCashflow, totalInvestment);
+    }
+
     return {
         downPayment,
         closingCosts,
         loanAmount,
         totalInvestment,
+        rehabCost,
+        allInCost,
         monthlyPI,
+        adjustedMonthlyPI,
+        balloonPayment,
         monthlyTaxes,
         monthlyInsurance,
         monthlyPITI,
         pmFee,
         vacancy,
         maintenance,
+        unitExpenses,
+        expenseItems: lineItems,
+        otherExpenses,
         totalExpenses,
         netCashflow,
         annualCashflow,
@@ -137,9 +392,222 @@ export function calculateUnderwriting(input: UnderwritingInput): UnderwritingRes
         dscr,
         capRate,
         cocReturn,
+        annualInterest,
+        annualDepreciation,
+        taxableIncome,
+        incomeTax,
+        afterTaxCashflow,
+        afterTaxCocReturn,
     };
 }
 
+/**
+ * Calculate the cash-out refinance step of a BRRRR deal
+ *
+ * After the seasoning period the purchase loan is paid off by a new loan at
+ * a percentage of ARV. Whatever is left after payoff, refi closing costs and any
+ * prepayment penalty comes back to the investor; the remainder of the original
+ * cash stays in the deal.
+ *
+ * @param input - Purchase underwriting input (rent and expense assumptions are reused)
+ * @param purchase - Result of calculateUnderwriting for the same input
+ * @param refinance - Refinance terms
+ * @returns Post-refinance metrics
+ */
+export function calculateRefinance(
+    input: UnderwritingInput,
+    purchase: UnderwritingResult,
+    refinance: RefinanceInput
+): RefinanceResult {
+    const {
+        arv,
+        ltvPercent,
+        interestRate,
+        loanTermYears,
+        seasoningMonths,
+        closingCostPercent,
+        prepaymentPenaltyPercent = 0,
+    } = refinance;
+
+    const refiLoanAmount = roundToCents(arv * (ltvPercent / 100));
+    const refiClosingCosts = roundToCents(refiLoanAmount * (closingCostPercent / 100));
+    const refiLoanPayoff = calculateRemainingBalance(
+        purchase.loanAmount,
+        input.interestRate / 100,
+        input.loanTermYears,
+        seasoningMonths,
+        { ...input.loanStructure, balloonMonths: null }  // The refi replaces the loan before any balloon
+    );
+
+    const prepaymentPenalty = roundToCents(refiLoanPayoff * (prepaymentPenaltyPercent / 100));
+
+    const cashOut = refiLoanAmount - refiLoanPayoff - refiClosingCosts - prepaymentPenalty;
+    const cashRecouped = roundToCents(Math.max(0, cashOut));
+    // A short refi (new loan below payoff) has to be covered with more cash
+    const cashLeftInDeal = roundToCents(purchase.totalInvestment - cashOut);
+
+    const postRefiMonthlyPI = calculateMonthlyPI(refiLoanAmount, interestRate / 100, loanTermYears);
+    const postRefiPITI = roundToCents(postRefiMonthlyPI + purchase.monthlyTaxes + purchase.monthlyInsurance);
+
+    const operatingCosts = purchase.pmFee + purchase.vacancy + purchase.maintenance + purchase.unitExpenses + purchase.otherExpenses;
+    const postRefiCashflow = roundToCents(input.rent - postRefiPITI - operatingCosts);
+    const postRefiAnnualCashflow = roundToCents(postRefiCashflow * 12);
+
+    const monthlyNOI = purchase.annualNOI / 12;
+    const postRefiDscr = postRefiMonthlyPI > 0 ? roundToDecimal(monthlyNOI / postRefiMonthlyPI, 2) : 0;
+
+    // All cash pulled back out: CoC is undefined (infinite) rather than a number
+    const infiniteReturn = cashLeftInDeal <= 0 && postRefiCashflow > 0;
+    const postRefiCocReturn = cashLeftInDeal > 0
+        ? roundToDecimal((postRefiAnnualCashflow / cashLeftInDeal) * 100, 2)
+        : 0;
+
+    return {
+        refiLoanAmount,
+        refiClosingCosts,
+        refiLoanPayoff,
+        prepaymentPenalty,
+        cashRecouped,
+        cashLeftInDeal,
+        postRefiMonthlyPI,
+        postRefiPITI,
+        postRefiCashflow,
+        postRefiAnnualCashflow,
+        postRefiDscr,
+        postRefiCocReturn,
+        infiniteReturn,
+    };
+}
+
+/**
+ * Underwrite a property at the low end, midpoint and high end of its rent range.
+ * When refinance terms and an ARV range are given, each scenario also refinances
+ * at the matching end of the ARV range.
+ *
+ * @param input - Underwriting input (its rent is replaced per scenario)
+ * @param rentRange - Low and high monthly rent
+ * @param refinance - Refinance terms, or null to skip the refinance step
+ * @param arvRange - Low and high ARV, or null when no ARV is known
+ * @returns Underwriting results keyed by scenario
+ */
+export function calculateRangeScenarios(
+    input: UnderwritingInput,
+    rentRange: { min: number; max: number },
+    refinance: RefinanceInput | null,
+    arvRange: { min: number; max: number } | null
+): UnderwritingScenarios {
+    const pick = (range: { min: number; max: number }, scenario: ScenarioName): number => {
+        if (scenario === 'conservative') return range.min;
+        if (scenario === 'optimistic') return range.max;
+        return roundToCents((range.min + range.max) / 2);
+    };
+
+    const build = (scenario: ScenarioName) => {
+        const rent = pick(rentRange, scenario);
+        const arv = arvRange ? pick(arvRange, scenario) : null;
+        const scenarioInput = { ...input, rent };
+        const underwriting = calculateUnderwriting(scenarioInput);
+        const refi = refinance && arv
+            ? calculateRefinance(scenarioInput, underwriting, { ...refinance, arv })
+            : null;
+
+        return { rent, arv, underwriting, refinance: refi };
+    };
+
+    return {
+        conservative: build('conservative'),
+        base: build('base'),
+        optimistic: build('optimistic'),
+    };
+}
+
+/**
+ * Apply a loan program's financing terms to an underwriting input
+ * 
+ * @param input - Underwriting input (rent and expense assumptions are kept)
+ * @param program - Loan program
+ * @returns Input financed under the program
+ */
+export function applyLoanProgram(input: UnderwritingInput, program: LoanProgram): UnderwritingInput {
+    return {
+        ...input,
+        downPaymentPercent: program.downPaymentPercent,
+        interestRate: program.interestRate,
+        loanTermYears: program.loanTermYears,
+        closingCostPercent: program.closingCostPercent ?? input.closingCostPercent,
+        loanStructure: {
+            interestOnlyMonths: program.interestOnlyMonths,
+            balloonMonths: program.balloonMonths,
+            rateResetMonths: program.rateResetMonths,
+            resetRate: program.resetRate,
+        },
+    };
+}
+
+/**
+ * Underwrite a property under each loan program and pick the best one.
+ * 
+ * The best program has the highest cash-on-cash return at the adjusted payment
+ * (ties go to the higher monthly cashflow), so a teaser rate or interest-only
+ * period does not win on its first-year payment alone. A program whose balloon
+ * comes due within the horizon cannot win unless a refinance pays the loan off
+ * first; the balloon is not in its cash-on-cash return.
+ * 
+ * @param input - Underwriting input (financing terms are replaced per program)
+ * @param programs - Loan programs to compare (at least one)
+ * @param options - Hold horizon in months, and the seasoning of the refinance exit if there is one
+ * @returns Result per program, in program order, and the best program with its result
+ */
+export function calculateProgramComparison(
+    input: UnderwritingInput,
+    programs: LoanProgram[],
+    options: { horizonMonths?: number; refinanceSeasoningMonths?: number | null } = {}
+): { results: LoanProgramResult[]; best: LoanProgram; bestResult: LoanProgramResult } {
+    if (programs.length === 0) {
+        throw new Error('At least one loan program is required');
+    }
+
+    const { horizonMonths = Infinity, refinanceSeasoningMonths = null } = options;
+
+    const results = programs.map(program => ({
+        programId: program.id,
+        name: program.name,
+        type: program.type,
+        underwriting: calculateUnderwriting(applyLoanProgram(input, program)),
+    }));
+
+    const balloonDue = (program: LoanProgram) =>
+        program.balloonMonths !== null
+        && program.balloonMonths <= horizonMonths
+        && !(refinanceSeasoningMonths !== null && refinanceSeasoningMonths < program.balloonMonths);
+
+    const score = ({ underwriting }: LoanProgramResult) => {
+        const paymentIncrease = Math.max(0, underwriting.adjustedMonthlyPI - underwriting.monthlyPI);
+        const adjustedCashflow = underwriting.netCashflow - paymentIncrease;
+        return {
+            cocReturn: calculateCoCReturn(adjustedCashflow * 12, underwriting.totalInvestment),
+            cashflow: adjustedCashflow,
+        };
+    };
+
+    // Balloon programs compete only when every program has one
+    const candidates = results
+        .map((_, i) => i)
+        .filter(i => !balloonDue(programs[i]));
+    const eligible = candidates.length > 0 ? candidates : results.map((_, i) => i);
+
+    let bestIndex = eligible[0];
+    for (const i of eligible) {
+        const best = score(results[bestIndex]);
+        const { cocReturn, cashflow } = score(results[i]);
+        if (cocReturn > best.cocReturn || (cocReturn === best.cocReturn && cashflow > best.cashflow)) {
+            bestIndex = i;
+        }
+    }
+
+    return { results, best: programs[bestIndex], bestResult: results[bestIndex] };
+}
+
 /**
  * Calculate Debt Service Coverage Ratio (DSCR)
  * DSCR = Net Operating Income / Debt Service
@@ -218,6 +686,79 @@ export function calculateMaxPurchasePrice(
     return roundToCents(purchasePrice);
 }
 
+/**
+ * Solve for the maximum purchase price that still meets every offer target,
+ * using the full expense model of calculateUnderwriting (taxes scale with price).
+ *
+ * DSCR, cashflow and CoC all fall as price rises, so each target is solved
+ * independently by bisection and the lowest limit wins. A target that still
+ * holds at the search ceiling sets no limit.
+ *
+ * @param input - Underwriting input (purchasePrice is ignored)
+ * @param targets - Offer targets
+ * @param arv - After-repair value for the 70% rule, or null to skip it
+ * @returns Max offer (null when no target limits the price), the binding constraint and the limit from each target
+ */
+export function calculateMaxAllowableOffer(
+    input: UnderwritingInput,
+    targets: OfferTargets,
+    arv: number | null
+): MaxOfferResult {
+    const meets: Record<Exclude<OfferConstraint, 'seventyPercentRule'>, (price: number) => boolean> = {
+        dscr: price => calculateUnderwriting({ ...input, purchasePrice: price }).dscr >= targets.minDscr,
+        cashflow: price => calculateUnderwriting({ ...input, purchasePrice: price }).netCashflow >= targets.minMonthlyCashflow,
+        cocReturn: price => calculateUnderwriting({ ...input, purchasePrice: price }).cocReturn >= targets.minCocReturn,
+    };
+
+    const limits: Record<OfferConstraint, number | null> = {
+        dscr: input.downPaymentPercent < 100 ? solveMaxPrice(meets.dscr, input.rent) : null,  // No loan, no DSCR
+        cashflow: solveMaxPrice(meets.cashflow, input.rent),
+        cocReturn: solveMaxPrice(meets.cocReturn, input.rent),
+        seventyPercentRule: targets.seventyPercentRule && arv
+            ? Math.max(0, Math.floor(arv * 0.7 - (input.rehabCost ?? 0)))
+            : null,
+    };
+
+    let maxOffer = Infinity;
+    let bindingConstraint: OfferConstraint | null = null;
+
+    for (const [constraint, limit] of Object.entries(limits) as [OfferConstraint, number | null][]) {
+        if (limit !== null && limit < maxOffer) {
+            maxOffer = limit;
+            bindingConstraint = constraint;
+        }
+    }
+
+    return {
+        maxOffer: Number.isFinite(maxOffer) ? maxOffer : null,
+        bindingConstraint,
+        limits,
+    };
+}
+
+/**
+ * Bisect for the highest whole-dollar price where a monotone-decreasing target still holds.
+ * Null when it still holds at the ceiling: the target does not limit the price.
+ */
+function solveMaxPrice(meetsTarget: (price: number) => boolean, rent: number): number | null {
+    let low = 1000;
+    let high = Math.max(rent * 240, 100000); // 20 years of gross rent is well past any sane price
+
+    if (!meetsTarget(low)) return 0;
+    if (meetsTarget(high)) return null;
+
+    while (high - low > 1) {
+        const mid = Math.floor((low + high) / 2);
+        if (meetsTarget(mid)) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    return low;
+}
+
 /**
  * Validate underwriting inputs
  */
@@ -247,12 +788,70 @@ export function validateUnderwritingInput(input: Partial<UnderwritingInput>): {
         errors.push('Loan term must be between 1 and 40 years');
     }
 
+    if (input.rehabCost !== undefined && input.rehabCost < 0) {
+        errors.push('Rehab cost cannot be negative');
+    }
+
     return {
         valid: errors.length === 0,
         errors,
     };
 }
 
+// ============================================================================
+// Loan Schedule Helpers
+// ============================================================================
+
+/**
+ * Month after which the rate resets, and the new rate as a decimal (null when the rate is fixed)
+ */
+function getResetPoint(structure: LoanStructure): { month: number; rate: number } | null {
+    const { rateResetMonths = null, resetRate = null } = structure;
+    if (rateResetMonths === null || resetRate === null) return null;
+    return { month: rateResetMonths, rate: resetRate / 100 };
+}
+
+/**
+ * Balance of a fully amortizing loan after monthsPaid of numPayments payments
+ */
+function amortizedBalance(
+    principal: number,
+    annualRate: number,
+    numPayments: number,
+    monthsPaid: number
+): number {
+    if (monthsPaid <= 0) return principal;
+    if (monthsPaid >= numPayments) return 0;
+    if (annualRate <= 0) return roundToCents(principal * (1 - monthsPaid / numPayments));
+
+    const monthlyRate = annualRate / 12;
+    const balance = principal *
+        (Math.pow(1 + monthlyRate, numPayments) - Math.pow(1 + monthlyRate, monthsPaid)) /
+        (Math.pow(1 + monthlyRate, numPayments) - 1);
+
+    return Math.max(0, roundToCents(balance));
+}
+
+/**
+ * Payment once the interest-only period and any initial fixed-rate period are over.
+ * Equals the first payment for a plain fixed-rate loan, and stays at the last
+ * scheduled payment when a balloon comes due first.
+ */
+function calculateAdjustedPayment(
+    principal: number,
+    annualRate: number,
+    termYears: number,
+    structure: LoanStructure
+): number {
+    const { interestOnlyMonths = 0, balloonMonths = null } = structure;
+    const resetAt = getResetPoint(structure);
+
+    let month = Math.max(interestOnlyMonths, resetAt?.month ?? 0) + 1;
+    if (balloonMonths !== null) month = Math.min(month, balloonMonths);
+
+    return calculatePaymentAtMonth(principal, annualRate, termYears, month, structure);
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -0,0 +1,285 @@
+/**
+ * DSCR Lender Qualification
+ * 
+ * Pure functions that check a DSCR loan against lender rules: minimum loan
+ * size, maximum LTV, minimum DSCR by LTV tier, pricing (rate add-ons for low
+ * DSCR or small loans, or a full rate sheet), and the prepayment penalty
+ * charged on an early refinance.
+ */
+
+import type {
+    UnderwritingInput, UnderwritingResult,
+    LoanProgram, LenderRules, LenderVerdict, DscrTier, RateSheetTier,
+} from '../types';
+import { calculateUnderwriting, applyLoanProgram } from './calculator';
+
+// Used when no financeable program is left and lender rules fall back to cash
+const CASH_FALLBACK_PROGRAM: LoanProgram = {
+    id: 'cash-fallback',
+    name: 'All cash (not financeable)',
+    type: 'cash',
+    enabled: true,
+    downPaymentPercent: 100,
+    interestRate: 0,
+    loanTermYears: 30,
+    interestOnlyMonths: 0,
+    balloonMonths: null,
+    rateResetMonths: null,
+    resetRate: null,
+    closingCostPercent: null,
+};
+
+// Re-pricing passes before settling on a rate sheet rate
+const MAX_PRICING_ITERATIONS = 10;
+
+interface LoanPricing {
+    input: UnderwritingInput;
+    underwriting: UnderwritingResult;
+    rateAddOn: number;
+    tier: RateSheetTier | null;
+    converged: boolean;
+}
+
+/**
+ * Minimum DSCR for a given LTV: the lowest tier whose max LTV covers it
+ * 
+ * @param ltvPercent - Loan-to-value as a percentage
+ * @param tiers - DSCR tiers in any order
+ * @returns Required DSCR, or null when the LTV is above every tier
+ */
+export function getRequiredDscr(ltvPercent: number, tiers: DscrTier[]): number | null {
+    const tier = [...tiers]
+        .sort((a, b) => a.maxLtvPercent - b.maxLtvPercent)
+        .find(t => ltvPercent <= t.maxLtvPercent);
+
+    return tier ? tier.minDscr : null;
+}
+
+/**
+ * Rate sheet cell that prices a loan: among the cells the loan falls in, the
+ * one with the highest DSCR floor, then the lowest LTV cap, then the highest
+ * loan size floor
+ *
+ * @param dscr - Loan DSCR
+ * @param ltvPercent - Loan-to-value as a percentage
+ * @param loanAmount - Loan amount
+ * @param sheet - Rate sheet cells in any order
+ * @returns Pricing cell, or null when no cell covers the loan
+ */
+export function findRateSheetTier(
+    dscr: number,
+    ltvPercent: number,
+    loanAmount: number,
+    sheet: RateSheetTier[]
+): RateSheetTier | null {
+    const matches = sheet
+        .filter(t => dscr >= t.minDscr && ltvPercent <= t.maxLtvPercent && loanAmount >= t.minLoanAmount)
+        .sort((a, b) =>
+            b.minDscr - a.minDscr ||
+            a.maxLtvPercent - b.maxLtvPercent ||
+            b.minLoanAmount - a.minLoanAmount
+        );
+
+    return matches[0] ?? null;
+}
+
+/**
+ * Short label for a rate sheet cell, e.g. "DSCR 1.00+ / LTV ≤ 80% / $100,000+"
+ */
+export function formatRateSheetTier(tier: RateSheetTier): string {
+    return `DSCR ${tier.minDscr.toFixed(2)}+ / LTV ≤ ${tier.maxLtvPercent}% / $${tier.minLoanAmount.toLocaleString()}+`;
+}
+
+/**
+ * Check a DSCR loan against lender rules.
+ * 
+ * The rate is priced first (see priceWithAddOns and priceFromRateSheet), then
+ * the loan is checked at that rate.
+ * 
+ * @param input - Underwriting input financed with the DSCR loan
+ * @param rules - Lender rules
+ * @returns Verdict, plus the input and underwriting at the adjusted rate
+ */
+export function checkLenderQualification(
+    input: UnderwritingInput,
+    rules: LenderRules
+): { verdict: LenderVerdict; input: UnderwritingInput; underwriting: UnderwritingResult } {
+    const loanAmount = calculateUnderwriting(input).loanAmount;
+    const ltvPercent = input.purchasePrice > 0
+        ? roundToDecimal((loanAmount / input.purchasePrice) * 100, 2)
+        : 0;
+
+    const pricing = rules.rateSheet
+        ? priceFromRateSheet(input, ltvPercent, rules.rateSheet)
+        : priceWithAddOns(input, rules);
+    const underwriting = pricing.underwriting;
+
+    const requiredDscr = getRequiredDscr(ltvPercent, rules.dscrTiers);
+    const reasons: string[] = [];
+
+    if (loanAmount < rules.minLoanAmount) {
+        reasons.push(`Loan $${Math.round(loanAmount).toLocaleString()} is below the $${rules.minLoanAmount.toLocaleString()} minimum`);
+    }
+
+    if (ltvPercent > rules.maxLtvPercent) {
+        reasons.push(`LTV ${ltvPercent}% exceeds the ${rules.maxLtvPercent}% maximum`);
+    }
+
+    if (rules.rateSheet && !pricing.tier) {
+        reasons.push(`No rate sheet tier prices DSCR ${underwriting.dscr.toFixed(2)} at ${ltvPercent}% LTV`);
+    }
+
+    if (requiredDscr === null) {
+        reasons.push(`No DSCR tier covers ${ltvPercent}% LTV`);
+    } else if (underwriting.dscr < requiredDscr) {
+        reasons.push(`DSCR ${underwriting.dscr.toFixed(2)} is below the ${requiredDscr.toFixed(2)} required at ${ltvPercent}% LTV`);
+    }
+
+    return {
+        verdict: {
+            financeable: reasons.length === 0,
+            reasons,
+            loanAmount,
+            ltvPercent,
+            requiredDscr,
+            dscr: underwriting.dscr,
+            rateAddOn: pricing.rateAddOn,
+            adjustedRate: pricing.input.interestRate,
+            pricingTier: pricing.tier,
+            pricingConverged: pricing.converged,
+        },
+        input: pricing.input,
+        underwriting,
+    };
+}
+
+/**
+ * Price with the low-DSCR and small-loan add-ons. An add-on raises the
+ * payment, which lowers DSCR and can trigger the low-DSCR add-on, so the rate
+ * is re-priced until it stops changing.
+ */
+function priceWithAddOns(input: UnderwritingInput, rules: LenderRules): LoanPricing {
+    let rateAddOn = 0;
+    let adjustedInput = input;
+    let underwriting = calculateUnderwriting(input);
+
+    for (let i = 0; i < 3; i++) {
+        const addOn =
+            (underwriting.dscr < 1.0 ? rules.lowDscrRateAddOn : 0) +
+            (underwriting.loanAmount < rules.smallLoanAmount ? rules.smallLoanRateAddOn : 0);
+
+        if (addOn <= rateAddOn) break;
+
+        rateAddOn = addOn;
+        adjustedInput = { ...input, interestRate: input.interestRate + rateAddOn };
+        underwriting = calculateUnderwriting(adjustedInput);
+    }
+
+    return { input: adjustedInput, underwriting, rateAddOn, tier: null, converged: true };
+}
+
+/**
+ * Price from a rate sheet. The loan's own DSCR picks the cell, the cell's rate
+ * changes the payment and so the DSCR, so the loan is re-priced until the cell
+ * stops changing. If the rate keeps jumping between cells, the highest rate
+ * in the cycle is kept.
+ */
+function priceFromRateSheet(input: UnderwritingInput, ltvPercent: number, sheet: RateSheetTier[]): LoanPricing {
+    const baseRate = input.interestRate;
+    const priced = (tier: RateSheetTier | null): LoanPricing => {
+        const rateAddOn = tier?.rateAdjustment ?? 0;
+        const pricedInput = { ...input, interestRate: roundToDecimal(baseRate + rateAddOn, 3) };
+        return {
+            input: pricedInput,
+            underwriting: calculateUnderwriting(pricedInput),
+            rateAddOn,
+            tier,
+            converged: true,
+        };
+    };
+
+    let pricing = priced(null);
+    const tried: LoanPricing[] = [];
+
+    for (let i = 0; i < MAX_PRICING_ITERATIONS; i++) {
+        const { dscr, loanAmount } = pricing.underwriting;
+        const tier = findRateSheetTier(dscr, ltvPercent, loanAmount, sheet);
+
+        // The cell implied by this rate is the one that priced it
+        if (i > 0 && tier === pricing.tier) return pricing;
+        if (i === 0 && (tier?.rateAdjustment ?? 0) === 0) return { ...pricing, tier };
+
+        const cycle = tried.find(p => p.tier === tier);
+        if (cycle) {
+            const looping = tried.slice(tried.indexOf(cycle));
+            const highest = looping.reduce((max, p) => (p.input.interestRate > max.input.interestRate ? p : max));
+            return { ...highest, converged: false };
+        }
+
+        pricing = priced(tier);
+        tried.push(pricing);
+    }
+
+    return { ...pricing, converged: false };
+}
+
+/**
+ * Prepayment penalty for paying the loan off after monthsHeld
+ * 
+ * @param schedule - Penalty as % of payoff for loan year 1, 2, ...
+ * @param monthsHeld - Months since closing
+ * @returns Penalty percentage (0 once the schedule has run out)
+ */
+export function getPrepaymentPenaltyPercent(schedule: number[], monthsHeld: number): number {
+    const loanYear = Math.floor(Math.max(0, monthsHeld) / 12);
+    return schedule[loanYear] ?? 0;
+}
+
+/**
+ * Apply lender rules to the DSCR programs in a list of loan programs.
+ * 
+ * DSCR programs are re-priced with any rate add-ons. Unfinanceable DSCR
+ * programs are dropped when the rules fall back to cash (an all-cash purchase
+ * stands in if nothing is left), otherwise they are kept and only flagged.
+ * 
+ * @param input - Underwriting input (financing terms are replaced per program)
+ * @param programs - Loan programs to check
+ * @param rules - Lender rules
+ * @returns Programs to underwrite and the verdict for the first DSCR program (null if none)
+ */
+export function applyLenderRules(
+    input: UnderwritingInput,
+    programs: LoanProgram[],
+    rules: LenderRules
+): { programs: LoanProgram[]; verdict: LenderVerdict | null } {
+    let verdict: LenderVerdict | null = null;
+    const qualified: LoanProgram[] = [];
+
+    for (const program of programs) {
+        if (program.type !== 'dscr') {
+            qualified.push(program);
+            continue;
+        }
+
+        const check = checkLenderQualification(applyLoanProgram(input, program), rules);
+        verdict = verdict ?? check.verdict;
+
+        if (check.verdict.financeable || !rules.fallbackToCash) {
+            qualified.push({ ...program, interestRate: check.verdict.adjustedRate });
+        }
+    }
+
+    return {
+        programs: qualified.length > 0 ? qualified : [CASH_FALLBACK_PROGRAM],
+        verdict,
+    };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function roundToDecimal(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
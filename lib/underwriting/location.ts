@@ -0,0 +1,207 @@
+/**
+ * Property Tax and Insurance by Location
+ *
+ * Looks up the property tax rate and insurance estimate for a property in a
+ * table keyed by ZIP, city or county, falling back to the global settings.
+ * Insurance can be scaled by square footage and surcharged for older homes.
+ * Also parses the table from CSV.
+ */
+
+import { LocationRateSchema } from '../types';
+import { parseCsv, normalizeCsvHeader } from '../parser/csv';
+import type { Property, Settings, LocationRate } from '../types';
+
+export interface LocationCosts {
+    propertyTaxRate: number;
+    insuranceAnnual: number;
+    propertyTaxSource: string | null;  // Table row that set the tax rate (null = global setting)
+    insuranceSource: string | null;    // Table row that set insurance (null = global setting)
+}
+
+// Most specific first
+const MATCH_ORDER: LocationRate['match'][] = ['zip', 'city', 'county'];
+
+/**
+ * The most specific table row for a property that sets a value
+ *
+ * @param property - Property to look up (uses zip, city and county)
+ * @param rates - Location table
+ * @param field - Value the row must set
+ * @returns Matching row, or null when no row applies
+ */
+export function findLocationRate(
+    property: Pick<Property, 'zip' | 'city' | 'county'>,
+    rates: LocationRate[],
+    field: 'propertyTaxRate' | 'insuranceAnnual'
+): LocationRate | null {
+    const keys: Record<LocationRate['match'], string | null> = {
+        zip: property.zip ? normalizeLocation('zip', property.zip) : null,
+        city: property.city ? normalizeLocation('city', property.city) : null,
+        county: property.county ? normalizeLocation('county', property.county) : null,
+    };
+
+    for (const match of MATCH_ORDER) {
+        const key = keys[match];
+        if (!key) continue;
+
+        const row = rates.find(rate =>
+            rate.match === match &&
+            rate[field] !== null &&
+            normalizeLocation(match, rate.value) === key
+        );
+        if (row) return row;
+    }
+
+    return null;
+}
+
+/**
+ * Tax rate and insurance for a property: table rows where they exist, the
+ * global settings otherwise, with insurance scaling applied when enabled
+ *
+ * @param property - Property being underwritten
+ * @param settings - Settings with the location table and global values
+ * @returns Tax rate, insurance and the rows that supplied them
+ */
+export function getLocationCosts(property: Property, settings: Settings): LocationCosts {
+    const rates = settings.locationRates ?? [];
+    const taxRow = findLocationRate(property, rates, 'propertyTaxRate');
+    const insuranceRow = findLocationRate(property, rates, 'insuranceAnnual');
+
+    const insurance = insuranceRow?.insuranceAnnual ?? settings.insuranceAnnual;
+
+    return {
+        propertyTaxRate: taxRow?.propertyTaxRate ?? settings.propertyTaxRate,
+        insuranceAnnual: settings.insuranceScalingEnabled ? scaleInsurance(insurance, property, settings) : insurance,
+        propertyTaxSource: taxRow ? formatLocationRate(taxRow) : null,
+        insuranceSource: insuranceRow ? formatLocationRate(insuranceRow) : null,
+    };
+}
+
+/**
+ * Scale an insurance estimate to a property's size (linear in sqft against the
+ * base size) and add the old-home surcharge. Unknown sqft or year leaves that step out.
+ */
+export function scaleInsurance(
+    insuranceAnnual: number,
+    property: Pick<Property, 'sqft' | 'yearBuilt'>,
+    settings: Pick<Settings, 'insuranceBaseSqft' | 'insuranceOldHomeYear' | 'insuranceOldHomeSurchargePercent'>
+): number {
+    let scaled = insuranceAnnual;
+
+    if (property.sqft && settings.insuranceBaseSqft > 0) {
+        scaled *= property.sqft / settings.insuranceBaseSqft;
+    }
+    if (property.yearBuilt && property.yearBuilt < settings.insuranceOldHomeYear) {
+        scaled *= 1 + settings.insuranceOldHomeSurchargePercent / 100;
+    }
+
+    return Math.round(scaled * 100) / 100;
+}
+
+/**
+ * Label for a table row, e.g. "ZIP 35208", "Bessemer (city)", "Jefferson County"
+ */
+export function formatLocationRate(rate: LocationRate): string {
+    switch (rate.match) {
+        case 'zip': return `ZIP ${rate.value}`;
+        case 'city': return `${rate.value} (city)`;
+        case 'county': return `${rate.value.replace(/\s+county$/i, '')} County`;
+    }
+}
+
+function normalizeLocation(match: LocationRate['match'], value: string): string {
+    const trimmed = value.trim().toLowerCase();
+
+    switch (match) {
+        case 'zip': return trimmed.substring(0, 5);
+        case 'city': return trimmed.replace(/\s+/g, ' ');
+        case 'county': return trimmed.replace(/\s+county$/, '').replace(/\s+/g, ' ');
+    }
+}
+
+// ============================================================================
+// CSV Import
+// ============================================================================
+
+// Accepted header names for each column (lowercase letters and digits only)
+const CSV_COLUMNS: Record<keyof LocationRate, string[]> = {
+    match: ['match', 'type', 'keytype'],
+    value: ['value', 'key', 'location', 'zip', 'city', 'county'],
+    propertyTaxRate: ['propertytaxrate', 'taxrate', 'tax'],
+    insuranceAnnual: ['insuranceannual', 'insurance'],
+};
+
+/**
+ * Parse a location table from CSV.
+ *
+ * The first line is a header naming the columns match (zip, city or county),
+ * value, propertyTaxRate and insuranceAnnual. A blank tax or insurance cell
+ * leaves that value to the global setting. Bad lines are skipped and reported.
+ *
+ * @param csv - CSV text
+ * @returns Parsed rows and a message for each skipped line
+ */
+export function parseLocationRatesCsv(csv: string): { rates: LocationRate[]; errors: string[] } {
+    const rows = parseCsv(csv);
+    const rates: LocationRate[] = [];
+    const errors: string[] = [];
+
+    if (rows.length === 0) {
+        return { rates, errors: ['CSV is empty'] };
+    }
+
+    const header = normalizeCsvHeader(rows[0]);
+    const columnIndex = (column: keyof LocationRate) => header.findIndex(cell => CSV_COLUMNS[column].includes(cell));
+    const columns = {
+        match: columnIndex('match'),
+        value: columnIndex('value'),
+        propertyTaxRate: columnIndex('propertyTaxRate'),
+        insuranceAnnual: columnIndex('insuranceAnnual'),
+    };
+
+    if (columns.match < 0 || columns.value < 0) {
+        return { rates, errors: ['CSV header needs "match" and "value" columns'] };
+    }
+    if (columns.propertyTaxRate < 0 && columns.insuranceAnnual < 0) {
+        return { rates, errors: ['CSV header needs a "propertyTaxRate" or "insuranceAnnual" column'] };
+    }
+
+    rows.slice(1).forEach((cells, i) => {
+        const cell = (index: number) => (index >= 0 ? cells[index]?.trim() ?? '' : '');
+        const number = (index: number) => {
+            const text = cell(index).replace(/[$,%]/g, '');
+            return text === '' ? null : parseFloat(text);
+        };
+
+        const parsed = LocationRateSchema.safeParse({
+            match: cell(columns.match).toLowerCase(),
+            value: cell(columns.value),
+            propertyTaxRate: number(columns.propertyTaxRate),
+            insuranceAnnual: number(columns.insuranceAnnual),
+        });
+
+        const lineNumber = i + 2;
+        if (!parsed.success) {
+            errors.push(`Line ${lineNumber}: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+        } else if (parsed.data.value === '') {
+            errors.push(`Line ${lineNumber}: missing value`);
+        } else if (parsed.data.propertyTaxRate === null && parsed.data.insuranceAnnual === null) {
+            errors.push(`Line ${lineNumber}: no tax rate or insurance`);
+        } else {
+            rates.push(parsed.data);
+        }
+    });
+
+    return { rates, errors };
+}
+
+/**
+ * Add rows to a table, replacing any row for the same ZIP, city or county
+ */
+export function mergeLocationRates(existing: LocationRate[], incoming: LocationRate[]): LocationRate[] {
+    const key = (rate: LocationRate) => `${rate.match}:${normalizeLocation(rate.match, rate.value)}`;
+    const incomingKeys = new Set(incoming.map(key));
+
+    return [...existing.filter(rate => !incomingKeys.has(key(rate))), ...incoming];
+}
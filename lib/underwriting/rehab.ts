@@ -0,0 +1,83 @@
+/**
+ * Rehab Estimator
+ *
+ * Prices a listing's repair items against the rehab cost catalog to give our
+ * own rehab estimate, independent of the wholesaler's "Rehab Needed" figure.
+ */
+
+import type { Property, Settings, RehabCostItem, RehabLineItem, RehabEstimate } from '../types';
+
+/**
+ * Catalog entry for a repair item: the first entry with a keyword in the item
+ * text (whole words, case-insensitive), or null
+ */
+export function matchRehabCostItem(item: string, catalog: RehabCostItem[]): RehabCostItem | null {
+    const text = item.toLowerCase();
+
+    return catalog.find(entry =>
+        entry.keywords.some(keyword => {
+            const escaped = keyword.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            return escaped !== '' && new RegExp(`(?:^|[^a-z0-9])${escaped}(?:$|[^a-z0-9])`).test(text);
+        })
+    ) ?? null;
+}
+
+/**
+ * Price a repair list
+ *
+ * @param items - Repair items from the listing
+ * @param property - Building size (sqft and unit count)
+ * @param settings - Catalog, contingency, unmatched-item allowance and fallback sqft
+ * @returns Line items, subtotal, contingency and total (whole dollars)
+ */
+export function estimateRehab(
+    items: string[],
+    property: Pick<Property, 'sqft'> & { unitCount?: number },
+    settings: Pick<Settings, 'rehabCatalog' | 'rehabContingencyPercent' | 'rehabUnmatchedItemCost' | 'rehabDefaultSqft'>
+): RehabEstimate {
+    const sqft = property.sqft ?? settings.rehabDefaultSqft;
+    const unitCount = property.unitCount ?? 1;
+    const counted = new Set<string>();
+
+    const lineItems: RehabLineItem[] = items.map(item => {
+        const entry = matchRehabCostItem(item, settings.rehabCatalog);
+
+        if (!entry) {
+            return { item, catalogId: null, name: item, cost: settings.rehabUnmatchedItemCost };
+        }
+
+        // "Roof" and "roof leak" are one roof
+        const cost = counted.has(entry.id) ? 0 : getCatalogCost(entry, sqft, unitCount);
+        counted.add(entry.id);
+
+        return { item, catalogId: entry.id, name: entry.name, cost };
+    });
+
+    const subtotal = lineItems.reduce((sum, line) => sum + line.cost, 0);
+    const contingency = Math.round(subtotal * settings.rehabContingencyPercent / 100);
+
+    return {
+        lineItems,
+        subtotal,
+        contingency,
+        total: subtotal + contingency,
+    };
+}
+
+/**
+ * Our rehab estimate for a property, or null when the listing has no repair list
+ */
+export function getRehabEstimate(property: Property, settings: Settings): RehabEstimate | null {
+    const items = property.repairItems ?? [];
+    if (items.length === 0) return null;
+
+    return estimateRehab(items, property, settings);
+}
+
+function getCatalogCost(entry: RehabCostItem, sqft: number, unitCount: number): number {
+    switch (entry.basis) {
+        case 'fixed': return Math.round(entry.cost);
+        case 'perSqft': return Math.round(entry.cost * sqft);
+        case 'perUnit': return Math.round(entry.cost * unitCount);
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * Stress Testing
+ *
+ * Pure functions that re-run calculateUnderwriting with one input shocked at a
+ * time (rate, rent, vacancy, taxes, insurance, purchase price). Produces
+ * tornado-style deltas for DSCR, cashflow and CoC, the breakeven value of each
+ * input, and whether the deal survives the full adverse shocks.
+ */
+
+import type {
+    Analysis, UnderwritingInput, UnderwritingResult, LoanProgram,
+    StressVariable, StressShocks, StressPoint, StressSensitivity, StressTestResult,
+} from '../types';
+import { calculateUnderwriting } from './calculator';
+
+const STRESS_VARIABLES: StressVariable[] = ['rate', 'rent', 'vacancy', 'taxes', 'insurance', 'purchasePrice'];
+
+const STRESS_LABELS: Record<StressVariable, string> = {
+    rate: 'Rate',
+    rent: 'Rent',
+    vacancy: 'Vacancy',
+    taxes: 'Taxes',
+    insurance: 'Insurance',
+    purchasePrice: 'Price',
+};
+
+// Shock steps as fractions of the full adverse shock, most favorable first
+const SHOCK_STEPS = [-1, -0.5, 0.5, 1];
+
+// ============================================================================
+// Shocks
+// ============================================================================
+
+/**
+ * Current value of a stressed input (rate and tax rate in %, rent monthly, insurance annual)
+ */
+export function getStressValue(input: UnderwritingInput, variable: StressVariable): number {
+    switch (variable) {
+        case 'rate': return input.interestRate;
+        case 'rent': return input.rent;
+        case 'vacancy': return input.vacancyPercent;
+        case 'taxes': return input.propertyTaxRate;
+        case 'insurance': return input.insuranceAnnual;
+        case 'purchasePrice': return input.purchasePrice;
+    }
+}
+
+/**
+ * Replace one input with a new value. A rate change also moves any ARM reset rate.
+ */
+export function setStressValue(input: UnderwritingInput, variable: StressVariable, value: number): UnderwritingInput {
+    switch (variable) {
+        case 'rate': {
+            const shift = value - input.interestRate;
+            const structure = input.loanStructure;
+            return {
+                ...input,
+                interestRate: value,
+                loanStructure: structure && structure.resetRate !== null && structure.resetRate !== undefined
+                    ? { ...structure, resetRate: Math.max(0, structure.resetRate + shift) }
+                    : structure,
+            };
+        }
+        case 'rent': return { ...input, rent: value };
+        case 'vacancy': return { ...input, vacancyPercent: value };
+        case 'taxes': return { ...input, propertyTaxRate: value };
+        case 'insurance': return { ...input, insuranceAnnual: value };
+        case 'purchasePrice': return { ...input, purchasePrice: value };
+    }
+}
+
+/**
+ * Input value after a signed shock: percentage points for rate and vacancy,
+ * percent of the base value for everything else
+ */
+function getShockedValue(input: UnderwritingInput, variable: StressVariable, shock: number): number {
+    const base = getStressValue(input, variable);
+
+    switch (variable) {
+        case 'rate': return Math.max(0, base + shock);
+        case 'vacancy': return Math.min(100, Math.max(0, base + shock));
+        default: return Math.max(0, base * (1 + shock / 100));
+    }
+}
+
+/**
+ * Full adverse shock for a variable, signed in the direction that hurts the deal
+ */
+function getAdverseShock(variable: StressVariable, shocks: StressShocks): number {
+    switch (variable) {
+        case 'rate': return shocks.ratePoints;
+        case 'rent': return -shocks.rentPercent;
+        case 'vacancy': return shocks.vacancyPoints;
+        case 'taxes': return shocks.taxPercent;
+        case 'insurance': return shocks.insurancePercent;
+        case 'purchasePrice': return shocks.pricePercent;
+    }
+}
+
+function formatShock(variable: StressVariable, shock: number): string {
+    const unit = variable === 'rate' || variable === 'vacancy' ? ' pts' : '%';
+    return `${STRESS_LABELS[variable]} ${shock >= 0 ? '+' : ''}${shock}${unit}`;
+}
+
+// ============================================================================
+// Stress Test
+// ============================================================================
+
+/**
+ * Run the stress grid for one property.
+ *
+ * Each variable is shocked on its own at -100%, -50%, +50% and +100% of its
+ * adverse shock. The deal fails under stress when any full adverse shock
+ * pushes monthly cashflow below zero or (when there is a loan) DSCR below minDscr.
+ *
+ * @param input - Underwriting input for the deal as financed
+ * @param shocks - Full adverse shock sizes
+ * @param minDscr - DSCR the deal must still meet under stress
+ * @returns Base metrics, sensitivities (widest cashflow swing first) and failures
+ */
+export function runStressTest(
+    input: UnderwritingInput,
+    shocks: StressShocks,
+    minDscr: number
+): StressTestResult {
+    const base = calculateUnderwriting(input);
+    const hasLoan = base.loanAmount > 0;
+    const failures: string[] = [];
+
+    const sensitivities = STRESS_VARIABLES.map((variable): StressSensitivity => {
+        const adverseShock = getAdverseShock(variable, shocks);
+
+        const points = SHOCK_STEPS.map((step): StressPoint => {
+            const shock = roundToDecimal(adverseShock * step, 2);
+            const value = getShockedValue(input, variable, shock);
+            const stressed = calculateUnderwriting(setStressValue(input, variable, value));
+
+            return {
+                shock,
+                value: roundToDecimal(value, 2),
+                dscr: stressed.dscr,
+                netCashflow: stressed.netCashflow,
+                cocReturn: stressed.cocReturn,
+                dscrDelta: roundToDecimal(stressed.dscr - base.dscr, 2),
+                cashflowDelta: roundToDecimal(stressed.netCashflow - base.netCashflow, 2),
+                cocDelta: roundToDecimal(stressed.cocReturn - base.cocReturn, 2),
+            };
+        });
+
+        const worst = points[points.length - 1];
+        const problems: string[] = [];
+        if (worst.netCashflow < 0) {
+            problems.push(`cashflow -$${Math.abs(Math.round(worst.netCashflow)).toLocaleString()}/mo`);
+        }
+        if (hasLoan && worst.dscr < minDscr) {
+            problems.push(`DSCR ${worst.dscr.toFixed(2)}`);
+        }
+        if (adverseShock !== 0 && problems.length > 0) {
+            failures.push(`${formatShock(variable, worst.shock)}: ${problems.join(', ')}`);
+        }
+
+        const cashflows = [base.netCashflow, ...points.map(p => p.netCashflow)];
+
+        return {
+            variable,
+            baseValue: getStressValue(input, variable),
+            points,
+            cashflowSwing: roundToDecimal(Math.max(...cashflows) - Math.min(...cashflows), 2),
+            breakevenValue: findBreakevenValue(input, variable, base),
+        };
+    });
+
+    sensitivities.sort((a, b) => b.cashflowSwing - a.cashflowSwing);
+
+    return {
+        base: { dscr: base.dscr, netCashflow: base.netCashflow, cocReturn: base.cocReturn },
+        sensitivities,
+        failures,
+        failsUnderStress: failures.length > 0,
+    };
+}
+
+/**
+ * Input value at which monthly cashflow crosses zero, found by bisection.
+ * Returns null when cashflow keeps the same sign across the whole search range
+ * (e.g. the rate on an all-cash deal).
+ */
+export function findBreakevenValue(
+    input: UnderwritingInput,
+    variable: StressVariable,
+    base: UnderwritingResult = calculateUnderwriting(input)
+): number | null {
+    const cashflowAt = (value: number) =>
+        calculateUnderwriting(setStressValue(input, variable, value)).netCashflow;
+
+    if (variable === 'rate' && base.loanAmount <= 0) return null;
+
+    let [low, high] = getSearchRange(input, variable);
+
+    const lowPositive = cashflowAt(low) >= 0;
+    if (lowPositive === cashflowAt(high) >= 0) return null;
+
+    for (let i = 0; i < 60 && high - low > 0.0001; i++) {
+        const mid = (low + high) / 2;
+        if ((cashflowAt(mid) >= 0) === lowPositive) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    return roundToDecimal((low + high) / 2, 2);
+}
+
+/**
+ * Bounds wide enough that cashflow changes sign inside them if it ever will
+ */
+function getSearchRange(input: UnderwritingInput, variable: StressVariable): [number, number] {
+    const annualRent = input.rent * 12;
+
+    switch (variable) {
+        case 'rate': return [0, 30];
+        case 'rent': return [0, Math.max(input.rent * 10, 10000)];
+        case 'vacancy': return [0, 100];
+        case 'taxes': return [0, input.purchasePrice > 0 ? (annualRent / input.purchasePrice) * 100 * 2 : 100];
+        case 'insurance': return [0, annualRent * 2];
+        case 'purchasePrice': return [0, Math.max(input.rent * 240, 100000)];
+    }
+}
+
+// ============================================================================
+// Analysis Input
+// ============================================================================
+
+/**
+ * Rebuild the underwriting input a saved analysis was calculated from.
+ * The saved rate is kept (it includes any lender add-on); only the loan
+ * structure comes from the program.
+ *
+ * @param analysis - Saved analysis
+ * @param program - The analysis's loan program, if it is still configured
+ * @returns Underwriting input
+ */
+export function getStressInput(analysis: Analysis, program?: LoanProgram): UnderwritingInput {
+    return {
+        purchasePrice: analysis.purchasePrice,
+        rent: analysis.monthlyRent,
+        downPaymentPercent: analysis.downPaymentPercent,
+        closingCostPercent: analysis.closingCostPercent,
+        interestRate: analysis.interestRate,
+        loanTermYears: analysis.loanTermYears,
+        pmFeePercent: analysis.pmFeePercent,
+        propertyTaxRate: analysis.propertyTaxRate,
+        insuranceAnnual: analysis.insuranceAnnual,
+        vacancyPercent: analysis.vacancyPercent,
+        maintenancePercent: analysis.maintenancePercent,
+        rehabCost: analysis.rehabCost,
+        unitCount: analysis.unitCount,
+        unitExpenseMonthly: analysis.unitCount > 1 ? analysis.unitExpenses / analysis.unitCount : 0,
+        expenseItems: analysis.expenseItems,
+        averageTenancyYears: analysis.averageTenancyYears,
+        loanStructure: program
+            ? {
+                interestOnlyMonths: program.interestOnlyMonths,
+                balloonMonths: program.balloonMonths,
+                rateResetMonths: program.rateResetMonths,
+                resetRate: program.resetRate,
+            }
+            : undefined,
+    };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function roundToDecimal(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
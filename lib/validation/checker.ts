@@ -1,4 +1,6 @@
-import type { Property } from '../types';
+import type { Property, PaymentStandard } from '../types';
+import { checkRentAgainstPaymentStandard } from './payment-standards';
+import { findComps, checkAgainstComps } from '../comps/finder';
 
 export interface ValidationResult {
     valid: boolean;
@@ -6,11 +8,21 @@ export interface ValidationResult {
     shouldFlag: boolean;
 }
 
+export interface ValidationOptions {
+    paymentStandards?: PaymentStandard[];    // Empty or missing skips the payment standard check
+    paymentStandardTolerancePercent?: number;
+    compHistory?: Property[];                // Earlier runs' properties; empty or missing skips the comps check
+    compsMinSampleSize?: number;
+    compsOutlierPercent?: number;
+}
+
 /**
  * Validate extracted property data using sanity checks.
- * Catches impossible/suspicious values that indicate hallucination.
+ * Catches impossible/suspicious values that indicate hallucination,
+ * rents above what the housing authority will pay, and rents or prices
+ * far from comparable properties in earlier runs.
  */
-export function validatePropertyData(property: Partial<Property>): ValidationResult {
+export function validatePropertyData(property: Partial<Property>, options: ValidationOptions = {}): ValidationResult {
     const issues: string[] = [];
 
     // Price range check for Birmingham Section 8 market
@@ -63,6 +75,27 @@ export function validatePropertyData(property: Partial<Property>): ValidationRes
         }
     }
 
+    // Rent vs voucher payment standard for the ZIP and bedroom count
+    if (options.paymentStandards && options.paymentStandards.length > 0) {
+        const issue = checkRentAgainstPaymentStandard(
+            property,
+            options.paymentStandards,
+            options.paymentStandardTolerancePercent ?? 0
+        );
+        if (issue) {
+            issues.push(issue);
+        }
+    }
+
+    // Rent and price vs our own history in the same ZIP / city
+    if (options.compHistory && options.compHistory.length > 0) {
+        const minSampleSize = options.compsMinSampleSize ?? 3;
+        const comps = findComps(property, options.compHistory, minSampleSize);
+        if (comps) {
+            issues.push(...checkAgainstComps(property, comps, options.compsOutlierPercent ?? 35, minSampleSize));
+        }
+    }
+
     // ARV range sanity check
     if (property.arvMin && property.arvMax) {
         if (property.arvMin > property.arvMax) {
@@ -90,7 +123,7 @@ export function validatePropertyData(property: Partial<Property>): ValidationRes
 /**
  * Batch validate multiple properties
  */
-export function validateProperties(properties: Partial<Property>[]): {
+export function validateProperties(properties: Partial<Property>[], options: ValidationOptions = {}): {
     validCount: number;
     flaggedCount: number;
     results: Map<string, ValidationResult>;
@@ -100,7 +133,7 @@ export function validateProperties(properties: Partial<Property>[]): {
     let flaggedCount = 0;
 
     for (const property of properties) {
-        const result = validatePropertyData(property);
+        const result = validatePropertyData(property, options);
         if (property.id) {
             results.set(property.id, result);
         }
@@ -0,0 +1,209 @@
+/**
+ * Voucher Payment Standards
+ *
+ * The "Estimated Section 8 Rent" on a wholesaler list is the wholesaler's
+ * claim. The housing authority pays no more than its payment standard for the
+ * unit's ZIP and bedroom count, so rent is checked (and optionally capped)
+ * against a table imported from HUD Small Area FMR or PHA payment standard CSVs.
+ */
+
+import { PaymentStandardSchema } from '../types';
+import type { Property, PaymentStandard } from '../types';
+import { parseCsv, normalizeCsvHeader } from '../parser/csv';
+
+// HUD prices each bedroom past the largest published size at 15% of that size's FMR
+const EXTRA_BEDROOM_FACTOR = 0.15;
+
+export interface RentLimit {
+    amount: number;   // Payment standard for the whole property (sum over units)
+    label: string;    // e.g. "3BR, ZIP 35208" or "2BR + 2BR, ZIP 35208"
+    source: string;
+}
+
+/**
+ * Payment standard for one unit, or null when the ZIP is not in the table
+ *
+ * @param standards - Payment standard table
+ * @param zip - ZIP code (ZIP+4 is accepted)
+ * @param bedrooms - Bedroom count of the unit
+ * @returns Monthly payment standard and its source, or null
+ */
+export function findPaymentStandard(
+    standards: PaymentStandard[],
+    zip: string,
+    bedrooms: number
+): { amount: number; source: string } | null {
+    const zip5 = zip.trim().substring(0, 5);
+    const rows = standards.filter(standard => standard.zip === zip5);
+    if (rows.length === 0) return null;
+
+    const exact = rows.find(standard => standard.bedrooms === bedrooms);
+    if (exact) return { amount: exact.amount, source: exact.source };
+
+    // Larger than anything published: extrapolate from the largest size
+    const largest = rows.reduce((max, standard) => (standard.bedrooms > max.bedrooms ? standard : max));
+    if (bedrooms > largest.bedrooms) {
+        const amount = largest.amount * (1 + EXTRA_BEDROOM_FACTOR * (bedrooms - largest.bedrooms));
+        return { amount: Math.round(amount), source: largest.source };
+    }
+
+    return null;
+}
+
+/**
+ * Payment standard for a whole property. Multi-unit buildings need the bedroom
+ * count of every unit; otherwise the limit is unknown.
+ *
+ * @param property - Property with zip, bedrooms and unit breakdown
+ * @param standards - Payment standard table
+ * @returns Rent limit, or null when it cannot be determined
+ */
+export function getRentLimit(
+    property: Pick<Property, 'zip' | 'bedrooms'> & Partial<Pick<Property, 'unitCount' | 'units'>>,
+    standards: PaymentStandard[]
+): RentLimit | null {
+    if (!property.zip || standards.length === 0) return null;
+
+    const unitCount = property.unitCount ?? 1;
+    const units = property.units ?? [];
+    const unitBedrooms = unitCount > 1
+        ? (units.length === unitCount && units.every(unit => unit.bedrooms !== null) ? units.map(unit => unit.bedrooms!) : null)
+        : (property.bedrooms !== null && property.bedrooms !== undefined ? [property.bedrooms] : null);
+    if (!unitBedrooms) return null;
+
+    let amount = 0;
+    let source = '';
+    for (const bedrooms of unitBedrooms) {
+        const standard = findPaymentStandard(standards, property.zip, bedrooms);
+        if (!standard) return null;
+        amount += standard.amount;
+        source = standard.source;
+    }
+
+    return {
+        amount,
+        label: `${unitBedrooms.map(bedrooms => `${bedrooms}BR`).join(' + ')}, ZIP ${property.zip.trim().substring(0, 5)}`,
+        source,
+    };
+}
+
+/**
+ * Issue text when the listed rent is more than the tolerance above the payment
+ * standard, or null when it is within it (or there is no standard to check)
+ */
+export function checkRentAgainstPaymentStandard(
+    property: Partial<Property>,
+    standards: PaymentStandard[],
+    tolerancePercent: number
+): string | null {
+    const rent = property.rentMax ?? property.rent;
+    if (!rent) return null;
+
+    const limit = getRentLimit({
+        zip: property.zip ?? null,
+        bedrooms: property.bedrooms ?? null,
+        unitCount: property.unitCount,
+        units: property.units,
+    }, standards);
+    if (!limit || rent <= limit.amount * (1 + tolerancePercent / 100)) return null;
+
+    const overPercent = Math.round((rent / limit.amount - 1) * 100);
+    return `Rent $${rent.toLocaleString()} is ${overPercent}% above the $${limit.amount.toLocaleString()} payment standard (${limit.label})`;
+}
+
+// ============================================================================
+// CSV Import
+// ============================================================================
+
+// One row per ZIP and bedroom count ("zip,bedrooms,amount")
+const LONG_COLUMNS = {
+    zip: ['zip', 'zipcode', 'zcta'],
+    bedrooms: ['bedrooms', 'beds', 'br', 'bedroomsize', 'unitsize'],
+    amount: ['amount', 'paymentstandard', 'standard', 'fmr', 'safmr', 'rent'],
+};
+
+// One row per ZIP with a column per bedroom count, as in HUD's SAFMR files
+// ("SAFMR 2BR"). The 90% / 110% payment standard columns do not match.
+const BEDROOM_COLUMN = /^(?:safmr|fmr|ps|paymentstandard)?(\d)(?:br|bd|bed|beds|bedroom|bedrooms)$/;
+
+/**
+ * Parse a payment standard table from CSV.
+ *
+ * Accepts HUD's wide layout (a ZIP column plus "SAFMR 0BR" ... "SAFMR 4BR") or
+ * a long layout (zip, bedrooms, amount). Amounts are scaled by `percent`, e.g.
+ * 110 for a housing authority that pays 110% of the Small Area FMR.
+ *
+ * @param csv - CSV text
+ * @param source - Label stored with each row, e.g. "HUD SAFMR FY2026"
+ * @param percent - Percentage of the listed amount to store
+ * @returns Parsed rows and a message for each skipped line
+ */
+export function parsePaymentStandardsCsv(
+    csv: string,
+    source: string,
+    percent = 100
+): { standards: PaymentStandard[]; errors: string[] } {
+    const rows = parseCsv(csv);
+    const standards: PaymentStandard[] = [];
+    const errors: string[] = [];
+
+    if (rows.length === 0) {
+        return { standards, errors: ['CSV is empty'] };
+    }
+
+    const header = normalizeCsvHeader(rows[0]);
+    const zipColumn = header.findIndex(cell => LONG_COLUMNS.zip.includes(cell));
+    if (zipColumn < 0) {
+        return { standards, errors: ['CSV header needs a ZIP column'] };
+    }
+
+    // Bedroom count for each amount column
+    const bedroomColumns = header
+        .map((cell, index) => ({ index, match: cell.match(BEDROOM_COLUMN) }))
+        .filter(column => column.match)
+        .map(column => ({ index: column.index, bedrooms: parseInt(column.match![1], 10) }));
+
+    const bedroomsColumn = header.findIndex(cell => LONG_COLUMNS.bedrooms.includes(cell));
+    const amountColumn = header.findIndex(cell => LONG_COLUMNS.amount.includes(cell));
+
+    if (bedroomColumns.length === 0 && (bedroomsColumn < 0 || amountColumn < 0)) {
+        return { standards, errors: ['CSV header needs bedroom columns (e.g. "SAFMR 2BR") or "bedrooms" and "amount" columns'] };
+    }
+
+    const parseAmount = (text: string | undefined) => {
+        const cleaned = (text ?? '').replace(/[$,\s]/g, '');
+        return cleaned === '' ? null : parseFloat(cleaned);
+    };
+
+    rows.slice(1).forEach((cells, i) => {
+        const lineNumber = i + 2;
+        const zip = (cells[zipColumn] ?? '').trim().padStart(5, '0').substring(0, 5);
+        if (!/^\d{5}$/.test(zip)) {
+            errors.push(`Line ${lineNumber}: invalid ZIP "${cells[zipColumn] ?? ''}"`);
+            return;
+        }
+
+        const entries = bedroomColumns.length > 0
+            ? bedroomColumns.map(column => ({ bedrooms: column.bedrooms, amount: parseAmount(cells[column.index]) }))
+            : [{ bedrooms: parseInt(cells[bedroomsColumn] ?? '', 10), amount: parseAmount(cells[amountColumn]) }];
+
+        for (const entry of entries) {
+            if (entry.amount === null) continue;
+
+            const parsed = PaymentStandardSchema.safeParse({
+                zip,
+                bedrooms: entry.bedrooms,
+                amount: Math.round(entry.amount * percent / 100),
+                source,
+            });
+
+            if (parsed.success) {
+                standards.push(parsed.data);
+            } else {
+                errors.push(`Line ${lineNumber}: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+            }
+        }
+    });
+
+    return { standards, errors };
+}
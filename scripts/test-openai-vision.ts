@@ -1,22 +1,26 @@
 /**
- * Test script to verify OpenAI Vision extraction is working
+ * Test script to verify LLM vision extraction is working with the provider
+ * and model from settings
  */
 
 import * as fs from 'fs/promises';
 import path from 'path';
 import { pdfPageToImage } from '../lib/ocr/tesseract';
-import { extractPropertiesWithLLM, getOpenAIClient } from '../lib/llm/openai';
+import { getAllSettings } from '../lib/db/sqlite';
+import { mergeSettings, parseStoredSettings } from '../lib/filter/engine';
+import { getLlmExtractor } from '../lib/llm/providers';
 
 async function main() {
-    console.log('Testing OpenAI Vision extraction...\n');
+    console.log('Testing LLM vision extraction...\n');
 
-    // Check if API key is available
-    const client = getOpenAIClient();
-    if (!client) {
-        console.error('ERROR: OpenAI client not configured. Check OPENAI_API_KEY in .env.local');
+    // Check if the provider has an API key (or base URL / fixtures)
+    const settings = mergeSettings(parseStoredSettings(getAllSettings()));
+    const llm = getLlmExtractor(settings);
+    if (!llm) {
+        console.error(`ERROR: ${settings.llmProvider} is not configured. Check its API key in .env.local`);
         process.exit(1);
     }
-    console.log('✓ OpenAI client configured\n');
+    console.log(`✓ ${llm.provider} configured (${llm.model})\n`);
 
     // Test PDF to image conversion
     const pdfPath = path.join(process.cwd(), 'data/uploads/Section8List12_19_25.pdf');
@@ -36,12 +40,12 @@ async function main() {
         }
         console.log('✓ PDF converted to image:', imageResult.imagePath);
 
-        // Read the image and send to OpenAI
-        console.log('Sending image to OpenAI Vision API...');
+        // Read the image and send to the model
+        console.log(`Sending image to ${llm.provider}...`);
         const imgBuffer = await fs.readFile(imageResult.imagePath);
 
         try {
-            const result = await extractPropertiesWithLLM(imgBuffer, pageNum);
+            const result = await llm.extractPropertiesWithLLM(imgBuffer, pageNum);
             console.log('✓ Properties found:', result.properties.length);
 
             if (result.properties.length > 0) {
@@ -53,7 +57,7 @@ async function main() {
                 return;
             }
         } catch (err) {
-            console.error('ERROR: OpenAI extraction failed:', err);
+            console.error('ERROR: LLM extraction failed:', err);
         }
 
         // Cleanup
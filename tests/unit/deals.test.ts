@@ -0,0 +1,27 @@
+import { moveDeal } from '../../lib/deals/stages';
+import type { Property } from '../../lib/types';
+
+const property = { id: 'p1', runId: 'r1', address: '1611 15th Ave N', city: 'Birmingham', state: 'AL', zip: '35204' } as Property;
+const now = new Date('2026-10-01T12:00:00Z');
+
+describe('moveDeal', () => {
+  const offered = moveDeal(null, property, { stage: 'offer-sent', offerAmount: 85000 }, now);
+
+  it('keeps the last offer when the move leaves it out', () => {
+    const deal = moveDeal(offered, property, { stage: 'countered', note: 'Seller wants 92k' }, now);
+
+    expect(deal.offerAmount).toBe(85000);
+    expect(deal.history.map(change => change.offerAmount)).toEqual([85000, null]);
+  });
+
+  it('clears the offer when the move sends null', () => {
+    const deal = moveDeal(offered, property, { stage: 'passed', offerAmount: null }, now);
+
+    expect(deal.offerAmount).toBeNull();
+    expect(deal.history[1]).toMatchObject({ stage: 'passed', previousStage: 'offer-sent', offerAmount: null });
+  });
+
+  it('replaces the offer with a new one', () => {
+    expect(moveDeal(offered, property, { stage: 'countered', offerAmount: 90000 }, now).offerAmount).toBe(90000);
+  });
+});
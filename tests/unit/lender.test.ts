@@ -0,0 +1,162 @@
+import { applyLenderRules, checkLenderQualification, getPrepaymentPenaltyPercent, getRequiredDscr } from '../../lib/underwriting/lender';
+import { getRankingFlags } from '../../lib/ranking/scorer';
+import type { Analysis, LenderRules, LoanProgram, UnderwritingInput } from '../../lib/types';
+
+const input: UnderwritingInput = {
+  purchasePrice: 100000,
+  rent: 1300,
+  downPaymentPercent: 25,
+  closingCostPercent: 3,
+  interestRate: 7.5,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+};
+
+const rules: LenderRules = {
+  minLoanAmount: 50000,
+  maxLtvPercent: 80,
+  dscrTiers: [
+    { maxLtvPercent: 80, minDscr: 1.25 },
+    { maxLtvPercent: 70, minDscr: 1.1 },
+  ],
+  lowDscrRateAddOn: 0.5,
+  smallLoanAmount: 100000,
+  smallLoanRateAddOn: 0.25,
+  prepayPenaltySchedule: [5, 4, 3],
+  fallbackToCash: false,
+  rateSheet: null,
+};
+
+const dscrProgram: LoanProgram = {
+  id: 'dscr-30',
+  name: 'DSCR 30-year',
+  type: 'dscr',
+  enabled: true,
+  downPaymentPercent: 25,
+  interestRate: 7.5,
+  loanTermYears: 30,
+  interestOnlyMonths: 0,
+  balloonMonths: null,
+  rateResetMonths: null,
+  resetRate: null,
+  closingCostPercent: null,
+};
+
+const conventionalProgram: LoanProgram = { ...dscrProgram, id: 'conventional', name: 'Conventional', type: 'conventional', interestRate: 7 };
+
+// Low enough rent that the DSCR loan misses its tier
+const weakInput: UnderwritingInput = { ...input, rent: 900 };
+
+describe('getRequiredDscr', () => {
+  it('uses the lowest tier whose LTV cap covers the loan', () => {
+    expect(getRequiredDscr(65, rules.dscrTiers)).toBe(1.1);
+    expect(getRequiredDscr(75, rules.dscrTiers)).toBe(1.25);
+    expect(getRequiredDscr(85, rules.dscrTiers)).toBeNull();
+  });
+});
+
+describe('getPrepaymentPenaltyPercent', () => {
+  it('charges the loan year penalty and nothing after the schedule', () => {
+    expect(getPrepaymentPenaltyPercent(rules.prepayPenaltySchedule, 6)).toBe(5);
+    expect(getPrepaymentPenaltyPercent(rules.prepayPenaltySchedule, 12)).toBe(4);
+    expect(getPrepaymentPenaltyPercent(rules.prepayPenaltySchedule, 36)).toBe(0);
+  });
+});
+
+describe('checkLenderQualification', () => {
+  it('adds the small-loan add-on and qualifies a loan that meets its tier', () => {
+    const { verdict, input: priced } = checkLenderQualification(input, rules);
+
+    expect(verdict.loanAmount).toBe(75000);
+    expect(verdict.ltvPercent).toBe(75);
+    expect(verdict.rateAddOn).toBe(0.25);
+    expect(priced.interestRate).toBe(7.75);
+    expect(verdict.financeable).toBe(true);
+    expect(verdict.reasons).toEqual([]);
+  });
+
+  it('lists every rule the loan breaks', () => {
+    const { verdict } = checkLenderQualification(
+      { ...weakInput, purchasePrice: 50000, downPaymentPercent: 10 },
+      rules
+    );
+
+    expect(verdict.financeable).toBe(false);
+    expect(verdict.reasons).toEqual([
+      'Loan $45,000 is below the $50,000 minimum',
+      'LTV 90% exceeds the 80% maximum',
+      'No DSCR tier covers 90% LTV',
+    ]);
+  });
+
+  it('re-prices when the small-loan add-on pushes DSCR under 1.0', () => {
+    // DSCR 1.01 at the note rate, under 1.0 once the small-loan add-on applies
+    const { verdict } = checkLenderQualification({ ...input, rent: 915 }, rules);
+
+    expect(verdict.rateAddOn).toBe(0.75);
+    expect(verdict.dscr).toBeLessThan(1.0);
+    expect(verdict.financeable).toBe(false);
+  });
+});
+
+describe('applyLenderRules', () => {
+  it('keeps an unfinanceable DSCR program flagged when the rules do not fall back to cash', () => {
+    const { programs, verdict } = applyLenderRules(weakInput, [dscrProgram], rules);
+
+    expect(programs.map(p => p.id)).toEqual(['dscr-30']);
+    expect(programs[0].interestRate).toBe(verdict!.adjustedRate);
+    expect(verdict!.financeable).toBe(false);
+  });
+
+  it('falls back to cash and still returns the DSCR verdict', () => {
+    const { programs, verdict } = applyLenderRules(weakInput, [dscrProgram], { ...rules, fallbackToCash: true });
+
+    expect(programs).toHaveLength(1);
+    expect(programs[0]).toMatchObject({ id: 'cash-fallback', type: 'cash', downPaymentPercent: 100 });
+    expect(verdict!.financeable).toBe(false);
+    expect(verdict!.reasons.length).toBeGreaterThan(0);
+  });
+
+  it('drops only the DSCR program when another program is left', () => {
+    const { programs, verdict } = applyLenderRules(weakInput, [dscrProgram, conventionalProgram], { ...rules, fallbackToCash: true });
+
+    expect(programs.map(p => p.id)).toEqual(['conventional']);
+    expect(verdict!.financeable).toBe(false);
+  });
+
+  it('has no verdict without a DSCR program', () => {
+    expect(applyLenderRules(input, [conventionalProgram], rules)).toEqual({ programs: [conventionalProgram], verdict: null });
+  });
+});
+
+describe('getRankingFlags', () => {
+  const analysis = (overrides: Partial<Analysis>) => ({
+    financeable: false,
+    financingIssues: ['DSCR 0.92 is below the 1.25 required at 75% LTV'],
+    loanProgramType: 'dscr',
+    loanProgramName: 'DSCR 30-year',
+    failsStress: false,
+    stressFailures: [],
+    ...overrides,
+  }) as Analysis;
+
+  it('flags a deal underwritten as all cash because the DSCR loan failed', () => {
+    expect(getRankingFlags(analysis({ loanProgramType: 'cash', loanProgramName: 'All cash (not financeable)' }))).toEqual([
+      'DSCR loan not financeable, underwritten as all cash: DSCR 0.92 is below the 1.25 required at 75% LTV',
+    ]);
+  });
+
+  it('flags a DSCR deal that was kept despite failing', () => {
+    expect(getRankingFlags(analysis({}))).toEqual([
+      'DSCR loan not financeable: DSCR 0.92 is below the 1.25 required at 75% LTV',
+    ]);
+  });
+
+  it('does not flag a financeable deal', () => {
+    expect(getRankingFlags(analysis({ financeable: true, financingIssues: [] }))).toEqual([]);
+  });
+});
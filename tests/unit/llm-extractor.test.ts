@@ -0,0 +1,54 @@
+import { createLlmExtractor, parseExtractedProperties, readApiError } from '../../lib/llm/extractor';
+
+describe('readApiError', () => {
+  it('uses the API error message from a JSON body', async () => {
+    const response = new Response(JSON.stringify({ error: { type: 'overloaded_error', message: 'Overloaded' } }), { status: 529 });
+
+    await expect(readApiError(response)).resolves.toBe('Overloaded');
+  });
+
+  it('falls back to the text of a non-JSON body', async () => {
+    const response = new Response('<html>502 Bad Gateway</html>', { status: 502 });
+
+    await expect(readApiError(response)).resolves.toBe('<html>502 Bad Gateway</html>');
+  });
+
+  it('falls back to the status text for an empty body', async () => {
+    const response = new Response('', { status: 503, statusText: 'Service Unavailable' });
+
+    await expect(readApiError(response)).resolves.toBe('Service Unavailable');
+  });
+});
+
+describe('parseExtractedProperties', () => {
+  it('reads a raw array and a properties wrapper alike', () => {
+    const listing = { address: '1611 15th Ave N', askingPrice: 110000 };
+
+    expect(parseExtractedProperties(JSON.stringify([listing]), 1)).toHaveLength(1);
+    expect(parseExtractedProperties(JSON.stringify({ properties: [listing] }), 1)).toHaveLength(1);
+  });
+
+  it('returns no properties for a null or scalar reply', () => {
+    expect(parseExtractedProperties('null', 1)).toEqual([]);
+    expect(parseExtractedProperties('42', 1)).toEqual([]);
+    expect(parseExtractedProperties('"no listings"', 1)).toEqual([]);
+  });
+
+  it('skips list entries that are not objects', () => {
+    const properties = parseExtractedProperties(JSON.stringify([null, 'x', { address: '2204 Avenue F' }]), 1);
+
+    expect(properties.map(p => p.address)).toEqual(['2204 Avenue F']);
+  });
+});
+
+describe('verifyExtractedProperties', () => {
+  it('returns no corrections for a null reply', async () => {
+    const extractor = createLlmExtractor('fixture', 'fixture', async () => ({ content: 'null', usage: null }));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(extractor.verifyExtractedProperties([{ address: '2204 Avenue F' }], Buffer.from(''), 1))
+      .resolves.toEqual({ corrections: [] });
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,76 @@
+import path from 'path';
+import { getDefaultSettings } from '../../lib/filter/engine';
+import { getLlmExtractor } from '../../lib/llm/providers';
+
+const fixtureDir = path.join(__dirname, '../fixtures/llm');
+const image = Buffer.from('');
+
+function getFixtureExtractor() {
+  const extractor = getLlmExtractor({ ...getDefaultSettings(), llmProvider: 'fixture', llmFixtureDir: fixtureDir });
+  if (!extractor) throw new Error('Fixture provider not configured');
+  return extractor;
+}
+
+describe('fixture LLM provider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is configured without an API key', () => {
+    const extractor = getFixtureExtractor();
+
+    expect(extractor.provider).toBe('fixture');
+    expect(extractor.model).toBe('fixture');
+  });
+
+  it('replays the recorded extraction for a page', async () => {
+    const { properties, usage } = await getFixtureExtractor().extractPropertiesWithRetry(image, 1);
+
+    expect(usage).toBeNull();
+    expect(properties.map(p => p.address)).toEqual(['1611 15th Ave N', '1340 43rd Street']);
+    expect(properties[0]).toMatchObject({
+      sourcePage: 1,
+      askingPrice: 110000,
+      rent: 1400,
+      rentMin: 1300,
+      rentMax: 1400,
+      needsManualReview: false,
+    });
+    expect(properties[0].provenance?.askingPrice).toMatchObject({ method: 'llm', page: 1, confidence: 95 });
+
+    // Low asking price confidence flags the listing for review
+    expect(properties[1].needsManualReview).toBe(true);
+  });
+
+  it('reads a reply wrapped in a markdown code fence', async () => {
+    const { properties } = await getFixtureExtractor().extractPropertiesWithLLM(image, 2);
+
+    expect(properties).toHaveLength(1);
+    expect(properties[0]).toMatchObject({ address: '2204 Avenue F', askingPrice: 65000, rehabNeeded: 20000 });
+  });
+
+  it('replays the recorded verification corrections', async () => {
+    const extractor = getFixtureExtractor();
+    const { properties } = await extractor.extractPropertiesWithLLM(image, 1);
+    const { corrections } = await extractor.verifyExtractedProperties(properties, image, 1);
+
+    expect(corrections).toEqual([
+      expect.objectContaining({ address: '1340 43rd Street', field: 'askingPrice', actual: 85000 }),
+    ]);
+  });
+
+  it('returns no corrections for a page without a verify fixture', async () => {
+    const extractor = getFixtureExtractor();
+    const { properties } = await extractor.extractPropertiesWithLLM(image, 2);
+
+    await expect(extractor.verifyExtractedProperties(properties, image, 2)).resolves.toEqual({ corrections: [] });
+  });
+
+  it('fails without retrying when a page has no extraction fixture', async () => {
+    await expect(getFixtureExtractor().extractPropertiesWithRetry(image, 3)).rejects.toThrow('No LLM fixture for page 3');
+  });
+});
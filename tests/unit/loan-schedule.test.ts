@@ -0,0 +1,145 @@
+import {
+  calculateAnnualInterest,
+  calculateBalloonPayment,
+  calculateMonthlyPI,
+  calculatePaymentAtMonth,
+  calculateProgramComparison,
+  calculateRemainingBalance,
+  calculateUnderwriting,
+} from '../../lib/underwriting/calculator';
+import type { LoanProgram, UnderwritingInput } from '../../lib/types';
+
+const baseInput: UnderwritingInput = {
+  purchasePrice: 100000,
+  rent: 1400,
+  downPaymentPercent: 20,
+  closingCostPercent: 3,
+  interestRate: 6,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+};
+
+const program = (overrides: Partial<LoanProgram> & Pick<LoanProgram, 'id' | 'type'>): LoanProgram => ({
+  name: overrides.id,
+  enabled: true,
+  downPaymentPercent: 20,
+  interestRate: 7,
+  loanTermYears: 30,
+  interestOnlyMonths: 0,
+  balloonMonths: null,
+  rateResetMonths: null,
+  resetRate: null,
+  closingCostPercent: null,
+  ...overrides,
+});
+
+describe('fixed-rate schedule', () => {
+  it('matches the standard amortization payment', () => {
+    expect(calculateMonthlyPI(100000, 0.06, 30)).toBe(599.55);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 1)).toBe(599.55);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 360)).toBe(599.55);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 361)).toBe(0);
+  });
+
+  it('pays the balance down to zero over the term', () => {
+    expect(calculateRemainingBalance(100000, 0.06, 30, 0)).toBe(100000);
+    expect(calculateRemainingBalance(100000, 0.06, 30, 180)).toBeCloseTo(71048.84, 0);
+    expect(calculateRemainingBalance(100000, 0.06, 30, 360)).toBe(0);
+  });
+});
+
+describe('interest-only schedule', () => {
+  const structure = { interestOnlyMonths: 120 };
+
+  it('charges interest only, then amortizes over the rest of the term', () => {
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 1, structure)).toBe(500);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 120, structure)).toBe(500);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 121, structure)).toBe(calculateMonthlyPI(100000, 0.06, 20));
+  });
+
+  it('keeps the full balance through the interest-only period', () => {
+    expect(calculateRemainingBalance(100000, 0.06, 30, 120, structure)).toBe(100000);
+    expect(calculateRemainingBalance(100000, 0.06, 30, 121, structure)).toBeLessThan(100000);
+    expect(calculateAnnualInterest(100000, 0.06, 30, 1, structure)).toBe(6000);
+  });
+
+  it('underwrites on the interest-only payment and surfaces the adjusted one', () => {
+    const result = calculateUnderwriting({ ...baseInput, loanStructure: structure });
+
+    expect(result.monthlyPI).toBe(400);
+    expect(result.adjustedMonthlyPI).toBe(calculateMonthlyPI(80000, 0.06, 20));
+  });
+});
+
+describe('balloon schedule', () => {
+  const structure = { balloonMonths: 60 };
+
+  it('comes due at the amortized balance and stops the payments', () => {
+    const balloon = calculateBalloonPayment(100000, 0.06, 30, structure);
+
+    expect(balloon).toBe(calculateRemainingBalance(100000, 0.06, 30, 60));
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 60, structure)).toBe(599.55);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 61, structure)).toBe(0);
+    expect(calculateRemainingBalance(100000, 0.06, 30, 60, structure)).toBe(0);
+  });
+
+  it('is zero for a fully amortizing loan', () => {
+    expect(calculateBalloonPayment(100000, 0.06, 30)).toBe(0);
+  });
+});
+
+describe('ARM schedule', () => {
+  const structure = { rateResetMonths: 60, resetRate: 9 };
+
+  it('re-amortizes the balance at the reset rate over the remaining term', () => {
+    const balanceAtReset = calculateRemainingBalance(100000, 0.06, 30, 60);
+
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 60, structure)).toBe(599.55);
+    expect(calculatePaymentAtMonth(100000, 0.06, 30, 61, structure)).toBe(calculateMonthlyPI(balanceAtReset, 0.09, 25));
+    expect(calculateRemainingBalance(100000, 0.06, 30, 360, structure)).toBe(0);
+  });
+
+  it('keeps the start rate through the fixed period', () => {
+    expect(calculateRemainingBalance(100000, 0.06, 30, 60, structure)).toBe(calculateRemainingBalance(100000, 0.06, 30, 60));
+  });
+});
+
+describe('calculateProgramComparison', () => {
+  it('picks the program with the best cash-on-cash return at the adjusted payment', () => {
+    const { best, results } = calculateProgramComparison(baseInput, [
+      program({ id: 'dscr', type: 'dscr', interestRate: 7.5 }),
+      program({ id: 'conventional', type: 'conventional', interestRate: 6.5 }),
+    ]);
+
+    expect(results.map(r => r.programId)).toEqual(['dscr', 'conventional']);
+    expect(best.id).toBe('conventional');
+  });
+
+  it('does not let a teaser rate win on its first payment alone', () => {
+    const { best } = calculateProgramComparison(baseInput, [
+      program({ id: 'fixed', type: 'dscr', interestRate: 7 }),
+      program({ id: 'arm', type: 'arm', interestRate: 5, rateResetMonths: 12, resetRate: 10 }),
+    ]);
+
+    expect(best.id).toBe('fixed');
+  });
+
+  it('excludes a balloon due within the horizon unless a refinance comes first', () => {
+    const programs = [
+      program({ id: 'dscr', type: 'dscr', interestRate: 8 }),
+      program({ id: 'seller', type: 'seller-finance', interestRate: 4, balloonMonths: 60 }),
+    ];
+
+    expect(calculateProgramComparison(baseInput, programs, { horizonMonths: 120 }).best.id).toBe('dscr');
+    expect(calculateProgramComparison(baseInput, programs, { horizonMonths: 120, refinanceSeasoningMonths: 12 }).best.id).toBe('seller');
+    expect(calculateProgramComparison(baseInput, programs, { horizonMonths: 36 }).best.id).toBe('seller');
+  });
+
+  it('requires at least one program', () => {
+    expect(() => calculateProgramComparison(baseInput, [])).toThrow('At least one loan program is required');
+  });
+});
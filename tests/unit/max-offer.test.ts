@@ -0,0 +1,95 @@
+import { calculateMaxAllowableOffer, calculateUnderwriting } from '../../lib/underwriting/calculator';
+import type { OfferTargets, UnderwritingInput } from '../../lib/types';
+
+const input: UnderwritingInput = {
+  purchasePrice: 0,
+  rent: 1200,
+  downPaymentPercent: 20,
+  closingCostPercent: 3,
+  interestRate: 7.5,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+};
+
+const targets: OfferTargets = {
+  minDscr: 1.25,
+  minMonthlyCashflow: 200,
+  minCocReturn: 8,
+  seventyPercentRule: false,
+};
+
+const underwriteAt = (price: number) => calculateUnderwriting({ ...input, purchasePrice: price });
+
+describe('calculateMaxAllowableOffer', () => {
+  it('finds the highest whole-dollar price that still meets each target', () => {
+    const { limits } = calculateMaxAllowableOffer(input, targets, null);
+
+    expect(underwriteAt(limits.dscr!).dscr).toBeGreaterThanOrEqual(1.25);
+    expect(underwriteAt(limits.dscr! + 1).dscr).toBeLessThan(1.25);
+    expect(underwriteAt(limits.cashflow!).netCashflow).toBeGreaterThanOrEqual(200);
+    expect(underwriteAt(limits.cashflow! + 1).netCashflow).toBeLessThan(200);
+    expect(underwriteAt(limits.cocReturn!).cocReturn).toBeGreaterThanOrEqual(8);
+    expect(underwriteAt(limits.cocReturn! + 1).cocReturn).toBeLessThan(8);
+    expect(limits.seventyPercentRule).toBeNull();
+  });
+
+  it('offers the lowest limit and names the target that binds', () => {
+    const { maxOffer, bindingConstraint, limits } = calculateMaxAllowableOffer(input, targets, null);
+    const lowest = Math.min(limits.dscr!, limits.cashflow!, limits.cocReturn!);
+
+    expect(maxOffer).toBe(lowest);
+    expect(limits[bindingConstraint!]).toBe(lowest);
+  });
+
+  it('caps the offer at 70% of ARV less rehab', () => {
+    const { maxOffer, bindingConstraint, limits } = calculateMaxAllowableOffer(
+      { ...input, rehabCost: 15000 },
+      { ...targets, seventyPercentRule: true },
+      60000
+    );
+
+    expect(limits.seventyPercentRule).toBe(27000);
+    expect(maxOffer).toBe(27000);
+    expect(bindingConstraint).toBe('seventyPercentRule');
+  });
+
+  it('skips the DSCR target for an all-cash purchase', () => {
+    const { limits } = calculateMaxAllowableOffer({ ...input, downPaymentPercent: 100 }, targets, null);
+
+    expect(limits.dscr).toBeNull();
+  });
+
+  it('offers nothing when a target fails at any price', () => {
+    const { maxOffer, bindingConstraint } = calculateMaxAllowableOffer(input, { ...targets, minMonthlyCashflow: 5000 }, null);
+
+    expect(maxOffer).toBe(0);
+    expect(bindingConstraint).toBe('cashflow');
+  });
+
+  it('reports no limit instead of the search ceiling when every target holds there', () => {
+    const result = calculateMaxAllowableOffer(
+      input,
+      { minDscr: 0, minMonthlyCashflow: -1_000_000, minCocReturn: -1_000_000, seventyPercentRule: false },
+      null
+    );
+
+    expect(result.limits).toEqual({ dscr: null, cashflow: null, cocReturn: null, seventyPercentRule: null });
+    expect(result.maxOffer).toBeNull();
+    expect(result.bindingConstraint).toBeNull();
+  });
+
+  it('still applies the 70% rule when the other targets set no limit', () => {
+    const { maxOffer, bindingConstraint } = calculateMaxAllowableOffer(
+      input,
+      { minDscr: 0, minMonthlyCashflow: -1_000_000, minCocReturn: -1_000_000, seventyPercentRule: true },
+      100000
+    );
+
+    expect(maxOffer).toBe(70000);
+    expect(bindingConstraint).toBe('seventyPercentRule');
+  });
+});
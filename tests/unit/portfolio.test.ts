@@ -0,0 +1,134 @@
+import { optimizePortfolio, type PortfolioConstraints } from '../../lib/ranking/portfolio';
+import type { RankedProperty } from '../../lib/ranking/scorer';
+import type { Analysis, Property } from '../../lib/types';
+
+interface Deal {
+  id: string;
+  cost: number;
+  cashflow: number;
+  zip?: string;
+  monthlyPI?: number;
+  annualNOI?: number;
+}
+
+// Ranked in the order given; metrics differ from analysis to check the optimizer reads metrics
+function rank(deals: Deal[]): RankedProperty[] {
+  return deals.map((deal, i) => {
+    const metrics = {
+      totalInvestment: deal.cost,
+      annualCashflow: deal.cashflow,
+      netCashflow: deal.cashflow / 12,
+      totalReturn10yr: deal.cashflow * 10,
+      monthlyPI: deal.monthlyPI ?? 0,
+      annualNOI: deal.annualNOI ?? 0,
+    } as Analysis;
+
+    return {
+      property: { id: deal.id, zip: deal.zip ?? null } as Property,
+      analysis: { ...metrics, annualCashflow: 0, totalReturn10yr: 0 },
+      metrics,
+      score: 100 - i,
+      rank: i + 1,
+      flags: [],
+      breakdown: {} as RankedProperty['breakdown'],
+    };
+  });
+}
+
+const constraints: PortfolioConstraints = { capital: 100000, maxProperties: 10, maxPerZip: null, objective: 'cashflow' };
+
+const ids = (selected: RankedProperty[]) => selected.map(r => r.property.id);
+
+describe('optimizePortfolio', () => {
+  it('finds the best basket where taking the best ratio first falls short', () => {
+    const ranked = rank([
+      { id: 'a', cost: 60000, cashflow: 7000 },
+      { id: 'b', cost: 50000, cashflow: 5000 },
+      { id: 'c', cost: 50000, cashflow: 5000 },
+    ]);
+
+    const result = optimizePortfolio(ranked, constraints);
+
+    expect(ids(result.selected)).toEqual(['b', 'c']);
+    expect(result.totalAnnualCashflow).toBe(10000);
+    expect(result.capitalUsed).toBe(100000);
+    expect(result.capitalRemaining).toBe(0);
+    expect(result.optimal).toBe(true);
+  });
+
+  it('respects the property count limit', () => {
+    const ranked = rank([
+      { id: 'a', cost: 20000, cashflow: 3000 },
+      { id: 'b', cost: 20000, cashflow: 2000 },
+      { id: 'c', cost: 20000, cashflow: 4000 },
+    ]);
+
+    expect(ids(optimizePortfolio(ranked, { ...constraints, maxProperties: 2 }).selected)).toEqual(['a', 'c']);
+  });
+
+  it('respects the per-ZIP limit', () => {
+    const ranked = rank([
+      { id: 'a', cost: 20000, cashflow: 4000, zip: '35203' },
+      { id: 'b', cost: 20000, cashflow: 3000, zip: '35203-1234' },
+      { id: 'c', cost: 20000, cashflow: 1000, zip: '35204' },
+    ]);
+
+    expect(ids(optimizePortfolio(ranked, { ...constraints, maxPerZip: 1 }).selected)).toEqual(['a', 'c']);
+  });
+
+  it('skips properties that lose money or cost more than the budget', () => {
+    const ranked = rank([
+      { id: 'a', cost: 20000, cashflow: -500 },
+      { id: 'b', cost: 150000, cashflow: 20000 },
+      { id: 'c', cost: 20000, cashflow: 1000 },
+    ]);
+
+    expect(ids(optimizePortfolio(ranked, constraints).selected)).toEqual(['c']);
+  });
+
+  it('selects nothing without capital', () => {
+    const ranked = rank([{ id: 'a', cost: 20000, cashflow: 1000 }]);
+
+    expect(optimizePortfolio(ranked, { ...constraints, capital: 0 }).selected).toEqual([]);
+  });
+
+  it('combines DSCR from total NOI over total debt service', () => {
+    const ranked = rank([
+      { id: 'a', cost: 20000, cashflow: 3000, monthlyPI: 500, annualNOI: 9000 },
+      { id: 'b', cost: 30000, cashflow: 2000, monthlyPI: 1000, annualNOI: 14000 },
+    ]);
+
+    const result = optimizePortfolio(ranked, constraints);
+
+    expect(result.combinedDscr).toBe(1.28);
+    expect(result.totalReturn10yr).toBe(50000);
+    expect(result.totalScore).toBe(199);
+  });
+
+  it('matches an exhaustive search on a larger set', () => {
+    let seed = 7;
+    const next = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+    const deals = Array.from({ length: 14 }, (_, i) => ({
+      id: `p${i}`,
+      cost: Math.round(15000 + next() * 45000),
+      cashflow: Math.round(500 + next() * 6000),
+      zip: `3520${i % 3}`,
+    }));
+    const limits = { ...constraints, capital: 150000, maxProperties: 5, maxPerZip: 2 };
+
+    let bestValue = 0;
+    for (let mask = 0; mask < 1 << deals.length; mask++) {
+      const picked = deals.filter((_, i) => mask & (1 << i));
+      const zips = new Map<string, number>();
+      picked.forEach(d => zips.set(d.zip, (zips.get(d.zip) ?? 0) + 1));
+      if (picked.length > limits.maxProperties || [...zips.values()].some(n => n > limits.maxPerZip)) continue;
+      if (picked.reduce((sum, d) => sum + d.cost, 0) > limits.capital) continue;
+      bestValue = Math.max(bestValue, picked.reduce((sum, d) => sum + d.cashflow, 0));
+    }
+
+    const result = optimizePortfolio(rank(deals), limits);
+
+    expect(result.totalAnnualCashflow).toBe(bestValue);
+    expect(result.optimal).toBe(true);
+  });
+});
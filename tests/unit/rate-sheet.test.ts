@@ -0,0 +1,100 @@
+import { calculateUnderwriting } from '../../lib/underwriting/calculator';
+import { checkLenderQualification, findRateSheetTier, formatRateSheetTier } from '../../lib/underwriting/lender';
+import { DEFAULT_RATE_SHEET, type LenderRules, type RateSheetTier, type UnderwritingInput } from '../../lib/types';
+
+const input: UnderwritingInput = {
+  purchasePrice: 160000,
+  rent: 1600,
+  downPaymentPercent: 25,
+  closingCostPercent: 3,
+  interestRate: 7.5,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+};
+
+const rules = (rateSheet: RateSheetTier[]): LenderRules => ({
+  minLoanAmount: 50000,
+  maxLtvPercent: 80,
+  dscrTiers: [{ maxLtvPercent: 80, minDscr: 0.75 }],
+  lowDscrRateAddOn: 0.5,
+  smallLoanAmount: 100000,
+  smallLoanRateAddOn: 0.25,
+  prepayPenaltySchedule: [],
+  fallbackToCash: false,
+  rateSheet,
+});
+
+describe('findRateSheetTier', () => {
+  it('prices by the tightest cell the loan falls in', () => {
+    expect(findRateSheetTier(1.3, 65, 120000, DEFAULT_RATE_SHEET)).toEqual(
+      { minDscr: 1.25, maxLtvPercent: 70, minLoanAmount: 100000, rateAdjustment: -0.25 }
+    );
+    expect(findRateSheetTier(1.1, 75, 80000, DEFAULT_RATE_SHEET)).toEqual(
+      { minDscr: 1.0, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 0.75 }
+    );
+  });
+
+  it('returns null when no cell covers the loan', () => {
+    expect(findRateSheetTier(0.6, 75, 120000, DEFAULT_RATE_SHEET)).toBeNull();
+    expect(findRateSheetTier(1.3, 85, 120000, DEFAULT_RATE_SHEET)).toBeNull();
+  });
+
+  it('labels a cell', () => {
+    expect(formatRateSheetTier(DEFAULT_RATE_SHEET[0])).toBe('DSCR 1.25+ / LTV ≤ 70% / $100,000+');
+  });
+});
+
+describe('rate sheet pricing', () => {
+  it('prices the loan from the cell its DSCR lands in', () => {
+    const { verdict, input: priced } = checkLenderQualification(input, rules(DEFAULT_RATE_SHEET));
+
+    expect(verdict.pricingTier).toEqual({ minDscr: 1.0, maxLtvPercent: 80, minLoanAmount: 100000, rateAdjustment: 0.5 });
+    expect(verdict.rateAddOn).toBe(0.5);
+    expect(priced.interestRate).toBe(8);
+    expect(verdict.pricingConverged).toBe(true);
+  });
+
+  it('re-prices when the cell rate drops the DSCR into another cell', () => {
+    const baseDscr = calculateUnderwriting(input).dscr;
+    // The top cell's rate pushes DSCR under its floor; the next cell down prices it
+    const sheet: RateSheetTier[] = [
+      { minDscr: baseDscr, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 1 },
+      { minDscr: 0.5, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 1.5 },
+    ];
+
+    const { verdict } = checkLenderQualification(input, rules(sheet));
+
+    expect(verdict.pricingTier).toBe(sheet[1]);
+    expect(verdict.adjustedRate).toBe(9);
+    expect(verdict.pricingConverged).toBe(true);
+  });
+
+  it('stops a pricing cycle between cells at the higher rate', () => {
+    const baseDscr = calculateUnderwriting(input).dscr;
+    // At the note rate the loan lands in the +2 cell; at +2 it drops into the
+    // no-adjustment cell, which puts it back in the +2 cell
+    const sheet: RateSheetTier[] = [
+      { minDscr: baseDscr, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 2 },
+      { minDscr: 0.5, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 0 },
+    ];
+
+    const { verdict } = checkLenderQualification(input, rules(sheet));
+
+    expect(verdict.pricingConverged).toBe(false);
+    expect(verdict.pricingTier).toBe(sheet[0]);
+    expect(verdict.adjustedRate).toBe(9.5);
+    expect(verdict.rateAddOn).toBe(2);
+  });
+
+  it('does not qualify a loan no cell prices', () => {
+    const { verdict } = checkLenderQualification(input, rules([{ minDscr: 2, maxLtvPercent: 80, minLoanAmount: 0, rateAdjustment: 0 }]));
+
+    expect(verdict.pricingTier).toBeNull();
+    expect(verdict.financeable).toBe(false);
+    expect(verdict.reasons[0]).toMatch(/^No rate sheet tier prices DSCR/);
+  });
+});
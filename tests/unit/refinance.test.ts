@@ -0,0 +1,88 @@
+import { calculateRefinance, calculateRemainingBalance, calculateUnderwriting } from '../../lib/underwriting/calculator';
+import type { RefinanceInput, UnderwritingInput } from '../../lib/types';
+
+const input: UnderwritingInput = {
+  purchasePrice: 80000,
+  rent: 1200,
+  downPaymentPercent: 20,
+  closingCostPercent: 3,
+  interestRate: 7,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+  rehabCost: 20000,
+};
+
+const refinance: RefinanceInput = {
+  arv: 130000,
+  ltvPercent: 75,
+  interestRate: 7.5,
+  loanTermYears: 30,
+  seasoningMonths: 6,
+  closingCostPercent: 2,
+};
+
+describe('calculateUnderwriting with rehab', () => {
+  it('funds rehab in cash and adds it to the all-in basis', () => {
+    const purchase = calculateUnderwriting(input);
+
+    expect(purchase.loanAmount).toBe(64000);
+    expect(purchase.totalInvestment).toBe(16000 + 2400 + 20000);
+    expect(purchase.allInCost).toBe(80000 + 2400 + 20000);
+  });
+});
+
+describe('calculateRefinance', () => {
+  it('pays off the seasoned purchase loan from the new loan at ARV x LTV', () => {
+    const purchase = calculateUnderwriting(input);
+    const result = calculateRefinance(input, purchase, refinance);
+
+    expect(result.refiLoanAmount).toBe(97500);
+    expect(result.refiClosingCosts).toBe(1950);
+    expect(result.refiLoanPayoff).toBe(calculateRemainingBalance(64000, 0.07, 30, 6));
+    expect(result.prepaymentPenalty).toBe(0);
+
+    const cashOut = 97500 - result.refiLoanPayoff - 1950;
+    expect(result.cashRecouped).toBeCloseTo(cashOut, 2);
+    expect(result.cashLeftInDeal).toBeCloseTo(purchase.totalInvestment - cashOut, 2);
+  });
+
+  it('reports an infinite return when all the cash comes back and the deal still cashflows', () => {
+    const purchase = calculateUnderwriting(input);
+    const result = calculateRefinance(input, purchase, { ...refinance, arv: 140000 });
+
+    expect(result.cashLeftInDeal).toBeLessThanOrEqual(0);
+    expect(result.postRefiCashflow).toBeGreaterThan(0);
+    expect(result.infiniteReturn).toBe(true);
+    expect(result.postRefiCocReturn).toBe(0);
+  });
+
+  it('leaves more cash in the deal than was invested on a short refi', () => {
+    const purchase = calculateUnderwriting(input);
+    const result = calculateRefinance(input, purchase, { ...refinance, arv: 70000 });
+
+    expect(result.cashRecouped).toBe(0);
+    expect(result.cashLeftInDeal).toBeGreaterThan(purchase.totalInvestment);
+    expect(result.infiniteReturn).toBe(false);
+  });
+
+  it('charges the prepayment penalty on the payoff', () => {
+    const purchase = calculateUnderwriting(input);
+    const base = calculateRefinance(input, purchase, refinance);
+    const result = calculateRefinance(input, purchase, { ...refinance, prepaymentPenaltyPercent: 3 });
+
+    expect(result.prepaymentPenalty).toBeCloseTo(base.refiLoanPayoff * 0.03, 2);
+    expect(result.cashLeftInDeal).toBeCloseTo(base.cashLeftInDeal + result.prepaymentPenalty, 2);
+  });
+
+  it('pays off a balloon loan at its amortized balance before the balloon', () => {
+    const balloonInput = { ...input, loanStructure: { balloonMonths: 6 } };
+    const purchase = calculateUnderwriting(balloonInput);
+    const result = calculateRefinance(balloonInput, purchase, refinance);
+
+    expect(result.refiLoanPayoff).toBe(calculateRemainingBalance(64000, 0.07, 30, 6));
+  });
+});
@@ -0,0 +1,101 @@
+import { createRandom, getPercentileBand, runMonteCarlo } from '../../lib/forecast/simulation';
+import type { ExitAssumptions, ForecastInput, MonteCarloAssumptions } from '../../lib/types';
+
+const input: ForecastInput = {
+  purchasePrice: 90000,
+  loanAmount: 72000,
+  monthlyRent: 1300,
+  annualTaxes: 1080,
+  annualInsurance: 1200,
+  pmFeePercent: 10,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+  appreciationPercent: 3,
+  rentGrowthPercent: 2,
+  expenseInflationPercent: 2.5,
+  interestRate: 8,
+  loanTermYears: 30,
+};
+
+const exitAssumptions: ExitAssumptions = {
+  sellingCostPercent: 7,
+  costBasis: 95000,
+  taxes: null,
+};
+
+const assumptions: MonteCarloAssumptions = {
+  trials: 200,
+  seed: 42,
+  appreciationPercent: { mean: 3, stdDev: 2 },
+  rentGrowthPercent: { mean: 2, stdDev: 1 },
+  expenseInflationPercent: { mean: 2.5, stdDev: 1 },
+  vacancyMonths: { mean: 0.6, stdDev: 0.75 },
+  capexProbabilityPercent: 10,
+  capexCost: 5000,
+};
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const first = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(first);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('gives identical bands for the same seed', () => {
+    const first = runMonteCarlo(input, 20000, exitAssumptions, assumptions);
+    const second = runMonteCarlo(input, 20000, exitAssumptions, assumptions);
+
+    expect(second).toEqual(first);
+    expect(first.snapshots.map(snapshot => snapshot.year)).toEqual([5, 10, 20]);
+  });
+
+  it('pins the P10 / P50 / P90 bands for seed 42', () => {
+    const { snapshots } = runMonteCarlo(input, 20000, exitAssumptions, assumptions);
+
+    expect(snapshots[1]).toEqual({
+      year: 10,
+      equity: { p10: 49122.97, p50: 57283.18, p90: 66239.09 },
+      cumulativeCashflow: { p10: 33260.23, p50: 40755.68, p90: 48499.86 },
+      irr: { p10: 20.22, p50: 23.99, p90: 26.36 },
+    });
+    expect(snapshots[2].equity).toEqual({ p10: 102389.51, p50: 118011.55, p90: 136429.72 });
+  });
+
+  it('changes the bands for a different seed', () => {
+    const first = runMonteCarlo(input, 20000, exitAssumptions, assumptions);
+    const other = runMonteCarlo(input, 20000, exitAssumptions, { ...assumptions, seed: 43 });
+
+    expect(other.seed).toBe(43);
+    expect(other.snapshots[1].equity).not.toEqual(first.snapshots[1].equity);
+    expect(other.snapshots[1].cumulativeCashflow).not.toEqual(first.snapshots[1].cumulativeCashflow);
+  });
+
+  it('orders each band P10 <= P50 <= P90', () => {
+    const { yearly } = runMonteCarlo(input, 20000, exitAssumptions, assumptions);
+
+    for (const { equity } of yearly) {
+      expect(equity.p10).toBeLessThanOrEqual(equity.p50);
+      expect(equity.p50).toBeLessThanOrEqual(equity.p90);
+    }
+  });
+});
+
+describe('getPercentileBand', () => {
+  it('interpolates between ranks', () => {
+    // Ranks 0.9, 4.5 and 8.1 of 1..10
+    expect(getPercentileBand([10, 1, 9, 2, 8, 3, 7, 4, 6, 5])).toEqual({ p10: 1.9, p50: 5.5, p90: 9.1 });
+  });
+
+  it('returns the value itself for a single sample and zeros for none', () => {
+    expect(getPercentileBand([250])).toEqual({ p10: 250, p50: 250, p90: 250 });
+    expect(getPercentileBand([])).toEqual({ p10: 0, p50: 0, p90: 0 });
+  });
+});
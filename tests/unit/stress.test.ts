@@ -0,0 +1,99 @@
+import { calculateUnderwriting } from '../../lib/underwriting/calculator';
+import { findBreakevenValue, runStressTest, setStressValue } from '../../lib/underwriting/stress';
+import type { StressShocks, UnderwritingInput } from '../../lib/types';
+
+const input: UnderwritingInput = {
+  purchasePrice: 100000,
+  rent: 1500,
+  downPaymentPercent: 25,
+  closingCostPercent: 3,
+  interestRate: 7,
+  loanTermYears: 30,
+  pmFeePercent: 10,
+  propertyTaxRate: 1.2,
+  insuranceAnnual: 1200,
+  vacancyPercent: 5,
+  maintenancePercent: 5,
+};
+
+const shocks: StressShocks = {
+  ratePoints: 2,
+  rentPercent: 10,
+  vacancyPoints: 5,
+  taxPercent: 20,
+  insurancePercent: 25,
+  pricePercent: 10,
+};
+
+describe('runStressTest', () => {
+  it('shocks each input at half and full adverse and favorable steps', () => {
+    const { sensitivities } = runStressTest(input, shocks, 1.0);
+    const rate = sensitivities.find(s => s.variable === 'rate')!;
+    const rent = sensitivities.find(s => s.variable === 'rent')!;
+
+    expect(sensitivities).toHaveLength(6);
+    expect(rate.baseValue).toBe(7);
+    expect(rate.points.map(p => [p.shock, p.value])).toEqual([[-2, 5], [-1, 6], [1, 8], [2, 9]]);
+    expect(rent.points.map(p => [p.shock, p.value])).toEqual([[10, 1650], [5, 1575], [-5, 1425], [-10, 1350]]);
+  });
+
+  it('measures each point against the base case', () => {
+    const base = calculateUnderwriting(input);
+    const { sensitivities } = runStressTest(input, shocks, 1.0);
+    const worstRate = sensitivities.find(s => s.variable === 'rate')!.points[3];
+    const stressed = calculateUnderwriting({ ...input, interestRate: 9 });
+
+    expect(worstRate.netCashflow).toBe(stressed.netCashflow);
+    expect(worstRate.cashflowDelta).toBeCloseTo(stressed.netCashflow - base.netCashflow, 2);
+    expect(worstRate.dscrDelta).toBeCloseTo(stressed.dscr - base.dscr, 2);
+  });
+
+  it('orders the sensitivities by cashflow swing', () => {
+    const swings = runStressTest(input, shocks, 1.0).sensitivities.map(s => s.cashflowSwing);
+
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+  });
+
+  it('passes a deal that survives every full adverse shock', () => {
+    const result = runStressTest(input, shocks, 1.0);
+
+    expect(result.failures).toEqual([]);
+    expect(result.failsUnderStress).toBe(false);
+  });
+
+  it('names each shock that breaks the deal', () => {
+    const result = runStressTest({ ...input, rent: 1100 }, shocks, 1.2);
+
+    expect(result.failsUnderStress).toBe(true);
+    expect(result.failures.some(f => f.startsWith('Rate +2 pts: '))).toBe(true);
+    expect(result.failures.some(f => f.startsWith('Rent -10%: '))).toBe(true);
+  });
+
+  it('skips the DSCR check for an all-cash deal', () => {
+    const result = runStressTest({ ...input, downPaymentPercent: 100 }, shocks, 1.2);
+
+    expect(result.base.dscr).toBe(0);
+    expect(result.failsUnderStress).toBe(false);
+  });
+});
+
+describe('findBreakevenValue', () => {
+  it('finds the input value where cashflow crosses zero', () => {
+    const rent = findBreakevenValue(input, 'rent')!;
+
+    expect(calculateUnderwriting({ ...input, rent: rent + 1 }).netCashflow).toBeGreaterThanOrEqual(0);
+    expect(calculateUnderwriting({ ...input, rent: rent - 1 }).netCashflow).toBeLessThan(0);
+  });
+
+  it('returns null when cashflow never changes sign', () => {
+    expect(findBreakevenValue({ ...input, downPaymentPercent: 100 }, 'rate')).toBeNull();
+  });
+});
+
+describe('setStressValue', () => {
+  it('moves an ARM reset rate with the note rate', () => {
+    const arm = { ...input, loanStructure: { rateResetMonths: 60, resetRate: 8.5 } };
+
+    expect(setStressValue(arm, 'rate', 9).loanStructure).toEqual({ rateResetMonths: 60, resetRate: 10.5 });
+  });
+});